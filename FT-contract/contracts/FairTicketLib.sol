@@ -0,0 +1,390 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import {Project, Participant, ProjectStatus, TicketTier} from "./Model.sol";
+import {IFairTicketEvents, IFairTicketErrors} from "./IFairTicket.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IVRFCoordinator, VRFV2PlusClient} from "./IVRFCoordinator.sol";
+
+// FairTicketBase 中创建项目、参与者记录、押金、门票档位以及请求VRF随机数的逻辑
+// 函数都声明为external，库单独部署，FairTicket 和 FairTicketUpgradeable 部署时需要链接库的地址
+// 通过delegatecall调用，读写的仍然是调用合约（或代理合约）的存储，把逻辑放在库中使可升级合约不超过24KB的大小限制
+// 权限、暂停和项目状态的检查仍然由 FairTicketBase 的修饰器完成，库函数只处理传入的存储
+// 错误和事件使用 IFairTicket.sol 中的定义，FairTicketBase 继承了同样的接口，解码时与合约ABI中的错误和事件一致
+library FairTicketLib {
+    using SafeERC20 for IERC20;
+
+    //// 项目 ////
+
+    // 创建项目 项目id由调用者传入，调用者负责递增 s_globalId
+    function createProject(
+        mapping(uint256 => Project) storage projects,
+        mapping(bytes32 => uint256) storage fingerprints,
+        uint256 _projectId,
+        bytes32 _fingerprint,
+        address _owner,
+        uint256 _totalSupply,
+        uint256 _startTime,
+        uint256 _endTime
+    ) external {
+        if (_totalSupply == 0) revert IFairTicketErrors.TotalSupplyZero();
+        if (_owner == address(0)) revert IFairTicketErrors.ProjectOwnerZero();
+        // fingerprint关联后端数据库中的项目，不能重复使用 项目取消后也不能再使用
+        uint256 existingId = fingerprints[_fingerprint];
+        if (existingId != 0)
+            revert IFairTicketErrors.FingerprintAlreadyUsed(existingId);
+        projects[_projectId] = Project({
+            id: _projectId,
+            fingerprint: _fingerprint,
+            owner: _owner,
+            totalSupply: _totalSupply,
+            projectStatus: ProjectStatus.NotStart,
+            merkleRoot: bytes32(0),
+            revealDeadline: 0,
+            startTime: _startTime,
+            endTime: _endTime,
+            tierCount: 0
+        });
+        fingerprints[_fingerprint] = _projectId;
+        emit IFairTicketEvents.ProjectCreated(_projectId, _fingerprint);
+    }
+
+    //// 参与者 ////
+    // 参与者同时记录在 participants 数组和 byAddr 中，index 为参与者在数组中的下标+1
+    // 以下函数的前三个参数都是同一个项目的 s_projectid_participants、s_projectid_paddr_participant、s_projectid_paddr_index
+
+    // 参与项目 首次参与时记录选择的档位，重复参与时增加参与次数
+    // 白名单只在首次参与时由调用者检查
+    function participate(
+        Participant[] storage participants,
+        mapping(address => Participant) storage byAddr,
+        mapping(address => uint256) storage index,
+        mapping(address => uint256) storage tiers,
+        uint256 _projectId,
+        address _participant,
+        uint256 _tier,
+        bytes32 _commitment,
+        uint256 _maxEntries
+    ) external {
+        Participant storage participant = byAddr[_participant];
+        if (participant.addr == address(0)) {
+            if (_tier != 0) {
+                tiers[_participant] = _tier;
+                emit IFairTicketEvents.TierSelected(
+                    _projectId,
+                    _participant,
+                    _tier
+                );
+            }
+            _addParticipant(
+                participants,
+                byAddr,
+                index,
+                _projectId,
+                _participant,
+                _commitment
+            );
+            return;
+        }
+        // 重复参与 增加参与次数
+        if (participant.entries >= _maxEntries)
+            revert IFairTicketErrors.EntryLimitReached(_maxEntries);
+        if (participant.commitment != _commitment)
+            revert IFairTicketErrors.CommitmentMismatch();
+        if (tiers[_participant] != _tier)
+            revert IFairTicketErrors.TierMismatch(_tier);
+        participant.entries += 1;
+        _syncParticipant(participants, byAddr, index, _participant);
+        emit IFairTicketEvents.Participated(
+            _projectId,
+            _participant,
+            _commitment,
+            participant.entries
+        );
+    }
+
+    // 批量导入参与者 两个数组的长度由调用者检查，已经参与的地址会被跳过，返回实际导入的数量
+    function importParticipants(
+        Participant[] storage participants,
+        mapping(address => Participant) storage byAddr,
+        mapping(address => uint256) storage index,
+        uint256 _projectId,
+        address[] calldata _participants,
+        bytes32[] calldata _commitments
+    ) external returns (uint256 imported) {
+        for (uint256 i = 0; i < _participants.length; i++) {
+            if (_participants[i] == address(0))
+                revert IFairTicketErrors.ParticipantZero();
+            if (index[_participants[i]] != 0) continue;
+            _addParticipant(
+                participants,
+                byAddr,
+                index,
+                _projectId,
+                _participants[i],
+                _commitments[i]
+            );
+            imported += 1;
+        }
+        emit IFairTicketEvents.ParticipantsImported(_projectId, imported);
+    }
+
+    // 调用者公布幸运数字和salt，与参与时提交的承诺进行校验
+    function reveal(
+        Participant[] storage participants,
+        mapping(address => Participant) storage byAddr,
+        mapping(address => uint256) storage index,
+        uint256 _projectId,
+        uint256 _luckyNum,
+        bytes32 _salt
+    ) external {
+        Participant storage participant = byAddr[msg.sender];
+        if (participant.addr == address(0))
+            revert IFairTicketErrors.NotParticipant();
+        if (participant.revealed) revert IFairTicketErrors.AlreadyRevealed();
+        if (
+            keccak256(abi.encodePacked(_luckyNum, _salt)) !=
+            participant.commitment
+        ) revert IFairTicketErrors.CommitmentMismatch();
+        // 同步更新mapping和数组中的记录
+        participant.luckyNum = _luckyNum;
+        participant.revealed = true;
+        _syncParticipant(participants, byAddr, index, msg.sender);
+        emit IFairTicketEvents.LuckyNumRevealed(
+            _projectId,
+            msg.sender,
+            _luckyNum
+        );
+    }
+
+    // 调用者提交自己在权重Merkle树中的证明，将权重记录到参与者信息中
+    function claimWeight(
+        Participant[] storage participants,
+        mapping(address => Participant) storage byAddr,
+        mapping(address => uint256) storage index,
+        uint256 _projectId,
+        bytes32 _weightRoot,
+        uint256 _weight,
+        bytes32[] calldata _proof
+    ) external {
+        if (_weightRoot == bytes32(0))
+            revert IFairTicketErrors.WeightRootNotSet();
+        if (_weight == 0) revert IFairTicketErrors.WeightZero();
+        Participant storage participant = byAddr[msg.sender];
+        if (participant.addr == address(0))
+            revert IFairTicketErrors.NotParticipant();
+        // 与 @openzeppelin/merkle-tree 的 StandardMerkleTree 叶子编码保持一致
+        bytes32 leaf = keccak256(
+            bytes.concat(keccak256(abi.encode(msg.sender, _weight)))
+        );
+        if (!MerkleProof.verifyCalldata(_proof, _weightRoot, leaf))
+            revert IFairTicketErrors.WeightProofInvalid(
+                _projectId,
+                msg.sender,
+                _weight
+            );
+        participant.weight = _weight;
+        _syncParticipant(participants, byAddr, index, msg.sender);
+        emit IFairTicketEvents.WeightClaimed(_projectId, msg.sender, _weight);
+    }
+
+    // 恢复签名参与的签名者地址
+    // _structHash 为 Participate 类型的EIP-712结构体哈希，_domainSeparator 由调用合约的EIP712计算
+    function recoverSigner(
+        bytes32 _domainSeparator,
+        bytes32 _structHash,
+        bytes calldata _signature
+    ) external pure returns (address) {
+        return
+            ECDSA.recover(
+                MessageHashUtils.toTypedDataHash(_domainSeparator, _structHash),
+                _signature
+            );
+    }
+
+    // 记录新的参与者
+    function _addParticipant(
+        Participant[] storage participants,
+        mapping(address => Participant) storage byAddr,
+        mapping(address => uint256) storage index,
+        uint256 _projectId,
+        address _participant,
+        bytes32 _commitment
+    ) private {
+        Participant memory newParticipant = Participant({
+            addr: _participant,
+            luckyNum: 0,
+            commitment: _commitment,
+            revealed: false,
+            entries: 1,
+            weight: 1
+        });
+        participants.push(newParticipant);
+        byAddr[_participant] = newParticipant;
+        index[_participant] = participants.length;
+        emit IFairTicketEvents.Participated(
+            _projectId,
+            _participant,
+            _commitment,
+            1
+        );
+    }
+
+    // 将mapping中参与者的记录同步到数组中
+    function _syncParticipant(
+        Participant[] storage participants,
+        mapping(address => Participant) storage byAddr,
+        mapping(address => uint256) storage index,
+        address _participant
+    ) private {
+        participants[index[_participant] - 1] = byAddr[_participant];
+    }
+
+    //// 押金 ////
+    // deposits 为同一个项目的 s_projectid_paddr_deposit，balances 为 s_addr_token_balance
+
+    // 收取一次参与的押金 ETH通过msg.value支付，ERC-20从参与者的地址扣除
+    function collectDeposit(
+        mapping(address => uint256) storage deposits,
+        address _token,
+        uint256 _price,
+        address _participant
+    ) external {
+        uint256 expectedValue = _token == address(0) ? _price : 0;
+        if (msg.value != expectedValue)
+            revert IFairTicketErrors.IncorrectPayment(expectedValue, msg.value);
+        if (_price == 0) return;
+        deposits[_participant] += _price;
+        if (_token != address(0)) {
+            IERC20(_token).safeTransferFrom(
+                _participant,
+                address(this),
+                _price
+            );
+        }
+    }
+
+    // 调用者领取门票后结算押金 一次参与的押金计入项目owner的余额，多次参与的其余押金退还到调用者的余额
+    function settleDeposit(
+        mapping(address => uint256) storage deposits,
+        mapping(address => mapping(address => uint256)) storage balances,
+        address _owner,
+        address _token,
+        uint256 _price
+    ) external {
+        uint256 deposit = deposits[msg.sender];
+        if (deposit == 0) return;
+        delete deposits[msg.sender];
+        balances[_owner][_token] += _price;
+        if (deposit > _price) {
+            balances[msg.sender][_token] += deposit - _price;
+        }
+    }
+
+    // 将调用者的押金计入调用者的余额
+    function refundDeposit(
+        mapping(address => uint256) storage deposits,
+        mapping(address => mapping(address => uint256)) storage balances,
+        uint256 _projectId,
+        address _token
+    ) external {
+        uint256 deposit = deposits[msg.sender];
+        if (deposit == 0) revert IFairTicketErrors.NothingToRefund();
+        delete deposits[msg.sender];
+        balances[msg.sender][_token] += deposit;
+        emit IFairTicketEvents.DepositRefunded(_projectId, msg.sender, deposit);
+    }
+
+    // 提取调用者的余额 _token为零地址时提取ETH
+    function withdraw(
+        mapping(address => mapping(address => uint256)) storage balances,
+        address _token
+    ) external {
+        uint256 amount = balances[msg.sender][_token];
+        if (amount == 0) revert IFairTicketErrors.NothingToWithdraw();
+        delete balances[msg.sender][_token];
+        if (_token == address(0)) {
+            (bool success, ) = msg.sender.call{value: amount}("");
+            if (!success) revert IFairTicketErrors.EthTransferFailed();
+        } else {
+            IERC20(_token).safeTransfer(msg.sender, amount);
+        }
+        emit IFairTicketEvents.Withdrawn(msg.sender, _token, amount);
+    }
+
+    //// 门票档位 ////
+    // tiers 为同一个项目的 s_projectid_tiers
+
+    // 添加门票档位 添加第一个档位时项目的totalSupply替换为该档位的supply，之后每添加一个档位totalSupply增加相应的supply
+    function addTier(
+        mapping(uint256 => TicketTier) storage tiers,
+        Project storage project,
+        bytes32 _nameHash,
+        uint256 _supply,
+        uint256 _price
+    ) external {
+        if (_supply == 0) revert IFairTicketErrors.TotalSupplyZero();
+        uint256 tier = project.tierCount;
+        tiers[tier] = TicketTier({
+            nameHash: _nameHash,
+            supply: _supply,
+            price: _price,
+            claimed: 0,
+            merkleRoot: bytes32(0)
+        });
+        project.tierCount = tier + 1;
+        project.totalSupply =
+            tier == 0 ? _supply : project.totalSupply + _supply;
+        emit IFairTicketEvents.TierAdded(
+            project.id,
+            tier,
+            _nameHash,
+            _supply,
+            _price
+        );
+    }
+
+    // 记录每个档位本轮的merkleRoot 返回记录为项目merkleRoot的 keccak256(abi.encodePacked(_merkleRoots))
+    function setTierMerkleRoots(
+        mapping(uint256 => TicketTier) storage tiers,
+        uint256 _tierCount,
+        bytes32[] calldata _merkleRoots
+    ) external returns (bytes32) {
+        if (_tierCount == 0 || _merkleRoots.length != _tierCount)
+            revert IFairTicketErrors.ArrayLengthMismatch();
+        for (uint256 i = 0; i < _tierCount; i++) {
+            tiers[i].merkleRoot = _merkleRoots[i];
+        }
+        return keccak256(abi.encodePacked(_merkleRoots));
+    }
+
+    //// VRF ////
+
+    // 向VRF Coordinator请求随机数
+    function requestRandomness(
+        IVRFCoordinator _coordinator,
+        bytes32 _keyHash,
+        uint256 _subscriptionId,
+        uint16 _requestConfirmations,
+        uint32 _callbackGasLimit,
+        uint32 _numWords
+    ) external returns (uint256) {
+        return
+            _coordinator.requestRandomWords(
+                VRFV2PlusClient.RandomWordsRequest({
+                    keyHash: _keyHash,
+                    subId: _subscriptionId,
+                    requestConfirmations: _requestConfirmations,
+                    callbackGasLimit: _callbackGasLimit,
+                    numWords: _numWords,
+                    extraArgs: VRFV2PlusClient._argsToBytes(
+                        VRFV2PlusClient.ExtraArgsV1({nativePayment: false})
+                    )
+                })
+            );
+    }
+}
@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+import {IFairTicketNFT} from "./IFairTicketNFT.sol";
+
+// 门票NFT合约
+// 中奖者在 FairTicket 中领取门票时铸造，门票可以转让，也可以作为入场凭证被扫描
+// 只有拥有 MINTER_ROLE 的地址（即 FairTicket 合约）可以铸造
+contract FairTicketNFT is ERC721, AccessControl, IFairTicketNFT {
+    using Strings for uint256;
+
+    //// Constants ////
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+
+    //// State Variables ////
+    uint256 public s_nextTokenId = 1;
+    // 门票所属的项目 以及门票在项目中的序号（从1开始）
+    mapping(uint256 => uint256) public s_tokenid_projectid;
+    mapping(uint256 => uint256) public s_tokenid_serial;
+    mapping(uint256 => bytes32) public s_projectid_fingerprint;
+    mapping(uint256 => uint256) public s_projectid_minted;
+
+    //// Events ////
+    event TicketMinted(
+        uint256 indexed projectId,
+        uint256 indexed tokenId,
+        address indexed to,
+        uint256 serial
+    );
+
+    //// Errors ////
+    error ProjectSupplyExceeded(uint256 projectId, uint256 maxSupply);
+
+    constructor(address _admin) ERC721("FairTicket", "FTKT") {
+        _grantRole(DEFAULT_ADMIN_ROLE, _admin);
+    }
+
+    //// Functions ////
+
+    // 铸造门票函数
+    // 每个项目铸造的门票数量不能超过 maxSupply（即项目的totalSupply）
+    function mint(
+        address _to,
+        uint256 _projectId,
+        bytes32 _fingerprint,
+        uint256 _maxSupply
+    ) external onlyRole(MINTER_ROLE) returns (uint256 tokenId) {
+        uint256 serial = s_projectid_minted[_projectId] + 1;
+        if (serial > _maxSupply)
+            revert ProjectSupplyExceeded(_projectId, _maxSupply);
+        tokenId = s_nextTokenId;
+        s_nextTokenId += 1;
+        s_projectid_minted[_projectId] = serial;
+        s_projectid_fingerprint[_projectId] = _fingerprint;
+        s_tokenid_projectid[tokenId] = _projectId;
+        s_tokenid_serial[tokenId] = serial;
+        _safeMint(_to, tokenId);
+        emit TicketMinted(_projectId, tokenId, _to, serial);
+    }
+
+    // 门票元数据
+    // 直接在链上生成 data URI，内容由项目id、项目指纹和门票序号决定，不依赖外部存储
+    function tokenURI(
+        uint256 _tokenId
+    ) public view override returns (string memory) {
+        _requireOwned(_tokenId);
+        uint256 projectId = s_tokenid_projectid[_tokenId];
+        string memory fingerprint = uint256(s_projectid_fingerprint[projectId])
+            .toHexString(32);
+        string memory serial = s_tokenid_serial[_tokenId].toString();
+        bytes memory json = abi.encodePacked(
+            '{"name":"FairTicket #',
+            projectId.toString(),
+            "-",
+            serial,
+            '","description":"FairTicket project ',
+            projectId.toString(),
+            ' ticket","attributes":[{"trait_type":"projectId","value":',
+            projectId.toString(),
+            '},{"trait_type":"fingerprint","value":"',
+            fingerprint,
+            '"},{"trait_type":"serial","value":',
+            serial,
+            "}]}"
+        );
+        return
+            string.concat("data:application/json;base64,", Base64.encode(json));
+    }
+
+    // 获取门票所属的项目id
+    function getTicketProject(uint256 _tokenId) public view returns (uint256) {
+        return s_tokenid_projectid[_tokenId];
+    }
+
+    // 获取项目已经铸造的门票数量
+    function getProjectMinted(
+        uint256 _projectId
+    ) public view returns (uint256) {
+        return s_projectid_minted[_projectId];
+    }
+
+    function supportsInterface(
+        bytes4 _interfaceId
+    ) public view override(ERC721, AccessControl) returns (bool) {
+        return super.supportsInterface(_interfaceId);
+    }
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import {FairTicketBase} from "./fair_ticket.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+
+// 通过 ERC1967 代理部署的可升级FairTicket
+// 实现合约的构造函数禁用初始化，代理合约部署时调用 initialize 完成初始化
+// 升级由平台管理员调用 upgradeToAndCall 完成，项目、参与者以及抽奖结果都保存在代理合约中，升级后保持不变
+contract FairTicketUpgradeable is
+    FairTicketBase,
+    Initializable,
+    UUPSUpgradeable
+{
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    // 初始化代理合约 参数与 FairTicket 的构造函数相同，调用者成为平台管理员
+    function initialize(
+        uint256 _globalId,
+        address _vrfCoordinator,
+        bytes32 _vrfKeyHash,
+        uint256 _vrfSubscriptionId
+    ) external initializer {
+        _initializeFairTicket(
+            _globalId,
+            _vrfCoordinator,
+            _vrfKeyHash,
+            _vrfSubscriptionId
+        );
+    }
+
+    // 只有平台管理员可以升级合约
+    function _authorizeUpgrade(
+        address
+    ) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+}
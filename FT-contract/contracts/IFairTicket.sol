@@ -0,0 +1,154 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8;
+
+// FairTicket 的事件 FairTicketBase 继承后出现在合约ABI中，FairTicketLib 通过 IFairTicketEvents.X 触发
+interface IFairTicketEvents {
+    event ProjectCreated(
+        uint256 indexed projectId,
+        bytes32 indexed fingerprint
+    );
+    event ProjectStarted(uint256 indexed projectId);
+    event ProjectFinished(uint256 indexed projectId);
+    event ProjectCancelled(uint256 indexed projectId, string reason);
+    event MagicNumberPublished(uint256 indexed projectId, uint256 magicNumber);
+    // 每次参与都会触发，重复参与时entries为累计的参与次数
+    event Participated(
+        uint256 indexed projectId,
+        address indexed addr,
+        bytes32 commitment,
+        uint256 entries
+    );
+    event MerkleRootSet(uint256 indexed projectId, bytes32 merkleRoot);
+    event LuckyNumRevealed(
+        uint256 indexed projectId,
+        address indexed addr,
+        uint256 luckyNum
+    );
+    event RevealDurationUpdated(uint256 revealDuration);
+    event ClaimDurationUpdated(uint256 claimDuration);
+    event TicketClaimed(uint256 indexed projectId, address indexed addr);
+    event TicketNFTUpdated(address indexed ticketNFT);
+    event EntryFeeSet(
+        uint256 indexed projectId,
+        address indexed token,
+        uint256 price
+    );
+    event DepositRefunded(
+        uint256 indexed projectId,
+        address indexed addr,
+        uint256 amount
+    );
+    event Withdrawn(
+        address indexed addr,
+        address indexed token,
+        uint256 amount
+    );
+    event MaxEntriesSet(uint256 indexed projectId, uint256 maxEntries);
+    event TierAdded(
+        uint256 indexed projectId,
+        uint256 indexed tier,
+        bytes32 nameHash,
+        uint256 supply,
+        uint256 price
+    );
+    // 参与者首次参与时选择了第0个之外的档位时触发，在对应的Participated之前
+    event TierSelected(
+        uint256 indexed projectId,
+        address indexed addr,
+        uint256 tier
+    );
+    event ParticipantsImported(uint256 indexed projectId, uint256 imported);
+    event AllowlistRootSet(uint256 indexed projectId, bytes32 allowlistRoot);
+    event WeightRootSet(uint256 indexed projectId, bytes32 weightRoot);
+    event WeightClaimed(
+        uint256 indexed projectId,
+        address indexed addr,
+        uint256 weight
+    );
+    event ProjectOwnershipTransferred(
+        uint256 indexed projectId,
+        address indexed previousOwner,
+        address indexed newOwner
+    );
+    event RandomnessRequested(
+        uint256 indexed projectId,
+        uint256 indexed requestId
+    );
+    event RandomnessRequestCancelled(
+        uint256 indexed projectId,
+        uint256 indexed requestId
+    );
+    event Paused(address account);
+    event Unpaused(address account);
+    event VRFConfigUpdated(
+        address indexed coordinator,
+        bytes32 keyHash,
+        uint256 subscriptionId
+    );
+}
+
+// FairTicket 的自定义错误 FairTicketBase 和 FairTicketLib 共用
+interface IFairTicketErrors {
+    error EnforcedPause();
+    error ExpectedPause();
+    error ProjectNotFound();
+    error ProjectAlreadyStarted();
+    error ProjectNotInProgress();
+    error ProjectNotFinished();
+    error ProjectAlreadyCancelled();
+    error ProjectNotCancellable();
+    error TotalSupplyZero();
+    error FingerprintAlreadyUsed(uint256 projectId);
+    error ArrayLengthMismatch();
+    error ImportBatchTooLarge(uint256 maxBatch);
+    error ParticipantZero();
+    error OnlyProjectOwner();
+    error OnlyProjectManager(uint256 projectId, address account);
+    error ProjectOwnerZero();
+    error MerkleRootAlreadySet();
+    error OffsetOutOfBounds();
+    error LotteryRequestPending(uint256 requestId);
+    error OnlyVRFCoordinator(address have, address want);
+    error VRFRequestNotFound(uint256 requestId);
+    error VRFRequestNotExpired(uint256 expiresAt);
+    error VRFCoordinatorZero();
+    error RevealWindowClosed(uint256 revealDeadline);
+    error RevealWindowOpen(uint256 revealDeadline);
+    error NotParticipant();
+    error AlreadyRevealed();
+    error CommitmentMismatch();
+    error EntryLimitReached(uint256 maxEntries);
+    error NotAllowlisted(uint256 projectId, address addr);
+    error MaxEntriesZero();
+    error WeightRootNotSet();
+    error WeightZero();
+    error WeightProofInvalid(uint256 projectId, address addr, uint256 weight);
+    error SignatureExpired(uint256 deadline);
+    error InvalidSigner(address signer, address participant);
+    error MerkleRootNotSet();
+    error MerkleRootZero();
+    error LotteryAlreadyDrawn();
+    error LotteryNotDrawn();
+    error ClaimWindowOpen(uint256 claimDeadline);
+    error RoundNotFound(uint256 round);
+    error TierNotFound(uint256 tier);
+    error ProjectHasTiers(uint256 tierCount);
+    error TierMismatch(uint256 tier);
+    error IncorrectPayment(uint256 expected, uint256 actual);
+    error AlreadyRefunded();
+    error NothingToRefund();
+    error NothingToWithdraw();
+    error EthTransferFailed();
+    error AlreadyClaimed();
+    error TicketSoldOut(uint256 totalSupply);
+    error InvalidTimeWindow(uint256 startTime, uint256 endTime);
+    error ProjectNotOpen(uint256 startTime);
+    error ProjectEnded(uint256 endTime);
+    error ProjectEndTimeNotReached(uint256 endTime);
+    error MerkleProofInvalid(
+        uint256 projectId,
+        address sender,
+        bytes32 self,
+        bytes32[] proof
+    );
+}
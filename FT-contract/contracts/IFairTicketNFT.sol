@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8;
+
+// 门票NFT接口 中奖者领取门票时由 FairTicket 调用 mint 铸造门票
+interface IFairTicketNFT {
+    function mint(
+        address to,
+        uint256 projectId,
+        bytes32 fingerprint,
+        uint256 maxSupply
+    ) external returns (uint256 tokenId);
+}
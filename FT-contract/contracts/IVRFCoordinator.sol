@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8;
+
+// VRF请求相关的结构体与编码函数
+// 与 Chainlink VRF v2.5 的 VRFV2PlusClient 保持一致，这样 FairTicket 既可以对接本地的Mock合约，也可以直接对接链上真实的Coordinator
+library VRFV2PlusClient {
+    bytes4 public constant EXTRA_ARGS_V1_TAG =
+        bytes4(keccak256("VRF ExtraArgsV1"));
+
+    struct ExtraArgsV1 {
+        // nativePayment 为true时使用原生代币支付VRF费用，否则使用LINK
+        bool nativePayment;
+    }
+
+    struct RandomWordsRequest {
+        bytes32 keyHash;
+        uint256 subId;
+        uint16 requestConfirmations;
+        uint32 callbackGasLimit;
+        uint32 numWords;
+        bytes extraArgs;
+    }
+
+    function _argsToBytes(
+        ExtraArgsV1 memory extraArgs
+    ) internal pure returns (bytes memory bts) {
+        return abi.encodeWithSelector(EXTRA_ARGS_V1_TAG, extraArgs);
+    }
+}
+
+// VRF Coordinator 接口 请求随机数后由Coordinator回调消费者合约的 rawFulfillRandomWords
+interface IVRFCoordinator {
+    function requestRandomWords(
+        VRFV2PlusClient.RandomWordsRequest calldata req
+    ) external returns (uint256 requestId);
+}
+
+// VRF 消费者接口 Coordinator生成随机数后调用该函数进行回调
+interface IVRFConsumer {
+    function rawFulfillRandomWords(
+        uint256 requestId,
+        uint256[] calldata randomWords
+    ) external;
+}
@@ -1,6 +1,10 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8;
 
+// 结构体保存在 FairTicketUpgradeable 的代理合约存储中，升级时不能删除或调整已有字段的顺序和类型
+// Project、LotteryResult、EntryFee、TicketTier 只保存在 mapping 中，可以在末尾追加字段
+// Participant 同时保存在 s_projectid_participants 数组中，追加字段会改变数组元素的大小，新的参与者数据需要使用单独的 mapping 保存
+
 // Project struct
 struct Project {
     // id 合约中递增的项目id
@@ -15,24 +19,103 @@ struct Project {
     ProjectStatus projectStatus;
     // merkleRoot 项目的merkleRoot，在抽票完成后，根据中奖者构建Merkle树进行生成
     bytes32 merkleRoot;
+    // revealDeadline 公布幸运数字的截止时间，在项目结束时设置，截止之后才能进行抽奖
+    uint256 revealDeadline;
+    // startTime 项目开始参与的时间，为0时需要手动调用startProject开始
+    uint256 startTime;
+    // endTime 项目结束参与的时间，为0时需要手动调用finishProject结束，不为0时到期后任何人都可以调用finalize结束
+    uint256 endTime;
+    // tierCount 项目的门票档位数量，为0时所有参与者共同抽取totalSupply张门票，档位通过s_projectid_tiers读取
+    uint256 tierCount;
+}
+
+// TicketTier 门票档位 例如演唱会的不同座位区域
+// 设置了档位的项目，参与者在参与时选择一个档位，每个档位单独抽票并发布各自中奖者的merkleRoot
+struct TicketTier {
+    // nameHash 档位名称的哈希 与项目的fingerprint一样用于关联后端数据库中的档位
+    bytes32 nameHash;
+    // supply 档位的票数供应 所有档位的supply之和为项目的totalSupply
+    uint256 supply;
+    // price 参与该档位需要支付的金额 使用项目EntryFee的token支付，为0时使用项目EntryFee的price
+    uint256 price;
+    // claimed 档位已经领取的门票数量
+    uint256 claimed;
+    // merkleRoot 档位最新一轮中奖者的merkleRoot 发布之前为0
+    bytes32 merkleRoot;
 }
 
 // projectStatus 项目状态
+// NotStart -> InProgress -> Finished -> LotteryDrawn -> WinnersPublished，只能按顺序依次推进
+// NotStart和InProgress状态的项目可以被取消，进入Cancelled状态后不能再推进
 enum ProjectStatus {
     NotStart,
     InProgress,
-    Finished
+    // Finished 参与结束，参与者公布幸运数字，公布截止后可以抽奖
+    Finished,
+    // LotteryDrawn VRF回调写入magicNumber，等待发布中奖者的merkleRoot
+    LotteryDrawn,
+    // WinnersPublished merkleRoot已发布，中奖者可以领取门票
+    WinnersPublished,
+    // Cancelled 项目已取消，参与者可以取回押金
+    Cancelled
 }
 
 // Participant 参与者的信息 记录地址以及设置的幸运数字
+// 参与时只提交幸运数字的承诺 keccak256(abi.encodePacked(luckyNum, salt))，项目结束后再公布幸运数字
 struct Participant {
+    address addr;
+    // luckyNum 公布之前为0
+    uint256 luckyNum;
+    bytes32 commitment;
+    // revealed 是否已经公布幸运数字，未公布的参与者不参与抽票
+    bool revealed;
+    // entries 参与次数，同一地址可以使用相同的承诺重复参与，不超过项目的maxEntries
+    uint256 entries;
+    // weight 权重，默认为1，项目设置了权重Merkle树时参与者可以提交证明领取自己的权重
+    // 链下抽票时参与者拥有 entries * weight 张抽票券
+    uint256 weight;
+}
+
+// ParticipantInfo 读取参与者时返回的信息 在 Participant 的字段之后加上参与者选择的门票档位
+// 只作为 getParticipantInfo 和 getProjectParticipants 的返回值，不保存在存储中
+struct ParticipantInfo {
     address addr;
     uint256 luckyNum;
+    bytes32 commitment;
+    bool revealed;
+    uint256 entries;
+    uint256 weight;
+    // tier 参与者选择的门票档位 没有设置档位的项目为0
+    uint256 tier;
+    // refundRound 参与者取回押金时项目已经进行的抽奖轮数 没有取回押金时为0
+    uint256 refundRound;
 }
 
 // LotteryResult 记录项目的抽票依据
 struct LotteryResult {
     uint256 projectId;
-    // magicNumber 链上随机数，可使用ChainLink的VRF进行可靠随机数生成
+    // magicNumber 链上随机数，由VRF Coordinator（如ChainLink VRF）回调写入
     uint256 magicNumber;
-}
\ No newline at end of file
+}
+
+// LotteryRound 每一轮抽奖的结果
+// 第一轮在项目结束后抽取，之后每一轮在上一轮的领取截止时间之后，为尚未被领取的门票从之前没有中奖的参与者中补抽
+struct LotteryRound {
+    // magicNumber 该轮的链上随机数
+    uint256 magicNumber;
+    // supply 该轮的中奖人数 等于VRF回调时项目尚未被领取的门票数量
+    uint256 supply;
+    // merkleRoot 该轮中奖者的merkleRoot 发布之前为0
+    bytes32 merkleRoot;
+    // claimDeadline 该轮中奖者领取门票的截止时间 在发布merkleRoot时设置，截止之后才能开始下一轮
+    uint256 claimDeadline;
+}
+
+// EntryFee 项目的参与费用 参与时作为押金托管在合约中
+// 中奖者领取门票时押金转给项目owner，未中奖的参与者在中奖名单公布后可以取回押金
+struct EntryFee {
+    // token 支付使用的ERC-20代币地址，为零地址时使用ETH支付
+    address token;
+    // price 每次参与需要支付的金额，为0时参与免费
+    uint256 price;
+}
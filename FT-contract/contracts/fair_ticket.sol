@@ -1,61 +1,181 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.29;
 
-import {Project, Participant, LotteryResult, ProjectStatus} from "./Model.sol";
-import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {
+    Project,
+    Participant,
+    ParticipantInfo,
+    LotteryResult,
+    LotteryRound,
+    ProjectStatus,
+    EntryFee,
+    TicketTier
+} from "./Model.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {IVRFCoordinator, IVRFConsumer} from "./IVRFCoordinator.sol";
+import {IFairTicketNFT} from "./IFairTicketNFT.sol";
+import {IFairTicketEvents, IFairTicketErrors} from "./IFairTicket.sol";
+import {FairTicketLib} from "./FairTicketLib.sol";
+
+// 使用openzeppelin封装的AccessControl合约进行合约的权限控制。contract XX is YY 相当于XX合约继承了YY合约的一些属性和功能，可以在XX合约中直接使用。
+// DEFAULT_ADMIN_ROLE 为平台管理员，负责创建项目和修改合约配置；项目的生命周期由项目owner以及owner授权的operator管理
+// 实现IVRFConsumer接口，由VRF Coordinator回调写入抽奖结果
+// 继承EIP712和Nonces，支持参与者链下签名、由中继者代为提交参与交易
+// 继承ReentrancyGuard，所有涉及转账的函数都使用nonReentrant修饰器防止重入
+// 平台管理员暂停合约后所有项目和参与者的写操作都会revert，管理员的配置函数以及VRF回调不受影响
+// refund 和 withdraw 只支付参与者和收款人应得的资金，暂停期间仍然可以调用，暂停不会锁住押金
+// 暂停状态保存在基础合约自己的存储中而不是继承Pausable，避免今后升级时在代理合约的存储布局中间插入新的存储槽
+// FairTicketBase 包含全部状态和逻辑，由直接部署的 FairTicket 和通过代理部署的 FairTicketUpgradeable 共用
+// 参与者记录、押金、门票档位等逻辑放在外部库 FairTicketLib 中，部署时需要链接库的地址
+// 事件和错误定义在 IFairTicketEvents 和 IFairTicketErrors 中，与 FairTicketLib 共用
+// 新的状态变量只能追加在 __gap 之前并相应减少 __gap 的长度，保证可升级合约的存储布局不变
+abstract contract FairTicketBase is
+    AccessControl,
+    EIP712,
+    Nonces,
+    ReentrancyGuard,
+    IVRFConsumer,
+    IFairTicketEvents,
+    IFairTicketErrors
+{
+    //// Constants ////
+    uint32 public constant VRF_CALLBACK_GAS_LIMIT = 200000;
+    uint16 public constant VRF_REQUEST_CONFIRMATIONS = 3;
+    uint32 public constant VRF_NUM_WORDS = 1;
+    uint256 public constant DEFAULT_REVEAL_DURATION = 1 days;
+    uint256 public constant DEFAULT_CLAIM_DURATION = 7 days;
+    // 随机数请求发出后至少等待该时长才能取消，避免管理员看到不满意的回调后取消并重新抽奖
+    uint256 public constant VRF_REQUEST_TIMEOUT = 1 days;
+    // 项目operator角色 每个项目的角色id为 keccak256(abi.encode(PROJECT_OPERATOR_ROLE, projectId))
+    bytes32 public constant PROJECT_OPERATOR_ROLE = keccak256(
+        "PROJECT_OPERATOR_ROLE"
+    );
+    // 每次批量导入参与者的最大数量
+    uint256 public constant MAX_IMPORT_BATCH = 200;
+    // EIP-712 签名参与的类型哈希
+    bytes32 public constant PARTICIPATE_TYPEHASH = keccak256(
+        "Participate(uint256 projectId,address participant,uint256 tier,bytes32 commitment,uint256 nonce,uint256 deadline)"
+    );
 
-// 使用openzeppelin封装的Ownable合约进行合约的权限控制。contract XX is YY 相当于XX合约继承了YY合约的一些属性和功能，可以在XX合约中直接使用。
-contract FairTicket is Ownable {
     //// State Variables ////
     uint256 public s_globalId;
     mapping(uint256 => Project) public s_pid2project;
     mapping(uint256 => Participant[]) public s_projectid_participants;
     mapping(uint256 => mapping(address => Participant))
         public s_projectid_paddr_participant;
+    // 参与者在 s_projectid_participants 中的下标+1，公布幸运数字时用于同步更新数组中的记录
+    mapping(uint256 => mapping(address => uint256))
+        public s_projectid_paddr_index;
     mapping(uint256 => LotteryResult) public s_projectid_lottery;
+    // 中奖者是否已经领取门票 以及每个项目已经领取的门票数量
+    mapping(uint256 => mapping(address => bool))
+        public s_projectid_paddr_claimed;
+    mapping(uint256 => uint256) public s_projectid_claimed_amount;
+    // 门票NFT合约 设置后中奖者领取门票时会铸造NFT，未设置时只记录领取状态
+    IFairTicketNFT public s_ticketNFT;
+    // 项目的参与费用 以及每个参与者托管的押金
+    mapping(uint256 => EntryFee) public s_projectid_entryfee;
+    mapping(uint256 => mapping(address => uint256))
+        public s_projectid_paddr_deposit;
+    // 参与者是否已经取回押金 取回后不能再领取门票
+    mapping(uint256 => mapping(address => bool))
+        public s_projectid_paddr_refunded;
+    // 可以提取的余额 addr => token => amount，token为零地址时表示ETH
+    mapping(address => mapping(address => uint256)) public s_addr_token_balance;
+    // 每个地址最多参与的次数 为0时视为1
+    mapping(uint256 => uint256) public s_projectid_maxentries;
+    // 权重Merkle树的root 叶子为 StandardMerkleTree ["address", "uint256"] 编码的 (地址, 权重)
+    mapping(uint256 => bytes32) public s_projectid_weightroot;
+    // 白名单Merkle树的root 设置后只有白名单中的地址可以参与 叶子与中奖者Merkle树相同为 keccak256(abi.encodePacked(addr))
+    mapping(uint256 => bytes32) public s_projectid_allowlistroot;
+    // 项目结束后公布幸运数字的时长 在初始化时设置为 DEFAULT_REVEAL_DURATION
+    uint256 public s_revealDuration;
 
-    //// Events ////
-    event ProjectCreated(
-        uint256 indexed projectId,
-        bytes32 indexed fingerprint
-    );
-    event ProjectStarted(uint256 indexed projectId);
-    event ProjectFinished(uint256 indexed projectId);
-    event MagicNumberPublished(uint256 indexed projectId, uint256 magicNumber);
-
-    //// Errors ////
-    error ProjectNotFound();
-    error ProjectAlreadyStarted();
-    error ProjectNotInProgress();
-    error ProjectNotFinished();
-    error TotalSupplyZero();
-    error OnlyProjectOwner();
-    error MerkleRootAlreadySet();
-    error OffsetOutOfBounds();
-    error MerkleProofInvalid(
-        uint256 projectId,
-        address sender,
-        bytes32 self,
-        bytes32[] proof
-    );
+    // VRF 相关配置 本地网络使用Mock合约 测试网/主网使用Chainlink的Coordinator
+    IVRFCoordinator public s_vrfCoordinator;
+    bytes32 public s_vrfKeyHash;
+    uint256 public s_vrfSubscriptionId;
+    // 等待回调的随机数请求 requestId => projectId 以及 projectId => requestId
+    mapping(uint256 => uint256) public s_requestid_projectid;
+    mapping(uint256 => uint256) public s_projectid_requestid;
+    // 每个项目各轮的抽奖结果 通过 getLotteryRound 读取，s_projectid_lottery 和项目的 merkleRoot 始终为最新一轮的结果
+    mapping(uint256 => LotteryRound[]) internal s_projectid_rounds;
+    // 每一轮中奖者领取门票的时长 在初始化时设置为 DEFAULT_CLAIM_DURATION
+    uint256 public s_claimDuration;
+    // 项目的门票档位 projectId => 档位下标 => 档位，档位从0开始编号，数量记录在项目的tierCount中
+    mapping(uint256 => mapping(uint256 => TicketTier)) public s_projectid_tiers;
+    // 参与者选择的门票档位 通过 getParticipantTier 读取
+    mapping(uint256 => mapping(address => uint256))
+        internal s_projectid_paddr_tier;
+    // fingerprint对应的项目id 通过 getProjectByFingerprint 读取，每个fingerprint只能用于一个项目
+    mapping(bytes32 => uint256) internal s_fingerprint_projectid;
+    // 第一个项目的id 即初始化时的globalId，项目id从该值开始连续递增，getProjects 从该id开始分页
+    uint256 internal s_initialGlobalId;
+    // 合约是否已经暂停 通过 paused 读取
+    bool internal s_paused;
+    // 参与者取回押金时项目已经进行的抽奖轮数 之后的轮次不再抽取该参与者，通过 getParticipantInfo 读取
+    mapping(uint256 => mapping(address => uint256))
+        internal s_projectid_paddr_refundround;
+    // 项目最近一次请求随机数的时间 用于判断等待中的请求是否可以取消
+    mapping(uint256 => uint256) internal s_projectid_requesttime;
 
-    // 继承了Ownable合约要初始化。这里将合约的创建者设置为该合约的owner。
-    constructor(uint256 _globalId) Ownable(msg.sender) {
+    // 为基础合约今后新增的状态变量预留的存储槽
+    uint256[41] private __gap;
+
+    // EIP712 的名称和版本保存在合约代码中，通过代理调用时域分隔符会使用代理合约的地址重新计算
+    constructor() EIP712("FairTicket", "1") {}
+
+    // 初始化合约状态并将调用者设置为平台管理员 由 FairTicket 的构造函数或 FairTicketUpgradeable 的 initialize 调用
+    function _initializeFairTicket(
+        uint256 _globalId,
+        address _vrfCoordinator,
+        bytes32 _vrfKeyHash,
+        uint256 _vrfSubscriptionId
+    ) internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         s_globalId = _globalId;
+        s_initialGlobalId = _globalId;
+        s_revealDuration = DEFAULT_REVEAL_DURATION;
+        s_claimDuration = DEFAULT_CLAIM_DURATION;
+        _setVRFConfig(_vrfCoordinator, _vrfKeyHash, _vrfSubscriptionId);
     }
 
     //// Modifiers ////
+    // 使用较多的修饰器把检查逻辑放在内部函数中，避免修饰器在每个使用它的函数中重复展开导致合约超过大小限制
+
+    // 合约未暂停验证修饰器
+    modifier whenNotPaused() {
+        _checkNotPaused();
+        _;
+    }
+
     // 项目存在验证修饰器
     modifier projectExist(uint256 _projectId) {
-        if (s_pid2project[_projectId].id == 0) revert ProjectNotFound();
+        _checkProjectExist(_projectId);
         _;
     }
 
     // 项目所有者验证修饰器
     modifier projectOwnerOnly(uint256 _projectId) {
-        if (s_pid2project[_projectId].owner != msg.sender)
-            revert OnlyProjectOwner();
+        _checkProjectOwner(_projectId);
+        _;
+    }
+
+    // 项目管理验证修饰器
+    // 项目owner、项目的operator以及平台管理员都可以管理项目的生命周期
+    modifier projectManagerOnly(uint256 _projectId) {
+        _checkProjectManager(_projectId);
+        _;
+    }
+
+    // 项目未开始验证修饰器
+    // 项目的参与规则只能在开始前设置，设置了startTime的项目到达开始时间后即视为已经开始
+    modifier projectNotStarted(uint256 _projectId) {
+        _checkProjectNotStarted(_projectId);
         _;
     }
 
@@ -66,6 +186,13 @@ contract FairTicket is Ownable {
         _;
     }
 
+    // 项目可以参与验证修饰器
+    // 设置了startTime的项目到达开始时间后自动开始，设置了endTime的项目到达结束时间后不能再参与
+    modifier projectOpen(uint256 _projectId) {
+        _openProject(_projectId);
+        _;
+    }
+
     // 项目结束验证修饰器
     modifier projectFinished(uint256 _projectId) {
         if (s_pid2project[_projectId].projectStatus != ProjectStatus.Finished)
@@ -73,53 +200,462 @@ contract FairTicket is Ownable {
         _;
     }
 
+    function _checkNotPaused() internal view {
+        if (s_paused) revert EnforcedPause();
+    }
+
+    function _checkProjectExist(uint256 _projectId) internal view {
+        if (s_pid2project[_projectId].id == 0) revert ProjectNotFound();
+    }
+
+    function _checkProjectOwner(uint256 _projectId) internal view {
+        if (s_pid2project[_projectId].owner != msg.sender)
+            revert OnlyProjectOwner();
+    }
+
+    function _checkProjectManager(uint256 _projectId) internal view {
+        if (!isProjectManager(_projectId, msg.sender))
+            revert OnlyProjectManager(_projectId, msg.sender);
+    }
+
+    function _checkWinnersPublished(uint256 _projectId) internal view {
+        if (
+            s_pid2project[_projectId].projectStatus !=
+            ProjectStatus.WinnersPublished
+        ) revert MerkleRootNotSet();
+    }
+
+    function _projectStatusNotCancelled(
+        uint256 _projectId
+    ) internal view returns (ProjectStatus status) {
+        status = s_pid2project[_projectId].projectStatus;
+        if (status == ProjectStatus.Cancelled) revert ProjectAlreadyCancelled();
+    }
+
+    function _checkProjectNotStarted(uint256 _projectId) internal view {
+        if (getProjectStatus(_projectId) != ProjectStatus.NotStart)
+            revert ProjectAlreadyStarted();
+    }
+
+    function _openProject(uint256 _projectId) internal {
+        Project storage project = s_pid2project[_projectId];
+        if (
+            project.projectStatus == ProjectStatus.NotStart &&
+            project.startTime != 0
+        ) {
+            if (block.timestamp < project.startTime)
+                revert ProjectNotOpen(project.startTime);
+            project.projectStatus = ProjectStatus.InProgress;
+            emit ProjectStarted(_projectId);
+        }
+        if (project.projectStatus != ProjectStatus.InProgress)
+            revert ProjectNotInProgress();
+        if (project.endTime != 0 && block.timestamp >= project.endTime)
+            revert ProjectEnded(project.endTime);
+    }
+
     //// Functions ////
 
     // 创建项目函数
-    // 这里使用了onlyOwner修饰器，保证只有合约所有者可以执行该函数 这个onlyOwner修饰器是来自openzeppelin的Ownable.sol
+    // 这里使用了onlyRole修饰器，保证只有平台管理员可以执行该函数 这个onlyRole修饰器是来自openzeppelin的AccessControl.sol
+    // 不指定时间窗口的项目需要手动开始和结束
     function createProject(
         bytes32 _fingerprint,
         address _owner,
         uint256 _totalSupply
-    ) public onlyOwner {
-        if (_totalSupply == 0) revert TotalSupplyZero();
-        // 创建新项目
-        Project memory newProject = Project({
-            id: s_globalId,
-            fingerprint: _fingerprint,
-            owner: _owner,
-            totalSupply: _totalSupply,
-            projectStatus: ProjectStatus.NotStart,
-            merkleRoot: bytes32(0)
-        });
-        // 将新项目信息存储到mappings中 并且将全局项目id+1
-        s_pid2project[newProject.id] = newProject;
+    ) public whenNotPaused onlyRole(DEFAULT_ADMIN_ROLE) {
+        _createProject(_fingerprint, _owner, _totalSupply, 0, 0);
+    }
+
+    // 创建带时间窗口的项目函数
+    // _startTime 到达后项目自动开始参与，_endTime 到达后不能再参与，任何人都可以调用finalize结束项目
+    // 传入0表示对应的时间点仍然需要手动操作
+    function createProject(
+        bytes32 _fingerprint,
+        address _owner,
+        uint256 _totalSupply,
+        uint256 _startTime,
+        uint256 _endTime
+    ) public whenNotPaused onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (
+            _endTime != 0 &&
+            (_endTime <= block.timestamp || _endTime <= _startTime)
+        ) revert InvalidTimeWindow(_startTime, _endTime);
+        _createProject(
+            _fingerprint,
+            _owner,
+            _totalSupply,
+            _startTime,
+            _endTime
+        );
+    }
+
+    // 批量创建项目函数
+    // 三个数组按下标一一对应，创建的项目不指定时间窗口，项目id按数组顺序连续递增
+    function createProjects(
+        bytes32[] calldata _fingerprints,
+        address[] calldata _owners,
+        uint256[] calldata _totalSupplies
+    ) public whenNotPaused onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (
+            _fingerprints.length != _owners.length ||
+            _fingerprints.length != _totalSupplies.length
+        ) revert ArrayLengthMismatch();
+        for (uint256 i = 0; i < _fingerprints.length; i++) {
+            _createProject(
+                _fingerprints[i],
+                _owners[i],
+                _totalSupplies[i],
+                0,
+                0
+            );
+        }
+    }
+
+    function _createProject(
+        bytes32 _fingerprint,
+        address _owner,
+        uint256 _totalSupply,
+        uint256 _startTime,
+        uint256 _endTime
+    ) internal {
+        FairTicketLib.createProject(
+            s_pid2project,
+            s_fingerprint_projectid,
+            s_globalId,
+            _fingerprint,
+            _owner,
+            _totalSupply,
+            _startTime,
+            _endTime
+        );
         s_globalId += 1;
-        // 触发项目创建事件
-        emit ProjectCreated(newProject.id, _fingerprint);
     }
 
     // 参与项目函数
+    // 只能以调用者自己的地址参与，每个地址最多参与项目maxEntries次，重复参与时必须提交相同的承诺
+    // 只提交幸运数字的承诺 _commitment = keccak256(abi.encodePacked(luckyNum, salt))，防止其他人提前看到幸运数字
+    // 项目设置了参与费用时需要同时支付押金，ETH通过msg.value支付，ERC-20需要提前approve
     function participate(
         uint256 _projectId,
-        address _addr,
-        uint256 _luckyNum
-    ) public projectExist(_projectId) projectInProgress(_projectId) {
-        Participant memory newParticipant = Participant({
-            addr: _addr,
-            luckyNum: _luckyNum
-        });
-        s_projectid_participants[_projectId].push(newParticipant);
-        s_projectid_paddr_participant[_projectId][_addr] = newParticipant;
+        bytes32 _commitment
+    ) public payable {
+        _participate(_projectId, msg.sender, 0, _commitment, new bytes32[](0));
+    }
+
+    // 白名单参与项目函数
+    // 项目设置了白名单时，需要同时提交调用者在白名单Merkle树中的证明
+    function participate(
+        uint256 _projectId,
+        bytes32 _commitment,
+        bytes32[] calldata _proof
+    ) public payable {
+        _participate(_projectId, msg.sender, 0, _commitment, _proof);
+    }
+
+    // 选择档位参与项目函数
+    // 设置了档位的项目，参与者在首次参与时选择档位，重复参与时必须选择相同的档位
+    // 其余的参与函数都使用第0个档位；项目没有设置白名单时_proof传入空数组
+    function participate(
+        uint256 _projectId,
+        uint256 _tier,
+        bytes32 _commitment,
+        bytes32[] calldata _proof
+    ) public payable {
+        _participate(_projectId, msg.sender, _tier, _commitment, _proof);
+    }
+
+    // 签名参与项目函数
+    // 参与者在链下对 Participate(projectId, participant, tier, commitment, nonce, deadline) 进行EIP-712签名，由中继者提交并支付gas
+    // 签名的是幸运数字的承诺而不是幸运数字本身，中继者和其他人在公布前同样无法看到幸运数字
+    // 每个地址的nonce在签名被使用后+1，防止同一个签名被重复提交
+    // ETH押金由中继者通过msg.value代付，ERC-20押金从参与者的地址扣除，押金都记在参与者名下
+    // 没有选择档位的签名参与函数签名的tier为0
+    function participateWithSig(
+        uint256 _projectId,
+        address _participant,
+        bytes32 _commitment,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) public payable {
+        _participateWithSig(
+            _projectId,
+            _participant,
+            0,
+            _commitment,
+            _deadline,
+            _signature,
+            new bytes32[](0)
+        );
+    }
+
+    // 白名单签名参与项目函数
+    // 白名单证明是公开数据，不需要包含在签名中，由中继者和签名一起提交
+    function participateWithSig(
+        uint256 _projectId,
+        address _participant,
+        bytes32 _commitment,
+        uint256 _deadline,
+        bytes calldata _signature,
+        bytes32[] calldata _proof
+    ) public payable {
+        _participateWithSig(
+            _projectId,
+            _participant,
+            0,
+            _commitment,
+            _deadline,
+            _signature,
+            _proof
+        );
+    }
+
+    // 选择档位签名参与项目函数
+    // 设置了档位的项目，参与者选择的档位包含在签名中，中继者不能修改
+    function participateWithSig(
+        uint256 _projectId,
+        address _participant,
+        uint256 _tier,
+        bytes32 _commitment,
+        uint256 _deadline,
+        bytes calldata _signature,
+        bytes32[] calldata _proof
+    ) public payable {
+        _participateWithSig(
+            _projectId,
+            _participant,
+            _tier,
+            _commitment,
+            _deadline,
+            _signature,
+            _proof
+        );
+    }
+
+    function _participateWithSig(
+        uint256 _projectId,
+        address _participant,
+        uint256 _tier,
+        bytes32 _commitment,
+        uint256 _deadline,
+        bytes calldata _signature,
+        bytes32[] memory _proof
+    ) internal {
+        if (block.timestamp > _deadline) revert SignatureExpired(_deadline);
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PARTICIPATE_TYPEHASH,
+                _projectId,
+                _participant,
+                _tier,
+                _commitment,
+                _useNonce(_participant),
+                _deadline
+            )
+        );
+        address signer = FairTicketLib.recoverSigner(
+            _domainSeparatorV4(),
+            structHash,
+            _signature
+        );
+        if (signer != _participant) revert InvalidSigner(signer, _participant);
+        _participate(_projectId, _participant, _tier, _commitment, _proof);
+    }
+
+    // 所有参与函数最终都调用该函数 暂停、项目存在以及项目可以参与的检查只在这里进行一次
+    function _participate(
+        uint256 _projectId,
+        address _participant,
+        uint256 _tier,
+        bytes32 _commitment,
+        bytes32[] memory _proof
+    ) internal nonReentrant {
+        _checkNotPaused();
+        _checkProjectExist(_projectId);
+        _openProject(_projectId);
+        // 没有设置档位的项目只有第0个档位
+        if (_tier != 0 && _tier >= s_pid2project[_projectId].tierCount)
+            revert TierNotFound(_tier);
+        // 首次参与时检查白名单
+        if (s_projectid_paddr_index[_projectId][_participant] == 0)
+            _checkAllowlist(_projectId, _participant, _proof);
+        FairTicketLib.participate(
+            s_projectid_participants[_projectId],
+            s_projectid_paddr_participant[_projectId],
+            s_projectid_paddr_index[_projectId],
+            s_projectid_paddr_tier[_projectId],
+            _projectId,
+            _participant,
+            _tier,
+            _commitment,
+            getMaxEntries(_projectId)
+        );
+        _collectDeposit(_projectId, _participant);
+    }
+
+    // 批量导入参与者函数
+    // 项目管理者将链下预先登记的参与者及其承诺导入项目，导入的参与者不需要支付押金，也不检查白名单
+    // 每次最多导入 MAX_IMPORT_BATCH 个地址，防止超出区块gas上限，大名单需要分多次交易导入
+    // 已经参与的地址会被跳过，导入中断后可以安全地重新提交同一批数据
+    // 导入的参与者都在第0个档位
+    function importParticipants(
+        uint256 _projectId,
+        address[] calldata _participants,
+        bytes32[] calldata _commitments
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+        projectOpen(_projectId)
+        returns (uint256)
+    {
+        return _importParticipants(_projectId, _participants, _commitments);
+    }
+
+    // 按档位批量导入参与者函数
+    // _tiers 与 _participants 一一对应，为每个导入的参与者指定所在的档位，已经参与的地址保持原有的档位
+    function importParticipants(
+        uint256 _projectId,
+        address[] calldata _participants,
+        uint256[] calldata _tiers,
+        bytes32[] calldata _commitments
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+        projectOpen(_projectId)
+        returns (uint256)
+    {
+        if (_tiers.length != _participants.length) revert ArrayLengthMismatch();
+        uint256 tierCount = s_pid2project[_projectId].tierCount;
+        for (uint256 i = 0; i < _tiers.length; i++) {
+            if (_tiers[i] == 0) continue;
+            if (_tiers[i] >= tierCount) revert TierNotFound(_tiers[i]);
+            if (s_projectid_paddr_index[_projectId][_participants[i]] == 0) {
+                s_projectid_paddr_tier[_projectId][_participants[i]] = _tiers[
+                    i
+                ];
+                emit TierSelected(_projectId, _participants[i], _tiers[i]);
+            }
+        }
+        return _importParticipants(_projectId, _participants, _commitments);
+    }
+
+    function _importParticipants(
+        uint256 _projectId,
+        address[] calldata _participants,
+        bytes32[] calldata _commitments
+    ) internal returns (uint256) {
+        if (_participants.length != _commitments.length)
+            revert ArrayLengthMismatch();
+        if (_participants.length > MAX_IMPORT_BATCH)
+            revert ImportBatchTooLarge(MAX_IMPORT_BATCH);
+        return
+            FairTicketLib.importParticipants(
+                s_projectid_participants[_projectId],
+                s_projectid_paddr_participant[_projectId],
+                s_projectid_paddr_index[_projectId],
+                _projectId,
+                _participants,
+                _commitments
+            );
+    }
+
+    // 白名单检查 项目设置了白名单时地址需要在白名单Merkle树中
+    function _checkAllowlist(
+        uint256 _projectId,
+        address _participant,
+        bytes32[] memory _proof
+    ) internal view {
+        bytes32 allowlistRoot = s_projectid_allowlistroot[_projectId];
+        if (
+            allowlistRoot != bytes32(0) &&
+            !MerkleProof.verify(
+                _proof,
+                allowlistRoot,
+                keccak256(abi.encodePacked(_participant))
+            )
+        ) revert NotAllowlisted(_projectId, _participant);
+    }
+
+    // 收取参与押金 每次参与都需要支付一次押金
+    function _collectDeposit(
+        uint256 _projectId,
+        address _participant
+    ) internal {
+        FairTicketLib.collectDeposit(
+            s_projectid_paddr_deposit[_projectId],
+            s_projectid_entryfee[_projectId].token,
+            _entryPrice(_projectId, _participant),
+            _participant
+        );
+    }
+
+    // 参与者每次参与需要支付的金额 参与者所在的档位设置了价格时使用档位的价格
+    function _entryPrice(
+        uint256 _projectId,
+        address _participant
+    ) internal view returns (uint256) {
+        if (s_pid2project[_projectId].tierCount != 0) {
+            uint256 price = _participantTier(_projectId, _participant).price;
+            if (price != 0) return price;
+        }
+        return s_projectid_entryfee[_projectId].price;
+    }
+
+    // 参与者所在的门票档位
+    function _participantTier(
+        uint256 _projectId,
+        address _participant
+    ) internal view returns (TicketTier storage) {
+        return
+            s_projectid_tiers[_projectId][
+                s_projectid_paddr_tier[_projectId][_participant]
+            ];
+    }
+
+    // 公布幸运数字函数
+    // 项目结束后、revealDeadline之前，参与者公布幸运数字和salt，与参与时提交的承诺进行校验
+    function reveal(
+        uint256 _projectId,
+        uint256 _luckyNum,
+        bytes32 _salt
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectFinished(_projectId)
+    {
+        uint256 revealDeadline = s_pid2project[_projectId].revealDeadline;
+        if (block.timestamp > revealDeadline)
+            revert RevealWindowClosed(revealDeadline);
+        FairTicketLib.reveal(
+            s_projectid_participants[_projectId],
+            s_projectid_paddr_participant[_projectId],
+            s_projectid_paddr_index[_projectId],
+            _projectId,
+            _luckyNum,
+            _salt
+        );
     }
 
     // 开始项目函数
-    // 这里使用了ProjectExist和onlyOwner修饰器
+    // 这里使用了ProjectExist和projectManagerOnly修饰器
+    // 设置了startTime的项目到达开始时间后自动开始，不能手动提前开始
     function startProject(
         uint256 _projectId
-    ) public projectExist(_projectId) onlyOwner {
-        if (s_pid2project[_projectId].projectStatus != ProjectStatus.NotStart)
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+    {
+        if (getProjectStatus(_projectId) != ProjectStatus.NotStart)
             revert ProjectAlreadyStarted();
+        uint256 startTime = s_pid2project[_projectId].startTime;
+        if (startTime != 0) revert ProjectNotOpen(startTime);
         // 将项目状态设置为进行中
         s_pid2project[_projectId].projectStatus = ProjectStatus.InProgress;
         // 触发项目开始事件
@@ -127,65 +663,569 @@ contract FairTicket is Ownable {
     }
 
     // 结束项目函数
-    // 这里使用了ProjectExist和onlyOwner修饰器
+    // 这里使用了ProjectExist和projectManagerOnly修饰器
+    // 到达startTime但还没有人参与的项目按时间已经开始，同样可以结束
     function finishProject(
         uint256 _projectId
-    ) public onlyOwner projectExist(_projectId) {
-        if (s_pid2project[_projectId].projectStatus != ProjectStatus.InProgress)
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+    {
+        if (getProjectStatus(_projectId) != ProjectStatus.InProgress)
             revert ProjectNotInProgress();
-        // 将项目状态设置为结束
+        _finishProject(_projectId);
+    }
+
+    // 到期结束项目函数
+    // 设置了endTime的项目到达结束时间后，任何人都可以调用该函数结束项目，避免因为owner没有及时操作而延长参与时间
+    // 设置了startTime但没有人参与过的项目仍处于NotStart状态，同样可以直接结束
+    function finalize(
+        uint256 _projectId
+    ) public whenNotPaused projectExist(_projectId) {
+        Project storage project = s_pid2project[_projectId];
+        if (project.endTime == 0 || block.timestamp < project.endTime)
+            revert ProjectEndTimeNotReached(project.endTime);
+        if (
+            project.projectStatus != ProjectStatus.InProgress &&
+            !(project.projectStatus == ProjectStatus.NotStart &&
+                project.startTime != 0)
+        ) revert ProjectNotInProgress();
+        _finishProject(_projectId);
+    }
+
+    function _finishProject(uint256 _projectId) internal {
+        // 将项目状态设置为结束 并开始公布幸运数字
         s_pid2project[_projectId].projectStatus = ProjectStatus.Finished;
+        s_pid2project[_projectId].revealDeadline =
+            block.timestamp + s_revealDuration;
         // 触发项目结束事件
         emit ProjectFinished(_projectId);
     }
 
+    // 取消项目函数
+    // 这里使用了ProjectExist和projectManagerOnly修饰器
+    // 只有NotStart和InProgress状态的项目可以取消，取消后不能再参与、抽奖和发布中奖者，参与者可以取回押金
+    function cancelProject(
+        uint256 _projectId,
+        string calldata _reason
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+    {
+        ProjectStatus status = _projectStatusNotCancelled(_projectId);
+        if (status > ProjectStatus.InProgress) revert ProjectNotCancellable();
+        s_pid2project[_projectId].projectStatus = ProjectStatus.Cancelled;
+        emit ProjectCancelled(_projectId, _reason);
+    }
+
     // 抽奖函数
-    // 这里使用了ProjectExist和onlyOwner,projectFinished修饰器
+    // 这里使用了ProjectExist和projectManagerOnly修饰器
+    // 向VRF Coordinator请求随机数，随机数在Coordinator回调rawFulfillRandomWords时写入
+    // lottery只用于第一轮抽奖，回调写入magicNumber后项目进入LotteryDrawn状态，之后的轮次使用drawNextRound
     function lottery(
         uint256 _projectId
-    ) public onlyOwner projectExist(_projectId) projectFinished(_projectId) {
-        // 生成随机数
-        uint256 magicNumber = SimpleMock.simpleVRF();
-        // 创建抽奖结果
-        LotteryResult memory result = LotteryResult({
-            projectId: _projectId,
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+    {
+        ProjectStatus status = _projectStatusNotCancelled(_projectId);
+        if (status >= ProjectStatus.LotteryDrawn) revert LotteryAlreadyDrawn();
+        if (status != ProjectStatus.Finished) revert ProjectNotFinished();
+        // 公布幸运数字的时间结束后才能抽奖，避免参与者根据结果选择是否公布
+        uint256 revealDeadline = s_pid2project[_projectId].revealDeadline;
+        if (block.timestamp <= revealDeadline)
+            revert RevealWindowOpen(revealDeadline);
+        _requestRandomness(_projectId);
+    }
+
+    // 补抽函数
+    // 这里使用了ProjectExist和projectManagerOnly修饰器
+    // 中奖名单公布后，上一轮的领取截止时间之后仍有门票没有被领取时，可以为剩余的门票开始新一轮抽奖
+    // 回调写入新一轮的magicNumber后项目回到LotteryDrawn状态，上一轮没有领取的中奖者不能再领取门票
+    function drawNextRound(
+        uint256 _projectId
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+    {
+        _checkWinnersPublished(_projectId);
+        LotteryRound[] storage rounds = s_projectid_rounds[_projectId];
+        uint256 claimDeadline = rounds[rounds.length - 1].claimDeadline;
+        if (block.timestamp <= claimDeadline)
+            revert ClaimWindowOpen(claimDeadline);
+        uint256 totalSupply = s_pid2project[_projectId].totalSupply;
+        if (s_projectid_claimed_amount[_projectId] >= totalSupply)
+            revert TicketSoldOut(totalSupply);
+        _requestRandomness(_projectId);
+    }
+
+    function _requestRandomness(uint256 _projectId) internal {
+        // 同一个项目同时只能有一个等待回调的请求
+        uint256 pendingRequestId = s_projectid_requestid[_projectId];
+        if (pendingRequestId != 0)
+            revert LotteryRequestPending(pendingRequestId);
+        // 请求随机数
+        uint256 requestId = FairTicketLib.requestRandomness(
+            s_vrfCoordinator,
+            s_vrfKeyHash,
+            s_vrfSubscriptionId,
+            VRF_REQUEST_CONFIRMATIONS,
+            VRF_CALLBACK_GAS_LIMIT,
+            VRF_NUM_WORDS
+        );
+        // 记录请求与项目的对应关系
+        s_requestid_projectid[requestId] = _projectId;
+        s_projectid_requestid[_projectId] = requestId;
+        s_projectid_requesttime[_projectId] = block.timestamp;
+        // 触发随机数请求事件
+        emit RandomnessRequested(_projectId, requestId);
+    }
+
+    // VRF回调函数
+    // 只有VRF Coordinator可以调用，将随机数作为magicNumber写入抽奖结果
+    function rawFulfillRandomWords(
+        uint256 _requestId,
+        uint256[] calldata _randomWords
+    ) external {
+        if (msg.sender != address(s_vrfCoordinator))
+            revert OnlyVRFCoordinator(msg.sender, address(s_vrfCoordinator));
+        uint256 projectId = s_requestid_projectid[_requestId];
+        if (projectId == 0) revert VRFRequestNotFound(_requestId);
+        // 清除等待中的请求
+        delete s_requestid_projectid[_requestId];
+        delete s_projectid_requestid[projectId];
+        uint256 magicNumber = _randomWords[0];
+        // 将抽奖结果存储到mappings中 并将项目状态设置为已抽奖
+        s_projectid_lottery[projectId] = LotteryResult({
+            projectId: projectId,
             magicNumber: magicNumber
         });
-        // 将抽奖结果存储到mappings中
-        s_projectid_lottery[_projectId] = result;
+        // 记录新一轮的结果 中奖名单公布前不能领取门票，因此剩余的门票数量在回调之后不会变化
+        s_projectid_rounds[projectId].push(
+            LotteryRound({
+                magicNumber: magicNumber,
+                supply: s_pid2project[projectId].totalSupply -
+                    s_projectid_claimed_amount[projectId],
+                merkleRoot: bytes32(0),
+                claimDeadline: 0
+            })
+        );
+        s_pid2project[projectId].projectStatus = ProjectStatus.LotteryDrawn;
         // 触发抽奖结果发布事件
-        emit MagicNumberPublished(_projectId, magicNumber);
+        emit MagicNumberPublished(projectId, magicNumber);
+    }
+
+    // 取消随机数请求函数
+    // 这里使用了onlyRole修饰器，保证只有平台管理员可以取消
+    // Coordinator一直没有回调时（例如订阅余额不足或者切换了Coordinator），项目会一直停留在等待回调的状态，
+    // 取消后项目管理者可以重新调用lottery或drawNextRound发起请求，被取消的请求之后再回调会revert
+    // 请求发出 VRF_REQUEST_TIMEOUT 之后才能取消，不能在回调交易上链之前取消请求重新抽奖
+    function cancelRandomnessRequest(
+        uint256 _projectId
+    ) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 requestId = s_projectid_requestid[_projectId];
+        if (requestId == 0) revert VRFRequestNotFound(0);
+        uint256 expiresAt =
+            s_projectid_requesttime[_projectId] + VRF_REQUEST_TIMEOUT;
+        if (block.timestamp < expiresAt) revert VRFRequestNotExpired(expiresAt);
+        delete s_requestid_projectid[requestId];
+        delete s_projectid_requestid[_projectId];
+        emit RandomnessRequestCancelled(_projectId, requestId);
+    }
+
+    // 设置公布幸运数字时长函数
+    // 只影响之后结束的项目
+    function setRevealDuration(
+        uint256 _revealDuration
+    ) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        s_revealDuration = _revealDuration;
+        emit RevealDurationUpdated(_revealDuration);
+    }
+
+    // 设置领取门票时长函数
+    // 只影响之后发布的中奖名单
+    function setClaimDuration(
+        uint256 _claimDuration
+    ) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        s_claimDuration = _claimDuration;
+        emit ClaimDurationUpdated(_claimDuration);
+    }
+
+    // 更新VRF配置函数
+    // 这里使用了onlyRole修饰器，保证只有平台管理员可以切换Coordinator
+    function setVRFConfig(
+        address _vrfCoordinator,
+        bytes32 _vrfKeyHash,
+        uint256 _vrfSubscriptionId
+    ) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setVRFConfig(_vrfCoordinator, _vrfKeyHash, _vrfSubscriptionId);
+    }
+
+    function _setVRFConfig(
+        address _vrfCoordinator,
+        bytes32 _vrfKeyHash,
+        uint256 _vrfSubscriptionId
+    ) internal {
+        if (_vrfCoordinator == address(0)) revert VRFCoordinatorZero();
+        s_vrfCoordinator = IVRFCoordinator(_vrfCoordinator);
+        s_vrfKeyHash = _vrfKeyHash;
+        s_vrfSubscriptionId = _vrfSubscriptionId;
+        emit VRFConfigUpdated(_vrfCoordinator, _vrfKeyHash, _vrfSubscriptionId);
+    }
+
+    // 暂停合约函数
+    // 暂停后所有项目和参与者的写操作都会revert
+    // 平台管理员的配置函数不受影响，便于在暂停期间修复配置；VRF回调也不受影响，避免已发出的随机数请求无法完成
+    function pause() public onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkNotPaused();
+        s_paused = true;
+        emit Paused(msg.sender);
+    }
+
+    // 恢复合约函数
+    function unpause() public onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (!s_paused) revert ExpectedPause();
+        s_paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    // 设置门票NFT合约函数
+    // FairTicket需要拥有门票NFT合约的MINTER_ROLE，设置为零地址时领取门票不再铸造NFT
+    function setTicketNFT(
+        address _ticketNFT
+    ) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        s_ticketNFT = IFairTicketNFT(_ticketNFT);
+        emit TicketNFTUpdated(_ticketNFT);
+    }
+
+    // 设置参与费用函数
+    // 只能在项目开始前设置，_token为零地址时使用ETH支付，_price为0时参与免费
+    function setEntryFee(
+        uint256 _projectId,
+        address _token,
+        uint256 _price
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+        projectNotStarted(_projectId)
+    {
+        s_projectid_entryfee[_projectId] = EntryFee({
+            token: _token,
+            price: _price
+        });
+        emit EntryFeeSet(_projectId, _token, _price);
+    }
+
+    // 设置每个地址最多参与次数函数
+    // 只能在项目开始前设置，未设置时每个地址只能参与一次
+    function setMaxEntries(
+        uint256 _projectId,
+        uint256 _maxEntries
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+        projectNotStarted(_projectId)
+    {
+        if (_maxEntries == 0) revert MaxEntriesZero();
+        s_projectid_maxentries[_projectId] = _maxEntries;
+        emit MaxEntriesSet(_projectId, _maxEntries);
+    }
+
+    // 添加门票档位函数
+    // 只能在项目开始前添加，档位按添加的顺序从0开始编号
+    // 添加第一个档位时项目的totalSupply替换为该档位的supply，之后每添加一个档位totalSupply增加相应的supply
+    function addTier(
+        uint256 _projectId,
+        bytes32 _nameHash,
+        uint256 _supply,
+        uint256 _price
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+        projectNotStarted(_projectId)
+    {
+        FairTicketLib.addTier(
+            s_projectid_tiers[_projectId],
+            s_pid2project[_projectId],
+            _nameHash,
+            _supply,
+            _price
+        );
+    }
+
+    // 设置白名单Merkle树函数
+    // 只能在项目开始前设置，设置为0时取消白名单限制
+    function setAllowlistRoot(
+        uint256 _projectId,
+        bytes32 _allowlistRoot
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+        projectNotStarted(_projectId)
+    {
+        s_projectid_allowlistroot[_projectId] = _allowlistRoot;
+        emit AllowlistRootSet(_projectId, _allowlistRoot);
+    }
+
+    // 设置权重Merkle树函数
+    // 只能在项目开始前设置，项目方根据会员等级等规则链下生成 (地址, 权重) 的Merkle树
+    function setWeightRoot(
+        uint256 _projectId,
+        bytes32 _weightRoot
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+        projectNotStarted(_projectId)
+    {
+        s_projectid_weightroot[_projectId] = _weightRoot;
+        emit WeightRootSet(_projectId, _weightRoot);
+    }
+
+    // 领取权重函数
+    // 参与项目后、项目结束前，参与者提交自己在权重Merkle树中的证明，将权重记录到参与者信息中
+    function claimWeight(
+        uint256 _projectId,
+        uint256 _weight,
+        bytes32[] calldata _proof
+    ) public whenNotPaused projectExist(_projectId) projectOpen(_projectId) {
+        FairTicketLib.claimWeight(
+            s_projectid_participants[_projectId],
+            s_projectid_paddr_participant[_projectId],
+            s_projectid_paddr_index[_projectId],
+            _projectId,
+            s_projectid_weightroot[_projectId],
+            _weight,
+            _proof
+        );
+    }
+
+    // 转让项目函数
+    // 只有项目owner可以转让，转让后原owner不能再管理项目，已授权的operator保持不变
+    function transferProjectOwnership(
+        uint256 _projectId,
+        address _newOwner
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectOwnerOnly(_projectId)
+    {
+        if (_newOwner == address(0)) revert ProjectOwnerZero();
+        s_pid2project[_projectId].owner = _newOwner;
+        emit ProjectOwnershipTransferred(_projectId, msg.sender, _newOwner);
+    }
+
+    // 授权项目operator函数
+    // 项目owner可以授权其他地址代为管理项目的生命周期
+    function grantProjectOperator(
+        uint256 _projectId,
+        address _operator
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectOwnerOnly(_projectId)
+    {
+        _grantRole(projectOperatorRole(_projectId), _operator);
+    }
+
+    // 撤销项目operator函数
+    function revokeProjectOperator(
+        uint256 _projectId,
+        address _operator
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectOwnerOnly(_projectId)
+    {
+        _revokeRole(projectOperatorRole(_projectId), _operator);
     }
 
     // 设置MerkleRoot函数
-    // 这里使用了onlyOwner修饰器，保证只有合约所有者可以执行该函数
+    // 这里使用了projectManagerOnly修饰器，保证只有项目的管理者可以执行该函数
+    // 每一轮抽奖完成后发布一次，发布后项目进入WinnersPublished状态，并开始计算该轮的领取截止时间
+    // 设置了档位的项目需要使用setTierMerkleRoots为每个档位分别发布merkleRoot
     function SetMerkleRoot(
         uint256 _projectId,
         bytes32 _merkleRoot
-    ) public onlyOwner {
-        if (s_pid2project[_projectId].merkleRoot != bytes32(0))
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+    {
+        uint256 tierCount = s_pid2project[_projectId].tierCount;
+        if (tierCount != 0) revert ProjectHasTiers(tierCount);
+        if (_merkleRoot == bytes32(0)) revert MerkleRootZero();
+        _publishWinners(_projectId, _merkleRoot);
+    }
+
+    // 设置档位MerkleRoot函数
+    // 按档位的顺序传入每个档位本轮中奖者的merkleRoot，没有中奖者的档位传入0
+    // 项目的merkleRoot和本轮的merkleRoot记录为 keccak256(abi.encodePacked(_merkleRoots))，用于确认中奖名单已经发布
+    function setTierMerkleRoots(
+        uint256 _projectId,
+        bytes32[] calldata _merkleRoots
+    )
+        public
+        whenNotPaused
+        projectExist(_projectId)
+        projectManagerOnly(_projectId)
+    {
+        _publishWinners(
+            _projectId,
+            FairTicketLib.setTierMerkleRoots(
+                s_projectid_tiers[_projectId],
+                s_pid2project[_projectId].tierCount,
+                _merkleRoots
+            )
+        );
+    }
+
+    function _publishWinners(uint256 _projectId, bytes32 _merkleRoot) internal {
+        ProjectStatus status = _projectStatusNotCancelled(_projectId);
+        if (status == ProjectStatus.WinnersPublished)
             revert MerkleRootAlreadySet();
-        // 设置MerkleRoot
+        if (status != ProjectStatus.LotteryDrawn) revert LotteryNotDrawn();
+        // 设置MerkleRoot 并将项目状态设置为已公布中奖者
         s_pid2project[_projectId].merkleRoot = _merkleRoot;
+        LotteryRound[] storage rounds = s_projectid_rounds[_projectId];
+        LotteryRound storage round = rounds[rounds.length - 1];
+        round.merkleRoot = _merkleRoot;
+        round.claimDeadline = block.timestamp + s_claimDuration;
+        s_pid2project[_projectId].projectStatus = ProjectStatus
+            .WinnersPublished;
+        emit MerkleRootSet(_projectId, _merkleRoot);
     }
 
     // 验证MerkleProof函数
     function verifyMerkleProof(
         uint256 _prjectId,
-        bytes32[] memory proof
+        bytes32[] calldata proof
     ) public view returns (bool) {
-        // 获取当前调用者的地址
+        return _verifyMerkleProof(_prjectId, msg.sender, proof);
+    }
+
+    // 领取门票函数
+    // 中奖者使用自己的MerkleProof领取门票，每个中奖者只能领取一次，领取总数不能超过项目的totalSupply
+    // 只能使用最新一轮的MerkleProof领取，开始新一轮抽奖后之前轮次没有领取的中奖者不能再领取
+    // 设置了档位的项目，中奖者使用所在档位的MerkleProof领取，每个档位的领取数量不能超过档位的supply
+    // 中奖者一次参与的押金计入项目owner的余额，由项目owner自行提取，多次参与的其余押金退还到中奖者的余额
+    function claimTicket(
+        uint256 _projectId,
+        bytes32[] calldata _proof
+    ) public nonReentrant whenNotPaused projectExist(_projectId) {
+        _checkWinnersPublished(_projectId);
+        if (s_projectid_paddr_claimed[_projectId][msg.sender])
+            revert AlreadyClaimed();
+        if (s_projectid_paddr_refunded[_projectId][msg.sender])
+            revert AlreadyRefunded();
+        uint256 totalSupply = s_pid2project[_projectId].totalSupply;
+        if (s_projectid_claimed_amount[_projectId] >= totalSupply)
+            revert TicketSoldOut(totalSupply);
+        if (s_pid2project[_projectId].tierCount != 0) {
+            TicketTier storage tier = _participantTier(_projectId, msg.sender);
+            if (tier.claimed >= tier.supply) revert TicketSoldOut(tier.supply);
+            tier.claimed += 1;
+        }
+        _verifyMerkleProof(_projectId, msg.sender, _proof);
+        // 记录领取状态
+        s_projectid_paddr_claimed[_projectId][msg.sender] = true;
+        s_projectid_claimed_amount[_projectId] += 1;
+        // 押金转给项目owner
+        FairTicketLib.settleDeposit(
+            s_projectid_paddr_deposit[_projectId],
+            s_addr_token_balance,
+            s_pid2project[_projectId].owner,
+            s_projectid_entryfee[_projectId].token,
+            _entryPrice(_projectId, msg.sender)
+        );
+        // 触发门票领取事件
+        emit TicketClaimed(_projectId, msg.sender);
+        // 铸造门票NFT
+        if (address(s_ticketNFT) != address(0)) {
+            s_ticketNFT.mint(
+                msg.sender,
+                _projectId,
+                s_pid2project[_projectId].fingerprint,
+                totalSupply
+            );
+        }
+    }
+
+    // 取回押金函数
+    // 中奖名单公布后，没有领取门票的参与者可以取回押金，押金计入参与者的余额
+    // 链上无法证明某个地址没有中奖，因此中奖者也可以选择取回押金，取回后放弃领取门票
+    // 取回押金时记录已经进行的抽奖轮数，之后的轮次不再抽取该参与者
+    // 项目被取消后，所有参与者都可以直接取回押金
+    // 合约暂停期间也可以取回押金
+    function refund(
+        uint256 _projectId
+    ) public nonReentrant projectExist(_projectId) {
+        ProjectStatus status = s_pid2project[_projectId].projectStatus;
+        if (
+            status != ProjectStatus.WinnersPublished &&
+            status != ProjectStatus.Cancelled
+        ) revert MerkleRootNotSet();
+        if (s_projectid_paddr_claimed[_projectId][msg.sender])
+            revert AlreadyClaimed();
+        s_projectid_paddr_refunded[_projectId][msg.sender] = true;
+        s_projectid_paddr_refundround[_projectId][msg.sender] = getRoundCount(
+            _projectId
+        );
+        FairTicketLib.refundDeposit(
+            s_projectid_paddr_deposit[_projectId],
+            s_addr_token_balance,
+            _projectId,
+            s_projectid_entryfee[_projectId].token
+        );
+    }
+
+    // 提取余额函数
+    // 使用pull payment的方式，退款和项目收入都先计入余额，再由收款人自己提取
+    // 合约暂停期间也可以提取余额
+    function withdraw(address _token) public nonReentrant {
+        FairTicketLib.withdraw(s_addr_token_balance, _token);
+    }
+
+    function _verifyMerkleProof(
+        uint256 _prjectId,
+        address _addr,
+        bytes32[] calldata proof
+    ) internal view returns (bool) {
         // address是一个bytes20类型 而keccak256的输入参数是bytes32类型
-        // 因此需要abi.encodePacked 将msg.sender打包成bytes32类型 然后使用keccak256计算哈希值
-        bytes32 self = keccak256(abi.encodePacked(msg.sender));
+        // 因此需要abi.encodePacked 将地址打包成bytes32类型 然后使用keccak256计算哈希值
+        bytes32 self = keccak256(abi.encodePacked(_addr));
         // 验证MerkleProof 使用的是openzeppelin的MerkleProof库
-        bool result = MerkleProof.verify(
+        // 设置了档位的项目使用地址所在档位的merkleRoot
+        bool result = MerkleProof.verifyCalldata(
             proof,
-            s_pid2project[_prjectId].merkleRoot,
+            s_pid2project[_prjectId].tierCount == 0
+                ? s_pid2project[_prjectId].merkleRoot
+                : _participantTier(_prjectId, _addr).merkleRoot,
             self
         );
         if (!result) {
-            revert MerkleProofInvalid(_prjectId, msg.sender, self, proof);
+            revert MerkleProofInvalid(_prjectId, _addr, self, proof);
         }
         return result;
     }
@@ -193,39 +1233,123 @@ contract FairTicket is Ownable {
     ///// Getters /////
     // 这里的Getters虽然可能某些函数不被业务需要 但如果不返回 在使用abi编译成go文件时，可能会缺失某些结构体
 
+    // 获取合约是否已经暂停的函数
+    function paused() public view returns (bool) {
+        return s_paused;
+    }
+
     // 分页获取参与者的函数
     // 参与者或许会很多，受到节点，网络等各种限制，不可能一次返回项目的所有参与者，所以需要分页获取
     function getProjectParticipants(
         uint256 _projectId,
         uint256 _offset,
         uint256 _limit
-    ) public view returns (Participant[] memory) {
-        uint256 totalParticipants = s_projectid_participants[_projectId].length;
-        // 确保 offset 有效
-        if (_offset >= totalParticipants) revert OffsetOutOfBounds();
-        // 计算实际要返回的数量
-        uint256 actualLimit = _limit;
-        if (_offset + _limit > totalParticipants) {
-            actualLimit = totalParticipants - _offset;
-        }
+    ) public view returns (ParticipantInfo[] memory) {
+        uint256 actualLimit = _pageLength(
+            s_projectid_participants[_projectId].length,
+            _offset,
+            _limit
+        );
         // 创建结果数组
-        Participant[] memory result = new Participant[](actualLimit);
+        ParticipantInfo[] memory result = new ParticipantInfo[](actualLimit);
         for (uint256 i = 0; i < actualLimit; i++) {
-            result[i] = s_projectid_participants[_projectId][_offset + i];
+            result[i] = _participantInfo(
+                _projectId,
+                s_projectid_participants[_projectId][_offset + i]
+            );
         }
         return result;
     }
 
+    // 在参与者的记录之后加上参与者选择的档位
+    function _participantInfo(
+        uint256 _projectId,
+        Participant storage _participant
+    ) internal view returns (ParticipantInfo memory) {
+        return
+            ParticipantInfo({
+                addr: _participant.addr,
+                luckyNum: _participant.luckyNum,
+                commitment: _participant.commitment,
+                revealed: _participant.revealed,
+                entries: _participant.entries,
+                weight: _participant.weight,
+                tier: s_projectid_paddr_tier[_projectId][_participant.addr],
+                refundRound: s_projectid_paddr_refundround[_projectId][
+                    _participant.addr
+                ]
+            });
+    }
+
+    // 分页读取时实际返回的数量 offset 超出范围时revert
+    function _pageLength(
+        uint256 _total,
+        uint256 _offset,
+        uint256 _limit
+    ) internal pure returns (uint256) {
+        if (_offset >= _total) revert OffsetOutOfBounds();
+        return _limit > _total - _offset ? _total - _offset : _limit;
+    }
+
     function getProjectInfo(
         uint256 _projectId
     ) public view returns (Project memory) {
         return s_pid2project[_projectId];
     }
 
+    // 根据fingerprint查询项目id 没有对应的项目时返回0
+    function getProjectByFingerprint(
+        bytes32 _fingerprint
+    ) public view returns (uint256) {
+        return s_fingerprint_projectid[_fingerprint];
+    }
+
+    function getProjectCount() public view returns (uint256) {
+        return s_globalId - s_initialGlobalId;
+    }
+
+    // 按创建顺序分页读取项目 _offset 为项目在创建顺序中的下标，第一个项目的下标为0
+    function getProjects(
+        uint256 _offset,
+        uint256 _limit
+    ) public view returns (Project[] memory) {
+        uint256 actualLimit = _pageLength(getProjectCount(), _offset, _limit);
+        // 创建结果数组
+        Project[] memory result = new Project[](actualLimit);
+        uint256 firstId = s_initialGlobalId + _offset;
+        for (uint256 i = 0; i < actualLimit; i++) {
+            result[i] = getProjectInfo(firstId + i);
+        }
+        return result;
+    }
+
+    // 每个地址最多参与的次数 未设置时为1
+    function getMaxEntries(uint256 _projectId) public view returns (uint256) {
+        uint256 maxEntries = s_projectid_maxentries[_projectId];
+        return maxEntries == 0 ? 1 : maxEntries;
+    }
+
+    function getAllowlistRoot(
+        uint256 _projectId
+    ) public view returns (bytes32) {
+        return s_projectid_allowlistroot[_projectId];
+    }
+
+    function getWeightRoot(uint256 _projectId) public view returns (bytes32) {
+        return s_projectid_weightroot[_projectId];
+    }
+
+    // 设置了startTime的项目到达开始时间后即视为进行中，即使还没有人参与触发状态更新
     function getProjectStatus(
         uint256 _projectId
     ) public view returns (ProjectStatus) {
-        return s_pid2project[_projectId].projectStatus;
+        Project storage project = s_pid2project[_projectId];
+        if (
+            project.projectStatus == ProjectStatus.NotStart &&
+            project.startTime != 0 &&
+            block.timestamp >= project.startTime
+        ) return ProjectStatus.InProgress;
+        return project.projectStatus;
     }
 
     function getLotteryResult(
@@ -234,11 +1358,38 @@ contract FairTicket is Ownable {
         return s_projectid_lottery[_projectId];
     }
 
+    // 获取项目已经完成的抽奖轮数 未抽奖时为0
+    function getRoundCount(uint256 _projectId) public view returns (uint256) {
+        return s_projectid_rounds[_projectId].length;
+    }
+
+    // 获取项目第_round轮的抽奖结果 轮次从1开始
+    function getLotteryRound(
+        uint256 _projectId,
+        uint256 _round
+    ) public view returns (LotteryRound memory) {
+        LotteryRound[] storage rounds = s_projectid_rounds[_projectId];
+        if (_round == 0 || _round > rounds.length) revert RoundNotFound(_round);
+        return rounds[_round - 1];
+    }
+
     function getParticipantInfo(
         uint256 _projectId,
         address _addr
-    ) public view returns (Participant memory) {
-        return s_projectid_paddr_participant[_projectId][_addr];
+    ) public view returns (ParticipantInfo memory) {
+        return
+            _participantInfo(
+                _projectId,
+                s_projectid_paddr_participant[_projectId][_addr]
+            );
+    }
+
+    // 获取参与者选择的门票档位 未设置档位的项目以及没有参与的地址返回0
+    function getParticipantTier(
+        uint256 _projectId,
+        address _addr
+    ) public view returns (uint256) {
+        return s_projectid_paddr_tier[_projectId][_addr];
     }
 
     function getProjectParticipantsAmount(
@@ -250,13 +1401,91 @@ contract FairTicket is Ownable {
     function getMagicNumber(uint256 _projectId) public view returns (uint256) {
         return s_projectid_lottery[_projectId].magicNumber;
     }
+
+    // 查询地址是否已经领取了项目的门票
+    function hasClaimed(
+        uint256 _projectId,
+        address _addr
+    ) public view returns (bool) {
+        return s_projectid_paddr_claimed[_projectId][_addr];
+    }
+
+    // 获取项目已经领取的门票数量
+    function getClaimedAmount(
+        uint256 _projectId
+    ) public view returns (uint256) {
+        return s_projectid_claimed_amount[_projectId];
+    }
+
+    function getEntryFee(
+        uint256 _projectId
+    ) public view returns (EntryFee memory) {
+        return s_projectid_entryfee[_projectId];
+    }
+
+    // 获取参与者在项目中托管的押金 领取门票或取回押金后为0
+    function getDeposit(
+        uint256 _projectId,
+        address _addr
+    ) public view returns (uint256) {
+        return s_projectid_paddr_deposit[_projectId][_addr];
+    }
+
+    // 获取地址可以提取的余额 token为零地址时表示ETH
+    function getBalance(
+        address _addr,
+        address _token
+    ) public view returns (uint256) {
+        return s_addr_token_balance[_addr][_token];
+    }
+
+    // 获取项目operator的角色id
+    function projectOperatorRole(
+        uint256 _projectId
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encode(PROJECT_OPERATOR_ROLE, _projectId));
+    }
+
+    // 查询地址是否为项目的operator
+    function isProjectOperator(
+        uint256 _projectId,
+        address _addr
+    ) public view returns (bool) {
+        return hasRole(projectOperatorRole(_projectId), _addr);
+    }
+
+    // 查询地址是否可以管理项目的生命周期
+    function isProjectManager(
+        uint256 _projectId,
+        address _addr
+    ) public view returns (bool) {
+        return
+            s_pid2project[_projectId].owner == _addr ||
+            isProjectOperator(_projectId, _addr) ||
+            hasRole(DEFAULT_ADMIN_ROLE, _addr);
+    }
+
+    // 获取项目等待回调的VRF请求id 没有等待中的请求时返回0
+    function getPendingRequestId(
+        uint256 _projectId
+    ) public view returns (uint256) {
+        return s_projectid_requestid[_projectId];
+    }
 }
 
-// 一个简单的mock库，用于生成随机数
-// 实际中应该调用链上合约的随机数生成函数，为了简单，这里就不介绍Chainlink VRF相关知识，也不打算编写VRF的Mock合约，而是直接提供一个返回值
-// 函数声明为 internal 内联函数，防止部署时单独部署
-library SimpleMock {
-    function simpleVRF() internal pure returns (uint256) {
-        return 1234567890;
+// 直接部署的FairTicket 在构造函数中完成初始化
+contract FairTicket is FairTicketBase {
+    constructor(
+        uint256 _globalId,
+        address _vrfCoordinator,
+        bytes32 _vrfKeyHash,
+        uint256 _vrfSubscriptionId
+    ) {
+        _initializeFairTicket(
+            _globalId,
+            _vrfCoordinator,
+            _vrfKeyHash,
+            _vrfSubscriptionId
+        );
     }
 }
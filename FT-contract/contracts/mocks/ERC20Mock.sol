@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// 测试使用的ERC-20代币 任何人都可以铸造
+contract ERC20Mock is ERC20 {
+    constructor() ERC20("Mock Token", "MOCK") {}
+
+    function mint(address _to, uint256 _amount) external {
+        _mint(_to, _amount);
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import {FairTicketUpgradeable} from "../FairTicketUpgradeable.sol";
+
+// 测试升级使用的V2版本 在原有存储之后追加新的状态变量
+contract FairTicketUpgradeableV2Mock is FairTicketUpgradeable {
+    uint256 public s_v2Value;
+
+    // 升级时通过 upgradeToAndCall 调用
+    function initializeV2(uint256 _value) external reinitializer(3) {
+        s_v2Value = _value;
+    }
+
+    function version() external pure returns (string memory) {
+        return "2";
+    }
+}
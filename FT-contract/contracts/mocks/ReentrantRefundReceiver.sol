@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import {FairTicket} from "../fair_ticket.sol";
+
+// 测试重入保护使用的参与者合约
+// 收到ETH时再次调用 FairTicket.withdraw，尝试重复提取余额
+contract ReentrantRefundReceiver {
+    FairTicket public immutable i_fairTicket;
+
+    constructor(FairTicket _fairTicket) {
+        i_fairTicket = _fairTicket;
+    }
+
+    function participate(
+        uint256 _projectId,
+        bytes32 _commitment
+    ) external payable {
+        i_fairTicket.participate{value: msg.value}(_projectId, _commitment);
+    }
+
+    function refund(uint256 _projectId) external {
+        i_fairTicket.refund(_projectId);
+    }
+
+    function withdraw() external {
+        i_fairTicket.withdraw(address(0));
+    }
+
+    receive() external payable {
+        i_fairTicket.withdraw(address(0));
+    }
+}
@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.29;
+
+import {IVRFCoordinator, IVRFConsumer, VRFV2PlusClient} from "../IVRFCoordinator.sol";
+
+// 本地网络使用的 VRF Coordinator Mock
+// 记录请求后不会自动回调，需要手动调用 fulfillRandomWords 模拟Chainlink节点的回调
+contract VRFCoordinatorMock is IVRFCoordinator {
+    //// State Variables ////
+    uint256 public s_nextRequestId = 1;
+    mapping(uint256 => address) public s_requestid_consumer;
+    mapping(uint256 => uint32) public s_requestid_numwords;
+
+    //// Events ////
+    event RandomWordsRequested(
+        uint256 indexed requestId,
+        address indexed consumer,
+        bytes32 keyHash,
+        uint256 subId,
+        uint32 numWords
+    );
+    event RandomWordsFulfilled(uint256 indexed requestId);
+
+    //// Errors ////
+    error RequestNotFound(uint256 requestId);
+    error WrongNumberOfWords(uint256 expected, uint256 actual);
+
+    //// Functions ////
+
+    // 记录随机数请求 返回请求id
+    function requestRandomWords(
+        VRFV2PlusClient.RandomWordsRequest calldata req
+    ) external returns (uint256 requestId) {
+        requestId = s_nextRequestId;
+        s_nextRequestId += 1;
+        s_requestid_consumer[requestId] = msg.sender;
+        s_requestid_numwords[requestId] = req.numWords;
+        emit RandomWordsRequested(
+            requestId,
+            msg.sender,
+            req.keyHash,
+            req.subId,
+            req.numWords
+        );
+    }
+
+    // 使用伪随机数完成请求
+    function fulfillRandomWords(uint256 _requestId) external {
+        uint256[] memory words = new uint256[](
+            s_requestid_numwords[_requestId]
+        );
+        for (uint256 i = 0; i < words.length; i++) {
+            words[i] = uint256(
+                keccak256(abi.encode(_requestId, i, block.prevrandao))
+            );
+        }
+        _fulfill(_requestId, words);
+    }
+
+    // 使用指定的随机数完成请求 方便测试中得到确定的结果
+    function fulfillRandomWordsWithOverride(
+        uint256 _requestId,
+        uint256[] memory _words
+    ) external {
+        if (_words.length != s_requestid_numwords[_requestId])
+            revert WrongNumberOfWords(
+                s_requestid_numwords[_requestId],
+                _words.length
+            );
+        _fulfill(_requestId, _words);
+    }
+
+    function _fulfill(uint256 _requestId, uint256[] memory _words) internal {
+        address consumer = s_requestid_consumer[_requestId];
+        if (consumer == address(0)) revert RequestNotFound(_requestId);
+        delete s_requestid_consumer[_requestId];
+        delete s_requestid_numwords[_requestId];
+        IVRFConsumer(consumer).rawFulfillRandomWords(_requestId, _words);
+        emit RandomWordsFulfilled(_requestId);
+    }
+}
@@ -1,19 +1,31 @@
 import hardhatToolboxViemPlugin from "@nomicfoundation/hardhat-toolbox-viem";
 import { defineConfig } from "hardhat/config";
+import { fairTicketTasks } from "./tasks/index.js";
 
 export default defineConfig({
   plugins: [hardhatToolboxViemPlugin],
+  tasks: fairTicketTasks,
   solidity: {
+    // 可升级的 FairTicket 使用 openzeppelin 的 ERC1967 代理合约部署
+    npmFilesToBuild: ["@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol"],
     profiles: {
       default: {
         version: "0.8.29",
+        // FairTicket 未开启优化时超过了 24KB 的合约大小限制，测试网络上同样需要开启优化才能部署
+        // runs 设置为1，优先减小合约大小，可升级的 FairTicketUpgradeable 需要在 FairTicket 的基础上额外包含升级逻辑
+        settings: {
+          optimizer: {
+            enabled: true,
+            runs: 1,
+          },
+        },
       },
       production: {
         version: "0.8.29",
         settings: {
           optimizer: {
             enabled: true,
-            runs: 200,
+            runs: 1,
           },
         },
       },
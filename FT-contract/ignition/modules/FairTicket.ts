@@ -1,21 +1,30 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
-import { hardhat } from "viem/chains";
+import FairTicketLibModule from "./FairTicketLib.js";
 
 /**
- * FairTicket合约部署模块
+ * FairTicket合约部署模块（对接链上真实的VRF Coordinator）
  *
  * 部署方式:
- * npx hardhat ignition deploy ignition/modules/FairTicket.ts --network localhost
- * npx hardhat ignition deploy ignition/modules/FairTicket.ts --network sepolia
+ * npx hardhat ignition deploy ignition/modules/FairTicket.ts --network sepolia --parameters ignition/parameters.json
+ *
+ * 本地网络请使用 FairTicketLocal.ts，它会同时部署VRF Coordinator Mock
  */
 export default buildModule("FairTicketModule", (m) => {
   // 设置初始globalId，可以通过参数覆盖
   const initialGlobalId = m.getParameter("initialGlobalId", 1n);
+  // VRF配置 需要通过参数文件指定Chainlink VRF Coordinator地址、keyHash以及订阅id
+  const vrfCoordinator = m.getParameter<string>("vrfCoordinator");
+  const vrfKeyHash = m.getParameter<string>("vrfKeyHash");
+  const vrfSubscriptionId = m.getParameter<bigint>("vrfSubscriptionId");
+
+  const { fairTicketLib } = m.useModule(FairTicketLibModule);
 
-  // 部署FairTicket合约
-  const fairTicket = m.contract("FairTicket", [initialGlobalId]);
+  // 部署FairTicket合约 并链接FairTicketLib库
+  const fairTicket = m.contract(
+    "FairTicket",
+    [initialGlobalId, vrfCoordinator, vrfKeyHash, vrfSubscriptionId],
+    { libraries: { FairTicketLib: fairTicketLib } }
+  );
 
   return { fairTicket };
 });
-
-
@@ -0,0 +1,13 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * FairTicketLib库部署模块
+ *
+ * FairTicket 和 FairTicketUpgradeable 的部分逻辑放在外部库 FairTicketLib 中，部署时需要链接库的地址
+ * 其他模块通过 m.useModule 使用同一个库，不需要单独部署
+ */
+export default buildModule("FairTicketLibModule", (m) => {
+  const fairTicketLib = m.library("FairTicketLib");
+
+  return { fairTicketLib };
+});
@@ -0,0 +1,31 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import FairTicketLibModule from "./FairTicketLib.js";
+import VRFCoordinatorMockModule from "./VRFCoordinatorMock.js";
+
+/**
+ * FairTicket合约本地部署模块（使用VRF Coordinator Mock）
+ *
+ * 部署方式:
+ * npx hardhat ignition deploy ignition/modules/FairTicketLocal.ts --network localhost
+ */
+export default buildModule("FairTicketLocalModule", (m) => {
+  const initialGlobalId = m.getParameter("initialGlobalId", 1n);
+  // Mock不校验keyHash和订阅id，这里使用任意值即可
+  const vrfKeyHash = m.getParameter(
+    "vrfKeyHash",
+    "0x0000000000000000000000000000000000000000000000000000000000000001"
+  );
+  const vrfSubscriptionId = m.getParameter("vrfSubscriptionId", 1n);
+
+  const { vrfCoordinator } = m.useModule(VRFCoordinatorMockModule);
+  const { fairTicketLib } = m.useModule(FairTicketLibModule);
+
+  // 部署FairTicket合约 并将Mock作为VRF Coordinator
+  const fairTicket = m.contract(
+    "FairTicket",
+    [initialGlobalId, vrfCoordinator, vrfKeyHash, vrfSubscriptionId],
+    { libraries: { FairTicketLib: fairTicketLib } }
+  );
+
+  return { fairTicket, vrfCoordinator };
+});
@@ -0,0 +1,27 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import FairTicketModule from "./FairTicket.js";
+
+/**
+ * 门票NFT部署模块
+ *
+ * 部署FairTicket以及FairTicketNFT合约，将MINTER_ROLE授予FairTicket，并在FairTicket中设置NFT合约地址
+ *
+ * 部署方式:
+ * npx hardhat ignition deploy ignition/modules/FairTicketNFT.ts --network sepolia --parameters ignition/parameters.json
+ *
+ * FairTicket的部署参数与 FairTicket.ts 相同，需要写在 FairTicketModule 下
+ * NFT合约的管理员为部署账户
+ */
+export default buildModule("FairTicketNFTModule", (m) => {
+  const { fairTicket } = m.useModule(FairTicketModule);
+
+  // 部署门票NFT合约
+  const ticketNFT = m.contract("FairTicketNFT", [m.getAccount(0)]);
+
+  // 将铸造权限授予FairTicket 并在FairTicket中设置NFT合约
+  const minterRole = m.staticCall(ticketNFT, "MINTER_ROLE");
+  m.call(ticketNFT, "grantRole", [minterRole, fairTicket]);
+  m.call(fairTicket, "setTicketNFT", [ticketNFT]);
+
+  return { fairTicket, ticketNFT };
+});
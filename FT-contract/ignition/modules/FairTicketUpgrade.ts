@@ -0,0 +1,57 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import FairTicketLibModule from "./FairTicketLib.js";
+
+/**
+ * 可升级FairTicket的升级模块
+ *
+ * 部署新的实现合约，并由平台管理员调用代理合约的 upgradeToAndCall 完成升级
+ *
+ * 升级方式:
+ * npx hardhat ignition deploy ignition/modules/FairTicketUpgrade.ts --network sepolia --parameters ignition/parameters.json --deployment-id fairticket-upgrade-1
+ *
+ * 参数:
+ * - proxy: 代理合约地址，即 FairTicketUpgradeableModule#FairTicket
+ * - upgradeData: 升级后调用的初始化数据，默认为空
+ *
+ * Ignition 不允许修改已经执行过的部署，每次升级需要使用新的 deployment-id
+ * 新的实现合约链接在同一次部署中重新部署的 FairTicketLib，库的代码与实现合约保持一致
+ */
+
+// 构建升级到指定实现合约的模块 新的实现合约需要继承 FairTicketUpgradeable
+export function buildFairTicketUpgradeModule<
+  ModuleIdT extends string,
+  ImplementationNameT extends string,
+>(moduleId: ModuleIdT, implementationName: ImplementationNameT) {
+  return buildModule(moduleId, (m) => {
+    const proxyAddress = m.getParameter<string>("proxy");
+    const upgradeData = m.getParameter("upgradeData", "0x");
+
+    const proxy = m.contractAt("FairTicketUpgradeable", proxyAddress, {
+      id: "Proxy",
+    });
+    const { fairTicketLib } = m.useModule(FairTicketLibModule);
+    const implementation = m.contract(implementationName, [], {
+      id: "Implementation",
+      libraries: { FairTicketLib: fairTicketLib },
+    });
+    const upgrade = m.call(
+      proxy,
+      "upgradeToAndCall",
+      [implementation, upgradeData],
+      { from: m.getAccount(0) }
+    );
+
+    // 使用新实现合约的ABI访问代理合约
+    const fairTicket = m.contractAt(implementationName, proxyAddress, {
+      id: "Upgraded",
+      after: [upgrade],
+    });
+
+    return { fairTicket, implementation };
+  });
+}
+
+export default buildFairTicketUpgradeModule(
+  "FairTicketUpgradeModule",
+  "FairTicketUpgradeable"
+);
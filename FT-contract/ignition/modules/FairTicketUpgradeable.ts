@@ -0,0 +1,43 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import FairTicketLibModule from "./FairTicketLib.js";
+
+/**
+ * 可升级FairTicket部署模块（ERC1967代理 + FairTicketUpgradeable实现合约）
+ *
+ * 部署方式:
+ * npx hardhat ignition deploy ignition/modules/FairTicketUpgradeable.ts --network sepolia --parameters ignition/parameters.json
+ *
+ * 参数与 FairTicket.ts 相同，需要写在 FairTicketUpgradeableModule 下
+ * 部署账户成为平台管理员，之后可以使用 FairTicketUpgrade.ts 升级实现合约
+ * 返回的 fairTicket 为代理合约地址，任务和脚本通过它访问合约
+ */
+export default buildModule("FairTicketUpgradeableModule", (m) => {
+  const initialGlobalId = m.getParameter("initialGlobalId", 1n);
+  const vrfCoordinator = m.getParameter<string>("vrfCoordinator");
+  const vrfKeyHash = m.getParameter<string>("vrfKeyHash");
+  const vrfSubscriptionId = m.getParameter<bigint>("vrfSubscriptionId");
+
+  const { fairTicketLib } = m.useModule(FairTicketLibModule);
+
+  // 部署实现合约 实现合约本身不能被初始化
+  const implementation = m.contract("FairTicketUpgradeable", [], {
+    id: "FairTicketImplementation",
+    libraries: { FairTicketLib: fairTicketLib },
+  });
+
+  // 部署代理合约 并在同一笔交易中调用 initialize
+  const initData = m.encodeFunctionCall(implementation, "initialize", [
+    initialGlobalId,
+    vrfCoordinator,
+    vrfKeyHash,
+    vrfSubscriptionId,
+  ]);
+  const proxy = m.contract("ERC1967Proxy", [implementation, initData]);
+
+  // 使用FairTicketUpgradeable的ABI访问代理合约
+  const fairTicket = m.contractAt("FairTicketUpgradeable", proxy, {
+    id: "FairTicket",
+  });
+
+  return { fairTicket, proxy, implementation };
+});
@@ -1,4 +1,5 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import FairTicketLibModule from "./FairTicketLib.js";
 
 /**
  * FairTicket合约完整部署模块（包含示例项目创建）
@@ -11,6 +12,9 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
  * {
  *   "FairTicketWithSetupModule": {
  *     "initialGlobalId": "1",
+ *     "vrfCoordinator": "0xVRFCoordinatorAddress",
+ *     "vrfKeyHash": "0xVRFKeyHash",
+ *     "vrfSubscriptionId": "1",
  *     "createSampleProject": true,
  *     "sampleFingerprint": "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
  *     "sampleOwner": "0xYourProjectOwnerAddress",
@@ -21,6 +25,9 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 export default buildModule("FairTicketWithSetupModule", (m) => {
   // 获取部署参数
   const initialGlobalId = m.getParameter("initialGlobalId", 1n);
+  const vrfCoordinator = m.getParameter<string>("vrfCoordinator");
+  const vrfKeyHash = m.getParameter<string>("vrfKeyHash");
+  const vrfSubscriptionId = m.getParameter<bigint>("vrfSubscriptionId");
   const createSampleProject = m.getParameter("createSampleProject", false);
   const sampleFingerprint = m.getParameter(
     "sampleFingerprint",
@@ -29,12 +36,18 @@ export default buildModule("FairTicketWithSetupModule", (m) => {
   const sampleOwner = m.getParameter("sampleOwner", m.getAccount(0));
   const sampleTotalSupply = m.getParameter("sampleTotalSupply", 100n);
 
-  // 部署FairTicket合约
-  const fairTicket = m.contract("FairTicket", [initialGlobalId]);
+  const { fairTicketLib } = m.useModule(FairTicketLibModule);
+
+  // 部署FairTicket合约 并链接FairTicketLib库
+  const fairTicket = m.contract(
+    "FairTicket",
+    [initialGlobalId, vrfCoordinator, vrfKeyHash, vrfSubscriptionId],
+    { libraries: { FairTicketLib: fairTicketLib } }
+  );
 
   // 如果需要，创建示例项目
   if (createSampleProject) {
-    m.call(fairTicket, "createProject", [
+    m.call(fairTicket, "createProject(bytes32,address,uint256)", [
       sampleFingerprint,
       sampleOwner,
       sampleTotalSupply,
@@ -0,0 +1,12 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * VRF Coordinator Mock部署模块，仅用于本地网络
+ *
+ * 部署后需要手动调用 fulfillRandomWords 模拟Chainlink节点的回调
+ */
+export default buildModule("VRFCoordinatorMockModule", (m) => {
+  const vrfCoordinator = m.contract("VRFCoordinatorMock");
+
+  return { vrfCoordinator };
+});
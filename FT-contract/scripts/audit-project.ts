@@ -0,0 +1,60 @@
+import { network } from "hardhat";
+import { getAddress } from "viem";
+import {
+  auditProject,
+  fetchProjectTimeline,
+  formatTimeline,
+} from "../utils/audit.js";
+
+/**
+ * 从日志重建项目的完整时间线，并与 getter 读取的链上状态进行比较
+ *
+ * 使用方式:
+ * FAIRTICKET_ADDRESS=0x... PROJECT_ID=1 npx hardhat run scripts/audit-project.ts --network sepolia
+ *
+ * 可选环境变量:
+ * FROM_BLOCK 开始读取日志的区块，一般为合约部署所在的区块，默认为0
+ * BATCH_SIZE 每次查询日志的区块数量，默认为1000
+ *
+ * 存在不一致的字段时以非0状态码退出
+ */
+const address = process.env.FAIRTICKET_ADDRESS;
+const projectIdEnv = process.env.PROJECT_ID;
+if (address === undefined || projectIdEnv === undefined) {
+  throw new Error("FAIRTICKET_ADDRESS and PROJECT_ID must be set");
+}
+const projectId = BigInt(projectIdEnv);
+const fromBlock = BigInt(process.env.FROM_BLOCK ?? "0");
+const batchSize =
+  process.env.BATCH_SIZE === undefined
+    ? undefined
+    : BigInt(process.env.BATCH_SIZE);
+
+const { viem } = await network.connect();
+const publicClient = await viem.getPublicClient();
+const fairTicket = await viem.getContractAt("FairTicket", getAddress(address));
+
+const timeline = await fetchProjectTimeline(
+  publicClient,
+  fairTicket.address,
+  projectId,
+  fromBlock,
+  { batchSize }
+);
+console.log(`Project ${projectId} timeline (${timeline.length} events):`);
+for (const line of formatTimeline(timeline)) {
+  console.log(" ", line);
+}
+
+const diffs = await auditProject(fairTicket, projectId, timeline);
+if (diffs.length === 0) {
+  console.log("Logs match getters");
+} else {
+  console.log(`Found ${diffs.length} mismatches between logs and getters:`);
+  for (const { field, fromLogs, fromGetters } of diffs) {
+    console.log(
+      `  ${field}: logs=${String(fromLogs)} getters=${String(fromGetters)}`
+    );
+  }
+  process.exitCode = 1;
+}
@@ -0,0 +1,57 @@
+import { network } from "hardhat";
+import { getAddress } from "viem";
+import {
+  exportAllowlistProofs,
+  readAllowlistCsv,
+  writeAllowlistProofs,
+} from "../utils/allowlist.js";
+
+/**
+ * 根据CSV构建项目的白名单 Merkle 树并导出每个地址的 proof
+ *
+ * 使用方式:
+ * ALLOWLIST=members.csv PROJECT_ID=1 npx hardhat run scripts/build-allowlist.ts
+ *
+ * CSV格式见 utils/allowlist.ts，第一列为地址
+ *
+ * 可选环境变量:
+ * OUTPUT             输出文件路径，默认为 merkle/allowlist-<id>.json
+ * PUBLISH            设置为 true 时将 root 通过 setAllowlistRoot 写入合约，项目必须还没有开始
+ * FAIRTICKET_ADDRESS PUBLISH 为 true 时必须设置
+ */
+const allowlistFile = process.env.ALLOWLIST;
+const projectIdEnv = process.env.PROJECT_ID;
+if (allowlistFile === undefined || projectIdEnv === undefined) {
+  throw new Error("ALLOWLIST and PROJECT_ID must be set");
+}
+const projectId = BigInt(projectIdEnv);
+const output = process.env.OUTPUT ?? `merkle/allowlist-${projectId}.json`;
+
+const addresses = await readAllowlistCsv(allowlistFile);
+console.log(
+  `Allowlist of project ${projectId} has ${addresses.length} addresses`
+);
+
+const allowlistProofs = exportAllowlistProofs(projectId, addresses);
+await writeAllowlistProofs(output, allowlistProofs);
+console.log("Allowlist root:", allowlistProofs.root);
+console.log("Proofs written to", output);
+
+if (process.env.PUBLISH === "true") {
+  const address = process.env.FAIRTICKET_ADDRESS;
+  if (address === undefined) {
+    throw new Error("FAIRTICKET_ADDRESS must be set to publish the root");
+  }
+  const { viem } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const fairTicket = await viem.getContractAt(
+    "FairTicket",
+    getAddress(address)
+  );
+  const hash = await fairTicket.write.setAllowlistRoot([
+    projectId,
+    allowlistProofs.root,
+  ]);
+  await publicClient.waitForTransactionReceipt({ hash });
+  console.log("Allowlist root published in transaction", hash);
+}
@@ -0,0 +1,82 @@
+import { network } from "hardhat";
+import { getAddress, zeroHash } from "viem";
+import type { Hash } from "viem";
+import {
+  drawProjectTierWinners,
+  drawProjectWinners,
+} from "../utils/selection.js";
+import {
+  exportTierWinnerProofs,
+  exportWinnerProofs,
+  tierProofsPath,
+  writeWinnerProofs,
+} from "../utils/merkle.js";
+
+/**
+ * 计算项目的中奖名单，构建 Merkle 树并导出每个中奖者的 proof
+ *
+ * 使用方式:
+ * FAIRTICKET_ADDRESS=0x... PROJECT_ID=1 npx hardhat run scripts/build-winner-tree.ts --network sepolia
+ *
+ * 可选环境变量:
+ * OUTPUT  输出文件路径，默认为 merkle/project-<id>.json
+ * PUBLISH 设置为 true 时将 root 通过 SetMerkleRoot 写入合约
+ *
+ * 设置了档位的项目按档位分别构建 Merkle 树，每个档位的 proof 写入 OUTPUT 加上 -tier-<档位> 后缀的文件，
+ * 发布时通过 setTierMerkleRoots 写入每个档位的 root
+ */
+const address = process.env.FAIRTICKET_ADDRESS;
+const projectIdEnv = process.env.PROJECT_ID;
+if (address === undefined || projectIdEnv === undefined) {
+  throw new Error("FAIRTICKET_ADDRESS and PROJECT_ID must be set");
+}
+const projectId = BigInt(projectIdEnv);
+const output = process.env.OUTPUT ?? `merkle/project-${projectId}.json`;
+
+const { viem } = await network.connect();
+const publicClient = await viem.getPublicClient();
+const fairTicket = await viem.getContractAt("FairTicket", getAddress(address));
+
+const { tierCount } = await fairTicket.read.getProjectInfo([projectId]);
+let publish: () => Promise<Hash>;
+if (tierCount === 0n) {
+  const winners = await drawProjectWinners(fairTicket, projectId);
+  console.log(`Project ${projectId} has ${winners.length} winners`);
+
+  const winnerProofs = exportWinnerProofs(
+    projectId,
+    winners.map((winner) => winner.addr)
+  );
+  await writeWinnerProofs(output, winnerProofs);
+  console.log("Merkle root:", winnerProofs.root);
+  console.log("Proofs written to", output);
+  publish = () =>
+    fairTicket.write.SetMerkleRoot([projectId, winnerProofs.root]);
+} else {
+  const tierWinners = await drawProjectTierWinners(fairTicket, projectId);
+  const tierProofs = exportTierWinnerProofs(
+    projectId,
+    tierWinners.map((winners) => winners.map((winner) => winner.addr))
+  );
+  for (const [tier, winnerProofs] of tierProofs.entries()) {
+    console.log(
+      `Project ${projectId} tier ${tier} has ${tierWinners[tier].length} winners`
+    );
+    if (winnerProofs === null) continue;
+    const file = tierProofsPath(output, BigInt(tier));
+    await writeWinnerProofs(file, winnerProofs);
+    console.log(`Tier ${tier} Merkle root:`, winnerProofs.root);
+    console.log("Proofs written to", file);
+  }
+  publish = () =>
+    fairTicket.write.setTierMerkleRoots([
+      projectId,
+      tierProofs.map((proofs) => proofs?.root ?? zeroHash),
+    ]);
+}
+
+if (process.env.PUBLISH === "true") {
+  const hash = await publish();
+  await publicClient.waitForTransactionReceipt({ hash });
+  console.log("Merkle root published in transaction", hash);
+}
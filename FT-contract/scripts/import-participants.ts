@@ -0,0 +1,63 @@
+import { network } from "hardhat";
+import { readFile } from "node:fs/promises";
+import { getAddress } from "viem";
+import {
+  DEFAULT_IMPORT_CHUNK_SIZE,
+  importParticipantsInChunks,
+  parseParticipantCsv,
+} from "../utils/import.js";
+
+/**
+ * 从CSV批量导入预先登记的参与者
+ *
+ * 使用方式:
+ * FAIRTICKET_ADDRESS=0x... PROJECT_ID=1 PARTICIPANTS=registered.csv npx hardhat run scripts/import-participants.ts --network sepolia
+ *
+ * CSV格式见 utils/import.ts，每行为 address,commitment[,tier]，项目必须处于可以参与的状态
+ *
+ * 可选环境变量:
+ * CHUNK_SIZE 每笔交易导入的参与者数量，默认为100，最大为200
+ * PROGRESS   进度文件路径，默认为 imports/project-<id>.progress.json，中断后重新运行会从进度文件记录的位置继续
+ */
+const address = process.env.FAIRTICKET_ADDRESS;
+const projectIdEnv = process.env.PROJECT_ID;
+const participantsFile = process.env.PARTICIPANTS;
+if (
+  address === undefined ||
+  projectIdEnv === undefined ||
+  participantsFile === undefined
+) {
+  throw new Error(
+    "FAIRTICKET_ADDRESS, PROJECT_ID and PARTICIPANTS must be set"
+  );
+}
+const projectId = BigInt(projectIdEnv);
+const chunkSize = Number(
+  process.env.CHUNK_SIZE ?? DEFAULT_IMPORT_CHUNK_SIZE.toString()
+);
+const progressFile =
+  process.env.PROGRESS ?? `imports/project-${projectId}.progress.json`;
+
+const { viem } = await network.connect();
+const publicClient = await viem.getPublicClient();
+const fairTicket = await viem.getContractAt("FairTicket", getAddress(address));
+
+const rows = parseParticipantCsv(await readFile(participantsFile, "utf8"));
+console.log(`Importing ${rows.length} participants into project ${projectId}`);
+
+const progress = await importParticipantsInChunks(fairTicket, publicClient, {
+  projectId,
+  rows,
+  progressFile,
+  chunkSize,
+  onChunk: ({ imported, total, transactions }) => {
+    console.log(
+      `Imported ${imported}/${total} in transaction`,
+      transactions[transactions.length - 1]
+    );
+  },
+});
+console.log(
+  `Import finished with ${progress.transactions.length} transactions, progress saved to`,
+  progressFile
+);
@@ -0,0 +1,57 @@
+import { network } from "hardhat";
+import { getAddress } from "viem";
+import {
+  createIndexerState,
+  materializeProjects,
+  readIndexerState,
+  syncIndexer,
+  writeIndexerState,
+} from "../utils/indexer.js";
+
+/**
+ * 从合约日志同步项目状态到本地的JSON文件
+ *
+ * 使用方式:
+ * FAIRTICKET_ADDRESS=0x... npx hardhat run scripts/index-projects.ts --network sepolia
+ *
+ * 可选环境变量:
+ * STATE      状态文件路径，默认为 indexer/<address>.json，已存在时从上次同步到的区块继续
+ * FROM_BLOCK 首次同步时开始读取的区块，一般为合约部署所在的区块，默认为0
+ * BATCH_SIZE 每次查询日志的区块数量，默认为1000
+ */
+const address = process.env.FAIRTICKET_ADDRESS;
+if (address === undefined) {
+  throw new Error("FAIRTICKET_ADDRESS must be set");
+}
+const contractAddress = getAddress(address);
+const stateFile = process.env.STATE ?? `indexer/${contractAddress}.json`;
+const fromBlock = BigInt(process.env.FROM_BLOCK ?? "0");
+const batchSize =
+  process.env.BATCH_SIZE === undefined
+    ? undefined
+    : BigInt(process.env.BATCH_SIZE);
+
+const { viem } = await network.connect();
+const publicClient = await viem.getPublicClient();
+
+const state =
+  (await readIndexerState(stateFile)) ??
+  createIndexerState(contractAddress, fromBlock);
+if (state.address !== contractAddress) {
+  throw new Error(`State file ${stateFile} belongs to ${state.address}`);
+}
+
+const result = await syncIndexer(publicClient, state, { batchSize });
+if (result.reorgedTo !== null) {
+  console.log(`Chain reorganized, rolled back to block ${result.reorgedTo}`);
+}
+await writeIndexerState(stateFile, state);
+console.log(
+  `Synced to block ${result.syncedBlock} with ${result.newEvents} new events`
+);
+
+for (const project of materializeProjects(state.events).values()) {
+  console.log(
+    `Project ${project.id}: ${project.status}, ${project.participants.length} participants`
+  );
+}
@@ -0,0 +1,147 @@
+import { network } from "hardhat";
+import { getAddress, zeroAddress } from "viem";
+import type { Hex } from "viem";
+import {
+  readParticipations,
+  type SignedParticipation,
+} from "../utils/signature.js";
+
+/**
+ * 中继者脚本 读取参与者的EIP-712签名并通过 participateWithSig 代为提交
+ *
+ * 使用方式:
+ * FAIRTICKET_ADDRESS=0x... ENTRIES=signed-entries.json npx hardhat run scripts/relay-participations.ts --network sepolia
+ *
+ * ENTRIES 是 utils/signature.ts 中 serializeParticipations 生成的JSON数组
+ * 设置了白名单的项目，每条签名参与需要带上参与者的白名单 proof（signParticipation 的 proof 参数）
+ *
+ * 可选环境变量:
+ * BATCH_SIZE 每批提交的交易数量，默认为20。同一批交易全部上链后再提交下一批
+ *
+ * 项目使用ETH作为参与费用时，押金由中继者账户代付
+ * 设置了档位的项目按签名中选择的档位的价格支付，档位没有单独设置价格时使用项目的参与费用
+ */
+const address = process.env.FAIRTICKET_ADDRESS;
+const entriesFile = process.env.ENTRIES;
+if (address === undefined || entriesFile === undefined) {
+  throw new Error("FAIRTICKET_ADDRESS and ENTRIES must be set");
+}
+const batchSize = Number(process.env.BATCH_SIZE ?? "20");
+if (!Number.isInteger(batchSize) || batchSize <= 0) {
+  throw new Error("BATCH_SIZE must be a positive integer");
+}
+
+const { viem } = await network.connect();
+const publicClient = await viem.getPublicClient();
+const [relayer] = await viem.getWalletClients();
+const fairTicket = await viem.getContractAt("FairTicket", getAddress(address));
+
+// 每次参与需要由中继者代付的ETH 按项目和档位缓存
+const values = new Map<string, bigint>();
+async function valueOf(entry: SignedParticipation): Promise<bigint> {
+  const key = `${entry.projectId}/${entry.tier}`;
+  let value = values.get(key);
+  if (value === undefined) {
+    const fee = await fairTicket.read.getEntryFee([entry.projectId]);
+    const { tierCount } = await fairTicket.read.getProjectInfo([
+      entry.projectId,
+    ]);
+    let price = fee.price;
+    if (entry.tier < tierCount) {
+      const [, , tierPrice] = await fairTicket.read.s_projectid_tiers([
+        entry.projectId,
+        entry.tier,
+      ]);
+      if (tierPrice !== 0n) price = tierPrice;
+    }
+    value = fee.token === zeroAddress ? price : 0n;
+    values.set(key, value);
+  }
+  return value;
+}
+
+const entries = await readParticipations(entriesFile);
+console.log(
+  `Relaying ${entries.length} signed participations from`,
+  relayer.account.address
+);
+
+let relayed = 0;
+let skipped = 0;
+let pending: SignedParticipation[] = entries;
+while (pending.length > 0) {
+  // 同一地址的多个签名nonce是连续的，必须等前一个上链后才能提交，推迟到下一批
+  const batch: SignedParticipation[] = [];
+  const deferred: SignedParticipation[] = [];
+  const participants = new Set<string>();
+  for (const entry of pending) {
+    if (batch.length < batchSize && !participants.has(entry.participant)) {
+      batch.push(entry);
+      participants.add(entry.participant);
+    } else {
+      deferred.push(entry);
+    }
+  }
+  pending = deferred;
+
+  const hashes: Hex[] = [];
+  for (const entry of batch) {
+    const label = `project ${entry.projectId} / ${entry.participant}`;
+    const nonce = await fairTicket.read.nonces([entry.participant]);
+    if (nonce !== entry.nonce) {
+      // 同一地址nonce更小的签名还在等待提交时 推迟到它上链之后
+      const waiting = pending.some(
+        (other) =>
+          other.participant === entry.participant && other.nonce < entry.nonce
+      );
+      if (entry.nonce > nonce && waiting) {
+        deferred.push(entry);
+        continue;
+      }
+      console.log(`Skipping ${label}: nonce ${entry.nonce} != ${nonce}`);
+      skipped += 1;
+      continue;
+    }
+    const args = [
+      entry.projectId,
+      entry.participant,
+      entry.tier,
+      entry.commitment,
+      entry.deadline,
+      entry.signature,
+      entry.proof ?? [],
+    ] as const;
+    const value = await valueOf(entry);
+    // 先模拟执行 过期、签名错误、重复参与等情况直接跳过 不浪费gas
+    try {
+      await fairTicket.simulate.participateWithSig(args, {
+        account: relayer.account.address,
+        value,
+      });
+    } catch (error) {
+      console.log(`Skipping ${label}: ${(error as Error).message}`);
+      skipped += 1;
+      continue;
+    }
+    // 单笔交易发送失败时记录下来继续提交其余的签名
+    try {
+      hashes.push(await fairTicket.write.participateWithSig(args, { value }));
+    } catch (error) {
+      console.log(`Failed to relay ${label}: ${(error as Error).message}`);
+      skipped += 1;
+    }
+  }
+
+  for (const hash of hashes) {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status === "success") {
+      relayed += 1;
+    } else {
+      console.log("Transaction reverted:", hash);
+      skipped += 1;
+    }
+  }
+  console.log(`Batch done: ${hashes.length} transactions submitted`);
+}
+
+console.log(`Relayed ${relayed} participations, skipped ${skipped}`);
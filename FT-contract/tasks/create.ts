@@ -0,0 +1,66 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { getAddress, isHex, keccak256, parseEventLogs, toHex } from "viem";
+import type { Hex } from "viem";
+import { connectFairTicket, submitTransaction } from "./shared.js";
+
+/**
+ * fairticket:create 任务 创建项目
+ *
+ * 使用方式:
+ * npx hardhat fairticket:create --fingerprint <bytes32或任意文本> --supply 100 --network sepolia
+ *
+ * fingerprint 不是32字节的十六进制数时使用 keccak256 计算其哈希，--owner 默认为发送交易的账户
+ */
+
+interface CreateTaskArguments {
+  fingerprint: string;
+  owner: string;
+  supply: bigint;
+  address: string;
+  dryRun: boolean;
+}
+
+// 将任务参数转换为合约使用的 bytes32 fingerprint
+export function toFingerprint(fingerprint: string): Hex {
+  if (fingerprint === "") {
+    throw new Error("--fingerprint must be set");
+  }
+  return isHex(fingerprint) && fingerprint.length === 66
+    ? fingerprint
+    : keccak256(toHex(fingerprint));
+}
+
+export default async function (
+  { fingerprint, owner, supply, address, dryRun }: CreateTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connection = await connectFairTicket(hre, address);
+  const { viem, fairTicket } = connection;
+  const [sender] = await viem.getWalletClients();
+  const args = [
+    toFingerprint(fingerprint),
+    getAddress(owner || sender.account.address),
+    supply,
+  ] as const;
+
+  const projectId = await fairTicket.read.s_globalId();
+  const receipt = await submitTransaction(
+    connection,
+    `createProject(${projectId})`,
+    dryRun,
+    {
+      simulate: () => fairTicket.simulate.createProject(args),
+      write: () => fairTicket.write.createProject(args),
+    }
+  );
+  if (receipt !== undefined) {
+    const [created] = parseEventLogs({
+      abi: fairTicket.abi,
+      logs: receipt.logs,
+      eventName: "ProjectCreated",
+    });
+    console.log(`Project ${created.args.projectId} created`);
+    return { projectId: created.args.projectId, fingerprint: args[0] };
+  }
+  return { projectId, fingerprint: args[0] };
+}
@@ -0,0 +1,53 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { parseEventLogs } from "viem";
+import { connectFairTicket, submitTransaction } from "./shared.js";
+
+/**
+ * fairticket:draw 任务 向 VRF Coordinator 请求随机数进行抽奖
+ *
+ * 使用方式:
+ * npx hardhat fairticket:draw --project 1 --network sepolia
+ *
+ * magicNumber 在 Coordinator 回调后写入，可以通过 fairticket:status 查看
+ * 指定 --next-round 时调用 drawNextRound，为上一轮领取截止后仍未被领取的门票开始新一轮抽奖
+ */
+
+interface DrawTaskArguments {
+  project: bigint;
+  nextRound: boolean;
+  address: string;
+  dryRun: boolean;
+}
+
+export default async function (
+  { project, nextRound, address, dryRun }: DrawTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connection = await connectFairTicket(hre, address);
+  const { fairTicket } = connection;
+  const receipt = await submitTransaction(
+    connection,
+    `${nextRound ? "drawNextRound" : "lottery"}(${project})`,
+    dryRun,
+    nextRound
+      ? {
+          simulate: () => fairTicket.simulate.drawNextRound([project]),
+          write: () => fairTicket.write.drawNextRound([project]),
+        }
+      : {
+          simulate: () => fairTicket.simulate.lottery([project]),
+          write: () => fairTicket.write.lottery([project]),
+        }
+  );
+  if (receipt === undefined) return undefined;
+
+  const [requested] = parseEventLogs({
+    abi: fairTicket.abi,
+    logs: receipt.logs,
+    eventName: "RandomnessRequested",
+  });
+  console.log(
+    `Randomness requested with request id ${requested.args.requestId}`
+  );
+  return requested.args.requestId;
+}
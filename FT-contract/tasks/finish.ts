@@ -0,0 +1,27 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { connectFairTicket, submitTransaction } from "./shared.js";
+
+/**
+ * fairticket:finish 任务 结束项目并开始公布幸运数字
+ *
+ * 使用方式:
+ * npx hardhat fairticket:finish --project 1 --network sepolia
+ */
+
+interface FinishTaskArguments {
+  project: bigint;
+  address: string;
+  dryRun: boolean;
+}
+
+export default async function (
+  { project, address, dryRun }: FinishTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connection = await connectFairTicket(hre, address);
+  const { fairTicket } = connection;
+  return submitTransaction(connection, `finishProject(${project})`, dryRun, {
+    simulate: () => fairTicket.simulate.finishProject([project]),
+    write: () => fairTicket.write.finishProject([project]),
+  });
+}
@@ -0,0 +1,118 @@
+import { task } from "hardhat/config";
+import { ArgumentType } from "hardhat/types/arguments";
+
+/**
+ * FairTicket 的 Hardhat 任务定义
+ *
+ * 所有任务都可以通过 --address 指定合约地址，未指定时依次使用环境变量 FAIRTICKET_ADDRESS
+ * 和 ignition/deployments/chain-<chainId>/deployed_addresses.json 中部署的 FairTicket。
+ * 发送交易的任务支持 --dry-run，只模拟调用而不发送交易。
+ */
+
+const PROJECT_OPTION = {
+  name: "project",
+  description: "The project id",
+  type: ArgumentType.BIGINT,
+  defaultValue: 0n,
+} as const;
+
+const ADDRESS_OPTION = {
+  name: "address",
+  description:
+    "The FairTicket address, defaults to FAIRTICKET_ADDRESS or the Ignition deployment",
+  defaultValue: "",
+} as const;
+
+const DRY_RUN_FLAG = {
+  name: "dryRun",
+  description: "Simulate the transaction without sending it",
+} as const;
+
+export const fairTicketTasks = [
+  task("fairticket:create", "Create a project")
+    .addOption({
+      name: "fingerprint",
+      description:
+        "The project fingerprint as bytes32, other values are hashed with keccak256",
+      defaultValue: "",
+    })
+    .addOption({
+      name: "owner",
+      description: "The project owner, defaults to the sender",
+      defaultValue: "",
+    })
+    .addOption({
+      name: "supply",
+      description: "The number of tickets",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .addOption(ADDRESS_OPTION)
+    .addFlag(DRY_RUN_FLAG)
+    .setAction(() => import("./create.js"))
+    .build(),
+  task("fairticket:start", "Start a project")
+    .addOption(PROJECT_OPTION)
+    .addOption(ADDRESS_OPTION)
+    .addFlag(DRY_RUN_FLAG)
+    .setAction(() => import("./start.js"))
+    .build(),
+  task("fairticket:finish", "Finish a project and open the reveal window")
+    .addOption(PROJECT_OPTION)
+    .addOption(ADDRESS_OPTION)
+    .addFlag(DRY_RUN_FLAG)
+    .setAction(() => import("./finish.js"))
+    .build(),
+  task("fairticket:draw", "Request randomness to draw a project's lottery")
+    .addOption(PROJECT_OPTION)
+    .addFlag({
+      name: "nextRound",
+      description:
+        "Draw a new round for the tickets left unclaimed after the last claim deadline",
+    })
+    .addOption(ADDRESS_OPTION)
+    .addFlag(DRY_RUN_FLAG)
+    .setAction(() => import("./draw.js"))
+    .build(),
+  task("fairticket:publish-root", "Publish the winners' Merkle root")
+    .addOption(PROJECT_OPTION)
+    .addOption({
+      name: "root",
+      description:
+        "The Merkle root, comma-separated per tier for tiered projects, recomputed from chain data when omitted",
+      defaultValue: "",
+    })
+    .addOption({
+      name: "output",
+      description: "Write the recomputed winner proofs to this file",
+      defaultValue: "",
+    })
+    .addOption(ADDRESS_OPTION)
+    .addFlag(DRY_RUN_FLAG)
+    .setAction(() => import("./publish-root.js"))
+    .build(),
+  task("fairticket:status", "Show a project's status")
+    .addOption(PROJECT_OPTION)
+    .addOption(ADDRESS_OPTION)
+    .setAction(() => import("./status.js"))
+    .build(),
+  task("fairticket:list-participants", "List all participants of a project")
+    .addOption(PROJECT_OPTION)
+    .addOption({
+      name: "pageSize",
+      description: "The number of participants read per call",
+      type: ArgumentType.BIGINT,
+      defaultValue: 100n,
+    })
+    .addOption(ADDRESS_OPTION)
+    .setAction(() => import("./list-participants.js"))
+    .build(),
+  task(
+    "fairticket:verify",
+    "Recompute a project's winners from chain data and compare the Merkle root"
+  )
+    .addOption(PROJECT_OPTION)
+    .addOption(ADDRESS_OPTION)
+    .setAction(() => import("./verify.js"))
+    .build(),
+];
@@ -0,0 +1,36 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { fetchProjectParticipants } from "../utils/selection.js";
+import { connectFairTicket, withDecodedErrors } from "./shared.js";
+
+/**
+ * fairticket:list-participants 任务 分页读取并列出项目的全部参与者
+ *
+ * 使用方式:
+ * npx hardhat fairticket:list-participants --project 1 --network sepolia
+ */
+
+interface ListParticipantsTaskArguments {
+  project: bigint;
+  pageSize: bigint;
+  address: string;
+}
+
+export default async function (
+  { project, pageSize, address }: ListParticipantsTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const { fairTicket } = await connectFairTicket(hre, address);
+  const participants = await withDecodedErrors(
+    `getProjectParticipants(${project})`,
+    () => fetchProjectParticipants(fairTicket, project, pageSize)
+  );
+
+  console.log(`Project ${project} has ${participants.length} participants`);
+  for (const p of participants) {
+    console.log(
+      `  ${p.addr} tier=${p.tier} entries=${p.entries} weight=${p.weight} ` +
+        (p.revealed ? `luckyNum=${p.luckyNum}` : "not revealed")
+    );
+  }
+  return participants;
+}
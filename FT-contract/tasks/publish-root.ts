@@ -0,0 +1,138 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { isHex, size, zeroHash } from "viem";
+import type { Hex } from "viem";
+import {
+  exportTierWinnerProofs,
+  exportWinnerProofs,
+  tierMerkleRootsHash,
+  tierProofsPath,
+  writeWinnerProofs,
+} from "../utils/merkle.js";
+import {
+  drawProjectTierWinners,
+  drawProjectWinners,
+} from "../utils/selection.js";
+import {
+  connectFairTicket,
+  submitTransaction,
+  type FairTicketConnection,
+} from "./shared.js";
+
+/**
+ * fairticket:publish-root 任务 发布中奖者的 Merkle root
+ *
+ * 使用方式:
+ * npx hardhat fairticket:publish-root --project 1 --network sepolia
+ *
+ * 未指定 --root 时根据链上数据重新计算中奖名单并构建 Merkle 树，
+ * 指定 --output 时将每个中奖者的 proof 写入该文件
+ *
+ * 设置了档位的项目按档位分别计算中奖名单并通过 setTierMerkleRoots 发布，
+ * --root 按档位顺序传入以逗号分隔的 root，没有中奖者的档位传入 0x，
+ * 每个档位的 proof 写入 --output 加上 -tier-<档位> 后缀的文件，
+ * 返回合约记录的项目 merkleRoot
+ */
+
+interface PublishRootTaskArguments {
+  project: bigint;
+  root: string;
+  output: string;
+  address: string;
+  dryRun: boolean;
+}
+
+export default async function (
+  { project, root, output, address, dryRun }: PublishRootTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connection = await connectFairTicket(hre, address);
+  const { fairTicket } = connection;
+
+  const { tierCount } = await fairTicket.read.getProjectInfo([project]);
+  if (tierCount !== 0n) {
+    return publishTierRoots(connection, project, root, output, dryRun);
+  }
+
+  let merkleRoot: Hex;
+  if (root === "") {
+    const winners = await drawProjectWinners(fairTicket, project);
+    const winnerProofs = exportWinnerProofs(
+      project,
+      winners.map((winner) => winner.addr)
+    );
+    console.log(`Project ${project} has ${winners.length} winners`);
+    if (output !== "") {
+      await writeWinnerProofs(output, winnerProofs);
+      console.log("Proofs written to", output);
+    }
+    merkleRoot = winnerProofs.root;
+  } else {
+    merkleRoot = parseMerkleRoot(root);
+  }
+
+  console.log("Merkle root:", merkleRoot);
+  await submitTransaction(connection, `SetMerkleRoot(${project})`, dryRun, {
+    simulate: () => fairTicket.simulate.SetMerkleRoot([project, merkleRoot]),
+    write: () => fairTicket.write.SetMerkleRoot([project, merkleRoot]),
+  });
+  return merkleRoot;
+}
+
+// 检查 --root 传入的值是32字节的十六进制字符串
+function parseMerkleRoot(root: string): Hex {
+  if (!isHex(root, { strict: true }) || size(root) !== 32) {
+    throw new Error(
+      `Invalid Merkle root ${root}, expected a 32-byte hex string`
+    );
+  }
+  return root;
+}
+
+async function publishTierRoots(
+  connection: FairTicketConnection,
+  project: bigint,
+  root: string,
+  output: string,
+  dryRun: boolean
+) {
+  const { fairTicket } = connection;
+
+  let merkleRoots: Hex[];
+  if (root === "") {
+    const tierWinners = await drawProjectTierWinners(fairTicket, project);
+    const tierProofs = exportTierWinnerProofs(
+      project,
+      tierWinners.map((winners) => winners.map((winner) => winner.addr))
+    );
+    for (const [tier, winnerProofs] of tierProofs.entries()) {
+      console.log(
+        `Project ${project} tier ${tier} has ${tierWinners[tier].length} winners`
+      );
+      if (output !== "" && winnerProofs !== null) {
+        const file = tierProofsPath(output, BigInt(tier));
+        await writeWinnerProofs(file, winnerProofs);
+        console.log("Proofs written to", file);
+      }
+    }
+    merkleRoots = tierProofs.map((proofs) => proofs?.root ?? zeroHash);
+  } else {
+    merkleRoots = root
+      .split(",")
+      .map((r) => (r.trim() === "0x" ? zeroHash : parseMerkleRoot(r.trim())));
+  }
+
+  for (const [tier, merkleRoot] of merkleRoots.entries()) {
+    console.log(`Tier ${tier} Merkle root:`, merkleRoot);
+  }
+  await submitTransaction(
+    connection,
+    `setTierMerkleRoots(${project})`,
+    dryRun,
+    {
+      simulate: () =>
+        fairTicket.simulate.setTierMerkleRoots([project, merkleRoots]),
+      write: () => fairTicket.write.setTierMerkleRoots([project, merkleRoots]),
+    }
+  );
+  return tierMerkleRootsHash(merkleRoots);
+}
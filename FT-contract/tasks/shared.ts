@@ -0,0 +1,80 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { getAddress } from "viem";
+import type { Hex, TransactionReceipt } from "viem";
+import { readDeployedFairTicket } from "../utils/deployments.js";
+import { describeContractError } from "../utils/errors.js";
+
+// 任务之间共用的网络连接、交易发送和错误处理
+
+// 连接当前网络并获取 FairTicket 合约实例
+// 合约地址依次取 --address、环境变量 FAIRTICKET_ADDRESS、Ignition 部署记录
+// 地址上的合约没有当前的ABI时报错，例如 Sepolia 的部署记录中是没有这些函数的旧版本合约
+export async function connectFairTicket(
+  hre: HardhatRuntimeEnvironment,
+  address: string
+) {
+  const { viem } = await hre.network.connect();
+  const publicClient = await viem.getPublicClient();
+  const fairTicketAddress =
+    address ||
+    process.env.FAIRTICKET_ADDRESS ||
+    (await readDeployedFairTicket(
+      hre.config.paths.ignition,
+      await publicClient.getChainId()
+    ));
+  const fairTicket = await viem.getContractAt(
+    "FairTicket",
+    getAddress(fairTicketAddress)
+  );
+  // getProjectCount 是最新加入的函数之一 旧版本合约或者没有合约的地址调用会失败
+  try {
+    await fairTicket.read.getProjectCount();
+  } catch (error) {
+    throw new Error(
+      `Contract at ${fairTicket.address} does not implement the current FairTicket ABI, deploy the current version or pass --address`,
+      { cause: error }
+    );
+  }
+  return { viem, publicClient, fairTicket };
+}
+
+export type FairTicketConnection = Awaited<
+  ReturnType<typeof connectFairTicket>
+>;
+
+// 执行合约调用，失败时将合约的自定义错误解码为可读信息
+export async function withDecodedErrors<T>(
+  label: string,
+  call: () => Promise<T>
+): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw new Error(`${label} failed: ${describeContractError(error)}`, {
+      cause: error,
+    });
+  }
+}
+
+// 先模拟交易，模拟成功后再发送并等待确认
+// dryRun 为 true 时只模拟不发送，返回 undefined
+export async function submitTransaction(
+  { publicClient }: FairTicketConnection,
+  label: string,
+  dryRun: boolean,
+  call: { simulate: () => Promise<unknown>; write: () => Promise<Hex> }
+): Promise<TransactionReceipt | undefined> {
+  await withDecodedErrors(label, call.simulate);
+  if (dryRun) {
+    console.log(`Dry run: ${label} would succeed`);
+    return undefined;
+  }
+
+  const hash = await withDecodedErrors(label, call.write);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`${label} reverted in transaction ${hash}`);
+  }
+  console.log(`${label} confirmed in transaction ${hash}`);
+  return receipt;
+}
@@ -0,0 +1,27 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { connectFairTicket, submitTransaction } from "./shared.js";
+
+/**
+ * fairticket:start 任务 开始项目
+ *
+ * 使用方式:
+ * npx hardhat fairticket:start --project 1 --network sepolia
+ */
+
+interface StartTaskArguments {
+  project: bigint;
+  address: string;
+  dryRun: boolean;
+}
+
+export default async function (
+  { project, address, dryRun }: StartTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connection = await connectFairTicket(hre, address);
+  const { fairTicket } = connection;
+  return submitTransaction(connection, `startProject(${project})`, dryRun, {
+    simulate: () => fairTicket.simulate.startProject([project]),
+    write: () => fairTicket.write.startProject([project]),
+  });
+}
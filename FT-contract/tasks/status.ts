@@ -0,0 +1,54 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { zeroHash } from "viem";
+import { PROJECT_STATUS_NAMES } from "../utils/indexer.js";
+import { connectFairTicket, withDecodedErrors } from "./shared.js";
+
+/**
+ * fairticket:status 任务 查看项目的状态
+ *
+ * 使用方式:
+ * npx hardhat fairticket:status --project 1 --network sepolia
+ */
+
+interface StatusTaskArguments {
+  project: bigint;
+  address: string;
+}
+
+export default async function (
+  { project, address }: StatusTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const { fairTicket } = await connectFairTicket(hre, address);
+  const [info, status, participants, magicNumber, claimed] =
+    await withDecodedErrors(`getProjectInfo(${project})`, () =>
+      Promise.all([
+        fairTicket.read.getProjectInfo([project]),
+        fairTicket.read.getProjectStatus([project]),
+        fairTicket.read.getProjectParticipantsAmount([project]),
+        fairTicket.read.getMagicNumber([project]),
+        fairTicket.read.getClaimedAmount([project]),
+      ])
+    );
+  if (info.id === 0n) {
+    throw new Error(`Project ${project} does not exist`);
+  }
+
+  const summary = {
+    id: info.id,
+    fingerprint: info.fingerprint,
+    owner: info.owner,
+    status: PROJECT_STATUS_NAMES[status],
+    totalSupply: info.totalSupply,
+    participants,
+    magicNumber: magicNumber === 0n ? null : magicNumber,
+    merkleRoot: info.merkleRoot === zeroHash ? null : info.merkleRoot,
+    claimed,
+    revealDeadline: info.revealDeadline === 0n ? null : info.revealDeadline,
+  };
+  console.log(`Project ${summary.id}`);
+  for (const [key, value] of Object.entries(summary)) {
+    if (key !== "id") console.log(`  ${key}: ${value ?? "-"}`);
+  }
+  return summary;
+}
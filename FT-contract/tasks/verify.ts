@@ -0,0 +1,37 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { formatVerifyReport, verifyProjectDraw } from "../utils/verify.js";
+import { connectFairTicket, withDecodedErrors } from "./shared.js";
+
+/**
+ * fairticket:verify 任务 重新计算中奖名单并与链上发布的 Merkle root 比较
+ *
+ * 使用方式:
+ * npx hardhat fairticket:verify --project 1 --network sepolia
+ *
+ * 验证失败时以非0状态码退出
+ */
+
+interface VerifyTaskArguments {
+  project: bigint;
+  address: string;
+}
+
+export default async function (
+  { project, address }: VerifyTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  if (project === 0n) {
+    throw new Error("--project must be set");
+  }
+
+  const { fairTicket } = await connectFairTicket(hre, address);
+  const report = await withDecodedErrors(`verify(${project})`, () =>
+    verifyProjectDraw(fairTicket, project)
+  );
+  for (const line of formatVerifyReport(report)) {
+    console.log(line);
+  }
+  return report.passed
+    ? { success: true, value: report }
+    : { success: false, error: report };
+}
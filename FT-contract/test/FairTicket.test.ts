@@ -1,184 +1,244 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
 import { network } from "hardhat";
-import { keccak256, encodePacked, getAddress } from "viem";
+import { keccak256, encodePacked, getAddress, toHex } from "viem";
+import { FairTicketClient } from "../utils/client.js";
+import { computeCommitment } from "../utils/commitment.js";
+import { isFairTicketError } from "../utils/errors.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import { PARTICIPATE_TYPES, signParticipation } from "../utils/signature.js";
+import {
+  deployFairTicket,
+  deployFairTicketLib,
+  drawLottery,
+  endRevealWindow,
+  runToLotteryDrawn,
+  VRF_KEY_HASH,
+  VRF_SUBSCRIPTION_ID,
+} from "./helpers.js";
 
 describe("FairTicket", async function () {
-  const { viem } = await network.connect();
+  const { viem, networkHelpers } = await network.connect();
   const publicClient = await viem.getPublicClient();
   const [owner, projectOwner, user1, user2, user3, user4] =
     await viem.getWalletClients();
 
+  // 测试中Mock Coordinator返回的固定随机数
+  const MAGIC_NUMBER = 1234567890n;
+  // 测试中使用固定的salt生成幸运数字的承诺
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+
   describe("部署和初始化", async function () {
     it("应该正确设置初始globalId", async function () {
       const initialGlobalId = 1n;
-      const fairTicket = await viem.deployContract("FairTicket", [
-        initialGlobalId,
-      ]);
+      const { client } = await deployFairTicket(viem, initialGlobalId);
 
-      const globalId = await fairTicket.read.s_globalId();
+      const globalId = await client.contract.read.s_globalId();
       assert.equal(globalId, initialGlobalId);
     });
 
-    it("应该正确设置合约owner", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const contractOwner = await fairTicket.read.owner();
-      assert.equal(contractOwner, getAddress(owner.account.address));
+    it("应该将合约的创建者设置为平台管理员", async function () {
+      const { client } = await deployFairTicket(viem);
+      const adminRole = await client.contract.read.DEFAULT_ADMIN_ROLE();
+      assert.equal(
+        await client.contract.read.hasRole([adminRole, owner.account.address]),
+        true
+      );
+      assert.equal(
+        await client.contract.read.hasRole([
+          adminRole,
+          projectOwner.account.address,
+        ]),
+        false
+      );
+    });
+
+    it("应该正确设置VRF配置", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      assert.equal(
+        await client.contract.read.s_vrfCoordinator(),
+        getAddress(vrfCoordinator.address)
+      );
+      assert.equal(await client.contract.read.s_vrfKeyHash(), VRF_KEY_HASH);
+      assert.equal(
+        await client.contract.read.s_vrfSubscriptionId(),
+        VRF_SUBSCRIPTION_ID
+      );
+    });
+
+    it("应该拒绝零地址的VRF Coordinator", async function () {
+      await assert.rejects(
+        async () => {
+          await viem.deployContract(
+            "FairTicket",
+            [
+              1n,
+              "0x0000000000000000000000000000000000000000",
+              VRF_KEY_HASH,
+              VRF_SUBSCRIPTION_ID,
+            ],
+            { libraries: await deployFairTicketLib(viem) }
+          );
+        },
+        (error: Error) => {
+          return error.message.includes("VRFCoordinatorZero");
+        }
+      );
     });
   });
 
   describe("createProject", async function () {
     it("应该成功创建项目并触发事件", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test-project"]));
       const totalSupply = 100n;
 
-      await viem.assertions.emitWithArgs(
-        fairTicket.write.createProject([
-          fingerprint,
-          projectOwner.account.address,
-          totalSupply,
-        ]),
-        fairTicket,
-        "ProjectCreated",
-        [1n, fingerprint]
-      );
+      const projectId = await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply,
+      });
+      assert.equal(projectId, 1n);
+      const [projectCreated] = await client.getEvents("ProjectCreated");
+      assert.deepEqual(projectCreated.args, { projectId, fingerprint });
 
-      const project = await fairTicket.read.getProjectInfo([1n]);
+      const project = await client.getProject(1n);
+      assert.ok(project);
       assert.equal(project.id, 1n);
       assert.equal(project.fingerprint, fingerprint);
       assert.equal(project.owner, getAddress(projectOwner.account.address));
       assert.equal(project.totalSupply, totalSupply);
-      assert.equal(project.projectStatus, 0);
+      assert.equal(project.status, "NotStart");
 
-      const newGlobalId = await fairTicket.read.s_globalId();
+      const newGlobalId = await client.contract.read.s_globalId();
       assert.equal(newGlobalId, 2n);
     });
 
-    it("应该拒绝非owner创建项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+    it("应该拒绝非管理员创建项目", async function () {
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.createProject(
-            [fingerprint, projectOwner.account.address, 100n],
-            { account: user1.account }
-          );
+          await client.connect(user1).createProject({
+            fingerprint,
+            owner: projectOwner.account.address,
+            totalSupply: 100n,
+          });
         },
         (error: Error) => {
-          return error.message.includes("OwnableUnauthorizedAccount");
+          return isFairTicketError(error, "AccessControlUnauthorizedAccount");
         }
       );
     });
 
     it("应该拒绝totalSupply为0", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.createProject([
+          await client.createProject({
             fingerprint,
-            projectOwner.account.address,
-            0n,
-          ]);
+            owner: projectOwner.account.address,
+            totalSupply: 0n,
+          });
         },
         (error: Error) => {
-          return error.message.includes("TotalSupplyZero");
+          return isFairTicketError(error, "TotalSupplyZero");
         }
       );
     });
 
     it("应该能创建多个项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fp1 = keccak256(encodePacked(["string"], ["project-1"]));
       const fp2 = keccak256(encodePacked(["string"], ["project-2"]));
 
-      await fairTicket.write.createProject([
-        fp1,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.createProject([
-        fp2,
-        projectOwner.account.address,
-        200n,
-      ]);
-
-      assert.equal(await fairTicket.read.s_globalId(), 3n);
+      await client.createProject({
+        fingerprint: fp1,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.createProject({
+        fingerprint: fp2,
+        owner: projectOwner.account.address,
+        totalSupply: 200n,
+      });
+
+      assert.equal(await client.contract.read.s_globalId(), 3n);
     });
   });
 
   describe("startProject", async function () {
     it("应该成功启动项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
 
-      await viem.assertions.emitWithArgs(
-        fairTicket.write.startProject([1n]),
-        fairTicket,
-        "ProjectStarted",
-        [1n]
+      const [projectStarted] = client.eventsIn(
+        await client.startProject(1n),
+        "ProjectStarted"
       );
+      assert.deepEqual(projectStarted.args, { projectId: 1n });
 
-      const status = await fairTicket.read.getProjectStatus([1n]);
-      assert.equal(status, 1); // InProgress
+      const status = await client.getProjectStatus(1n);
+      assert.equal(status, "InProgress");
     });
 
-    it("应该拒绝非owner启动项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+    it("应该拒绝非项目管理者启动项目", async function () {
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.startProject([1n], { account: user1.account });
+          await client.connect(user1).startProject(1n);
         },
         (error: Error) => {
-          return error.message.includes("OwnableUnauthorizedAccount");
+          return isFairTicketError(error, "OnlyProjectManager");
         }
       );
     });
 
     it("应该拒绝启动不存在的项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.startProject([999n]);
+          await client.startProject(999n);
         },
         (error: Error) => {
-          return error.message.includes("ProjectNotFound");
+          return isFairTicketError(error, "ProjectNotFound");
         }
       );
     });
 
     it("应该拒绝重复启动", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.startProject([1n]);
+          await client.startProject(1n);
         },
         (error: Error) => {
-          return error.message.includes("ProjectAlreadyStarted");
+          return isFairTicketError(error, "ProjectAlreadyStarted");
         }
       );
     });
@@ -186,747 +246,2251 @@ describe("FairTicket", async function () {
 
   describe("participate", async function () {
     it("应该成功参与项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
 
       const luckyNum = 42n;
-      await fairTicket.write.participate([
-        1n,
-        user1.account.address,
-        luckyNum,
-      ]);
+      await client.connect(user1).participate(1n, commitmentOf(luckyNum));
 
-      const participant = await fairTicket.read.getParticipantInfo([
+      const participant = await client.getParticipant(
         1n,
-        user1.account.address,
-      ]);
+        user1.account.address
+      );
+      assert.ok(participant);
       assert.equal(participant.addr, getAddress(user1.account.address));
-      assert.equal(participant.luckyNum, luckyNum);
+      assert.equal(participant.luckyNum, 0n);
+      assert.equal(participant.commitment, commitmentOf(luckyNum));
+      assert.equal(participant.revealed, false);
 
-      const count = await fairTicket.read.getProjectParticipantsAmount([1n]);
+      const count = await client.getParticipantCount(1n);
       assert.equal(count, 1n);
     });
 
+    it("应该以调用者自己的地址参与", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+
+      // 合约owner代替user1参与 记录的应该是owner自己的地址
+      await client.participate(1n, commitmentOf(42n));
+
+      const participants = await client.getParticipants(1n);
+      assert.equal(participants.length, 1);
+      assert.equal(participants[0].addr, getAddress(owner.account.address));
+
+      assert.equal(
+        await client.getParticipant(1n, user1.account.address),
+        undefined
+      );
+    });
+
+    it("应该拒绝重复参与", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.connect(user1).participate(1n, commitmentOf(42n));
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).participate(1n, commitmentOf(43n));
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "EntryLimitReached");
+        }
+      );
+
+      assert.equal(await client.getParticipantCount(1n), 1n);
+      const participant = await client.getParticipant(
+        1n,
+        user1.account.address
+      );
+      assert.ok(participant);
+      assert.equal(participant.commitment, commitmentOf(42n));
+    });
+
+    it("同一地址应该可以参与不同的项目", async function () {
+      const { client } = await deployFairTicket(viem);
+      for (const name of ["project-1", "project-2"]) {
+        await client.createProject({
+          fingerprint: keccak256(encodePacked(["string"], [name])),
+          owner: projectOwner.account.address,
+          totalSupply: 100n,
+        });
+      }
+      await client.startProject(1n);
+      await client.startProject(2n);
+
+      await client.connect(user1).participate(1n, commitmentOf(1n));
+      await client.connect(user1).participate(2n, commitmentOf(2n));
+
+      assert.equal(await client.getParticipantCount(1n), 1n);
+      assert.equal(await client.getParticipantCount(2n), 1n);
+    });
+
     it("应该拒绝参与不存在的项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.participate([999n, user1.account.address, 42n]);
+          await client.connect(user1).participate(999n, commitmentOf(42n));
         },
         (error: Error) => {
-          return error.message.includes("ProjectNotFound");
+          return isFairTicketError(error, "ProjectNotFound");
         }
       );
     });
 
     it("应该拒绝参与未启动的项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.participate([1n, user1.account.address, 42n]);
+          await client.connect(user1).participate(1n, commitmentOf(42n));
         },
         (error: Error) => {
-          return error.message.includes("ProjectNotInProgress");
+          return isFairTicketError(error, "ProjectNotInProgress");
         }
       );
     });
 
     it("应该拒绝参与已结束的项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
-      await fairTicket.write.finishProject([1n]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.finishProject(1n);
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.participate([1n, user1.account.address, 42n]);
+          await client.connect(user1).participate(1n, commitmentOf(42n));
         },
         (error: Error) => {
-          return error.message.includes("ProjectNotInProgress");
+          return isFairTicketError(error, "ProjectNotInProgress");
         }
       );
     });
 
     it("应该允许多个用户参与", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
 
-      await fairTicket.write.participate([1n, user1.account.address, 10n]);
-      await fairTicket.write.participate([1n, user2.account.address, 20n]);
-      await fairTicket.write.participate([1n, user3.account.address, 30n]);
+      await client.connect(user1).participate(1n, commitmentOf(10n));
+      await client.connect(user2).participate(1n, commitmentOf(20n));
+      await client.connect(user3).participate(1n, commitmentOf(30n));
 
-      const count = await fairTicket.read.getProjectParticipantsAmount([1n]);
+      const count = await client.getParticipantCount(1n);
       assert.equal(count, 3n);
     });
   });
 
-  describe("finishProject", async function () {
-    it("应该成功结束项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
+  describe("participateWithSig", async function () {
+    const chainId = await publicClient.getChainId();
+
+    async function setup() {
+      const { client } = await deployFairTicket(viem);
+      for (const name of ["project-1", "project-2"]) {
+        await client.createProject({
+          fingerprint: keccak256(encodePacked(["string"], [name])),
+          owner: projectOwner.account.address,
+          totalSupply: 100n,
+        });
+      }
+      await client.startProject(1n);
+      await client.startProject(2n);
+      return client;
+    }
+
+    async function sign(
+      client: FairTicketClient,
+      signer: typeof user1,
+      projectId: bigint,
+      luckyNum: bigint,
+      deadlineOffset: bigint = 3600n
+    ) {
+      const deadline =
+        BigInt(await networkHelpers.time.latest()) + deadlineOffset;
+      return signParticipation(
+        signer,
+        { chainId, verifyingContract: client.address },
+        {
+          account: signer.account,
+          projectId,
+          commitment: commitmentOf(luckyNum),
+          nonce: await client.nonces(signer.account.address),
+          deadline,
+        }
+      );
+    }
 
-      await viem.assertions.emitWithArgs(
-        fairTicket.write.finishProject([1n]),
-        fairTicket,
-        "ProjectFinished",
-        [1n]
+    it("合约的PARTICIPATE_TYPEHASH应该与链下签名的类型一致", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      const fields = PARTICIPATE_TYPES.Participate.map(
+        ({ name, type }) => `${type} ${name}`
+      ).join(",");
+      assert.equal(
+        await fairTicket.read.PARTICIPATE_TYPEHASH(),
+        keccak256(toHex(`Participate(${fields})`))
       );
+    });
+
+    it("应该允许中继者使用参与者的签名代为参与", async function () {
+      const client = await setup();
+      const entry = await sign(client, user1, 1n, 42n);
 
-      const status = await fairTicket.read.getProjectStatus([1n]);
-      assert.equal(status, 2); // Finished
+      // 由合约owner作为中继者提交
+      await client.participateWithSig(entry);
+
+      const participant = await client.getParticipant(
+        1n,
+        user1.account.address
+      );
+      assert.ok(participant);
+      assert.equal(participant.addr, getAddress(user1.account.address));
+      assert.equal(participant.commitment, commitmentOf(42n));
+      assert.equal(await client.nonces(user1.account.address), 1n);
+      assert.equal(
+        await client.getParticipant(1n, owner.account.address),
+        undefined
+      );
     });
 
-    it("应该拒绝非owner结束项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
+    it("签名参与后应该可以由参与者自己公布幸运数字", async function () {
+      const client = await setup();
+      const entry = await sign(client, user1, 1n, 42n);
+      await client.participateWithSig(entry);
+      await client.finishProject(1n);
 
-      await assert.rejects(
-        async () => {
-          await fairTicket.write.finishProject([1n], {
-            account: user1.account,
-          });
-        },
-        (error: Error) => {
-          return error.message.includes("OwnableUnauthorizedAccount");
-        }
+      await client.connect(user1).reveal(1n, 42n, SALT);
+      const participant = await client.getParticipant(
+        1n,
+        user1.account.address
       );
+      assert.ok(participant);
+      assert.equal(participant.luckyNum, 42n);
+      assert.equal(participant.revealed, true);
     });
 
-    it("应该拒绝结束不存在的项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+    it("应该拒绝重放已经使用过的签名", async function () {
+      const client = await setup();
+      const entry = await sign(client, user1, 1n, 42n);
+      await client.participateWithSig(entry);
 
+      // nonce已经增加 同一个签名无法再次通过验证
       await assert.rejects(
         async () => {
-          await fairTicket.write.finishProject([999n]);
+          await client.participateWithSig(entry);
         },
         (error: Error) => {
-          return error.message.includes("ProjectNotFound");
+          return isFairTicketError(error, "InvalidSigner");
         }
       );
-    });
-
-    it("应该拒绝结束未启动的项目", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-
+      // 也不能把签名挪到另一个项目使用
       await assert.rejects(
         async () => {
-          await fairTicket.write.finishProject([1n]);
+          await client.participateWithSig({ ...entry, projectId: 2n });
         },
         (error: Error) => {
-          return error.message.includes("ProjectNotInProgress");
+          return isFairTicketError(error, "InvalidSigner");
         }
       );
-    });
-  });
-
-  describe("lottery", async function () {
-    it("应该成功进行抽奖", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
-      await fairTicket.write.finishProject([1n]);
-
-      await viem.assertions.emitWithArgs(
-        fairTicket.write.lottery([1n]),
-        fairTicket,
-        "MagicNumberPublished",
-        [1n, 1234567890n]
-      );
-
-      const result = await fairTicket.read.getLotteryResult([1n]);
-      assert.equal(result.projectId, 1n);
-      assert.equal(result.magicNumber, 1234567890n);
-
-      const magicNumber = await fairTicket.read.getMagicNumber([1n]);
-      assert.equal(magicNumber, 1234567890n);
+      assert.equal(await client.getParticipantCount(2n), 0n);
     });
 
-    it("应该拒绝非owner进行抽奖", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
-      await fairTicket.write.finishProject([1n]);
+    it("应该拒绝过期的签名", async function () {
+      const client = await setup();
+      const entry = await sign(client, user1, 1n, 42n, 60n);
+      await networkHelpers.time.increaseTo(entry.deadline + 1n);
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.lottery([1n], { account: user1.account });
+          await client.participateWithSig(entry);
         },
         (error: Error) => {
-          return error.message.includes("OwnableUnauthorizedAccount");
+          return isFairTicketError(error, "SignatureExpired");
         }
       );
+      assert.equal(await client.nonces(user1.account.address), 0n);
     });
 
-    it("应该拒绝对不存在的项目抽奖", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+    it("应该拒绝非参与者本人的签名", async function () {
+      const client = await setup();
+      // user2 签名 但声称自己是 user1
+      const entry = await sign(client, user2, 1n, 42n);
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.lottery([999n]);
+          await client.participateWithSig({
+            ...entry,
+            participant: user1.account.address,
+          });
         },
         (error: Error) => {
-          return error.message.includes("ProjectNotFound");
+          return isFairTicketError(error, "InvalidSigner");
         }
       );
     });
 
-    it("应该拒绝对未结束的项目抽奖", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
+    it("应该拒绝被篡改的承诺", async function () {
+      const client = await setup();
+      const entry = await sign(client, user1, 1n, 42n);
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.lottery([1n]);
+          await client.participateWithSig({
+            ...entry,
+            commitment: commitmentOf(43n),
+          });
         },
         (error: Error) => {
-          return error.message.includes("ProjectNotFinished");
+          return isFairTicketError(error, "InvalidSigner");
         }
       );
     });
 
-    it("应该拒绝对NotStart状态的项目抽奖", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+    it("应该拒绝已经直接参与过的地址", async function () {
+      const client = await setup();
+      await client.connect(user1).participate(1n, commitmentOf(42n));
+      const entry = await sign(client, user1, 1n, 43n);
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.lottery([1n]);
+          await client.participateWithSig(entry);
         },
         (error: Error) => {
-          return error.message.includes("ProjectNotFinished");
+          return isFairTicketError(error, "EntryLimitReached");
         }
       );
     });
   });
 
-  describe("SetMerkleRoot", async function () {
-    it("应该成功设置MerkleRoot", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+  describe("finishProject", async function () {
+    it("应该成功结束项目", async function () {
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+
+      const [projectFinished] = client.eventsIn(
+        await client.finishProject(1n),
+        "ProjectFinished"
+      );
+      assert.deepEqual(projectFinished.args, { projectId: 1n });
 
-      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
-      await fairTicket.write.SetMerkleRoot([1n, merkleRoot]);
+      const status = await client.getProjectStatus(1n);
+      assert.equal(status, "Finished");
 
-      const project = await fairTicket.read.getProjectInfo([1n]);
-      assert.equal(project.merkleRoot, merkleRoot);
+      const block = await publicClient.getBlock();
+      const project = await client.getProject(1n);
+      assert.ok(project);
+      assert.equal(
+        project.revealDeadline,
+        block.timestamp + (await client.contract.read.DEFAULT_REVEAL_DURATION())
+      );
     });
 
-    it("应该拒绝非owner设置MerkleRoot", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+    it("应该拒绝非项目管理者结束项目", async function () {
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
 
-      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
       await assert.rejects(
         async () => {
-          await fairTicket.write.SetMerkleRoot([1n, merkleRoot], {
-            account: user1.account,
-          });
+          await client.connect(user1).finishProject(1n);
         },
         (error: Error) => {
-          return error.message.includes("OwnableUnauthorizedAccount");
+          return isFairTicketError(error, "OnlyProjectManager");
         }
       );
     });
 
-    it("应该拒绝重复设置MerkleRoot", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-
-      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
-      await fairTicket.write.SetMerkleRoot([1n, merkleRoot]);
+    it("应该拒绝结束不存在的项目", async function () {
+      const { client } = await deployFairTicket(viem);
 
       await assert.rejects(
         async () => {
-          await fairTicket.write.SetMerkleRoot([1n, merkleRoot]);
+          await client.finishProject(999n);
         },
         (error: Error) => {
-          return error.message.includes("MerkleRootAlreadySet");
+          return isFairTicketError(error, "ProjectNotFound");
         }
       );
     });
-  });
 
-  describe("verifyMerkleProof", async function () {
-    it("应该验证merkleRoot已设置", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+    it("应该拒绝结束未启动的项目", async function () {
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
 
-      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
-      await fairTicket.write.SetMerkleRoot([1n, merkleRoot]);
+      await assert.rejects(
+        async () => {
+          await client.finishProject(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectNotInProgress");
+        }
+      );
+    });
+  });
 
-      const project = await fairTicket.read.getProjectInfo([1n]);
-      assert.equal(project.merkleRoot, merkleRoot);
+  describe("时间窗口", async function () {
+    const fingerprint = keccak256(encodePacked(["string"], ["scheduled"]));
+
+    // 创建一个1小时后开始、2小时后结束的项目
+    async function setup() {
+      const { client } = await deployFairTicket(viem);
+      const now = BigInt(await networkHelpers.time.latest());
+      const startTime = now + 3600n;
+      const endTime = now + 7200n;
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+        startTime,
+        endTime,
+      });
+      return { client, startTime, endTime };
+    }
+
+    it("应该记录项目的开始和结束时间", async function () {
+      const { client, startTime, endTime } = await setup();
+
+      const project = await client.getProject(1n);
+      assert.ok(project);
+      assert.equal(project.startTime, startTime);
+      assert.equal(project.endTime, endTime);
+      assert.equal(project.status, "NotStart");
     });
 
-    it("应该拒绝无效的MerkleProof并抛出错误", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+    it("不指定时间窗口的项目开始和结束时间应该为0", async function () {
+      const { client } = await deployFairTicket(viem);
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+
+      const project = await client.getProject(1n);
+      assert.ok(project);
+      assert.equal(project.startTime, 0n);
+      assert.equal(project.endTime, 0n);
+    });
 
-      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
-      await fairTicket.write.SetMerkleRoot([1n, merkleRoot]);
+    it("应该拒绝无效的时间窗口", async function () {
+      const { client } = await deployFairTicket(viem);
+      const now = BigInt(await networkHelpers.time.latest());
+
+      for (const [startTime, endTime] of [
+        [now + 7200n, now + 3600n],
+        [now + 3600n, now + 3600n],
+        [0n, now - 1n],
+      ]) {
+        await assert.rejects(
+          async () => {
+            await client.createProject({
+              fingerprint,
+              owner: projectOwner.account.address,
+              totalSupply: 100n,
+              startTime,
+              endTime,
+            });
+          },
+          (error: Error) => {
+            return isFairTicketError(error, "InvalidTimeWindow");
+          }
+        );
+      }
+    });
 
-      const invalidProof: `0x${string}`[] = [];
+    it("开始时间之前应该拒绝参与", async function () {
+      const { client } = await setup();
 
       await assert.rejects(
         async () => {
-          await fairTicket.read.verifyMerkleProof([1n, invalidProof], {
-            account: user1.account,
-          });
+          await client.connect(user1).participate(1n, commitmentOf(42n));
         },
         (error: Error) => {
-          return error.message.includes("MerkleProofInvalid");
+          return isFairTicketError(error, "ProjectNotOpen");
         }
       );
+      assert.equal(await client.getProjectStatus(1n), "NotStart");
     });
 
-    it("应该测试verifyMerkleProof的调用路径", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+    it("到达开始时间后应该自动开始并允许参与", async function () {
+      const { client, startTime } = await setup();
+      await networkHelpers.time.increaseTo(startTime);
+      assert.equal(await client.getProjectStatus(1n), "InProgress");
 
-      const merkleRoot = keccak256(encodePacked(["string"], ["any-root"]));
-      await fairTicket.write.SetMerkleRoot([1n, merkleRoot]);
+      const [projectStarted] = client.eventsIn(
+        await client.connect(user1).participate(1n, commitmentOf(42n)),
+        "ProjectStarted"
+      );
+      assert.deepEqual(projectStarted.args, { projectId: 1n });
+      await client.connect(user2).participate(1n, commitmentOf(43n));
+
+      const project = await client.getProject(1n);
+      assert.ok(project);
+      assert.equal(project.status, "InProgress");
+      assert.equal(await client.getParticipantCount(1n), 2n);
+    });
+
+    it("结束时间之后应该拒绝参与", async function () {
+      const { client, startTime, endTime } = await setup();
+      await networkHelpers.time.increaseTo(startTime);
+      await client.connect(user1).participate(1n, commitmentOf(42n));
+      await networkHelpers.time.increaseTo(endTime);
 
       await assert.rejects(
         async () => {
-          await fairTicket.read.verifyMerkleProof([1n, []], {
-            account: user2.account,
-          });
+          await client.connect(user2).participate(1n, commitmentOf(43n));
         },
         (error: Error) => {
-          return error.message.includes("MerkleProofInvalid");
+          return isFairTicketError(error, "ProjectEnded");
         }
       );
     });
-  });
-
-  describe("getProjectParticipants 分页功能", async function () {
-    it("应该正确返回分页的参与者", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
 
-      await fairTicket.write.participate([1n, user1.account.address, 10n]);
-      await fairTicket.write.participate([1n, user2.account.address, 20n]);
-      await fairTicket.write.participate([1n, user3.account.address, 30n]);
+    it("结束时间之后任何人都可以结束项目", async function () {
+      const { client, startTime, endTime } = await setup();
+      await networkHelpers.time.increaseTo(startTime);
+      await client.connect(user1).participate(1n, commitmentOf(42n));
+      await networkHelpers.time.increaseTo(endTime);
 
-      const page1 = await fairTicket.read.getProjectParticipants([1n, 0n, 2n]);
-      assert.equal(page1.length, 2);
-      assert.equal(page1[0].addr, getAddress(user1.account.address));
-      assert.equal(page1[0].luckyNum, 10n);
-      assert.equal(page1[1].addr, getAddress(user2.account.address));
-      assert.equal(page1[1].luckyNum, 20n);
+      const [projectFinished] = client.eventsIn(
+        await client.connect(user2).finalize(1n),
+        "ProjectFinished"
+      );
+      assert.deepEqual(projectFinished.args, { projectId: 1n });
 
-      const page2 = await fairTicket.read.getProjectParticipants([1n, 2n, 2n]);
-      assert.equal(page2.length, 1);
-      assert.equal(page2[0].addr, getAddress(user3.account.address));
-      assert.equal(page2[0].luckyNum, 30n);
+      const block = await publicClient.getBlock();
+      const project = await client.getProject(1n);
+      assert.ok(project);
+      assert.equal(project.status, "Finished");
+      assert.equal(
+        project.revealDeadline,
+        block.timestamp + (await client.contract.read.DEFAULT_REVEAL_DURATION())
+      );
     });
 
-    it("应该在offset超出范围时revert", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
+    it("没有人参与的项目到期后也可以结束", async function () {
+      const { client, endTime } = await setup();
+      await networkHelpers.time.increaseTo(endTime);
+
+      await client.connect(user1).finalize(1n);
+      assert.equal(await client.getProjectStatus(1n), "Finished");
+    });
 
-      await fairTicket.write.participate([1n, user1.account.address, 10n]);
+    it("结束时间之前应该拒绝finalize", async function () {
+      const { client, startTime } = await setup();
+      await networkHelpers.time.increaseTo(startTime);
 
       await assert.rejects(
         async () => {
-          await fairTicket.read.getProjectParticipants([1n, 10n, 5n]);
+          await client.connect(user1).finalize(1n);
         },
         (error: Error) => {
-          return error.message.includes("OffsetOutOfBounds");
+          return isFairTicketError(error, "ProjectEndTimeNotReached");
         }
       );
     });
 
-    it("应该在limit超出实际数量时自动调整", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+    it("没有结束时间的项目应该拒绝finalize", async function () {
+      const { client } = await deployFairTicket(viem);
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
-
-      await fairTicket.write.participate([1n, user1.account.address, 10n]);
-      await fairTicket.write.participate([1n, user2.account.address, 20n]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
 
-      const result = await fairTicket.read.getProjectParticipants([
-        1n,
-        0n,
-        10n,
-      ]);
-      assert.equal(result.length, 2);
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).finalize(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectEndTimeNotReached");
+        }
+      );
     });
 
-    it("应该处理offset在边界的情况", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
-
-      await fairTicket.write.participate([1n, user1.account.address, 10n]);
+    it("应该拒绝重复finalize", async function () {
+      const { client, endTime } = await setup();
+      await networkHelpers.time.increaseTo(endTime);
+      await client.finalize(1n);
 
       await assert.rejects(
         async () => {
-          await fairTicket.read.getProjectParticipants([1n, 1n, 1n]);
+          await client.finalize(1n);
         },
         (error: Error) => {
-          return error.message.includes("OffsetOutOfBounds");
+          return isFairTicketError(error, "ProjectNotInProgress");
         }
       );
     });
 
-    it("应该测试offset+limit边界情况", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
-
-      await fairTicket.write.participate([1n, user1.account.address, 10n]);
-      await fairTicket.write.participate([1n, user2.account.address, 20n]);
-      await fairTicket.write.participate([1n, user3.account.address, 30n]);
-
-      const result = await fairTicket.read.getProjectParticipants([1n, 1n, 5n]);
-      assert.equal(result.length, 2);
-    });
-  });
+    it("设置了开始时间的项目不能手动提前开始或结束", async function () {
+      const { client, startTime } = await setup();
 
-  describe("Getter函数完整测试", async function () {
-    it("getProjectInfo应该返回完整项目信息", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      const totalSupply = 100n;
-      await fairTicket.write.createProject([
-        fingerprint,
-        projectOwner.account.address,
+      await assert.rejects(
+        async () => {
+          await client.startProject(1n);
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "ProjectNotOpen") &&
+            error.args[0] === startTime
+          );
+        }
+      );
+      await assert.rejects(
+        async () => {
+          await client.finishProject(1n);
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "ProjectNotInProgress");
+        }
+      );
+      assert.equal(await client.getProjectStatus(1n), "NotStart");
+    });
+
+    it("到达开始时间后不能再手动开始项目", async function () {
+      const { client, startTime } = await setup();
+      await networkHelpers.time.increaseTo(startTime);
+
+      await assert.rejects(
+        async () => {
+          await client.startProject(1n);
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "ProjectAlreadyStarted");
+        }
+      );
+    });
+
+    it("到达开始时间后没有人参与的项目也可以手动结束", async function () {
+      const { client, startTime } = await setup();
+      await networkHelpers.time.increaseTo(startTime);
+
+      const [projectFinished] = client.eventsIn(
+        await client.finishProject(1n),
+        "ProjectFinished"
+      );
+      assert.deepEqual(projectFinished.args, { projectId: 1n });
+      assert.equal(await client.getProjectStatus(1n), "Finished");
+      assert.equal(await client.getParticipantCount(1n), 0n);
+    });
+
+    it("到达开始时间后管理员可以在结束时间之前手动结束项目", async function () {
+      const { client, startTime } = await setup();
+      await networkHelpers.time.increaseTo(startTime);
+      await client.connect(user1).participate(1n, commitmentOf(42n));
+      await client.finishProject(1n);
+
+      assert.equal(await client.getProjectStatus(1n), "Finished");
+    });
+  });
+
+  describe("reveal", async function () {
+    // 创建项目 user1、user2参与后结束项目
+    async function deployRevealingProject() {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.connect(user1).participate(1n, commitmentOf(10n));
+      await client.connect(user2).participate(1n, commitmentOf(20n));
+      await client.finishProject(1n);
+      return client;
+    }
+
+    it("应该成功公布幸运数字并触发事件", async function () {
+      const client = await deployRevealingProject();
+
+      const [luckyNumRevealed] = client.eventsIn(
+        await client.connect(user1).reveal(1n, 10n, SALT),
+        "LuckyNumRevealed"
+      );
+      assert.deepEqual(luckyNumRevealed.args, {
+        projectId: 1n,
+        addr: getAddress(user1.account.address),
+        luckyNum: 10n,
+      });
+
+      const participant = await client.getParticipant(
+        1n,
+        user1.account.address
+      );
+      assert.ok(participant);
+      assert.equal(participant.luckyNum, 10n);
+      assert.equal(participant.revealed, true);
+
+      // 数组中的记录应该同步更新
+      const participants = await client.getParticipants(1n);
+      assert.equal(participants[0].luckyNum, 10n);
+      assert.equal(participants[0].revealed, true);
+      assert.equal(participants[1].luckyNum, 0n);
+      assert.equal(participants[1].revealed, false);
+    });
+
+    it("应该拒绝与承诺不一致的幸运数字或salt", async function () {
+      const client = await deployRevealingProject();
+      const wrongSalt = keccak256(encodePacked(["string"], ["wrong"]));
+
+      for (const [luckyNum, salt] of [
+        [11n, SALT],
+        [10n, wrongSalt],
+      ] as const) {
+        await assert.rejects(
+          async () => {
+            await client.connect(user1).reveal(1n, luckyNum, salt);
+          },
+          (error: Error) => {
+            return isFairTicketError(error, "CommitmentMismatch");
+          }
+        );
+      }
+    });
+
+    it("应该拒绝重复公布", async function () {
+      const client = await deployRevealingProject();
+      await client.connect(user1).reveal(1n, 10n, SALT);
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).reveal(1n, 10n, SALT);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "AlreadyRevealed");
+        }
+      );
+    });
+
+    it("应该拒绝非参与者公布", async function () {
+      const client = await deployRevealingProject();
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user3).reveal(1n, 10n, SALT);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "NotParticipant");
+        }
+      );
+    });
+
+    it("应该拒绝在项目结束前公布", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.connect(user1).participate(1n, commitmentOf(10n));
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).reveal(1n, 10n, SALT);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectNotFinished");
+        }
+      );
+    });
+
+    it("应该拒绝在截止时间之后公布", async function () {
+      const client = await deployRevealingProject();
+      await endRevealWindow(networkHelpers, client.contract, 1n);
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).reveal(1n, 10n, SALT);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "RevealWindowClosed");
+        }
+      );
+    });
+
+    it("应该允许管理员修改公布时长", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+
+      const [revealDurationUpdated] = client.eventsIn(
+        await client.setRevealDuration(3600n),
+        "RevealDurationUpdated"
+      );
+      assert.deepEqual(revealDurationUpdated.args, { revealDuration: 3600n });
+      await client.finishProject(1n);
+
+      const block = await publicClient.getBlock();
+      const project = await client.getProject(1n);
+      assert.ok(project);
+      assert.equal(project.revealDeadline, block.timestamp + 3600n);
+    });
+
+    it("应该拒绝非管理员修改公布时长", async function () {
+      const { client } = await deployFairTicket(viem);
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).setRevealDuration(3600n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "AccessControlUnauthorizedAccount");
+        }
+      );
+    });
+  });
+
+  describe("lottery", async function () {
+    it("应该成功进行抽奖", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.finishProject(1n);
+      await endRevealWindow(networkHelpers, client.contract, 1n);
+
+      assert.equal(await client.lottery(1n), 1n);
+
+      await viem.assertions.emitWithArgs(
+        vrfCoordinator.write.fulfillRandomWordsWithOverride([
+          1n,
+          [MAGIC_NUMBER],
+        ]),
+        client.contract,
+        "MagicNumberPublished",
+        [1n, MAGIC_NUMBER]
+      );
+
+      const result = await client.contract.read.getLotteryResult([1n]);
+      assert.equal(result.projectId, 1n);
+      assert.equal(result.magicNumber, MAGIC_NUMBER);
+
+      const magicNumber = await client.getMagicNumber(1n);
+      assert.equal(magicNumber, MAGIC_NUMBER);
+      assert.equal(await client.getProjectStatus(1n), "LotteryDrawn");
+    });
+
+    it("每个项目只能抽奖一次", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n,
+        MAGIC_NUMBER
+      );
+
+      await assert.rejects(
+        async () => {
+          await client.lottery(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "LotteryAlreadyDrawn");
+        }
+      );
+      assert.equal(await client.getMagicNumber(1n), MAGIC_NUMBER);
+    });
+
+    it("应该拒绝非项目管理者进行抽奖", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.finishProject(1n);
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).lottery(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "OnlyProjectManager");
+        }
+      );
+    });
+
+    it("应该拒绝对不存在的项目抽奖", async function () {
+      const { client } = await deployFairTicket(viem);
+
+      await assert.rejects(
+        async () => {
+          await client.lottery(999n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectNotFound");
+        }
+      );
+    });
+
+    it("应该拒绝对未结束的项目抽奖", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+
+      await assert.rejects(
+        async () => {
+          await client.lottery(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectNotFinished");
+        }
+      );
+    });
+
+    it("应该拒绝在公布幸运数字截止前抽奖", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.finishProject(1n);
+
+      await assert.rejects(
+        async () => {
+          await client.lottery(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "RevealWindowOpen");
+        }
+      );
+    });
+
+    it("应该拒绝对NotStart状态的项目抽奖", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+
+      await assert.rejects(
+        async () => {
+          await client.lottery(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectNotFinished");
+        }
+      );
+    });
+  });
+
+  describe("SetMerkleRoot", async function () {
+    it("应该成功设置MerkleRoot", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n
+      );
+
+      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
+      await client.setMerkleRoot(1n, merkleRoot);
+
+      const project = await client.getProject(1n);
+      assert.ok(project);
+      assert.equal(project.merkleRoot, merkleRoot);
+    });
+
+    it("应该拒绝非项目管理者设置MerkleRoot", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n
+      );
+
+      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).setMerkleRoot(1n, merkleRoot);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "OnlyProjectManager");
+        }
+      );
+    });
+
+    it("应该拒绝重复设置MerkleRoot", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n
+      );
+
+      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
+      await client.setMerkleRoot(1n, merkleRoot);
+
+      await assert.rejects(
+        async () => {
+          await client.setMerkleRoot(1n, merkleRoot);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "MerkleRootAlreadySet");
+        }
+      );
+    });
+
+    it("设置MerkleRoot后项目应该进入WinnersPublished状态", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n
+      );
+      assert.equal(await client.getProjectStatus(1n), "LotteryDrawn");
+
+      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
+      await client.setMerkleRoot(1n, merkleRoot);
+      assert.equal(await client.getProjectStatus(1n), "WinnersPublished");
+    });
+
+    it("应该拒绝在抽奖完成前设置MerkleRoot", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
+
+      // 已经请求随机数但还没有回调 同样不能设置
+      await client.startProject(1n);
+      await client.finishProject(1n);
+      await endRevealWindow(networkHelpers, client.contract, 1n);
+      await client.lottery(1n);
+      await assert.rejects(
+        async () => {
+          await client.setMerkleRoot(1n, merkleRoot);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "LotteryNotDrawn");
+        }
+      );
+
+      await vrfCoordinator.write.fulfillRandomWords([
+        await client.contract.read.getPendingRequestId([1n]),
+      ]);
+      await client.setMerkleRoot(1n, merkleRoot);
+    });
+
+    it("应该拒绝设置为零的MerkleRoot", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n
+      );
+
+      await assert.rejects(
+        async () => {
+          await client.setMerkleRoot(
+            1n,
+            "0x0000000000000000000000000000000000000000000000000000000000000000"
+          );
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "MerkleRootZero");
+        }
+      );
+    });
+
+    it("应该拒绝对不存在的项目设置MerkleRoot", async function () {
+      const { client } = await deployFairTicket(viem);
+      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
+
+      await assert.rejects(
+        async () => {
+          await client.setMerkleRoot(999n, merkleRoot);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectNotFound");
+        }
+      );
+    });
+  });
+
+  describe("verifyMerkleProof", async function () {
+    it("应该验证merkleRoot已设置", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n
+      );
+
+      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
+      await client.setMerkleRoot(1n, merkleRoot);
+
+      const project = await client.getProject(1n);
+      assert.ok(project);
+      assert.equal(project.merkleRoot, merkleRoot);
+    });
+
+    it("应该拒绝无效的MerkleProof并抛出错误", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n
+      );
+
+      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
+      await client.setMerkleRoot(1n, merkleRoot);
+
+      const invalidProof: `0x${string}`[] = [];
+
+      await assert.rejects(
+        async () => {
+          await client.contract.read.verifyMerkleProof([1n, invalidProof], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("MerkleProofInvalid");
+        }
+      );
+    });
+
+    it("应该测试verifyMerkleProof的调用路径", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n
+      );
+
+      const merkleRoot = keccak256(encodePacked(["string"], ["any-root"]));
+      await client.setMerkleRoot(1n, merkleRoot);
+
+      await assert.rejects(
+        async () => {
+          await client.contract.read.verifyMerkleProof([1n, []], {
+            account: user2.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("MerkleProofInvalid");
+        }
+      );
+    });
+  });
+
+  describe("claimTicket", async function () {
+    // 创建项目并使用真实的中奖者Merkle树设置root
+    async function setup(totalSupply: bigint, winners: (typeof user1)[]) {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
         totalSupply,
+      });
+      await runToLotteryDrawn(
+        networkHelpers,
+        client.contract,
+        vrfCoordinator,
+        1n
+      );
+      const winnerProofs = exportWinnerProofs(
+        1n,
+        winners.map((winner) => winner.account.address)
+      );
+      await client.setMerkleRoot(1n, winnerProofs.root);
+      const proofOf = (user: typeof user1) =>
+        winnerProofs.proofs[getAddress(user.account.address)];
+      return { client, proofOf };
+    }
+
+    it("中奖者应该可以领取门票并触发事件", async function () {
+      const { client, proofOf } = await setup(2n, [user1, user2]);
+
+      const [ticketClaimed] = client.eventsIn(
+        await client.connect(user1).claimTicket(1n, proofOf(user1)),
+        "TicketClaimed"
+      );
+      assert.deepEqual(ticketClaimed.args, {
+        projectId: 1n,
+        addr: getAddress(user1.account.address),
+      });
+
+      assert.equal(await client.hasClaimed(1n, user1.account.address), true);
+      assert.equal(await client.hasClaimed(1n, user2.account.address), false);
+      assert.equal(await client.getClaimedAmount(1n), 1n);
+    });
+
+    it("应该拒绝重复领取", async function () {
+      const { client, proofOf } = await setup(2n, [user1, user2]);
+      await client.connect(user1).claimTicket(1n, proofOf(user1));
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).claimTicket(1n, proofOf(user1));
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "AlreadyClaimed");
+        }
+      );
+      assert.equal(await client.getClaimedAmount(1n), 1n);
+    });
+
+    it("应该拒绝使用他人的proof领取", async function () {
+      const { client, proofOf } = await setup(2n, [user1, user2]);
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user3).claimTicket(1n, proofOf(user1));
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "MerkleProofInvalid");
+        }
+      );
+      assert.equal(await client.hasClaimed(1n, user3.account.address), false);
+    });
+
+    it("领取数量不能超过totalSupply", async function () {
+      // Merkle树中有3个地址 但项目只有2张门票
+      const { client, proofOf } = await setup(2n, [user1, user2, user3]);
+      for (const user of [user1, user2]) {
+        await client.connect(user).claimTicket(1n, proofOf(user));
+      }
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user3).claimTicket(1n, proofOf(user3));
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "TicketSoldOut");
+        }
+      );
+      assert.equal(await client.getClaimedAmount(1n), 2n);
+    });
+
+    it("应该拒绝在MerkleRoot设置前领取", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).claimTicket(1n, []);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "MerkleRootNotSet");
+        }
+      );
+    });
+
+    it("应该拒绝领取不存在项目的门票", async function () {
+      const { client } = await deployFairTicket(viem);
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).claimTicket(999n, []);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectNotFound");
+        }
+      );
+    });
+  });
+
+  describe("getProjectParticipants 分页功能", async function () {
+    it("应该正确返回分页的参与者", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+
+      await client.connect(user1).participate(1n, commitmentOf(10n));
+      await client.connect(user2).participate(1n, commitmentOf(20n));
+      await client.connect(user3).participate(1n, commitmentOf(30n));
+
+      const page1 = await client.contract.read.getProjectParticipants([
+        1n,
+        0n,
+        2n,
+      ]);
+      assert.equal(page1.length, 2);
+      assert.equal(page1[0].addr, getAddress(user1.account.address));
+      assert.equal(page1[0].commitment, commitmentOf(10n));
+      assert.equal(page1[1].addr, getAddress(user2.account.address));
+      assert.equal(page1[1].commitment, commitmentOf(20n));
+
+      const page2 = await client.contract.read.getProjectParticipants([
+        1n,
+        2n,
+        2n,
+      ]);
+      assert.equal(page2.length, 1);
+      assert.equal(page2[0].addr, getAddress(user3.account.address));
+      assert.equal(page2[0].commitment, commitmentOf(30n));
+    });
+
+    it("应该在offset超出范围时revert", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+
+      await client.connect(user1).participate(1n, commitmentOf(10n));
+
+      await assert.rejects(
+        async () => {
+          await client.contract.read.getProjectParticipants([1n, 10n, 5n]);
+        },
+        (error: Error) => {
+          return error.message.includes("OffsetOutOfBounds");
+        }
+      );
+    });
+
+    it("应该在limit超出实际数量时自动调整", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+
+      await client.connect(user1).participate(1n, commitmentOf(10n));
+      await client.connect(user2).participate(1n, commitmentOf(20n));
+
+      const result = await client.getParticipants(1n);
+      assert.equal(result.length, 2);
+    });
+
+    it("应该处理offset在边界的情况", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+
+      await client.connect(user1).participate(1n, commitmentOf(10n));
+
+      await assert.rejects(
+        async () => {
+          await client.contract.read.getProjectParticipants([1n, 1n, 1n]);
+        },
+        (error: Error) => {
+          return error.message.includes("OffsetOutOfBounds");
+        }
+      );
+    });
+
+    it("应该测试offset+limit边界情况", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+
+      await client.connect(user1).participate(1n, commitmentOf(10n));
+      await client.connect(user2).participate(1n, commitmentOf(20n));
+      await client.connect(user3).participate(1n, commitmentOf(30n));
+
+      const result = await client.contract.read.getProjectParticipants([
+        1n,
+        1n,
+        5n,
       ]);
+      assert.equal(result.length, 2);
+    });
+  });
+
+  describe("Getter函数完整测试", async function () {
+    it("getProjectInfo应该返回完整项目信息", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      const totalSupply = 100n;
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply,
+      });
 
-      const project = await fairTicket.read.getProjectInfo([1n]);
+      const project = await client.getProject(1n);
+      assert.ok(project);
       assert.equal(project.id, 1n);
       assert.equal(project.fingerprint, fingerprint);
       assert.equal(project.owner, getAddress(projectOwner.account.address));
       assert.equal(project.totalSupply, totalSupply);
-      assert.equal(project.projectStatus, 0);
-      assert.equal(
-        project.merkleRoot,
-        "0x0000000000000000000000000000000000000000000000000000000000000000"
-      );
+      assert.equal(project.status, "NotStart");
+      assert.equal(project.merkleRoot, null);
     });
 
     it("getProjectStatus应该返回所有状态", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+
+      assert.equal(await client.getProjectStatus(1n), "NotStart");
+
+      await client.startProject(1n);
+      assert.equal(await client.getProjectStatus(1n), "InProgress");
 
-      assert.equal(await fairTicket.read.getProjectStatus([1n]), 0);
+      await client.finishProject(1n);
+      assert.equal(await client.getProjectStatus(1n), "Finished");
 
-      await fairTicket.write.startProject([1n]);
-      assert.equal(await fairTicket.read.getProjectStatus([1n]), 1);
+      await endRevealWindow(networkHelpers, client.contract, 1n);
+      await drawLottery(client.contract, vrfCoordinator, 1n);
+      assert.equal(await client.getProjectStatus(1n), "LotteryDrawn");
 
-      await fairTicket.write.finishProject([1n]);
-      assert.equal(await fairTicket.read.getProjectStatus([1n]), 2);
+      const merkleRoot = keccak256(encodePacked(["string"], ["test-root"]));
+      await client.setMerkleRoot(1n, merkleRoot);
+      assert.equal(await client.getProjectStatus(1n), "WinnersPublished");
     });
 
     it("getParticipantInfo应该返回参与者信息", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
 
       const luckyNum = 777n;
-      await fairTicket.write.participate([1n, user1.account.address, luckyNum]);
+      await client.connect(user1).participate(1n, commitmentOf(luckyNum));
 
-      const participant = await fairTicket.read.getParticipantInfo([
+      const participant = await client.getParticipant(
         1n,
-        user1.account.address,
-      ]);
+        user1.account.address
+      );
+      assert.ok(participant);
       assert.equal(participant.addr, getAddress(user1.account.address));
-      assert.equal(participant.luckyNum, luckyNum);
+      assert.equal(participant.luckyNum, 0n);
+      assert.equal(participant.commitment, commitmentOf(luckyNum));
+      assert.equal(participant.revealed, false);
     });
 
     it("getProjectParticipantsAmount应该返回正确数量", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
 
-      assert.equal(await fairTicket.read.getProjectParticipantsAmount([1n]), 0n);
+      assert.equal(await client.getParticipantCount(1n), 0n);
 
-      await fairTicket.write.participate([1n, user1.account.address, 10n]);
-      assert.equal(await fairTicket.read.getProjectParticipantsAmount([1n]), 1n);
+      await client.connect(user1).participate(1n, commitmentOf(10n));
+      assert.equal(await client.getParticipantCount(1n), 1n);
 
-      await fairTicket.write.participate([1n, user2.account.address, 20n]);
-      assert.equal(await fairTicket.read.getProjectParticipantsAmount([1n]), 2n);
+      await client.connect(user2).participate(1n, commitmentOf(20n));
+      assert.equal(await client.getParticipantCount(1n), 2n);
     });
 
     it("getLotteryResult应该返回抽奖结果", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
-      await fairTicket.write.finishProject([1n]);
-      await fairTicket.write.lottery([1n]);
-
-      const result = await fairTicket.read.getLotteryResult([1n]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.finishProject(1n);
+      await endRevealWindow(networkHelpers, client.contract, 1n);
+      await drawLottery(client.contract, vrfCoordinator, 1n, MAGIC_NUMBER);
+
+      const result = await client.contract.read.getLotteryResult([1n]);
       assert.equal(result.projectId, 1n);
-      assert.equal(result.magicNumber, 1234567890n);
+      assert.equal(result.magicNumber, MAGIC_NUMBER);
     });
   });
 
   describe("mapping读取测试", async function () {
     it("应该正确读取s_pid2project映射", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
 
-      const project = await fairTicket.read.s_pid2project([1n]);
+      const project = await client.contract.read.s_pid2project([1n]);
       assert.equal(project[0], 1n); // id as tuple element
       assert.equal(project[1], fingerprint); // fingerprint as tuple element
     });
 
     it("应该正确读取s_projectid_paddr_participant映射", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
-      ]);
-      await fairTicket.write.startProject([1n]);
-      await fairTicket.write.participate([1n, user1.account.address, 99n]);
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.connect(user1).participate(1n, commitmentOf(99n));
 
       const participant =
-        await fairTicket.read.s_projectid_paddr_participant([
+        await client.contract.read.s_projectid_paddr_participant([
           1n,
           user1.account.address,
         ]);
       assert.equal(participant[0], getAddress(user1.account.address)); // addr as tuple element
-      assert.equal(participant[1], 99n); // luckyNum as tuple element
+      assert.equal(participant[1], 0n); // luckyNum as tuple element
+      assert.equal(participant[2], commitmentOf(99n)); // commitment as tuple element
     });
 
     it("应该正确读取s_projectid_lottery映射", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
       const fingerprint = keccak256(encodePacked(["string"], ["test"]));
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        100n,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.startProject(1n);
+      await client.finishProject(1n);
+      await endRevealWindow(networkHelpers, client.contract, 1n);
+      await drawLottery(client.contract, vrfCoordinator, 1n, MAGIC_NUMBER);
+
+      const lotteryResult = await client.contract.read.s_projectid_lottery([
+        1n,
       ]);
-      await fairTicket.write.startProject([1n]);
-      await fairTicket.write.finishProject([1n]);
-      await fairTicket.write.lottery([1n]);
-
-      const lotteryResult = await fairTicket.read.s_projectid_lottery([1n]);
       assert.equal(lotteryResult[0], 1n); // projectId as tuple element
-      assert.equal(lotteryResult[1], 1234567890n); // magicNumber as tuple element
+      assert.equal(lotteryResult[1], MAGIC_NUMBER); // magicNumber as tuple element
+    });
+
+    it("应该正确读取参与者相关的映射", async function () {
+      const { client } = await deployFairTicket(viem);
+      const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+      await client.createProject({
+        fingerprint,
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      await client.setMaxEntries(1n, 3n);
+      await client.startProject(1n);
+      await client.connect(user1).participate(1n, commitmentOf(99n));
+      await client.connect(user2).participate(1n, commitmentOf(98n));
+
+      const read = client.contract.read;
+      const participant = await read.s_projectid_participants([1n, 1n]);
+      assert.equal(participant[0], getAddress(user2.account.address)); // addr as tuple element
+      assert.equal(
+        await read.s_projectid_paddr_index([1n, user2.account.address]),
+        2n
+      );
+      assert.equal(await read.s_projectid_maxentries([1n]), 3n);
+      assert.equal(
+        await read.s_projectid_paddr_claimed([1n, user1.account.address]),
+        false
+      );
+      assert.equal(await read.s_projectid_claimed_amount([1n]), 0n);
+      assert.equal(
+        await read.s_projectid_paddr_deposit([1n, user1.account.address]),
+        0n
+      );
+      assert.deepEqual(await read.s_projectid_entryfee([1n]), [
+        "0x0000000000000000000000000000000000000000",
+        0n,
+      ]);
+      assert.equal(
+        await read.s_addr_token_balance([
+          user1.account.address,
+          "0x0000000000000000000000000000000000000000",
+        ]),
+        0n
+      );
+      assert.equal(
+        await read.s_projectid_allowlistroot([1n]),
+        await read.getAllowlistRoot([1n])
+      );
+      assert.equal(
+        await read.s_projectid_weightroot([1n]),
+        await read.getWeightRoot([1n])
+      );
+      assert.equal(await read.s_projectid_requestid([1n]), 0n);
     });
   });
 
-  describe("SimpleMock库测试", async function () {
-    it("SimpleMock.simpleVRF应该总是返回固定值", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [1n]);
-      const fp1 = keccak256(encodePacked(["string"], ["project-1"]));
-      const fp2 = keccak256(encodePacked(["string"], ["project-2"]));
+  describe("VRF随机数", async function () {
+    // 创建两个已结束的项目
+    async function deployFinishedProjects() {
+      const contracts = await deployFairTicket(viem);
+      const { client } = contracts;
+      for (const name of ["project-1", "project-2"]) {
+        await client.createProject({
+          fingerprint: keccak256(encodePacked(["string"], [name])),
+          owner: projectOwner.account.address,
+          totalSupply: 100n,
+        });
+      }
+      for (const projectId of [1n, 2n]) {
+        await client.startProject(projectId);
+        await client.finishProject(projectId);
+      }
+      await endRevealWindow(networkHelpers, client.contract, 2n);
+      return contracts;
+    }
+
+    it("请求随机数后应该处于等待回调状态", async function () {
+      const { client, vrfCoordinator } = await deployFinishedProjects();
+
+      await client.lottery(1n);
+
+      assert.equal(await client.getPendingRequestId(1n), 1n);
+      assert.equal(await client.contract.read.s_requestid_projectid([1n]), 1n);
+      assert.equal(await client.getMagicNumber(1n), null);
+      assert.equal(
+        await vrfCoordinator.read.s_requestid_consumer([1n]),
+        getAddress(client.address)
+      );
+    });
+
+    it("应该拒绝在等待回调时重复请求", async function () {
+      const { client } = await deployFinishedProjects();
+      await client.lottery(1n);
+
+      await assert.rejects(
+        async () => {
+          await client.lottery(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "LotteryRequestPending");
+        }
+      );
+    });
+
+    it("回调后应该写入magicNumber并清除等待状态", async function () {
+      const { client, vrfCoordinator } = await deployFinishedProjects();
+      await client.lottery(1n);
+
+      await vrfCoordinator.write.fulfillRandomWords([1n]);
+
+      const magicNumber = await client.getMagicNumber(1n);
+      assert.notEqual(magicNumber, null);
+      assert.equal(await client.getPendingRequestId(1n), null);
+      assert.equal(await client.contract.read.s_requestid_projectid([1n]), 0n);
+    });
+
+    it("管理员取消等待中的请求后应该可以重新抽奖", async function () {
+      const { client, vrfCoordinator } = await deployFinishedProjects();
+      await client.lottery(1n);
+
+      await assert.rejects(
+        async () => {
+          await client.connect(projectOwner).cancelRandomnessRequest(1n);
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "AccessControlUnauthorizedAccount");
+        }
+      );
+      await networkHelpers.time.increase(
+        await client.contract.read.VRF_REQUEST_TIMEOUT()
+      );
+      const [cancelled] = client.eventsIn(
+        await client.cancelRandomnessRequest(1n),
+        "RandomnessRequestCancelled"
+      );
+      assert.deepEqual(cancelled.args, { projectId: 1n, requestId: 1n });
+      assert.equal(await client.getPendingRequestId(1n), null);
+      assert.equal(await client.getProjectStatus(1n), "Finished");
+
+      // 被取消的请求再回调会revert
+      await assert.rejects(
+        async () => {
+          await vrfCoordinator.write.fulfillRandomWords([1n]);
+        },
+        (error: Error) => {
+          return error.message.includes("VRFRequestNotFound");
+        }
+      );
+      await assert.rejects(
+        async () => {
+          await client.cancelRandomnessRequest(1n);
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "VRFRequestNotFound") &&
+            error.args[0] === 0n
+          );
+        }
+      );
 
-      await fairTicket.write.createProject([
-        fp1,
-        projectOwner.account.address,
-        100n,
+      const requestId = await client.connect(projectOwner).lottery(1n);
+      await vrfCoordinator.write.fulfillRandomWordsWithOverride([
+        requestId,
+        [MAGIC_NUMBER],
       ]);
-      await fairTicket.write.startProject([1n]);
-      await fairTicket.write.finishProject([1n]);
-      await fairTicket.write.lottery([1n]);
-
-      await fairTicket.write.createProject([
-        fp2,
-        projectOwner.account.address,
-        100n,
+      assert.equal(await client.getMagicNumber(1n), MAGIC_NUMBER);
+      assert.equal(await client.getProjectStatus(1n), "LotteryDrawn");
+    });
+
+    it("请求发出后等待时间不足时应该拒绝取消", async function () {
+      const { client, vrfCoordinator } = await deployFinishedProjects();
+      await client.lottery(1n);
+      const requestedAt = BigInt(await networkHelpers.time.latest());
+      const expiresAt =
+        requestedAt + (await client.contract.read.VRF_REQUEST_TIMEOUT());
+
+      await networkHelpers.time.increaseTo(expiresAt - 2n);
+      await assert.rejects(
+        async () => {
+          await client.cancelRandomnessRequest(1n);
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "VRFRequestNotExpired") &&
+            error.args[0] === expiresAt
+          );
+        }
+      );
+      assert.equal(await client.getPendingRequestId(1n), 1n);
+
+      // 等待期间回调仍然可以正常写入结果
+      await vrfCoordinator.write.fulfillRandomWordsWithOverride([
+        1n,
+        [MAGIC_NUMBER],
       ]);
-      await fairTicket.write.startProject([2n]);
-      await fairTicket.write.finishProject([2n]);
-      await fairTicket.write.lottery([2n]);
+      assert.equal(await client.getMagicNumber(1n), MAGIC_NUMBER);
+    });
+
+    it("不同项目应该得到不同的magicNumber", async function () {
+      const { client, vrfCoordinator } = await deployFinishedProjects();
+
+      await drawLottery(client.contract, vrfCoordinator, 1n);
+      await drawLottery(client.contract, vrfCoordinator, 2n);
+
+      const magic1 = await client.getMagicNumber(1n);
+      const magic2 = await client.getMagicNumber(2n);
+      assert.notEqual(magic1, null);
+      assert.notEqual(magic2, null);
+      assert.notEqual(magic1, magic2);
+    });
+
+    it("应该拒绝非Coordinator的回调", async function () {
+      const { client } = await deployFinishedProjects();
+      await client.lottery(1n);
+
+      await assert.rejects(
+        async () => {
+          await client.contract.write.rawFulfillRandomWords(
+            [1n, [MAGIC_NUMBER]],
+            {
+              account: user1.account,
+            }
+          );
+        },
+        (error: Error) => {
+          return error.message.includes("OnlyVRFCoordinator");
+        }
+      );
+      assert.equal(await client.getMagicNumber(1n), null);
+    });
+
+    it("应该拒绝未知请求的回调", async function () {
+      const { client } = await deployFinishedProjects();
+      // 将Coordinator设置为普通账户 以便直接发起回调
+      await client.setVRFConfig(
+        user1.account.address,
+        VRF_KEY_HASH,
+        VRF_SUBSCRIPTION_ID
+      );
+
+      await assert.rejects(
+        async () => {
+          await client.contract.write.rawFulfillRandomWords(
+            [99n, [MAGIC_NUMBER]],
+            {
+              account: user1.account,
+            }
+          );
+        },
+        (error: Error) => {
+          return error.message.includes("VRFRequestNotFound");
+        }
+      );
+    });
+
+    it("应该允许管理员切换Coordinator", async function () {
+      const { client } = await deployFinishedProjects();
+      const newCoordinator = await viem.deployContract("VRFCoordinatorMock");
+
+      const [vRFConfigUpdated] = client.eventsIn(
+        await client.setVRFConfig(newCoordinator.address, VRF_KEY_HASH, 2n),
+        "VRFConfigUpdated"
+      );
+      assert.deepEqual(vRFConfigUpdated.args, {
+        coordinator: getAddress(newCoordinator.address),
+        keyHash: VRF_KEY_HASH,
+        subscriptionId: 2n,
+      });
+      await drawLottery(client.contract, newCoordinator, 1n, MAGIC_NUMBER);
+      assert.equal(await client.getMagicNumber(1n), MAGIC_NUMBER);
+    });
+
+    it("应该拒绝非管理员切换Coordinator", async function () {
+      const { client } = await deployFinishedProjects();
+
+      await assert.rejects(
+        async () => {
+          await client
+            .connect(user1)
+            .setVRFConfig(user1.account.address, VRF_KEY_HASH, 2n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "AccessControlUnauthorizedAccount");
+        }
+      );
+    });
+  });
+
+  describe("项目权限", async function () {
+    // 创建两个由projectOwner拥有的项目 user3是项目1的operator，user2是项目2的operator
+    async function setup() {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      for (const name of ["project-1", "project-2"]) {
+        await client.createProject({
+          fingerprint: keccak256(encodePacked(["string"], [name])),
+          owner: projectOwner.account.address,
+          totalSupply: 100n,
+        });
+      }
+      await client
+        .connect(projectOwner)
+        .grantProjectOperator(1n, user3.account.address);
+      await client
+        .connect(projectOwner)
+        .grantProjectOperator(2n, user2.account.address);
+      return { client, vrfCoordinator };
+    }
+
+    type Setup = Awaited<ReturnType<typeof setup>>;
+
+    // 每个生命周期函数调用前需要的项目状态
+    const lifecycleCalls: [
+      string,
+      (setup: Setup) => Promise<void>,
+      (setup: Setup, caller: typeof owner) => Promise<unknown>,
+    ][] = [
+      [
+        "startProject",
+        async () => {},
+        ({ client }, caller) => client.connect(caller).startProject(1n),
+      ],
+      [
+        "finishProject",
+        async ({ client }) => {
+          await client.startProject(1n);
+        },
+        ({ client }, caller) => client.connect(caller).finishProject(1n),
+      ],
+      [
+        "lottery",
+        async ({ client }) => {
+          await client.startProject(1n);
+          await client.finishProject(1n);
+          await endRevealWindow(networkHelpers, client.contract, 1n);
+        },
+        ({ client }, caller) => client.connect(caller).lottery(1n),
+      ],
+      [
+        "SetMerkleRoot",
+        async ({ client, vrfCoordinator }) => {
+          await runToLotteryDrawn(
+            networkHelpers,
+            client.contract,
+            vrfCoordinator,
+            1n
+          );
+        },
+        ({ client }, caller) =>
+          client
+            .connect(caller)
+            .setMerkleRoot(1n, keccak256(encodePacked(["string"], ["root"]))),
+      ],
+    ];
+
+    const roles: [string, typeof owner, boolean][] = [
+      ["平台管理员", owner, true],
+      ["项目owner", projectOwner, true],
+      ["项目operator", user3, true],
+      ["其他项目的operator", user2, false],
+      ["无关地址", user1, false],
+    ];
+
+    for (const [name, prepare, call] of lifecycleCalls) {
+      for (const [roleName, caller, allowed] of roles) {
+        it(`${roleName}${allowed ? "应该可以" : "应该不能"}调用${name}`, async function () {
+          const deployed = await setup();
+          await prepare(deployed);
+          if (allowed) {
+            await call(deployed, caller);
+          } else {
+            await assert.rejects(
+              async () => {
+                await call(deployed, caller);
+              },
+              (error: Error) => {
+                return isFairTicketError(error, "OnlyProjectManager");
+              }
+            );
+          }
+        });
+      }
+    }
+
+    it("项目owner应该可以授权和撤销operator", async function () {
+      const { client } = await setup();
+      assert.equal(
+        await client.isProjectOperator(1n, user3.account.address),
+        true
+      );
+      assert.equal(
+        await client.isProjectOperator(2n, user3.account.address),
+        false
+      );
+
+      await client
+        .connect(projectOwner)
+        .revokeProjectOperator(1n, user3.account.address);
+      assert.equal(
+        await client.isProjectManager(1n, user3.account.address),
+        false
+      );
+      await assert.rejects(
+        async () => {
+          await client.connect(user3).startProject(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "OnlyProjectManager");
+        }
+      );
+    });
+
+    it("只有项目owner可以授权operator", async function () {
+      const { client } = await setup();
+
+      for (const caller of [owner, user3]) {
+        await assert.rejects(
+          async () => {
+            await client
+              .connect(caller)
+              .grantProjectOperator(1n, user1.account.address);
+          },
+          (error: Error) => {
+            return isFairTicketError(error, "OnlyProjectOwner");
+          }
+        );
+      }
+    });
+
+    it("项目owner应该可以转让项目", async function () {
+      const { client } = await setup();
+
+      const [projectOwnershipTransferred] = client.eventsIn(
+        await client
+          .connect(projectOwner)
+          .transferProjectOwnership(1n, user4.account.address),
+        "ProjectOwnershipTransferred"
+      );
+      assert.deepEqual(projectOwnershipTransferred.args, {
+        projectId: 1n,
+        previousOwner: getAddress(projectOwner.account.address),
+        newOwner: getAddress(user4.account.address),
+      });
+
+      const project = await client.getProject(1n);
+      assert.ok(project);
+      assert.equal(project.owner, getAddress(user4.account.address));
+      // 原owner不能再管理项目 新owner可以
+      await assert.rejects(
+        async () => {
+          await client.connect(projectOwner).startProject(1n);
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "OnlyProjectManager");
+        }
+      );
+      await client.connect(user4).startProject(1n);
+      // 项目2不受影响
+      assert.equal(
+        (await client.getProject(2n))?.owner,
+        getAddress(projectOwner.account.address)
+      );
+    });
+
+    it("应该拒绝非项目owner转让项目", async function () {
+      const { client } = await setup();
+
+      for (const caller of [owner, user3, user1]) {
+        await assert.rejects(
+          async () => {
+            await client
+              .connect(caller)
+              .transferProjectOwnership(1n, caller.account.address);
+          },
+          (error: Error) => {
+            return isFairTicketError(error, "OnlyProjectOwner");
+          }
+        );
+      }
+    });
+
+    it("应该拒绝将项目转让给零地址", async function () {
+      const { client } = await setup();
+
+      await assert.rejects(
+        async () => {
+          await client
+            .connect(projectOwner)
+            .transferProjectOwnership(
+              1n,
+              "0x0000000000000000000000000000000000000000"
+            );
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectOwnerZero");
+        }
+      );
+    });
 
-      const magic1 = await fairTicket.read.getMagicNumber([1n]);
-      const magic2 = await fairTicket.read.getMagicNumber([2n]);
+    it("应该拒绝创建owner为零地址的项目", async function () {
+      const { client } = await deployFairTicket(viem);
 
-      assert.equal(magic1, 1234567890n);
-      assert.equal(magic2, 1234567890n);
+      await assert.rejects(
+        async () => {
+          await client.createProject({
+            fingerprint: keccak256(encodePacked(["string"], ["test"])),
+            owner: "0x0000000000000000000000000000000000000000",
+            totalSupply: 100n,
+          });
+        },
+        (error: Error) => {
+          return isFairTicketError(error, "ProjectOwnerZero");
+        }
+      );
+    });
+
+    it("平台管理员应该可以授权新的管理员", async function () {
+      const { client } = await setup();
+      const adminRole = await client.contract.read.DEFAULT_ADMIN_ROLE();
+
+      await client.contract.write.grantRole([adminRole, user1.account.address]);
+      await client.connect(user1).createProject({
+        fingerprint: keccak256(encodePacked(["string"], ["project-3"])),
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      assert.equal(await client.contract.read.s_globalId(), 4n);
     });
   });
 
   describe("完整项目生命周期测试", async function () {
     it("应该完整走完一个项目的所有流程", async function () {
-      const fairTicket = await viem.deployContract("FairTicket", [100n]);
+      const { client, vrfCoordinator } = await deployFairTicket(viem, 100n);
       const fingerprint = keccak256(encodePacked(["string"], ["full-cycle"]));
 
-      await fairTicket.write.createProject([
+      await client.createProject({
         fingerprint,
-        projectOwner.account.address,
-        50n,
-      ]);
-      assert.equal(await fairTicket.read.getProjectStatus([100n]), 0);
+        owner: projectOwner.account.address,
+        totalSupply: 50n,
+      });
+      assert.equal(await client.getProjectStatus(100n), "NotStart");
 
-      await fairTicket.write.startProject([100n]);
-      assert.equal(await fairTicket.read.getProjectStatus([100n]), 1);
+      await client.startProject(100n);
+      assert.equal(await client.getProjectStatus(100n), "InProgress");
 
-      await fairTicket.write.participate([100n, user1.account.address, 11n]);
-      await fairTicket.write.participate([100n, user2.account.address, 22n]);
-      await fairTicket.write.participate([100n, user3.account.address, 33n]);
-      await fairTicket.write.participate([100n, user4.account.address, 44n]);
+      await client.connect(user1).participate(100n, commitmentOf(11n));
+      await client.connect(user2).participate(100n, commitmentOf(22n));
+      await client.connect(user3).participate(100n, commitmentOf(33n));
+      await client.connect(user4).participate(100n, commitmentOf(44n));
 
-      assert.equal(
-        await fairTicket.read.getProjectParticipantsAmount([100n]),
-        4n
-      );
+      assert.equal(await client.getParticipantCount(100n), 4n);
 
-      await fairTicket.write.finishProject([100n]);
-      assert.equal(await fairTicket.read.getProjectStatus([100n]), 2);
+      await client.finishProject(100n);
+      assert.equal(await client.getProjectStatus(100n), "Finished");
 
-      await fairTicket.write.lottery([100n]);
-      const magicNumber = await fairTicket.read.getMagicNumber([100n]);
-      assert.equal(magicNumber, 1234567890n);
+      for (const [user, luckyNum] of [
+        [user1, 11n],
+        [user2, 22n],
+        [user3, 33n],
+      ] as const) {
+        await client.connect(user).reveal(100n, luckyNum, SALT);
+      }
+      await endRevealWindow(networkHelpers, client.contract, 100n);
+
+      await drawLottery(client.contract, vrfCoordinator, 100n, MAGIC_NUMBER);
+      const magicNumber = await client.getMagicNumber(100n);
+      assert.equal(magicNumber, MAGIC_NUMBER);
 
       const merkleRoot = keccak256(encodePacked(["string"], ["winners-root"]));
-      await fairTicket.write.SetMerkleRoot([100n, merkleRoot]);
+      await client.setMerkleRoot(100n, merkleRoot);
 
       await assert.rejects(
         async () => {
-          await fairTicket.read.verifyMerkleProof([100n, []], {
+          await client.contract.read.verifyMerkleProof([100n, []], {
             account: user1.account,
           });
         },
@@ -935,11 +2499,9 @@ describe("FairTicket", async function () {
         }
       );
 
-      const allParticipants = await fairTicket.read.getProjectParticipants([
-        100n,
-        0n,
-        10n,
-      ]);
+      const allParticipants = await client.contract.read.getProjectParticipants(
+        [100n, 0n, 10n]
+      );
       assert.equal(allParticipants.length, 4);
     });
   });
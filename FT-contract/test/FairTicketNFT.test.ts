@@ -0,0 +1,303 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress, toHex } from "viem";
+import FairTicketNFTModule from "../ignition/modules/FairTicketNFT.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import {
+  runToLotteryDrawn,
+  VRF_KEY_HASH,
+  VRF_SUBSCRIPTION_ID,
+} from "./helpers.js";
+
+describe("FairTicketNFT", async function () {
+  const { viem, ignition, networkHelpers } = await network.connect();
+  const [owner, projectOwner, user1, user2, user3] =
+    await viem.getWalletClients();
+
+  const MINTER_ROLE = keccak256(toHex("MINTER_ROLE"));
+
+  // 使用Ignition模块部署FairTicket和门票NFT
+  async function deploy() {
+    const vrfCoordinator = await viem.deployContract("VRFCoordinatorMock");
+    const { fairTicket, ticketNFT } = await ignition.deploy(
+      FairTicketNFTModule,
+      {
+        parameters: {
+          FairTicketModule: {
+            vrfCoordinator: vrfCoordinator.address,
+            vrfKeyHash: VRF_KEY_HASH,
+            vrfSubscriptionId: VRF_SUBSCRIPTION_ID,
+          },
+        },
+      }
+    );
+    return { fairTicket, ticketNFT, vrfCoordinator };
+  }
+
+  // 创建项目、完成抽奖并设置中奖者Merkle树 返回每个中奖者的proof
+  async function createProjectWithWinners(
+    { fairTicket, vrfCoordinator }: Awaited<ReturnType<typeof deploy>>,
+    name: string,
+    totalSupply: bigint,
+    winners: (typeof user1)[]
+  ) {
+    const projectId = await fairTicket.read.s_globalId();
+    await fairTicket.write.createProject([
+      keccak256(encodePacked(["string"], [name])),
+      projectOwner.account.address,
+      totalSupply,
+    ]);
+    await runToLotteryDrawn(
+      networkHelpers,
+      fairTicket,
+      vrfCoordinator,
+      projectId
+    );
+    const winnerProofs = exportWinnerProofs(
+      projectId,
+      winners.map((winner) => winner.account.address)
+    );
+    await fairTicket.write.SetMerkleRoot([projectId, winnerProofs.root]);
+    const proofOf = (user: typeof user1) =>
+      winnerProofs.proofs[getAddress(user.account.address)];
+    return { projectId, proofOf };
+  }
+
+  function decodeTokenURI(uri: string) {
+    const prefix = "data:application/json;base64,";
+    assert.ok(uri.startsWith(prefix));
+    return JSON.parse(
+      Buffer.from(uri.slice(prefix.length), "base64").toString("utf8")
+    );
+  }
+
+  it("部署模块应该将MINTER_ROLE授予FairTicket", async function () {
+    const { fairTicket, ticketNFT } = await deploy();
+
+    assert.equal(
+      await fairTicket.read.s_ticketNFT(),
+      getAddress(ticketNFT.address)
+    );
+    assert.equal(await ticketNFT.read.MINTER_ROLE(), MINTER_ROLE);
+    assert.equal(
+      await ticketNFT.read.hasRole([MINTER_ROLE, fairTicket.address]),
+      true
+    );
+    assert.equal(
+      await ticketNFT.read.hasRole([MINTER_ROLE, owner.account.address]),
+      false
+    );
+  });
+
+  it("领取门票时应该铸造NFT", async function () {
+    const deployed = await deploy();
+    const { fairTicket, ticketNFT } = deployed;
+    const { projectId, proofOf } = await createProjectWithWinners(
+      deployed,
+      "concert",
+      2n,
+      [user1, user2]
+    );
+
+    await fairTicket.write.claimTicket([projectId, proofOf(user1)], {
+      account: user1.account,
+    });
+
+    assert.equal(
+      await ticketNFT.read.ownerOf([1n]),
+      getAddress(user1.account.address)
+    );
+    assert.equal(await ticketNFT.read.balanceOf([user1.account.address]), 1n);
+    assert.equal(await ticketNFT.read.getTicketProject([1n]), projectId);
+    assert.equal(await ticketNFT.read.getProjectMinted([projectId]), 1n);
+  });
+
+  it("tokenURI应该包含项目id和指纹", async function () {
+    const deployed = await deploy();
+    const { fairTicket, ticketNFT } = deployed;
+    const { projectId, proofOf } = await createProjectWithWinners(
+      deployed,
+      "concert",
+      2n,
+      [user1, user2]
+    );
+    for (const user of [user1, user2]) {
+      await fairTicket.write.claimTicket([projectId, proofOf(user)], {
+        account: user.account,
+      });
+    }
+
+    const metadata = decodeTokenURI(await ticketNFT.read.tokenURI([2n]));
+    assert.deepEqual(metadata, {
+      name: `FairTicket #${projectId}-2`,
+      description: `FairTicket project ${projectId} ticket`,
+      attributes: [
+        { trait_type: "projectId", value: Number(projectId) },
+        {
+          trait_type: "fingerprint",
+          value: keccak256(encodePacked(["string"], ["concert"])),
+        },
+        { trait_type: "serial", value: 2 },
+      ],
+    });
+  });
+
+  it("tokenURI应该拒绝不存在的门票", async function () {
+    const { ticketNFT } = await deploy();
+
+    await assert.rejects(
+      async () => {
+        await ticketNFT.read.tokenURI([1n]);
+      },
+      (error: Error) => {
+        return error.message.includes("ERC721NonexistentToken");
+      }
+    );
+  });
+
+  it("每个项目铸造的门票数量不能超过totalSupply", async function () {
+    const deployed = await deploy();
+    const { fairTicket, ticketNFT } = deployed;
+    const first = await createProjectWithWinners(deployed, "first", 1n, [
+      user1,
+      user2,
+    ]);
+    const second = await createProjectWithWinners(deployed, "second", 2n, [
+      user1,
+      user2,
+      user3,
+    ]);
+
+    await fairTicket.write.claimTicket(
+      [first.projectId, first.proofOf(user1)],
+      {
+        account: user1.account,
+      }
+    );
+    await assert.rejects(
+      async () => {
+        await fairTicket.write.claimTicket(
+          [first.projectId, first.proofOf(user2)],
+          { account: user2.account }
+        );
+      },
+      (error: Error) => {
+        return error.message.includes("TicketSoldOut");
+      }
+    );
+
+    // 另一个项目的门票数量单独计算
+    for (const user of [user1, user2]) {
+      await fairTicket.write.claimTicket(
+        [second.projectId, second.proofOf(user)],
+        { account: user.account }
+      );
+    }
+    assert.equal(await ticketNFT.read.getProjectMinted([first.projectId]), 1n);
+    assert.equal(await ticketNFT.read.getProjectMinted([second.projectId]), 2n);
+    assert.equal(await ticketNFT.read.balanceOf([user1.account.address]), 2n);
+
+    const metadata = decodeTokenURI(await ticketNFT.read.tokenURI([3n]));
+    assert.equal(metadata.name, `FairTicket #${second.projectId}-2`);
+  });
+
+  it("NFT合约也应该拒绝超过maxSupply的铸造", async function () {
+    const { ticketNFT } = await deploy();
+    await ticketNFT.write.grantRole([MINTER_ROLE, owner.account.address]);
+    const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+
+    await ticketNFT.write.mint([user1.account.address, 1n, fingerprint, 1n]);
+    await assert.rejects(
+      async () => {
+        await ticketNFT.write.mint([
+          user2.account.address,
+          1n,
+          fingerprint,
+          1n,
+        ]);
+      },
+      (error: Error) => {
+        return error.message.includes("ProjectSupplyExceeded");
+      }
+    );
+  });
+
+  it("应该拒绝没有MINTER_ROLE的地址铸造", async function () {
+    const { ticketNFT } = await deploy();
+    const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+
+    await assert.rejects(
+      async () => {
+        await ticketNFT.write.mint(
+          [user1.account.address, 1n, fingerprint, 100n],
+          { account: user1.account }
+        );
+      },
+      (error: Error) => {
+        return error.message.includes("AccessControlUnauthorizedAccount");
+      }
+    );
+  });
+
+  it("门票应该可以转让", async function () {
+    const deployed = await deploy();
+    const { fairTicket, ticketNFT } = deployed;
+    const { projectId, proofOf } = await createProjectWithWinners(
+      deployed,
+      "concert",
+      1n,
+      [user1]
+    );
+    await fairTicket.write.claimTicket([projectId, proofOf(user1)], {
+      account: user1.account,
+    });
+
+    await ticketNFT.write.transferFrom(
+      [user1.account.address, user2.account.address, 1n],
+      { account: user1.account }
+    );
+    assert.equal(
+      await ticketNFT.read.ownerOf([1n]),
+      getAddress(user2.account.address)
+    );
+  });
+
+  it("未设置NFT合约时领取门票不应该铸造", async function () {
+    const deployed = await deploy();
+    const { fairTicket, ticketNFT } = deployed;
+    await fairTicket.write.setTicketNFT([
+      "0x0000000000000000000000000000000000000000",
+    ]);
+    const { projectId, proofOf } = await createProjectWithWinners(
+      deployed,
+      "concert",
+      1n,
+      [user1]
+    );
+
+    await fairTicket.write.claimTicket([projectId, proofOf(user1)], {
+      account: user1.account,
+    });
+    assert.equal(
+      await fairTicket.read.hasClaimed([projectId, user1.account.address]),
+      true
+    );
+    assert.equal(await ticketNFT.read.balanceOf([user1.account.address]), 0n);
+  });
+
+  it("应该拒绝非管理员设置NFT合约", async function () {
+    const { fairTicket, ticketNFT } = await deploy();
+
+    await assert.rejects(
+      async () => {
+        await fairTicket.write.setTicketNFT([ticketNFT.address], {
+          account: user1.account,
+        });
+      },
+      (error: Error) => {
+        return error.message.includes("AccessControlUnauthorizedAccount");
+      }
+    );
+  });
+});
@@ -0,0 +1,277 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { SimpleMerkleTree } from "@openzeppelin/merkle-tree";
+import { keccak256, encodePacked, getAddress } from "viem";
+import {
+  exportAllowlistProofs,
+  getAllowlistProof,
+  parseAllowlistCsv,
+} from "../utils/allowlist.js";
+import { computeCommitment } from "../utils/commitment.js";
+import { winnerLeaf } from "../utils/merkle.js";
+import { signParticipation } from "../utils/signature.js";
+import { deployFairTicket } from "./helpers.js";
+
+describe("allowlist 白名单参与", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const [, projectOwner, user1, user2, user3] = await viem.getWalletClients();
+
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+
+  // user1 和 user2 在白名单中，user3 不在
+  const allowlistProofs = exportAllowlistProofs(1n, [
+    user1.account.address,
+    user2.account.address,
+  ]);
+  const proofOf = (addr: `0x${string}`) =>
+    getAllowlistProof(allowlistProofs, addr)!;
+
+  // 部署合约并创建设置了白名单的项目
+  async function setup() {
+    const deployed = await deployFairTicket(viem);
+    const { fairTicket } = deployed;
+    await fairTicket.write.createProject([
+      keccak256(encodePacked(["string"], ["presale"])),
+      projectOwner.account.address,
+      10n,
+    ]);
+    await fairTicket.write.setAllowlistRoot([1n, allowlistProofs.root], {
+      account: projectOwner.account,
+    });
+    await fairTicket.write.startProject([1n]);
+    return deployed;
+  }
+
+  describe("parseAllowlistCsv", async function () {
+    it("应该跳过表头、空行和注释并忽略其余列", async function () {
+      const csv = [
+        "address,tier",
+        "",
+        `${user1.account.address.toLowerCase()},gold`,
+        "# 以下为普通会员",
+        ` ${user2.account.address} ,silver`,
+        "",
+      ].join("\r\n");
+
+      assert.deepEqual(parseAllowlistCsv(csv), [
+        getAddress(user1.account.address),
+        getAddress(user2.account.address),
+      ]);
+    });
+
+    it("没有表头时第一行也应该被读取", async function () {
+      assert.deepEqual(parseAllowlistCsv(user1.account.address), [
+        getAddress(user1.account.address),
+      ]);
+    });
+
+    it("应该拒绝非法地址、重复地址和空名单", async function () {
+      assert.throws(
+        () => parseAllowlistCsv(`address\n${user1.account.address}\n0x1234`),
+        /Invalid address on line 3/
+      );
+      assert.throws(
+        () =>
+          parseAllowlistCsv(
+            `${user1.account.address}\n${user1.account.address.toLowerCase()}`
+          ),
+        /Duplicate allowlist address on line 2/
+      );
+      assert.throws(() => parseAllowlistCsv("address\n\n"), /empty/);
+    });
+  });
+
+  describe("exportAllowlistProofs", async function () {
+    it("每个地址的proof都应该能在链下验证", async function () {
+      for (const user of [user1, user2]) {
+        const addr = getAddress(user.account.address);
+        assert.ok(
+          SimpleMerkleTree.verify(
+            allowlistProofs.root,
+            winnerLeaf(addr),
+            proofOf(addr)
+          )
+        );
+      }
+      assert.equal(
+        getAllowlistProof(allowlistProofs, user3.account.address),
+        undefined
+      );
+    });
+  });
+
+  describe("setAllowlistRoot", async function () {
+    it("项目管理者应该可以在项目开始前设置白名单", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await fairTicket.write.createProject([
+        keccak256(encodePacked(["string"], ["presale"])),
+        projectOwner.account.address,
+        10n,
+      ]);
+
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setAllowlistRoot([1n, allowlistProofs.root], {
+          account: projectOwner.account,
+        }),
+        fairTicket,
+        "AllowlistRootSet",
+        [1n, allowlistProofs.root]
+      );
+      assert.equal(
+        await fairTicket.read.getAllowlistRoot([1n]),
+        allowlistProofs.root
+      );
+    });
+
+    it("应该拒绝在项目开始后修改白名单", async function () {
+      const { fairTicket } = await setup();
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.setAllowlistRoot([1n, allowlistProofs.root]);
+        },
+        (error: Error) => {
+          return error.message.includes("ProjectAlreadyStarted");
+        }
+      );
+    });
+
+    it("应该拒绝非项目管理者设置白名单", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await fairTicket.write.createProject([
+        keccak256(encodePacked(["string"], ["presale"])),
+        projectOwner.account.address,
+        10n,
+      ]);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.setAllowlistRoot([1n, allowlistProofs.root], {
+            account: user3.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("OnlyProjectManager");
+        }
+      );
+    });
+  });
+
+  describe("participate", async function () {
+    it("白名单中的地址应该可以使用proof参与", async function () {
+      const { fairTicket } = await setup();
+      for (const [i, user] of [user1, user2].entries()) {
+        await fairTicket.write.participate(
+          [1n, commitmentOf(BigInt(i)), proofOf(user.account.address)],
+          { account: user.account }
+        );
+      }
+      assert.equal(
+        await fairTicket.read.getProjectParticipantsAmount([1n]),
+        2n
+      );
+    });
+
+    it("应该拒绝不在白名单中的地址", async function () {
+      const { fairTicket } = await setup();
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.participate(
+            [1n, commitmentOf(3n), proofOf(user1.account.address)],
+            { account: user3.account }
+          );
+        },
+        (error: Error) => {
+          return error.message.includes("NotAllowlisted");
+        }
+      );
+    });
+
+    it("设置了白名单时应该拒绝不带proof的参与", async function () {
+      const { fairTicket } = await setup();
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.participate([1n, commitmentOf(1n)], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("NotAllowlisted");
+        }
+      );
+    });
+
+    it("没有设置白名单时任何地址都可以参与", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await fairTicket.write.createProject([
+        keccak256(encodePacked(["string"], ["public"])),
+        projectOwner.account.address,
+        10n,
+      ]);
+      await fairTicket.write.startProject([1n]);
+
+      await fairTicket.write.participate([1n, commitmentOf(3n), []], {
+        account: user3.account,
+      });
+      await fairTicket.write.participate([1n, commitmentOf(1n)], {
+        account: user1.account,
+      });
+      assert.equal(
+        await fairTicket.read.getProjectParticipantsAmount([1n]),
+        2n
+      );
+    });
+
+    it("签名参与时应该由中继者提交白名单proof", async function () {
+      const { fairTicket } = await setup();
+      const deadline = BigInt(await networkHelpers.time.latest()) + 3600n;
+      const domain = { chainId, verifyingContract: fairTicket.address };
+      const [entry, outsider] = await Promise.all(
+        [user1, user3].map((user) =>
+          signParticipation(user, domain, {
+            account: user.account,
+            projectId: 1n,
+            commitment: commitmentOf(1n),
+            nonce: 0n,
+            deadline,
+          })
+        )
+      );
+
+      await fairTicket.write.participateWithSig([
+        entry.projectId,
+        entry.participant,
+        entry.commitment,
+        entry.deadline,
+        entry.signature,
+        proofOf(user1.account.address),
+      ]);
+      assert.equal(
+        await fairTicket.read.getProjectParticipantsAmount([1n]),
+        1n
+      );
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.participateWithSig([
+            outsider.projectId,
+            outsider.participant,
+            outsider.commitment,
+            outsider.deadline,
+            outsider.signature,
+            proofOf(user1.account.address),
+          ]);
+        },
+        (error: Error) => {
+          return error.message.includes("NotAllowlisted");
+        }
+      );
+    });
+  });
+});
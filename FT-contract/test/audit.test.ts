@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress } from "viem";
+import {
+  auditProject,
+  fetchProjectTimeline,
+  formatTimeline,
+} from "../utils/audit.js";
+import { computeCommitment } from "../utils/commitment.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import { deployFairTicket, runToLotteryDrawn } from "./helpers.js";
+
+describe("audit 项目审计", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [, projectOwner, user1, user2] = await viem.getWalletClients();
+
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+
+  // 创建两个项目，项目1走完整个流程并由user1领取门票，项目2只有user2参与
+  async function deployLifecycle() {
+    const { fairTicket, vrfCoordinator } = await deployFairTicket(viem);
+    await fairTicket.write.createProjects([
+      [
+        keccak256(encodePacked(["string"], ["audit-1"])),
+        keccak256(encodePacked(["string"], ["audit-2"])),
+      ],
+      [projectOwner.account.address, projectOwner.account.address],
+      [1n, 1n],
+    ]);
+    await fairTicket.write.startProject([1n]);
+    await fairTicket.write.startProject([2n]);
+    for (const [i, user] of [user1, user2].entries()) {
+      await fairTicket.write.participate([1n, commitmentOf(BigInt(i))], {
+        account: user.account,
+      });
+    }
+    await fairTicket.write.participate([2n, commitmentOf(9n)], {
+      account: user2.account,
+    });
+    await fairTicket.write.finishProject([1n]);
+    for (const [i, user] of [user1, user2].entries()) {
+      await fairTicket.write.reveal([1n, BigInt(i), SALT], {
+        account: user.account,
+      });
+    }
+    await runToLotteryDrawn(networkHelpers, fairTicket, vrfCoordinator, 1n);
+    const winnerProofs = exportWinnerProofs(1n, [user1.account.address]);
+    await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+    await fairTicket.write.claimTicket(
+      [1n, winnerProofs.proofs[getAddress(user1.account.address)]],
+      { account: user1.account }
+    );
+    return fairTicket;
+  }
+
+  it("时间线应该按顺序包含项目的全部事件", async function () {
+    const fairTicket = await deployLifecycle();
+    const timeline = await fetchProjectTimeline(
+      publicClient,
+      fairTicket.address,
+      1n
+    );
+
+    assert.deepEqual(
+      timeline.map((e) => e.eventName),
+      [
+        "ProjectCreated",
+        "ProjectStarted",
+        "Participated",
+        "Participated",
+        "ProjectFinished",
+        "LuckyNumRevealed",
+        "LuckyNumRevealed",
+        "RandomnessRequested",
+        "MagicNumberPublished",
+        "MerkleRootSet",
+        "TicketClaimed",
+      ]
+    );
+    assert.ok(timeline.every((e) => e.args.projectId === 1n));
+
+    const lines = formatTimeline(timeline);
+    assert.equal(lines.length, timeline.length);
+    assert.match(
+      lines[0],
+      new RegExp(
+        `^block ${timeline[0].blockNumber} #${timeline[0].logIndex} ProjectCreated fingerprint=0x`
+      )
+    );
+    assert.match(lines[1], /ProjectStarted$/);
+  });
+
+  it("分批读取日志应该得到相同的时间线", async function () {
+    const fairTicket = await deployLifecycle();
+    const timeline = await fetchProjectTimeline(
+      publicClient,
+      fairTicket.address,
+      1n
+    );
+    for (const batchSize of [1n, 3n]) {
+      assert.deepEqual(
+        await fetchProjectTimeline(publicClient, fairTicket.address, 1n, 0n, {
+          batchSize,
+        }),
+        timeline
+      );
+    }
+    // 只读取到指定的区块
+    const toBlock = timeline[1].blockNumber;
+    assert.deepEqual(
+      await fetchProjectTimeline(publicClient, fairTicket.address, 1n, 0n, {
+        batchSize: 2n,
+        toBlock,
+      }),
+      timeline.filter((e) => e.blockNumber <= toBlock)
+    );
+  });
+
+  it("到达startTime但没有人参与的项目不应该报告状态不一致", async function () {
+    const { fairTicket, client } = await deployFairTicket(viem);
+    const startTime = BigInt(await networkHelpers.time.latest()) + 100n;
+    await client.createProject({
+      fingerprint: keccak256(encodePacked(["string"], ["audit-start"])),
+      owner: projectOwner.account.address,
+      totalSupply: 1n,
+      startTime,
+    });
+    await networkHelpers.time.increaseTo(startTime);
+    assert.equal(await client.getProjectStatus(1n), "InProgress");
+
+    const timeline = await fetchProjectTimeline(
+      publicClient,
+      fairTicket.address,
+      1n
+    );
+    assert.deepEqual(await auditProject(fairTicket, 1n, timeline), []);
+  });
+
+  it("日志与getter一致时不应该有差异", async function () {
+    const fairTicket = await deployLifecycle();
+    for (const projectId of [1n, 2n]) {
+      const timeline = await fetchProjectTimeline(
+        publicClient,
+        fairTicket.address,
+        projectId
+      );
+      assert.deepEqual(await auditProject(fairTicket, projectId, timeline), []);
+    }
+  });
+
+  it("应该比较门票档位以及参与者选择的档位", async function () {
+    const { fairTicket, client } = await deployFairTicket(viem);
+    await client.createProject({
+      fingerprint: keccak256(encodePacked(["string"], ["audit-tiers"])),
+      owner: projectOwner.account.address,
+      totalSupply: 1n,
+    });
+    for (const name of ["VIP", "General"]) {
+      await client.addTier(1n, {
+        nameHash: keccak256(encodePacked(["string"], [name])),
+        supply: 1n,
+      });
+    }
+    await client.startProject(1n);
+    await client.connect(user1).participate(1n, commitmentOf(1n), { tier: 1n });
+    await client.connect(user2).participate(1n, commitmentOf(2n));
+
+    const timeline = await fetchProjectTimeline(
+      publicClient,
+      fairTicket.address,
+      1n
+    );
+    assert.deepEqual(await auditProject(fairTicket, 1n, timeline), []);
+    assert.deepEqual(
+      (
+        await auditProject(
+          fairTicket,
+          1n,
+          timeline.filter(
+            (e) =>
+              e.eventName !== "TierSelected" &&
+              !(e.eventName === "TierAdded" && e.args.tier === 1n)
+          )
+        )
+      ).map((d) => d.field),
+      ["tiers.length", "participants[0].tier"]
+    );
+  });
+
+  it("缺少事件时应该报告不一致的字段", async function () {
+    const fairTicket = await deployLifecycle();
+    const timeline = await fetchProjectTimeline(
+      publicClient,
+      fairTicket.address,
+      1n
+    );
+    const withoutReveal = timeline.filter(
+      (e) =>
+        !(
+          e.eventName === "LuckyNumRevealed" &&
+          e.args.addr === getAddress(user2.account.address)
+        )
+    );
+    const withoutClaim = timeline.filter(
+      (e) => e.eventName !== "TicketClaimed"
+    );
+
+    assert.deepEqual(
+      (await auditProject(fairTicket, 1n, withoutReveal)).map((d) => d.field),
+      ["participants[1].luckyNum", "participants[1].revealed"]
+    );
+    assert.deepEqual(await auditProject(fairTicket, 1n, withoutClaim), [
+      { field: "claimedAmount", fromLogs: 0n, fromGetters: 1n },
+    ]);
+    assert.deepEqual(
+      (await auditProject(fairTicket, 1n, [])).map((d) => d.field),
+      ["project"]
+    );
+  });
+});
@@ -0,0 +1,515 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress, toHex } from "viem";
+import { computeCommitment } from "../utils/commitment.js";
+import {
+  hashImportRows,
+  importParticipantsInChunks,
+  parseParticipantCsv,
+  readImportProgress,
+  type ImportRow,
+} from "../utils/import.js";
+import { deployFairTicket } from "./helpers.js";
+
+// 根据序号生成确定性的测试地址
+function addressOf(i: number) {
+  return getAddress(keccak256(toHex(`imported-${i}`)).slice(0, 42));
+}
+
+describe("批量创建项目与导入参与者", async function () {
+  const { viem } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [, projectOwner, user1, user2] = await viem.getWalletClients();
+
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const fingerprintOf = (name: string) =>
+    keccak256(encodePacked(["string"], [name]));
+  const rowsOf = (count: number): ImportRow[] =>
+    Array.from({ length: count }, (_, i) => ({
+      addr: addressOf(i),
+      commitment: computeCommitment(BigInt(i), SALT),
+    }));
+
+  // 部署合约并创建一个已经开始的项目
+  async function setup() {
+    const { fairTicket } = await deployFairTicket(viem);
+    await fairTicket.write.createProject([
+      fingerprintOf("import"),
+      projectOwner.account.address,
+      10n,
+    ]);
+    await fairTicket.write.startProject([1n]);
+    return fairTicket;
+  }
+
+  async function tempProgressFile() {
+    const dir = await mkdtemp(path.join(tmpdir(), "fairticket-import-"));
+    return path.join(dir, "nested", "progress.json");
+  }
+
+  describe("createProjects", async function () {
+    it("应该按数组顺序创建多个项目", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      const fingerprints = ["a", "b", "c"].map(fingerprintOf);
+
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.createProjects([
+          fingerprints,
+          [
+            projectOwner.account.address,
+            user1.account.address,
+            user2.account.address,
+          ],
+          [10n, 20n, 30n],
+        ]),
+        fairTicket,
+        "ProjectCreated",
+        [3n, fingerprints[2]]
+      );
+
+      assert.equal(await fairTicket.read.s_globalId(), 4n);
+      for (const [i, owner] of [projectOwner, user1, user2].entries()) {
+        const project = await fairTicket.read.getProjectInfo([BigInt(i + 1)]);
+        assert.equal(project.fingerprint, fingerprints[i]);
+        assert.equal(project.owner, getAddress(owner.account.address));
+        assert.equal(project.totalSupply, BigInt((i + 1) * 10));
+      }
+    });
+
+    it("应该拒绝长度不一致的数组", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      const owner = projectOwner.account.address;
+
+      for (const args of [
+        [[fingerprintOf("a")], [owner, owner], [10n, 10n]],
+        [[fingerprintOf("a"), fingerprintOf("b")], [owner, owner], [10n]],
+      ] as const) {
+        await assert.rejects(
+          async () => {
+            await fairTicket.write.createProjects(args);
+          },
+          (error: Error) => {
+            return error.message.includes("ArrayLengthMismatch");
+          }
+        );
+      }
+      assert.equal(await fairTicket.read.s_globalId(), 1n);
+    });
+
+    it("其中一个项目不合法时应该整体revert", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.createProjects([
+            [fingerprintOf("a"), fingerprintOf("b")],
+            [projectOwner.account.address, projectOwner.account.address],
+            [10n, 0n],
+          ]);
+        },
+        (error: Error) => {
+          return error.message.includes("TotalSupplyZero");
+        }
+      );
+      assert.equal(await fairTicket.read.s_globalId(), 1n);
+    });
+
+    it("应该拒绝非平台管理员批量创建项目", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.createProjects(
+            [[fingerprintOf("a")], [projectOwner.account.address], [10n]],
+            { account: user1.account }
+          );
+        },
+        (error: Error) => {
+          return error.message.includes("AccessControlUnauthorizedAccount");
+        }
+      );
+    });
+  });
+
+  describe("importParticipants", async function () {
+    it("项目管理者应该可以批量导入参与者", async function () {
+      const fairTicket = await setup();
+      const rows = rowsOf(5);
+
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.importParticipants(
+          [1n, rows.map((r) => r.addr), rows.map((r) => r.commitment)],
+          { account: projectOwner.account }
+        ),
+        fairTicket,
+        "ParticipantsImported",
+        [1n, 5n]
+      );
+
+      assert.equal(
+        await fairTicket.read.getProjectParticipantsAmount([1n]),
+        5n
+      );
+      const participants = await fairTicket.read.getProjectParticipants([
+        1n,
+        0n,
+        5n,
+      ]);
+      assert.deepEqual(
+        participants.map((p) => [p.addr, p.commitment, p.entries, p.weight]),
+        rows.map((r) => [r.addr, r.commitment, 1n, 1n])
+      );
+    });
+
+    it("应该跳过已经参与的地址", async function () {
+      const fairTicket = await setup();
+      await fairTicket.write.participate([1n, computeCommitment(99n, SALT)], {
+        account: user1.account,
+      });
+      const rows = [
+        ...rowsOf(2),
+        {
+          addr: getAddress(user1.account.address),
+          commitment: computeCommitment(1n, SALT),
+        },
+      ];
+      await fairTicket.write.importParticipants([
+        1n,
+        rows.map((r) => r.addr),
+        rows.map((r) => r.commitment),
+      ]);
+
+      // 重复导入同一批数据不会改变已有记录
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.importParticipants([
+          1n,
+          rows.map((r) => r.addr),
+          rows.map((r) => r.commitment),
+        ]),
+        fairTicket,
+        "ParticipantsImported",
+        [1n, 0n]
+      );
+
+      assert.equal(
+        await fairTicket.read.getProjectParticipantsAmount([1n]),
+        3n
+      );
+      const participant = await fairTicket.read.getParticipantInfo([
+        1n,
+        user1.account.address,
+      ]);
+      assert.equal(participant.commitment, computeCommitment(99n, SALT));
+    });
+
+    it("应该拒绝长度不一致的数组", async function () {
+      const fairTicket = await setup();
+      const rows = rowsOf(3);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.importParticipants([
+            1n,
+            rows.map((r) => r.addr),
+            rows.slice(1).map((r) => r.commitment),
+          ]);
+        },
+        (error: Error) => {
+          return error.message.includes("ArrayLengthMismatch");
+        }
+      );
+    });
+
+    it("应该拒绝超过MAX_IMPORT_BATCH的批次", async function () {
+      const fairTicket = await setup();
+      const max = await fairTicket.read.MAX_IMPORT_BATCH();
+      const rows = rowsOf(Number(max) + 1);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.importParticipants([
+            1n,
+            rows.map((r) => r.addr),
+            rows.map((r) => r.commitment),
+          ]);
+        },
+        (error: Error) => {
+          return error.message.includes("ImportBatchTooLarge");
+        }
+      );
+    });
+
+    it("应该拒绝零地址", async function () {
+      const fairTicket = await setup();
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.importParticipants([
+            1n,
+            ["0x0000000000000000000000000000000000000000"],
+            [computeCommitment(1n, SALT)],
+          ]);
+        },
+        (error: Error) => {
+          return error.message.includes("ParticipantZero");
+        }
+      );
+    });
+
+    it("应该拒绝非项目管理者导入参与者", async function () {
+      const fairTicket = await setup();
+      const rows = rowsOf(1);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.importParticipants(
+            [1n, rows.map((r) => r.addr), rows.map((r) => r.commitment)],
+            { account: user1.account }
+          );
+        },
+        (error: Error) => {
+          return error.message.includes("OnlyProjectManager");
+        }
+      );
+    });
+
+    it("应该拒绝向未开始的项目导入参与者", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await fairTicket.write.createProject([
+        fingerprintOf("import"),
+        projectOwner.account.address,
+        10n,
+      ]);
+      const rows = rowsOf(1);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.importParticipants([
+            1n,
+            rows.map((r) => r.addr),
+            rows.map((r) => r.commitment),
+          ]);
+        },
+        (error: Error) => {
+          return error.message.includes("ProjectNotInProgress");
+        }
+      );
+    });
+
+    it("导入的参与者应该可以公布幸运数字", async function () {
+      const fairTicket = await setup();
+      await fairTicket.write.importParticipants([
+        1n,
+        [user1.account.address],
+        [computeCommitment(7n, SALT)],
+      ]);
+      await fairTicket.write.finishProject([1n]);
+
+      await fairTicket.write.reveal([1n, 7n, SALT], { account: user1.account });
+      const participant = await fairTicket.read.getParticipantInfo([
+        1n,
+        user1.account.address,
+      ]);
+      assert.equal(participant.luckyNum, 7n);
+      assert.equal(participant.revealed, true);
+    });
+  });
+
+  describe("parseParticipantCsv", async function () {
+    it("应该跳过表头、空行和注释", async function () {
+      const rows = rowsOf(2);
+      const csv = [
+        "address,commitment",
+        "",
+        `${rows[0].addr.toLowerCase()},${rows[0].commitment}`,
+        "# comment",
+        ` ${rows[1].addr} , ${rows[1].commitment} `,
+      ].join("\n");
+
+      assert.deepEqual(parseParticipantCsv(csv), rows);
+    });
+
+    it("应该拒绝非法地址、非法承诺和重复地址", async function () {
+      const [row] = rowsOf(1);
+      assert.throws(
+        () => parseParticipantCsv(`${row.addr},${row.commitment}\n0x12,0x34`),
+        /Invalid address on line 2/
+      );
+      assert.throws(
+        () => parseParticipantCsv(`${row.addr},0x1234`),
+        /Invalid commitment on line 1/
+      );
+      assert.throws(
+        () =>
+          parseParticipantCsv(
+            `${row.addr},${row.commitment}\n${row.addr},${row.commitment}`
+          ),
+        /Duplicate participant address on line 2/
+      );
+      assert.throws(
+        () => parseParticipantCsv(`${row.addr},${row.commitment},vip`),
+        /Invalid tier on line 1: vip/
+      );
+    });
+
+    it("应该读取可选的档位列", async function () {
+      const rows = rowsOf(2);
+      const csv = [
+        "address,commitment,tier",
+        `${rows[0].addr},${rows[0].commitment},2`,
+        `${rows[1].addr},${rows[1].commitment}`,
+      ].join("\n");
+
+      assert.deepEqual(parseParticipantCsv(csv), [
+        { ...rows[0], tier: 2n },
+        rows[1],
+      ]);
+    });
+  });
+
+  describe("importParticipantsInChunks", async function () {
+    it("应该分批导入全部参与者并记录进度", async function () {
+      const fairTicket = await setup();
+      const rows = rowsOf(25);
+      const progressFile = await tempProgressFile();
+
+      const progress = await importParticipantsInChunks(
+        fairTicket,
+        publicClient,
+        { projectId: 1n, rows, progressFile, chunkSize: 10 }
+      );
+
+      assert.equal(progress.imported, 25);
+      assert.equal(progress.transactions.length, 3);
+      assert.deepEqual(await readImportProgress(progressFile), progress);
+      assert.equal(
+        await fairTicket.read.getProjectParticipantsAmount([1n]),
+        25n
+      );
+    });
+
+    it("中断后应该从进度文件记录的位置继续", async function () {
+      const fairTicket = await setup();
+      const rows = rowsOf(25);
+      const progressFile = await tempProgressFile();
+
+      // 第二批提交时模拟网络错误
+      let calls = 0;
+      const flaky: typeof fairTicket = {
+        ...fairTicket,
+        write: {
+          ...fairTicket.write,
+          importParticipants: (async (
+            ...args: Parameters<typeof fairTicket.write.importParticipants>
+          ) => {
+            calls += 1;
+            if (calls === 2) throw new Error("network down");
+            return fairTicket.write.importParticipants(...args);
+          }) as typeof fairTicket.write.importParticipants,
+        },
+      };
+      await assert.rejects(
+        importParticipantsInChunks(flaky, publicClient, {
+          projectId: 1n,
+          rows,
+          progressFile,
+          chunkSize: 10,
+        }),
+        /network down/
+      );
+
+      const partial = await readImportProgress(progressFile);
+      assert.equal(partial?.imported, 10);
+      assert.equal(
+        await fairTicket.read.getProjectParticipantsAmount([1n]),
+        10n
+      );
+
+      const progress = await importParticipantsInChunks(
+        fairTicket,
+        publicClient,
+        { projectId: 1n, rows, progressFile, chunkSize: 10 }
+      );
+      assert.equal(progress.imported, 25);
+      assert.equal(progress.transactions.length, 3);
+      const participants = await fairTicket.read.getProjectParticipants([
+        1n,
+        0n,
+        100n,
+      ]);
+      assert.deepEqual(
+        participants.map((p) => p.addr),
+        rows.map((r) => r.addr)
+      );
+    });
+
+    it("应该拒绝属于其他导入任务的进度文件", async function () {
+      const fairTicket = await setup();
+      const progressFile = await tempProgressFile();
+      await importParticipantsInChunks(fairTicket, publicClient, {
+        projectId: 1n,
+        rows: rowsOf(3),
+        progressFile,
+      });
+
+      await assert.rejects(
+        importParticipantsInChunks(fairTicket, publicClient, {
+          projectId: 1n,
+          rows: rowsOf(4),
+          progressFile,
+        }),
+        /belongs to a different import/
+      );
+    });
+
+    it("名单内容改变后应该拒绝原来的进度文件", async function () {
+      const fairTicket = await setup();
+      const rows = rowsOf(3);
+      const progressFile = await tempProgressFile();
+      const progress = await importParticipantsInChunks(
+        fairTicket,
+        publicClient,
+        { projectId: 1n, rows, progressFile }
+      );
+      assert.equal(progress.rowsHash, hashImportRows(rows));
+
+      // 行数相同但顺序、承诺或档位不同都视为不同的导入任务
+      for (const changed of [
+        [rows[1], rows[0], rows[2]],
+        [rows[0], rows[1], { ...rows[2], commitment: rowsOf(4)[3].commitment }],
+        [rows[0], rows[1], { ...rows[2], tier: 1n }],
+      ]) {
+        assert.notEqual(hashImportRows(changed), progress.rowsHash);
+        await assert.rejects(
+          importParticipantsInChunks(fairTicket, publicClient, {
+            projectId: 1n,
+            rows: changed,
+            progressFile,
+          }),
+          /belongs to a different import/
+        );
+      }
+    });
+
+    it("应该拒绝超出范围的批次大小", async function () {
+      const fairTicket = await setup();
+      const progressFile = await tempProgressFile();
+
+      for (const chunkSize of [0, 201, 1.5]) {
+        await assert.rejects(
+          importParticipantsInChunks(fairTicket, publicClient, {
+            projectId: 1n,
+            rows: rowsOf(1),
+            progressFile,
+            chunkSize,
+          }),
+          /Chunk size must be an integer/
+        );
+      }
+    });
+  });
+});
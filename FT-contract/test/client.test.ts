@@ -0,0 +1,316 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress } from "viem";
+import { FairTicketClient } from "../utils/client.js";
+import { computeCommitment } from "../utils/commitment.js";
+import {
+  FairTicketError,
+  isFairTicketError,
+  toFairTicketError,
+} from "../utils/errors.js";
+import { deployFairTicket, endRevealWindow } from "./helpers.js";
+
+describe("FairTicketClient", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [owner, projectOwner, ...users] = await viem.getWalletClients();
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+  const fingerprintOf = (name: string) =>
+    keccak256(encodePacked(["string"], [name]));
+
+  // 创建一个进行中的项目
+  async function setup() {
+    const deployed = await deployFairTicket(viem);
+    const projectId = await deployed.client.createProject({
+      fingerprint: fingerprintOf("client"),
+      owner: projectOwner.account.address,
+      totalSupply: 2n,
+    });
+    await deployed.client.startProject(projectId);
+    return { ...deployed, projectId };
+  }
+
+  it("应该可以包装已部署的合约实例", async function () {
+    const { fairTicket } = await deployFairTicket(viem);
+    const client = new FairTicketClient({
+      contract: await viem.getContractAt("FairTicket", fairTicket.address),
+      publicClient,
+    });
+    assert.equal(client.address, fairTicket.address);
+    assert.equal(client.account, undefined);
+    assert.equal(await client.getProject(1n), undefined);
+  });
+
+  it("创建项目应该返回项目id 批量创建的id与传入顺序一致", async function () {
+    const { client } = await deployFairTicket(viem, 10n);
+    const now = BigInt(await networkHelpers.time.latest());
+
+    assert.equal(
+      await client.createProject({
+        fingerprint: fingerprintOf("a"),
+        owner: projectOwner.account.address,
+        totalSupply: 1n,
+        endTime: now + 100n,
+      }),
+      10n
+    );
+    assert.deepEqual(
+      await client.createProjects(
+        ["b", "c"].map((name) => ({
+          fingerprint: fingerprintOf(name),
+          owner: projectOwner.account.address,
+          totalSupply: 1n,
+        }))
+      ),
+      [11n, 12n]
+    );
+
+    const project = await client.getProject(10n);
+    assert.deepEqual(project, {
+      id: 10n,
+      fingerprint: fingerprintOf("a"),
+      owner: getAddress(projectOwner.account.address),
+      totalSupply: 1n,
+      status: "NotStart",
+      merkleRoot: null,
+      revealDeadline: 0n,
+      startTime: 0n,
+      endTime: now + 100n,
+      tierCount: 0n,
+    });
+  });
+
+  it("项目状态应该映射为名称", async function () {
+    const { client, vrfCoordinator, projectId } = await setup();
+    assert.equal(await client.getProjectStatus(projectId), "InProgress");
+    await client.finishProject(projectId);
+    assert.equal(await client.getProjectStatus(projectId), "Finished");
+    await endRevealWindow(networkHelpers, client.contract, projectId);
+
+    const requestId = await client.lottery(projectId);
+    assert.equal(await client.getPendingRequestId(projectId), requestId);
+    assert.equal(await client.getMagicNumber(projectId), null);
+    await vrfCoordinator.write.fulfillRandomWordsWithOverride([
+      requestId,
+      [42n],
+    ]);
+    assert.equal(await client.getProjectStatus(projectId), "LotteryDrawn");
+    assert.equal(await client.getPendingRequestId(projectId), null);
+    assert.equal(await client.getMagicNumber(projectId), 42n);
+  });
+
+  it("connect后应该使用指定的账户发送交易", async function () {
+    const { client, projectId } = await setup();
+    await client.connect(users[0]).participate(projectId, commitmentOf(1n));
+    await client
+      .connect(users[1].account)
+      .participate(projectId, commitmentOf(2n));
+
+    assert.equal(
+      await client.getParticipant(projectId, owner.account.address),
+      undefined
+    );
+    const participant = await client.getParticipant(
+      projectId,
+      users[0].account.address
+    );
+    assert.equal(participant?.commitment, commitmentOf(1n));
+    assert.equal(participant?.entries, 1n);
+  });
+
+  it("应该自动分页读取全部参与者", async function () {
+    const { client, projectId } = await setup();
+    const entrants = users.slice(0, 5);
+    for (const [i, user] of entrants.entries()) {
+      await client
+        .connect(user)
+        .participate(projectId, commitmentOf(BigInt(i)));
+    }
+
+    const expected = entrants.map((user) => getAddress(user.account.address));
+    for (const pageSize of [1n, 2n, 5n, 100n]) {
+      const participants = await client.getParticipants(projectId, pageSize);
+      assert.deepEqual(
+        participants.map((p) => p.addr),
+        expected
+      );
+    }
+
+    const pages: number[] = [];
+    for await (const page of client.iterateParticipants(projectId, 2n)) {
+      pages.push(page.length);
+    }
+    assert.deepEqual(pages, [2, 2, 1]);
+    assert.deepEqual(await client.getParticipants(2n), []);
+    await assert.rejects(
+      async () => {
+        await client.getParticipants(projectId, 0n);
+      },
+      (error: Error) => {
+        return error.message.includes("Page size must be greater than zero");
+      }
+    );
+  });
+
+  describe("自定义错误", async function () {
+    it("写函数的revert应该抛出带类型的FairTicketError", async function () {
+      const { client, projectId } = await setup();
+      await assert.rejects(
+        async () => {
+          await client.startProject(projectId);
+        },
+        (error: unknown) => {
+          return (
+            error instanceof FairTicketError &&
+            isFairTicketError(error, "ProjectAlreadyStarted") &&
+            error.message ===
+              "ProjectAlreadyStarted: project has already started"
+          );
+        }
+      );
+      await assert.rejects(
+        async () => {
+          await client.connect(users[0]).finishProject(projectId);
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "OnlyProjectManager") &&
+            error.args[0] === projectId &&
+            error.args[1] === getAddress(users[0].account.address)
+          );
+        }
+      );
+    });
+
+    it("继承的openzeppelin错误同样应该被解码", async function () {
+      const { client } = await setup();
+      await assert.rejects(
+        async () => {
+          await client.connect(users[0]).setRevealDuration(60n);
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "AccessControlUnauthorizedAccount");
+        }
+      );
+    });
+
+    it("非合约revert的错误应该原样抛出", async function () {
+      assert.equal(toFairTicketError(new Error("network down")), undefined);
+      assert.equal(isFairTicketError(new Error("x"), "ProjectNotFound"), false);
+    });
+  });
+
+  describe("事件", async function () {
+    it("应该从交易回执中解码事件", async function () {
+      const { client, projectId } = await setup();
+      const receipt = await client
+        .connect(users[0])
+        .participate(projectId, commitmentOf(1n));
+      const [participated] = client.eventsIn(receipt, "Participated");
+      assert.deepEqual(participated.args, {
+        projectId,
+        addr: getAddress(users[0].account.address),
+        commitment: commitmentOf(1n),
+        entries: 1n,
+      });
+      assert.deepEqual(client.eventsIn(receipt, "ProjectStarted"), []);
+    });
+
+    it("应该按项目读取历史事件", async function () {
+      const { client, projectId } = await setup();
+      const other = await client.createProject({
+        fingerprint: fingerprintOf("other"),
+        owner: projectOwner.account.address,
+        totalSupply: 1n,
+      });
+      await client.startProject(other);
+
+      assert.deepEqual(
+        (await client.getEvents("ProjectStarted")).map((e) => e.args.projectId),
+        [projectId, other]
+      );
+      assert.deepEqual(
+        (await client.getEvents("ProjectStarted", { projectId: other })).map(
+          (e) => e.args.projectId
+        ),
+        [other]
+      );
+
+      // 分批读取应该得到相同的结果 toBlock 之后的事件不会返回
+      const started = await client.getEvents("ProjectStarted");
+      assert.deepEqual(
+        await client.getEvents("ProjectStarted", { batchSize: 1n }),
+        started
+      );
+      assert.deepEqual(
+        await client.getEvents("ProjectStarted", {
+          toBlock: started[0].blockNumber,
+          batchSize: 2n,
+        }),
+        [started[0]]
+      );
+      await assert.rejects(async () => {
+        await client.getEvents("ProjectStarted", { batchSize: 0n });
+      }, /Batch size must be greater than zero/);
+    });
+
+    it("等待事件超时或中止时应该取消订阅并reject", async function () {
+      const { client, projectId } = await setup();
+      await assert.rejects(async () => {
+        await client.waitForEvent("MagicNumberPublished", {
+          projectId,
+          pollingInterval: 10,
+          timeout: 50,
+        });
+      }, /Timed out after 50ms waiting for MagicNumberPublished/);
+
+      const controller = new AbortController();
+      const waiting = client.waitForEvent("MagicNumberPublished", {
+        projectId,
+        pollingInterval: 10,
+        signal: controller.signal,
+      });
+      controller.abort(new Error("stopped"));
+      await assert.rejects(waiting, /stopped/);
+      await assert.rejects(
+        client.waitForEvent("MagicNumberPublished", {
+          signal: controller.signal,
+        }),
+        /stopped/
+      );
+    });
+
+    it("应该订阅新的事件", async function () {
+      const { client, vrfCoordinator, projectId } = await setup();
+      await client.finishProject(projectId);
+      await endRevealWindow(networkHelpers, client.contract, projectId);
+
+      const received: bigint[] = [];
+      const unwatch = client.watchEvents(
+        "MagicNumberPublished",
+        (events) => received.push(...events.map((e) => e.args.magicNumber)),
+        { projectId, pollingInterval: 10 }
+      );
+      const published = client.waitForEvent("MagicNumberPublished", {
+        projectId,
+        pollingInterval: 10,
+      });
+      const requestId = await client.lottery(projectId);
+      await vrfCoordinator.write.fulfillRandomWordsWithOverride([
+        requestId,
+        [7n],
+      ]);
+
+      const event = await published;
+      assert.equal(event.args.projectId, projectId);
+      assert.equal(event.args.magicNumber, 7n);
+      while (received.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      unwatch();
+      assert.deepEqual(received, [7n]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress } from "viem";
+import {
+  computeCommitment,
+  createCommitment,
+  loadCommitment,
+  saveCommitment,
+} from "../utils/commitment.js";
+import { deployFairTicket } from "./helpers.js";
+
+describe("commitment 幸运数字承诺", async function () {
+  const { viem } = await network.connect();
+  const [, projectOwner, user1, user2] = await viem.getWalletClients();
+
+  async function tempFile() {
+    const dir = await mkdtemp(path.join(tmpdir(), "fairticket-commitment-"));
+    return path.join(dir, "commitments.json");
+  }
+
+  it("承诺应该等于keccak256(luckyNum‖salt)", async function () {
+    const { luckyNum, salt, commitment } = createCommitment(42n);
+    assert.equal(luckyNum, 42n);
+    assert.equal(
+      commitment,
+      keccak256(encodePacked(["uint256", "bytes32"], [luckyNum, salt]))
+    );
+    assert.equal(computeCommitment(luckyNum, salt), commitment);
+  });
+
+  it("每次生成的salt和随机幸运数字都应该不同", async function () {
+    const a = createCommitment();
+    const b = createCommitment();
+    assert.notEqual(a.salt, b.salt);
+    assert.notEqual(a.luckyNum, b.luckyNum);
+    assert.notEqual(a.commitment, b.commitment);
+  });
+
+  it("生成的承诺应该能在链上公布", async function () {
+    const { fairTicket } = await deployFairTicket(viem);
+    const fingerprint = keccak256(encodePacked(["string"], ["test"]));
+    await fairTicket.write.createProject([
+      fingerprint,
+      projectOwner.account.address,
+      100n,
+    ]);
+    await fairTicket.write.startProject([1n]);
+    const { luckyNum, salt, commitment } = createCommitment();
+    await fairTicket.write.participate([1n, commitment], {
+      account: user1.account,
+    });
+    await fairTicket.write.finishProject([1n]);
+
+    await fairTicket.write.reveal([1n, luckyNum, salt], {
+      account: user1.account,
+    });
+    const participant = await fairTicket.read.getParticipantInfo([
+      1n,
+      user1.account.address,
+    ]);
+    assert.equal(participant.luckyNum, luckyNum);
+    assert.equal(participant.revealed, true);
+  });
+
+  it("保存后应该能按项目和地址读回", async function () {
+    const file = await tempFile();
+    const first = createCommitment();
+    const second = createCommitment();
+    await saveCommitment(file, {
+      projectId: 1n,
+      addr: user1.account.address,
+      ...first,
+    });
+    await saveCommitment(file, {
+      projectId: 2n,
+      addr: user1.account.address,
+      ...second,
+    });
+
+    assert.deepEqual(await loadCommitment(file, 1n, user1.account.address), {
+      projectId: 1n,
+      addr: getAddress(user1.account.address),
+      ...first,
+    });
+    assert.equal(
+      (await loadCommitment(file, 2n, user1.account.address))?.commitment,
+      second.commitment
+    );
+    assert.equal(
+      await loadCommitment(file, 1n, user2.account.address),
+      undefined
+    );
+  });
+
+  it("同一项目同一地址应该覆盖旧记录", async function () {
+    const file = await tempFile();
+    const replaced = createCommitment();
+    await saveCommitment(file, {
+      projectId: 1n,
+      addr: user1.account.address,
+      ...createCommitment(),
+    });
+    await saveCommitment(file, {
+      projectId: 1n,
+      addr: user1.account.address,
+      ...replaced,
+    });
+
+    const record = await loadCommitment(file, 1n, user1.account.address);
+    assert.equal(record?.commitment, replaced.commitment);
+  });
+
+  it("文件不存在时应该返回undefined", async function () {
+    assert.equal(
+      await loadCommitment(await tempFile(), 1n, user1.account.address),
+      undefined
+    );
+  });
+
+  it("应该拒绝保存不一致的承诺", async function () {
+    const file = await tempFile();
+    const { salt, commitment } = createCommitment(1n);
+
+    await assert.rejects(
+      saveCommitment(file, {
+        projectId: 1n,
+        addr: user1.account.address,
+        luckyNum: 2n,
+        salt,
+        commitment,
+      }),
+      /Commitment does not match/
+    );
+  });
+});
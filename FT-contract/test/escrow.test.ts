@@ -0,0 +1,489 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress, parseEther } from "viem";
+import { computeCommitment } from "../utils/commitment.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import { signParticipation } from "../utils/signature.js";
+import { deployFairTicket, runToLotteryDrawn } from "./helpers.js";
+
+describe("参与押金托管", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [owner, projectOwner, user1, user2, user3] =
+    await viem.getWalletClients();
+
+  const ETH = "0x0000000000000000000000000000000000000000";
+  const PRICE = parseEther("0.1");
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+
+  // 部署合约和Mock代币，创建一个设置了参与费用的项目并开始
+  async function setup(paymentToken: "ETH" | "ERC20") {
+    const deployed = await deployFairTicket(viem);
+    const { fairTicket } = deployed;
+    const token = await viem.deployContract("ERC20Mock");
+    await fairTicket.write.createProject([
+      keccak256(encodePacked(["string"], ["escrow"])),
+      projectOwner.account.address,
+      10n,
+    ]);
+    await fairTicket.write.setEntryFee(
+      [1n, paymentToken === "ETH" ? ETH : token.address, PRICE],
+      { account: projectOwner.account }
+    );
+    await fairTicket.write.startProject([1n]);
+    for (const user of [user1, user2, user3]) {
+      await token.write.mint([user.account.address, PRICE * 10n]);
+      await token.write.approve([fairTicket.address, PRICE * 10n], {
+        account: user.account,
+      });
+    }
+    return { ...deployed, token };
+  }
+
+  type Deployed = Awaited<ReturnType<typeof setup>>;
+
+  // user1 user2 参与后完成抽奖，并发布只有user1中奖的MerkleRoot
+  async function publishWinners(deployed: Deployed, value: bigint) {
+    const { fairTicket, vrfCoordinator } = deployed;
+    for (const [i, user] of [user1, user2].entries()) {
+      await fairTicket.write.participate([1n, commitmentOf(BigInt(i))], {
+        account: user.account,
+        value,
+      });
+    }
+    await runToLotteryDrawn(networkHelpers, fairTicket, vrfCoordinator, 1n);
+    const winnerProofs = exportWinnerProofs(1n, [user1.account.address]);
+    await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+    return winnerProofs.proofs[getAddress(user1.account.address)];
+  }
+
+  describe("setEntryFee", async function () {
+    it("项目管理者应该可以在项目开始前设置参与费用", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      const token = await viem.deployContract("ERC20Mock");
+      await fairTicket.write.createProject([
+        keccak256(encodePacked(["string"], ["escrow"])),
+        projectOwner.account.address,
+        10n,
+      ]);
+
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setEntryFee([1n, token.address, PRICE], {
+          account: projectOwner.account,
+        }),
+        fairTicket,
+        "EntryFeeSet",
+        [1n, getAddress(token.address), PRICE]
+      );
+
+      const fee = await fairTicket.read.getEntryFee([1n]);
+      assert.equal(fee.token, getAddress(token.address));
+      assert.equal(fee.price, PRICE);
+    });
+
+    it("应该拒绝在项目开始后修改参与费用", async function () {
+      const { fairTicket } = await setup("ETH");
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.setEntryFee([1n, ETH, 0n], {
+            account: projectOwner.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("ProjectAlreadyStarted");
+        }
+      );
+    });
+
+    it("应该拒绝非项目管理者设置参与费用", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await fairTicket.write.createProject([
+        keccak256(encodePacked(["string"], ["escrow"])),
+        projectOwner.account.address,
+        10n,
+      ]);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.setEntryFee([1n, ETH, PRICE], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("OnlyProjectManager");
+        }
+      );
+    });
+  });
+
+  describe("ETH押金", async function () {
+    it("参与时应该托管押金", async function () {
+      const { fairTicket } = await setup("ETH");
+
+      await fairTicket.write.participate([1n, commitmentOf(1n)], {
+        account: user1.account,
+        value: PRICE,
+      });
+
+      assert.equal(
+        await fairTicket.read.getDeposit([1n, user1.account.address]),
+        PRICE
+      );
+      assert.equal(
+        await publicClient.getBalance({ address: fairTicket.address }),
+        PRICE
+      );
+    });
+
+    it("应该拒绝金额不正确的押金", async function () {
+      const { fairTicket } = await setup("ETH");
+
+      for (const value of [0n, PRICE - 1n, PRICE + 1n]) {
+        await assert.rejects(
+          async () => {
+            await fairTicket.write.participate([1n, commitmentOf(1n)], {
+              account: user1.account,
+              value,
+            });
+          },
+          (error: Error) => {
+            return error.message.includes("IncorrectPayment");
+          }
+        );
+      }
+    });
+
+    it("免费项目应该拒绝附带ETH", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await fairTicket.write.createProject([
+        keccak256(encodePacked(["string"], ["free"])),
+        projectOwner.account.address,
+        10n,
+      ]);
+      await fairTicket.write.startProject([1n]);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.participate([1n, commitmentOf(1n)], {
+            account: user1.account,
+            value: 1n,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("IncorrectPayment");
+        }
+      );
+    });
+
+    it("中奖者领取门票后押金应该归项目owner", async function () {
+      const deployed = await setup("ETH");
+      const { fairTicket } = deployed;
+      const proof = await publishWinners(deployed, PRICE);
+
+      await fairTicket.write.claimTicket([1n, proof], {
+        account: user1.account,
+      });
+      assert.equal(
+        await fairTicket.read.getDeposit([1n, user1.account.address]),
+        0n
+      );
+      assert.equal(
+        await fairTicket.read.getBalance([projectOwner.account.address, ETH]),
+        PRICE
+      );
+
+      const before = await publicClient.getBalance({
+        address: projectOwner.account.address,
+      });
+      const hash = await fairTicket.write.withdraw([ETH], {
+        account: projectOwner.account,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const after = await publicClient.getBalance({
+        address: projectOwner.account.address,
+      });
+      assert.equal(
+        after - before,
+        PRICE - receipt.gasUsed * receipt.effectiveGasPrice
+      );
+      assert.equal(
+        await fairTicket.read.getBalance([projectOwner.account.address, ETH]),
+        0n
+      );
+    });
+
+    it("未中奖者应该可以在中奖名单公布后取回押金", async function () {
+      const deployed = await setup("ETH");
+      const { fairTicket } = deployed;
+      await publishWinners(deployed, PRICE);
+
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.refund([1n], { account: user2.account }),
+        fairTicket,
+        "DepositRefunded",
+        [1n, getAddress(user2.account.address), PRICE]
+      );
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.withdraw([ETH], { account: user2.account }),
+        fairTicket,
+        "Withdrawn",
+        [getAddress(user2.account.address), ETH, PRICE]
+      );
+      // 只剩下中奖者的押金
+      assert.equal(
+        await publicClient.getBalance({ address: fairTicket.address }),
+        PRICE
+      );
+    });
+
+    it("应该拒绝在中奖名单公布前取回押金", async function () {
+      const { fairTicket, vrfCoordinator } = await setup("ETH");
+      await fairTicket.write.participate([1n, commitmentOf(1n)], {
+        account: user1.account,
+        value: PRICE,
+      });
+      await runToLotteryDrawn(networkHelpers, fairTicket, vrfCoordinator, 1n);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.refund([1n], { account: user1.account });
+        },
+        (error: Error) => {
+          return error.message.includes("MerkleRootNotSet");
+        }
+      );
+    });
+
+    it("应该拒绝重复取回押金", async function () {
+      const deployed = await setup("ETH");
+      const { fairTicket } = deployed;
+      await publishWinners(deployed, PRICE);
+      await fairTicket.write.refund([1n], { account: user2.account });
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.refund([1n], { account: user2.account });
+        },
+        (error: Error) => {
+          return error.message.includes("NothingToRefund");
+        }
+      );
+      // 没有参与的地址同样没有押金可以取回
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.refund([1n], { account: user3.account });
+        },
+        (error: Error) => {
+          return error.message.includes("NothingToRefund");
+        }
+      );
+    });
+
+    it("领取门票后不能再取回押金", async function () {
+      const deployed = await setup("ETH");
+      const { fairTicket } = deployed;
+      const proof = await publishWinners(deployed, PRICE);
+      await fairTicket.write.claimTicket([1n, proof], {
+        account: user1.account,
+      });
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.refund([1n], { account: user1.account });
+        },
+        (error: Error) => {
+          return error.message.includes("AlreadyClaimed");
+        }
+      );
+    });
+
+    it("中奖者取回押金后不能再领取门票", async function () {
+      const deployed = await setup("ETH");
+      const { fairTicket } = deployed;
+      const proof = await publishWinners(deployed, PRICE);
+      await fairTicket.write.refund([1n], { account: user1.account });
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.claimTicket([1n, proof], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("AlreadyRefunded");
+        }
+      );
+    });
+
+    it("没有余额时应该拒绝提取", async function () {
+      const { fairTicket } = await setup("ETH");
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.withdraw([ETH], { account: user1.account });
+        },
+        (error: Error) => {
+          return error.message.includes("NothingToWithdraw");
+        }
+      );
+    });
+
+    it("应该阻止提取时的重入", async function () {
+      const deployed = await setup("ETH");
+      const { fairTicket, vrfCoordinator } = deployed;
+      const attacker = await viem.deployContract("ReentrantRefundReceiver", [
+        fairTicket.address,
+      ]);
+      // 攻击合约和user1各托管一份押金
+      await attacker.write.participate([1n, commitmentOf(1n)], {
+        value: PRICE,
+      });
+      await fairTicket.write.participate([1n, commitmentOf(2n)], {
+        account: user1.account,
+        value: PRICE,
+      });
+      await runToLotteryDrawn(networkHelpers, fairTicket, vrfCoordinator, 1n);
+      const winnerProofs = exportWinnerProofs(1n, [user1.account.address]);
+      await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+      await attacker.write.refund([1n]);
+
+      await assert.rejects(
+        async () => {
+          await attacker.write.withdraw();
+        },
+        (error: Error) => {
+          return error.message.includes("EthTransferFailed");
+        }
+      );
+      assert.equal(
+        await fairTicket.read.getBalance([attacker.address, ETH]),
+        PRICE
+      );
+      assert.equal(
+        await publicClient.getBalance({ address: fairTicket.address }),
+        PRICE * 2n
+      );
+    });
+  });
+
+  describe("ERC-20押金", async function () {
+    it("参与时应该从参与者转入代币", async function () {
+      const { fairTicket, token } = await setup("ERC20");
+
+      await fairTicket.write.participate([1n, commitmentOf(1n)], {
+        account: user1.account,
+      });
+
+      assert.equal(await token.read.balanceOf([fairTicket.address]), PRICE);
+      assert.equal(
+        await token.read.balanceOf([user1.account.address]),
+        PRICE * 9n
+      );
+      assert.equal(
+        await fairTicket.read.getDeposit([1n, user1.account.address]),
+        PRICE
+      );
+    });
+
+    it("应该拒绝附带ETH", async function () {
+      const { fairTicket } = await setup("ERC20");
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.participate([1n, commitmentOf(1n)], {
+            account: user1.account,
+            value: PRICE,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("IncorrectPayment");
+        }
+      );
+    });
+
+    it("没有approve时应该拒绝参与", async function () {
+      const { fairTicket, token } = await setup("ERC20");
+      await token.write.approve([fairTicket.address, 0n], {
+        account: user1.account,
+      });
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.participate([1n, commitmentOf(1n)], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("ERC20InsufficientAllowance");
+        }
+      );
+    });
+
+    it("押金应该分别归项目owner和未中奖者", async function () {
+      const deployed = await setup("ERC20");
+      const { fairTicket, token } = deployed;
+      const proof = await publishWinners(deployed, 0n);
+
+      await fairTicket.write.claimTicket([1n, proof], {
+        account: user1.account,
+      });
+      await fairTicket.write.refund([1n], { account: user2.account });
+      await fairTicket.write.withdraw([token.address], {
+        account: projectOwner.account,
+      });
+      await fairTicket.write.withdraw([token.address], {
+        account: user2.account,
+      });
+
+      assert.equal(
+        await token.read.balanceOf([projectOwner.account.address]),
+        PRICE
+      );
+      assert.equal(
+        await token.read.balanceOf([user2.account.address]),
+        PRICE * 10n
+      );
+      assert.equal(await token.read.balanceOf([fairTicket.address]), 0n);
+    });
+
+    it("签名参与时应该从参与者转入代币", async function () {
+      const { fairTicket, token } = await setup("ERC20");
+      const entry = await signParticipation(
+        user1,
+        {
+          chainId: await publicClient.getChainId(),
+          verifyingContract: fairTicket.address,
+        },
+        {
+          account: user1.account,
+          projectId: 1n,
+          commitment: commitmentOf(1n),
+          nonce: 0n,
+          deadline: BigInt(await networkHelpers.time.latest()) + 3600n,
+        }
+      );
+
+      // 由owner作为中继者提交
+      await fairTicket.write.participateWithSig([
+        entry.projectId,
+        entry.participant,
+        entry.commitment,
+        entry.deadline,
+        entry.signature,
+      ]);
+
+      assert.equal(
+        await token.read.balanceOf([user1.account.address]),
+        PRICE * 9n
+      );
+      assert.equal(await token.read.balanceOf([owner.account.address]), 0n);
+      assert.equal(
+        await fairTicket.read.getDeposit([1n, user1.account.address]),
+        PRICE
+      );
+    });
+  });
+});
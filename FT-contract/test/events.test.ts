@@ -0,0 +1,530 @@
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress, parseEther } from "viem";
+import type { Hex } from "viem";
+import { exportAllowlistProofs } from "../utils/allowlist.js";
+import { computeCommitment } from "../utils/commitment.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import { signParticipation } from "../utils/signature.js";
+import { exportWeightProofs } from "../utils/weights.js";
+import {
+  deployFairTicket,
+  drawLottery,
+  endRevealWindow,
+  runToLotteryDrawn,
+  VRF_KEY_HASH,
+} from "./helpers.js";
+
+/**
+ * 每个写函数触发的事件及其参数
+ */
+describe("事件", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const [owner, projectOwner, user1, user2, user3] =
+    await viem.getWalletClients();
+
+  const ETH = "0x0000000000000000000000000000000000000000";
+  const PRICE = parseEther("0.1");
+  const FINGERPRINT = keccak256(encodePacked(["string"], ["events"]));
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+  const user1Address = getAddress(user1.account.address);
+  const winnerProofs = exportWinnerProofs(1n, [user1.account.address]);
+
+  // 部署合约并创建一个未开始的项目
+  async function setup() {
+    const deployed = await deployFairTicket(viem);
+    await deployed.fairTicket.write.createProject([
+      FINGERPRINT,
+      projectOwner.account.address,
+      1n,
+    ]);
+    return deployed;
+  }
+
+  // 开始项目并由 user1 参与
+  async function setupInProgress() {
+    const deployed = await setup();
+    await deployed.fairTicket.write.setMaxEntries([1n, 2n]);
+    await deployed.fairTicket.write.startProject([1n]);
+    await deployed.fairTicket.write.participate([1n, commitmentOf(1n)], {
+      account: user1.account,
+    });
+    return deployed;
+  }
+
+  // 结束项目并由 user1 公布幸运数字
+  async function setupRevealed() {
+    const deployed = await setupInProgress();
+    await deployed.fairTicket.write.finishProject([1n]);
+    await deployed.fairTicket.write.reveal([1n, 1n, SALT], {
+      account: user1.account,
+    });
+    await endRevealWindow(networkHelpers, deployed.fairTicket, 1n);
+    return deployed;
+  }
+
+  describe("项目创建与配置", async function () {
+    it("createProject应该触发ProjectCreated", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.createProject([
+          FINGERPRINT,
+          projectOwner.account.address,
+          1n,
+        ]),
+        fairTicket,
+        "ProjectCreated",
+        [1n, FINGERPRINT]
+      );
+    });
+
+    it("带时间窗口的createProject应该触发ProjectCreated", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      const now = BigInt(await networkHelpers.time.latest());
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.createProject([
+          FINGERPRINT,
+          projectOwner.account.address,
+          1n,
+          now + 100n,
+          now + 200n,
+        ]),
+        fairTicket,
+        "ProjectCreated",
+        [1n, FINGERPRINT]
+      );
+    });
+
+    it("createProjects应该为每个项目触发ProjectCreated", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      const fingerprintOf = (name: string) =>
+        keccak256(encodePacked(["string"], [name]));
+      // fingerprint 不能重复使用 第二批项目使用新的 fingerprint
+      const createProjects = (fingerprints: readonly Hex[]) =>
+        fairTicket.write.createProjects([
+          fingerprints,
+          [projectOwner.account.address, projectOwner.account.address],
+          [1n, 1n],
+        ]);
+      await viem.assertions.emitWithArgs(
+        createProjects([FINGERPRINT, fingerprintOf("events-2")]),
+        fairTicket,
+        "ProjectCreated",
+        [1n, FINGERPRINT]
+      );
+      await viem.assertions.emitWithArgs(
+        createProjects([fingerprintOf("events-3"), fingerprintOf("events-4")]),
+        fairTicket,
+        "ProjectCreated",
+        [4n, fingerprintOf("events-4")]
+      );
+    });
+
+    it("setEntryFee应该触发EntryFeeSet", async function () {
+      const { fairTicket } = await setup();
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setEntryFee([1n, ETH, PRICE]),
+        fairTicket,
+        "EntryFeeSet",
+        [1n, ETH, PRICE]
+      );
+    });
+
+    it("setMaxEntries应该触发MaxEntriesSet", async function () {
+      const { fairTicket } = await setup();
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setMaxEntries([1n, 5n]),
+        fairTicket,
+        "MaxEntriesSet",
+        [1n, 5n]
+      );
+    });
+
+    it("setAllowlistRoot应该触发AllowlistRootSet", async function () {
+      const { fairTicket } = await setup();
+      const root = exportAllowlistProofs(1n, [user1.account.address]).root;
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setAllowlistRoot([1n, root]),
+        fairTicket,
+        "AllowlistRootSet",
+        [1n, root]
+      );
+    });
+
+    it("setWeightRoot应该触发WeightRootSet", async function () {
+      const { fairTicket } = await setup();
+      const root = exportWeightProofs(1n, [
+        { addr: user1.account.address, weight: 2n },
+      ]).root;
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setWeightRoot([1n, root]),
+        fairTicket,
+        "WeightRootSet",
+        [1n, root]
+      );
+    });
+
+    it("transferProjectOwnership应该触发ProjectOwnershipTransferred", async function () {
+      const { fairTicket } = await setup();
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.transferProjectOwnership([1n, user3.account.address], {
+          account: projectOwner.account,
+        }),
+        fairTicket,
+        "ProjectOwnershipTransferred",
+        [
+          1n,
+          getAddress(projectOwner.account.address),
+          getAddress(user3.account.address),
+        ]
+      );
+    });
+
+    it("grantProjectOperator和revokeProjectOperator应该触发RoleGranted和RoleRevoked", async function () {
+      const { fairTicket } = await setup();
+      const role = await fairTicket.read.projectOperatorRole([1n]);
+      const args: [Hex, Hex, Hex] = [
+        role,
+        getAddress(user3.account.address),
+        getAddress(projectOwner.account.address),
+      ];
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.grantProjectOperator([1n, user3.account.address], {
+          account: projectOwner.account,
+        }),
+        fairTicket,
+        "RoleGranted",
+        args
+      );
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.revokeProjectOperator([1n, user3.account.address], {
+          account: projectOwner.account,
+        }),
+        fairTicket,
+        "RoleRevoked",
+        args
+      );
+    });
+
+    it("setRevealDuration应该触发RevealDurationUpdated", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setRevealDuration([3600n]),
+        fairTicket,
+        "RevealDurationUpdated",
+        [3600n]
+      );
+    });
+
+    it("setVRFConfig应该触发VRFConfigUpdated", async function () {
+      const { fairTicket, vrfCoordinator } = await deployFairTicket(viem);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setVRFConfig([
+          vrfCoordinator.address,
+          VRF_KEY_HASH,
+          7n,
+        ]),
+        fairTicket,
+        "VRFConfigUpdated",
+        [getAddress(vrfCoordinator.address), VRF_KEY_HASH, 7n]
+      );
+    });
+
+    it("setTicketNFT应该触发TicketNFTUpdated", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setTicketNFT([user3.account.address]),
+        fairTicket,
+        "TicketNFTUpdated",
+        [getAddress(user3.account.address)]
+      );
+    });
+  });
+
+  describe("参与", async function () {
+    it("startProject应该触发ProjectStarted", async function () {
+      const { fairTicket } = await setup();
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.startProject([1n]),
+        fairTicket,
+        "ProjectStarted",
+        [1n]
+      );
+    });
+
+    it("participate应该触发Participated并记录累计的参与次数", async function () {
+      const { fairTicket } = await setupInProgress();
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.participate([1n, commitmentOf(2n)], {
+          account: user2.account,
+        }),
+        fairTicket,
+        "Participated",
+        [1n, getAddress(user2.account.address), commitmentOf(2n), 1n]
+      );
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.participate([1n, commitmentOf(1n)], {
+          account: user1.account,
+        }),
+        fairTicket,
+        "Participated",
+        [1n, user1Address, commitmentOf(1n), 2n]
+      );
+    });
+
+    it("带白名单proof的participate应该触发Participated", async function () {
+      const { fairTicket } = await setup();
+      const allowlist = exportAllowlistProofs(1n, [user2.account.address]);
+      await fairTicket.write.setAllowlistRoot([1n, allowlist.root]);
+      await fairTicket.write.startProject([1n]);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.participate(
+          [
+            1n,
+            commitmentOf(2n),
+            allowlist.proofs[getAddress(user2.account.address)],
+          ],
+          { account: user2.account }
+        ),
+        fairTicket,
+        "Participated",
+        [1n, getAddress(user2.account.address), commitmentOf(2n), 1n]
+      );
+    });
+
+    it("participateWithSig应该触发Participated", async function () {
+      const { fairTicket } = await setupInProgress();
+      const entry = await signParticipation(
+        user2,
+        { chainId, verifyingContract: fairTicket.address },
+        {
+          account: user2.account,
+          projectId: 1n,
+          commitment: commitmentOf(2n),
+          nonce: 0n,
+          deadline: BigInt(await networkHelpers.time.latest()) + 3600n,
+        }
+      );
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.participateWithSig([
+          entry.projectId,
+          entry.participant,
+          entry.commitment,
+          entry.deadline,
+          entry.signature,
+        ]),
+        fairTicket,
+        "Participated",
+        [1n, getAddress(user2.account.address), commitmentOf(2n), 1n]
+      );
+    });
+
+    it("首次参与选择档位时应该触发TierSelected", async function () {
+      const { fairTicket } = await setup();
+      await fairTicket.write.addTier([1n, FINGERPRINT, 1n, 0n]);
+      await fairTicket.write.addTier([1n, FINGERPRINT, 1n, 0n]);
+      await fairTicket.write.startProject([1n]);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.participate([1n, 1n, commitmentOf(1n), []], {
+          account: user1.account,
+        }),
+        fairTicket,
+        "TierSelected",
+        [1n, user1Address, 1n]
+      );
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.importParticipants([
+          1n,
+          [user2.account.address],
+          [1n],
+          [commitmentOf(2n)],
+        ]),
+        fairTicket,
+        "TierSelected",
+        [1n, getAddress(user2.account.address), 1n]
+      );
+    });
+
+    it("importParticipants应该为每个参与者触发Participated", async function () {
+      const { fairTicket } = await setupInProgress();
+      const importParticipants = () =>
+        fairTicket.write.importParticipants([
+          1n,
+          [user2.account.address, user3.account.address],
+          [commitmentOf(2n), commitmentOf(3n)],
+        ]);
+      await viem.assertions.emitWithArgs(
+        importParticipants(),
+        fairTicket,
+        "Participated",
+        [1n, getAddress(user3.account.address), commitmentOf(3n), 1n]
+      );
+      await viem.assertions.emitWithArgs(
+        importParticipants(),
+        fairTicket,
+        "ParticipantsImported",
+        [1n, 0n]
+      );
+    });
+
+    it("claimWeight应该触发WeightClaimed", async function () {
+      const { fairTicket } = await setup();
+      const weights = exportWeightProofs(1n, [
+        { addr: user1.account.address, weight: 4n },
+      ]);
+      await fairTicket.write.setWeightRoot([1n, weights.root]);
+      await fairTicket.write.startProject([1n]);
+      await fairTicket.write.participate([1n, commitmentOf(1n)], {
+        account: user1.account,
+      });
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.claimWeight(
+          [1n, 4n, weights.weights[user1Address].proof],
+          { account: user1.account }
+        ),
+        fairTicket,
+        "WeightClaimed",
+        [1n, user1Address, 4n]
+      );
+    });
+
+    it("finishProject应该触发ProjectFinished", async function () {
+      const { fairTicket } = await setupInProgress();
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.finishProject([1n]),
+        fairTicket,
+        "ProjectFinished",
+        [1n]
+      );
+    });
+
+    it("finalize应该触发ProjectFinished", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      const now = BigInt(await networkHelpers.time.latest());
+      await fairTicket.write.createProject([
+        FINGERPRINT,
+        projectOwner.account.address,
+        1n,
+        now + 10n,
+        now + 100n,
+      ]);
+      await networkHelpers.time.increaseTo(now + 100n);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.finalize([1n], { account: user3.account }),
+        fairTicket,
+        "ProjectFinished",
+        [1n]
+      );
+    });
+
+    it("reveal应该触发LuckyNumRevealed", async function () {
+      const { fairTicket } = await setupInProgress();
+      await fairTicket.write.finishProject([1n]);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.reveal([1n, 1n, SALT], { account: user1.account }),
+        fairTicket,
+        "LuckyNumRevealed",
+        [1n, user1Address, 1n]
+      );
+    });
+  });
+
+  describe("抽奖与领取", async function () {
+    it("lottery应该触发RandomnessRequested", async function () {
+      const { fairTicket, vrfCoordinator } = await setupRevealed();
+      const requestId = await vrfCoordinator.read.s_nextRequestId();
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.lottery([1n]),
+        fairTicket,
+        "RandomnessRequested",
+        [1n, requestId]
+      );
+    });
+
+    it("VRF回调应该触发MagicNumberPublished", async function () {
+      const { fairTicket, vrfCoordinator } = await setupRevealed();
+      await fairTicket.write.lottery([1n]);
+      const requestId = await fairTicket.read.getPendingRequestId([1n]);
+      await viem.assertions.emitWithArgs(
+        vrfCoordinator.write.fulfillRandomWordsWithOverride([
+          requestId,
+          [12345n],
+        ]),
+        fairTicket,
+        "MagicNumberPublished",
+        [1n, 12345n]
+      );
+    });
+
+    it("SetMerkleRoot应该触发MerkleRootSet", async function () {
+      const { fairTicket, vrfCoordinator } = await setupRevealed();
+      await drawLottery(fairTicket, vrfCoordinator, 1n);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]),
+        fairTicket,
+        "MerkleRootSet",
+        [1n, winnerProofs.root]
+      );
+    });
+
+    it("claimTicket应该触发TicketClaimed", async function () {
+      const { fairTicket, vrfCoordinator } = await setupRevealed();
+      await drawLottery(fairTicket, vrfCoordinator, 1n);
+      await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.claimTicket([1n, winnerProofs.proofs[user1Address]], {
+          account: user1.account,
+        }),
+        fairTicket,
+        "TicketClaimed",
+        [1n, user1Address]
+      );
+    });
+
+    it("refund和withdraw应该触发DepositRefunded和Withdrawn", async function () {
+      const { fairTicket, vrfCoordinator } = await setup();
+      await fairTicket.write.setEntryFee([1n, ETH, PRICE]);
+      await fairTicket.write.startProject([1n]);
+      for (const [i, user] of [user1, user2].entries()) {
+        await fairTicket.write.participate([1n, commitmentOf(BigInt(i))], {
+          account: user.account,
+          value: PRICE,
+        });
+      }
+      await runToLotteryDrawn(networkHelpers, fairTicket, vrfCoordinator, 1n);
+      await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+      const user2Address = getAddress(user2.account.address);
+
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.refund([1n], { account: user2.account }),
+        fairTicket,
+        "DepositRefunded",
+        [1n, user2Address, PRICE]
+      );
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.withdraw([ETH], { account: user2.account }),
+        fairTicket,
+        "Withdrawn",
+        [user2Address, ETH, PRICE]
+      );
+    });
+
+    it("grantRole应该触发RoleGranted", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      const adminRole = await fairTicket.read.DEFAULT_ADMIN_ROLE();
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.grantRole([adminRole, user3.account.address]),
+        fairTicket,
+        "RoleGranted",
+        [
+          adminRole,
+          getAddress(user3.account.address),
+          getAddress(owner.account.address),
+        ]
+      );
+    });
+  });
+});
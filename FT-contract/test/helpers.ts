@@ -0,0 +1,91 @@
+import { network } from "hardhat";
+import { keccak256, toHex } from "viem";
+import { FairTicketClient } from "../utils/client.js";
+
+// 测试中共用的部署与抽奖辅助函数
+
+export type Viem = Awaited<ReturnType<typeof network.connect>>["viem"];
+export type NetworkHelpers = Awaited<
+  ReturnType<typeof network.connect>
+>["networkHelpers"];
+export type FairTicketContract = Awaited<
+  ReturnType<typeof deployFairTicket>
+>["fairTicket"];
+export type VRFCoordinatorMockContract = Awaited<
+  ReturnType<typeof deployFairTicket>
+>["vrfCoordinator"];
+
+export const VRF_KEY_HASH = keccak256(toHex("fairticket-test-key-hash"));
+export const VRF_SUBSCRIPTION_ID = 1n;
+
+// 部署Mock VRF Coordinator以及使用它的FairTicket合约
+// client 为包装该合约的 FairTicketClient，默认使用第一个账户发送交易
+export async function deployFairTicket(viem: Viem, globalId: bigint = 1n) {
+  const vrfCoordinator = await viem.deployContract("VRFCoordinatorMock");
+  const fairTicket = await viem.deployContract(
+    "FairTicket",
+    [globalId, vrfCoordinator.address, VRF_KEY_HASH, VRF_SUBSCRIPTION_ID],
+    { libraries: await deployFairTicketLib(viem) }
+  );
+  const client = new FairTicketClient({
+    contract: fairTicket,
+    publicClient: await viem.getPublicClient(),
+  });
+  return { fairTicket, vrfCoordinator, client };
+}
+
+// 部署FairTicketLib库 返回部署FairTicket和FairTicketUpgradeable时需要链接的库地址
+export async function deployFairTicketLib(viem: Viem) {
+  const fairTicketLib = await viem.deployContract("FairTicketLib");
+  return { FairTicketLib: fairTicketLib.address };
+}
+
+// 发起抽奖并由Mock Coordinator完成回调
+// 传入magicNumber时使用指定的随机数，否则由Mock生成伪随机数
+export async function drawLottery(
+  fairTicket: FairTicketContract,
+  vrfCoordinator: VRFCoordinatorMockContract,
+  projectId: bigint,
+  magicNumber?: bigint
+) {
+  await fairTicket.write.lottery([projectId]);
+  const requestId = await fairTicket.read.getPendingRequestId([projectId]);
+  if (magicNumber === undefined) {
+    await vrfCoordinator.write.fulfillRandomWords([requestId]);
+  } else {
+    await vrfCoordinator.write.fulfillRandomWordsWithOverride([
+      requestId,
+      [magicNumber],
+    ]);
+  }
+  return requestId;
+}
+
+// 将区块时间推进到项目公布幸运数字的截止时间之后
+export async function endRevealWindow(
+  networkHelpers: NetworkHelpers,
+  fairTicket: FairTicketContract,
+  projectId: bigint
+) {
+  const { revealDeadline } = await fairTicket.read.getProjectInfo([projectId]);
+  await networkHelpers.time.increaseTo(revealDeadline + 1n);
+}
+
+// 将项目推进到LotteryDrawn状态 之后才能发布中奖者的MerkleRoot
+// 项目未开始时先开始项目，进行中时先结束项目，公布幸运数字的时间结束后抽奖
+export async function runToLotteryDrawn(
+  networkHelpers: NetworkHelpers,
+  fairTicket: FairTicketContract,
+  vrfCoordinator: VRFCoordinatorMockContract,
+  projectId: bigint,
+  magicNumber?: bigint
+) {
+  if ((await fairTicket.read.getProjectStatus([projectId])) === 0) {
+    await fairTicket.write.startProject([projectId]);
+  }
+  if ((await fairTicket.read.getProjectStatus([projectId])) === 1) {
+    await fairTicket.write.finishProject([projectId]);
+  }
+  await endRevealWindow(networkHelpers, fairTicket, projectId);
+  return drawLottery(fairTicket, vrfCoordinator, projectId, magicNumber);
+}
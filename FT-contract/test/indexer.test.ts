@@ -0,0 +1,305 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress } from "viem";
+import { computeCommitment } from "../utils/commitment.js";
+import {
+  createIndexerState,
+  materializeProjects,
+  parseIndexerState,
+  PROJECT_STATUS_NAMES,
+  readIndexerState,
+  serializeIndexerState,
+  syncIndexer,
+  writeIndexerState,
+  type IndexedProject,
+} from "../utils/indexer.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import {
+  deployFairTicket,
+  drawLottery,
+  endRevealWindow,
+  type FairTicketContract,
+} from "./helpers.js";
+
+describe("indexer 事件索引器", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [, projectOwner, user1, user2, user3] = await viem.getWalletClients();
+
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+
+  // 部署合约并创建两个项目
+  // 项目1 user1参与两次 user2参与一次，完成抽奖并发布中奖名单；项目2 只开始
+  async function deployLifecycle() {
+    const { fairTicket, vrfCoordinator } = await deployFairTicket(viem);
+    const fromBlock = await publicClient.getBlockNumber();
+    await fairTicket.write.createProjects([
+      [
+        keccak256(encodePacked(["string"], ["indexer-1"])),
+        keccak256(encodePacked(["string"], ["indexer-2"])),
+      ],
+      [projectOwner.account.address, projectOwner.account.address],
+      [1n, 5n],
+    ]);
+    await fairTicket.write.setMaxEntries([1n, 2n]);
+    await fairTicket.write.startProject([1n]);
+    await fairTicket.write.startProject([2n]);
+    for (const [user, luckyNum] of [
+      [user1, 1n],
+      [user1, 1n],
+      [user2, 2n],
+    ] as const) {
+      await fairTicket.write.participate([1n, commitmentOf(luckyNum)], {
+        account: user.account,
+      });
+    }
+    await fairTicket.write.finishProject([1n]);
+    await fairTicket.write.reveal([1n, 1n, SALT], { account: user1.account });
+    await endRevealWindow(networkHelpers, fairTicket, 1n);
+    await drawLottery(fairTicket, vrfCoordinator, 1n);
+    const winnerProofs = exportWinnerProofs(1n, [user1.account.address]);
+    await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+    return { fairTicket, fromBlock };
+  }
+
+  // 索引得到的项目应该与getter读取的链上状态一致
+  async function assertMatchesChain(
+    fairTicket: FairTicketContract,
+    project: IndexedProject
+  ) {
+    const info = await fairTicket.read.getProjectInfo([project.id]);
+    assert.equal(project.fingerprint, info.fingerprint);
+    assert.equal(
+      project.status,
+      PROJECT_STATUS_NAMES[await fairTicket.read.getProjectStatus([project.id])]
+    );
+    assert.equal(
+      project.magicNumber,
+      await fairTicket.read.getMagicNumber([project.id])
+    );
+    assert.equal(
+      project.merkleRoot,
+      info.merkleRoot === `0x${"0".repeat(64)}` ? null : info.merkleRoot
+    );
+    const amount = await fairTicket.read.getProjectParticipantsAmount([
+      project.id,
+    ]);
+    const participants =
+      amount === 0n
+        ? []
+        : await fairTicket.read.getProjectParticipants([
+            project.id,
+            0n,
+            amount,
+          ]);
+    assert.deepEqual(
+      project.participants,
+      participants.map((p) => ({
+        addr: p.addr,
+        commitment: p.commitment,
+        entries: p.entries,
+        weight: p.weight,
+        luckyNum: p.luckyNum,
+        revealed: p.revealed,
+        tier: p.tier,
+      }))
+    );
+  }
+
+  it("应该从事件重建项目和参与者的状态", async function () {
+    const { fairTicket, fromBlock } = await deployLifecycle();
+    const state = createIndexerState(fairTicket.address, fromBlock);
+
+    const result = await syncIndexer(publicClient, state);
+    assert.equal(result.reorgedTo, null);
+    assert.equal(result.syncedBlock, await publicClient.getBlockNumber());
+
+    const projects = materializeProjects(state.events);
+    assert.deepEqual([...projects.keys()], [1n, 2n]);
+    assert.equal(projects.get(1n)!.status, "WinnersPublished");
+    assert.equal(projects.get(2n)!.status, "InProgress");
+    for (const project of projects.values()) {
+      await assertMatchesChain(fairTicket, project);
+    }
+  });
+
+  it("应该索引门票档位以及参与者选择的档位", async function () {
+    const { fairTicket, client } = await deployFairTicket(viem);
+    const fromBlock = await publicClient.getBlockNumber();
+    await client.createProject({
+      fingerprint: keccak256(encodePacked(["string"], ["indexer-tiers"])),
+      owner: projectOwner.account.address,
+      totalSupply: 1n,
+    });
+    const tiers = [
+      { nameHash: keccak256(encodePacked(["string"], ["VIP"])), supply: 2n },
+      {
+        nameHash: keccak256(encodePacked(["string"], ["General"])),
+        supply: 3n,
+        price: 5n,
+      },
+    ];
+    for (const tier of tiers) {
+      await client.addTier(1n, tier);
+    }
+    await client.setMaxEntries(1n, 2n);
+    await client.startProject(1n);
+    await client
+      .connect(user1)
+      .participate(1n, commitmentOf(1n), { tier: 1n, value: 5n });
+    await client
+      .connect(user1)
+      .participate(1n, commitmentOf(1n), { tier: 1n, value: 5n });
+    await client.connect(user2).participate(1n, commitmentOf(2n));
+    await client.importParticipants(1n, [
+      { addr: user3.account.address, commitment: commitmentOf(3n), tier: 1n },
+    ]);
+
+    const state = createIndexerState(fairTicket.address, fromBlock);
+    await syncIndexer(publicClient, state);
+    const project = materializeProjects(state.events).get(1n)!;
+    assert.deepEqual(project.tiers, [{ ...tiers[0], price: 0n }, tiers[1]]);
+    assert.deepEqual(
+      project.participants.map((p) => [p.entries, p.tier]),
+      [
+        [2n, 1n],
+        [1n, 0n],
+        [1n, 1n],
+      ]
+    );
+    await assertMatchesChain(fairTicket, project);
+  });
+
+  it("取消的项目应该记录为Cancelled状态", async function () {
+    const { fairTicket, fromBlock } = await deployLifecycle();
+    await fairTicket.write.cancelProject([2n, "cancelled"]);
+    const state = createIndexerState(fairTicket.address, fromBlock);
+    await syncIndexer(publicClient, state);
+
+    const projects = materializeProjects(state.events);
+    assert.equal(projects.get(2n)!.status, "Cancelled");
+    await assertMatchesChain(fairTicket, projects.get(2n)!);
+  });
+
+  it("分批和增量同步应该得到相同的事件", async function () {
+    const { fairTicket, fromBlock } = await deployLifecycle();
+    const full = createIndexerState(fairTicket.address, fromBlock);
+    await syncIndexer(publicClient, full);
+
+    const incremental = createIndexerState(fairTicket.address, fromBlock);
+    const latest = await publicClient.getBlockNumber();
+    await syncIndexer(publicClient, incremental, {
+      toBlock: fromBlock + 5n,
+      batchSize: 2n,
+    });
+    const result = await syncIndexer(publicClient, incremental, {
+      batchSize: 3n,
+    });
+    assert.equal(result.syncedBlock, latest);
+    assert.deepEqual(incremental, full);
+
+    // 没有新区块时再次同步不会产生新的事件
+    const again = await syncIndexer(publicClient, incremental);
+    assert.equal(again.newEvents, 0);
+    assert.deepEqual(incremental, full);
+  });
+
+  it("写入文件后应该能原样读回并继续同步", async function () {
+    const { fairTicket, fromBlock } = await deployLifecycle();
+    const dir = await mkdtemp(path.join(tmpdir(), "fairticket-indexer-"));
+    const file = path.join(dir, "nested", "state.json");
+    assert.equal(await readIndexerState(file), undefined);
+
+    const state = createIndexerState(fairTicket.address, fromBlock);
+    await syncIndexer(publicClient, state);
+    await writeIndexerState(file, state);
+    const restored = (await readIndexerState(file))!;
+    assert.deepEqual(restored, state);
+    assert.match(
+      await readFile(file, "utf8"),
+      new RegExp(`"fromBlock": \\{\\s*"\\$bigint": "${fromBlock}"\\s*\\}`)
+    );
+
+    await fairTicket.write.participate([2n, commitmentOf(3n)], {
+      account: user3.account,
+    });
+    const result = await syncIndexer(publicClient, restored);
+    assert.equal(result.newEvents, 1);
+    await assertMatchesChain(
+      fairTicket,
+      materializeProjects(restored.events).get(2n)!
+    );
+  });
+
+  it("形如bigint的字符串参数应该原样读回", async function () {
+    const { fairTicket, fromBlock } = await deployLifecycle();
+    await fairTicket.write.cancelProject([2n, "42n"]);
+    const state = createIndexerState(fairTicket.address, fromBlock);
+    await syncIndexer(publicClient, state);
+
+    const restored = parseIndexerState(serializeIndexerState(state));
+    assert.deepEqual(restored, state);
+    assert.equal(restored.events.at(-1)?.args.reason, "42n");
+  });
+
+  it("发生重组时应该丢弃被重组区块中的事件", async function () {
+    const { fairTicket, fromBlock } = await deployLifecycle();
+    const state = createIndexerState(fairTicket.address, fromBlock);
+    const snapshot = await networkHelpers.takeSnapshot();
+    const forkBlock = await publicClient.getBlockNumber();
+
+    // 原来的链 user2 参与了项目2
+    await fairTicket.write.participate([2n, commitmentOf(2n)], {
+      account: user2.account,
+    });
+    await syncIndexer(publicClient, state);
+    assert.deepEqual(
+      materializeProjects(state.events)
+        .get(2n)!
+        .participants.map((p) => p.addr),
+      [getAddress(user2.account.address)]
+    );
+
+    // 重组后的链 user2 的交易不存在，user3 参与了项目2，并且多出几个空区块
+    await snapshot.restore();
+    await fairTicket.write.participate([2n, commitmentOf(3n)], {
+      account: user3.account,
+    });
+    await networkHelpers.mine(3);
+
+    const result = await syncIndexer(publicClient, state);
+    assert.equal(result.reorgedTo, forkBlock);
+    const project = materializeProjects(state.events).get(2n)!;
+    assert.equal(project.participants.length, 1);
+    await assertMatchesChain(fairTicket, project);
+    await assertMatchesChain(
+      fairTicket,
+      materializeProjects(state.events).get(1n)!
+    );
+  });
+
+  it("重组后的链更短时应该回退到共同的区块", async function () {
+    const { fairTicket, fromBlock } = await deployLifecycle();
+    const snapshot = await networkHelpers.takeSnapshot();
+    await fairTicket.write.participate([2n, commitmentOf(2n)], {
+      account: user2.account,
+    });
+    await networkHelpers.mine(5);
+    const state = createIndexerState(fairTicket.address, fromBlock);
+    await syncIndexer(publicClient, state);
+
+    await snapshot.restore();
+    const result = await syncIndexer(publicClient, state);
+    assert.notEqual(result.reorgedTo, null);
+    assert.equal(result.syncedBlock, await publicClient.getBlockNumber());
+    assert.equal(
+      materializeProjects(state.events).get(2n)!.participants.length,
+      0
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress } from "viem";
+import { drawProjectWinners } from "../utils/selection.js";
+import {
+  buildWinnerTree,
+  exportWinnerProofs,
+  getWinnerProof,
+  readWinnerProofs,
+  winnerLeaf,
+  writeWinnerProofs,
+} from "../utils/merkle.js";
+import { computeCommitment } from "../utils/commitment.js";
+import {
+  deployFairTicket,
+  drawLottery,
+  endRevealWindow,
+} from "./helpers.js";
+
+describe("merkle 中奖者Merkle树", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const [owner, projectOwner, user1, user2, user3, user4] =
+    await viem.getWalletClients();
+  const users = [user1, user2, user3, user4];
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+
+  // 部署合约，4人参与、2张票，完成抽奖并发布真实的 Merkle root
+  async function deployPublishedProject() {
+    const { fairTicket, vrfCoordinator } = await deployFairTicket(viem);
+    const fingerprint = keccak256(encodePacked(["string"], ["merkle"]));
+    await fairTicket.write.createProject([
+      fingerprint,
+      projectOwner.account.address,
+      2n,
+    ]);
+    await fairTicket.write.startProject([1n]);
+    for (const [i, user] of users.entries()) {
+      await fairTicket.write.participate(
+        [1n, computeCommitment(BigInt(i + 1), SALT)],
+        { account: user.account }
+      );
+    }
+    await fairTicket.write.finishProject([1n]);
+    for (const [i, user] of users.entries()) {
+      await fairTicket.write.reveal([1n, BigInt(i + 1), SALT], {
+        account: user.account,
+      });
+    }
+    await endRevealWindow(networkHelpers, fairTicket, 1n);
+    await drawLottery(fairTicket, vrfCoordinator, 1n);
+
+    const winners = (await drawProjectWinners(fairTicket, 1n)).map(
+      (winner) => winner.addr
+    );
+    const winnerProofs = exportWinnerProofs(1n, winners);
+    await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+
+    const isWinner = (addr: `0x${string}`) =>
+      winners.includes(getAddress(addr));
+    return {
+      fairTicket,
+      winnerProofs,
+      winnerClients: users.filter((u) => isWinner(u.account.address)),
+      loserClients: users.filter((u) => !isWinner(u.account.address)),
+    };
+  }
+
+  describe("构建", async function () {
+    it("叶子节点应该与合约的编码方式一致", async function () {
+      assert.equal(
+        winnerLeaf(user1.account.address),
+        keccak256(encodePacked(["address"], [user1.account.address]))
+      );
+    });
+
+    it("每个中奖者的proof都应该能在链下验证", async function () {
+      const winners = users.map((u) => u.account.address);
+      const tree = buildWinnerTree(winners);
+      const winnerProofs = exportWinnerProofs(1n, winners);
+
+      assert.equal(winnerProofs.root, tree.root);
+      for (const addr of winners) {
+        const proof = getWinnerProof(winnerProofs, addr);
+        assert.ok(proof !== undefined);
+        assert.ok(tree.verify(winnerLeaf(getAddress(addr)), proof));
+      }
+      assert.equal(getWinnerProof(winnerProofs, owner.account.address), undefined);
+    });
+
+    it("中奖者顺序不应该影响root", async function () {
+      const winners = users.map((u) => u.account.address);
+      assert.equal(
+        exportWinnerProofs(1n, winners).root,
+        exportWinnerProofs(1n, [...winners].reverse()).root
+      );
+    });
+
+    it("应该拒绝空名单和重复地址", async function () {
+      assert.throws(() => buildWinnerTree([]), /without winners/);
+      assert.throws(
+        () =>
+          buildWinnerTree([user1.account.address, user1.account.address]),
+        /Duplicate winner address/
+      );
+    });
+
+    it("写入文件后应该能原样读回", async function () {
+      const dir = await mkdtemp(path.join(tmpdir(), "fairticket-merkle-"));
+      const file = path.join(dir, "nested", "project-1.json");
+      const winnerProofs = exportWinnerProofs(
+        1n,
+        users.map((u) => u.account.address)
+      );
+
+      await writeWinnerProofs(file, winnerProofs);
+      assert.deepEqual(await readWinnerProofs(file), winnerProofs);
+    });
+  });
+
+  describe("链上验证", async function () {
+    it("中奖者的proof应该通过verifyMerkleProof", async function () {
+      const { fairTicket, winnerProofs, winnerClients } =
+        await deployPublishedProject();
+      assert.equal(winnerClients.length, 2);
+
+      const project = await fairTicket.read.getProjectInfo([1n]);
+      assert.equal(project.merkleRoot, winnerProofs.root);
+
+      for (const winner of winnerClients) {
+        const proof = getWinnerProof(winnerProofs, winner.account.address);
+        assert.ok(proof !== undefined);
+        assert.equal(
+          await fairTicket.read.verifyMerkleProof([1n, proof], {
+            account: winner.account,
+          }),
+          true
+        );
+      }
+    });
+
+    it("未中奖者使用他人的proof应该revert", async function () {
+      const { fairTicket, winnerProofs, winnerClients, loserClients } =
+        await deployPublishedProject();
+      assert.equal(loserClients.length, 2);
+
+      const stolenProof = getWinnerProof(
+        winnerProofs,
+        winnerClients[0].account.address
+      );
+      assert.ok(stolenProof !== undefined);
+      for (const loser of loserClients) {
+        await assert.rejects(
+          async () => {
+            await fairTicket.read.verifyMerkleProof([1n, stolenProof], {
+              account: loser.account,
+            });
+          },
+          (error: Error) => {
+            return error.message.includes("MerkleProofInvalid");
+          }
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,475 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import {
+  keccak256,
+  encodePacked,
+  getAddress,
+  parseEther,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import type { FairTicketClient } from "../utils/client.js";
+import { computeCommitment } from "../utils/commitment.js";
+import {
+  isFairTicketError,
+  type FairTicketErrorName,
+} from "../utils/errors.js";
+import { signParticipation } from "../utils/signature.js";
+import { deployFairTicket, endRevealWindow } from "./helpers.js";
+
+describe("暂停与取消项目", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const [owner, projectOwner, user1, user2, user3] =
+    await viem.getWalletClients();
+
+  const PRICE = parseEther("0.1");
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+  const fingerprintOf = (name: string) =>
+    keccak256(encodePacked(["string"], [name]));
+
+  // 创建一个设置了ETH参与费用的项目并开始 user1 和 user2 已经参与
+  async function setup() {
+    const deployed = await deployFairTicket(viem);
+    const { client } = deployed;
+    const projectId = await client.createProject({
+      fingerprint: fingerprintOf("pause"),
+      owner: projectOwner.account.address,
+      totalSupply: 1n,
+    });
+    await client.setEntryFee(projectId, zeroAddress, PRICE);
+    await client.startProject(projectId);
+    for (const [i, user] of [user1, user2].entries()) {
+      await client
+        .connect(user)
+        .participate(projectId, commitmentOf(BigInt(i)), { value: PRICE });
+    }
+    return { ...deployed, projectId };
+  }
+
+  // user3 对项目1的参与签名
+  async function signedEntry(client: FairTicketClient) {
+    return signParticipation(
+      user3,
+      { chainId, verifyingContract: client.address },
+      {
+        account: user3.account,
+        projectId: 1n,
+        commitment: commitmentOf(3n),
+        nonce: 0n,
+        deadline: BigInt(await networkHelpers.time.latest()) + 3600n,
+      }
+    );
+  }
+
+  // 会修改项目或参与者状态的写函数 平台管理员是所有项目的管理者
+  // 转移所有权和管理operator只能由项目owner调用
+  const writes: [string, (client: FairTicketClient) => Promise<unknown>][] = [
+    [
+      "createProject",
+      (client) =>
+        client.createProject({
+          fingerprint: fingerprintOf("new"),
+          owner: projectOwner.account.address,
+          totalSupply: 1n,
+        }),
+    ],
+    [
+      "createProject(startTime, endTime)",
+      async (client) => {
+        const now = BigInt(await networkHelpers.time.latest());
+        return client.createProject({
+          fingerprint: fingerprintOf("new"),
+          owner: projectOwner.account.address,
+          totalSupply: 1n,
+          startTime: now + 100n,
+          endTime: now + 200n,
+        });
+      },
+    ],
+    [
+      "createProjects",
+      (client) =>
+        client.createProjects([
+          {
+            fingerprint: fingerprintOf("new"),
+            owner: projectOwner.account.address,
+            totalSupply: 1n,
+          },
+        ]),
+    ],
+    ["startProject", (client) => client.startProject(1n)],
+    [
+      "participate",
+      (client) =>
+        client
+          .connect(user3)
+          .participate(1n, commitmentOf(3n), { value: PRICE }),
+    ],
+    [
+      "participate(proof)",
+      (client) =>
+        client
+          .connect(user3)
+          .participate(1n, commitmentOf(3n), { proof: [], value: PRICE }),
+    ],
+    [
+      "participate(tier)",
+      (client) =>
+        client
+          .connect(user3)
+          .participate(1n, commitmentOf(3n), { tier: 0n, value: PRICE }),
+    ],
+    [
+      "participateWithSig",
+      async (client) =>
+        client.participateWithSig(await signedEntry(client), {
+          value: PRICE,
+        }),
+    ],
+    [
+      "participateWithSig(proof)",
+      async (client) =>
+        client.participateWithSig(await signedEntry(client), {
+          proof: [],
+          value: PRICE,
+        }),
+    ],
+    [
+      "importParticipants",
+      (client) =>
+        client.importParticipants(1n, [
+          { addr: user3.account.address, commitment: commitmentOf(3n) },
+        ]),
+    ],
+    ["claimWeight", (client) => client.connect(user3).claimWeight(1n, 1n, [])],
+    ["finishProject", (client) => client.finishProject(1n)],
+    ["finalize", (client) => client.finalize(1n)],
+    ["cancelProject", (client) => client.cancelProject(1n, "cancelled")],
+    ["reveal", (client) => client.connect(user1).reveal(1n, 0n, SALT)],
+    ["lottery", (client) => client.lottery(1n)],
+    ["drawNextRound", (client) => client.drawNextRound(1n)],
+    ["SetMerkleRoot", (client) => client.setMerkleRoot(1n, SALT)],
+    ["setTierMerkleRoots", (client) => client.setTierMerkleRoots(1n, [SALT])],
+    ["claimTicket", (client) => client.connect(user1).claimTicket(1n, [])],
+    ["refund", (client) => client.connect(user1).refund(1n)],
+    ["withdraw", (client) => client.connect(user1).withdraw()],
+    ["setEntryFee", (client) => client.setEntryFee(1n, zeroAddress, 0n)],
+    ["setMaxEntries", (client) => client.setMaxEntries(1n, 2n)],
+    ["setAllowlistRoot", (client) => client.setAllowlistRoot(1n, zeroHash)],
+    ["setWeightRoot", (client) => client.setWeightRoot(1n, zeroHash)],
+    ["addTier", (client) => client.addTier(1n, { nameHash: SALT, supply: 1n })],
+    [
+      "transferProjectOwnership",
+      (client) =>
+        client
+          .connect(projectOwner)
+          .transferProjectOwnership(1n, user3.account.address),
+    ],
+    [
+      "grantProjectOperator",
+      (client) =>
+        client
+          .connect(projectOwner)
+          .grantProjectOperator(1n, user3.account.address),
+    ],
+    [
+      "revokeProjectOperator",
+      (client) =>
+        client
+          .connect(projectOwner)
+          .revokeProjectOperator(1n, user3.account.address),
+    ],
+  ];
+
+  describe("pause", async function () {
+    it("只有平台管理员可以暂停和恢复合约", async function () {
+      const { client } = await setup();
+
+      for (const call of [
+        () => client.connect(projectOwner).pause(),
+        () => client.connect(user1).unpause(),
+      ]) {
+        await assert.rejects(call, (error: unknown) => {
+          return isFairTicketError(error, "AccessControlUnauthorizedAccount");
+        });
+      }
+      await assert.rejects(
+        async () => {
+          await client.unpause();
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "ExpectedPause");
+        }
+      );
+
+      const [paused] = client.eventsIn(await client.pause(), "Paused");
+      assert.deepEqual(paused.args, {
+        account: getAddress(owner.account.address),
+      });
+      assert.equal(await client.paused(), true);
+      await assert.rejects(
+        async () => {
+          await client.pause();
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "EnforcedPause");
+        }
+      );
+
+      const [unpaused] = client.eventsIn(await client.unpause(), "Unpaused");
+      assert.deepEqual(unpaused.args, {
+        account: getAddress(owner.account.address),
+      });
+      assert.equal(await client.paused(), false);
+    });
+
+    // 取回押金和提取余额在暂停期间仍然可以调用
+    const payouts = new Set(["refund", "withdraw"]);
+    for (const [name, call] of writes.filter(([name]) => !payouts.has(name))) {
+      it(`暂停后${name}应该revert EnforcedPause`, async function () {
+        const { client } = await setup();
+        await client.pause();
+
+        await assert.rejects(
+          async () => {
+            await call(client);
+          },
+          (error: unknown) => {
+            return isFairTicketError(error, "EnforcedPause");
+          }
+        );
+        assert.equal(await client.getProjectStatus(1n), "InProgress");
+      });
+    }
+
+    it("暂停期间平台管理员的配置函数和VRF回调不受影响", async function () {
+      const { client, vrfCoordinator, projectId } = await setup();
+      await client.finishProject(projectId);
+      await endRevealWindow(networkHelpers, client.contract, projectId);
+      const requestId = await client.lottery(projectId);
+      await client.pause();
+
+      await client.setRevealDuration(60n);
+      await client.setTicketNFT(zeroAddress);
+      await vrfCoordinator.write.fulfillRandomWordsWithOverride([
+        requestId,
+        [42n],
+      ]);
+      assert.equal(await client.getProjectStatus(projectId), "LotteryDrawn");
+      assert.equal(await client.getMagicNumber(projectId), 42n);
+    });
+
+    it("暂停期间参与者仍然可以取回押金和提取余额", async function () {
+      const { client, projectId } = await setup();
+      await client.cancelProject(projectId, "cancelled");
+      await client.pause();
+
+      const [refunded] = client.eventsIn(
+        await client.connect(user1).refund(projectId),
+        "DepositRefunded"
+      );
+      assert.deepEqual(refunded.args, {
+        projectId,
+        addr: getAddress(user1.account.address),
+        amount: PRICE,
+      });
+      const before = await publicClient.getBalance({
+        address: user1.account.address,
+      });
+      const receipt = await client.connect(user1).withdraw();
+      assert.equal(
+        await publicClient.getBalance({ address: user1.account.address }),
+        before + PRICE - receipt.gasUsed * receipt.effectiveGasPrice
+      );
+      assert.equal(await client.paused(), true);
+    });
+
+    it("恢复后写函数可以继续调用", async function () {
+      const { client, projectId } = await setup();
+      await client.pause();
+      await client.unpause();
+
+      await client.connect(user3).participate(projectId, commitmentOf(3n), {
+        value: PRICE,
+      });
+      await client.finishProject(projectId);
+      assert.equal(await client.getParticipantCount(projectId), 3n);
+      assert.equal(await client.getProjectStatus(projectId), "Finished");
+    });
+  });
+
+  describe("cancelProject", async function () {
+    it("未开始和进行中的项目可以被取消", async function () {
+      const { client, projectId } = await setup();
+      const notStarted = await client.createProject({
+        fingerprint: fingerprintOf("not-started"),
+        owner: projectOwner.account.address,
+        totalSupply: 1n,
+      });
+
+      for (const [id, caller] of [
+        [projectId, owner],
+        [notStarted, projectOwner],
+      ] as const) {
+        const receipt = await client
+          .connect(caller)
+          .cancelProject(id, "sold elsewhere");
+        const [cancelled] = client.eventsIn(receipt, "ProjectCancelled");
+        assert.deepEqual(cancelled.args, {
+          projectId: id,
+          reason: "sold elsewhere",
+        });
+        assert.equal(await client.getProjectStatus(id), "Cancelled");
+      }
+    });
+
+    it("设置了开始时间的项目到达开始时间后仍然可以取消", async function () {
+      const { client } = await deployFairTicket(viem);
+      const now = BigInt(await networkHelpers.time.latest());
+      const projectId = await client.createProject({
+        fingerprint: fingerprintOf("scheduled"),
+        owner: projectOwner.account.address,
+        totalSupply: 1n,
+        startTime: now + 100n,
+      });
+      await networkHelpers.time.increaseTo(now + 100n);
+      assert.equal(await client.getProjectStatus(projectId), "InProgress");
+
+      await client.cancelProject(projectId, "");
+      assert.equal(await client.getProjectStatus(projectId), "Cancelled");
+    });
+
+    it("只有项目管理者可以取消项目", async function () {
+      const { client, projectId } = await setup();
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).cancelProject(projectId, "");
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "OnlyProjectManager");
+        }
+      );
+      await assert.rejects(
+        async () => {
+          await client.cancelProject(2n, "");
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "ProjectNotFound");
+        }
+      );
+    });
+
+    // 取消后每个写函数的预期结果 "ok" 表示调用成功，否则为revert的错误名
+    const afterCancel: Record<string, FairTicketErrorName | "ok"> = {
+      createProject: "ok",
+      "createProject(startTime, endTime)": "ok",
+      createProjects: "ok",
+      startProject: "ProjectAlreadyStarted",
+      participate: "ProjectNotInProgress",
+      "participate(proof)": "ProjectNotInProgress",
+      "participate(tier)": "ProjectNotInProgress",
+      participateWithSig: "ProjectNotInProgress",
+      "participateWithSig(proof)": "ProjectNotInProgress",
+      importParticipants: "ProjectNotInProgress",
+      claimWeight: "ProjectNotInProgress",
+      finishProject: "ProjectNotInProgress",
+      finalize: "ProjectEndTimeNotReached",
+      cancelProject: "ProjectAlreadyCancelled",
+      reveal: "ProjectNotFinished",
+      lottery: "ProjectAlreadyCancelled",
+      drawNextRound: "MerkleRootNotSet",
+      SetMerkleRoot: "ProjectAlreadyCancelled",
+      // 项目没有设置档位
+      setTierMerkleRoots: "ArrayLengthMismatch",
+      claimTicket: "MerkleRootNotSet",
+      refund: "ok",
+      // 取消之前没有可以提取的余额
+      withdraw: "NothingToWithdraw",
+      setEntryFee: "ProjectAlreadyStarted",
+      setMaxEntries: "ProjectAlreadyStarted",
+      setAllowlistRoot: "ProjectAlreadyStarted",
+      setWeightRoot: "ProjectAlreadyStarted",
+      addTier: "ProjectAlreadyStarted",
+      transferProjectOwnership: "ok",
+      grantProjectOperator: "ok",
+      revokeProjectOperator: "ok",
+    };
+
+    for (const [name, call] of writes) {
+      const outcome = afterCancel[name];
+      it(
+        outcome === "ok"
+          ? `取消后${name}应该成功`
+          : `取消后${name}应该revert ${outcome}`,
+        async function () {
+          const { client } = await setup();
+          await client.cancelProject(1n, "cancelled");
+
+          if (outcome === "ok") {
+            await call(client);
+          } else {
+            await assert.rejects(
+              async () => {
+                await call(client);
+              },
+              (error: unknown) => {
+                return isFairTicketError(error, outcome);
+              }
+            );
+          }
+          assert.equal(await client.getProjectStatus(1n), "Cancelled");
+        }
+      );
+    }
+
+    it("取消后参与者可以取回全部押金", async function () {
+      const { client, projectId } = await setup();
+      await client.cancelProject(projectId, "cancelled");
+
+      for (const user of [user1, user2]) {
+        const [refunded] = client.eventsIn(
+          await client.connect(user).refund(projectId),
+          "DepositRefunded"
+        );
+        assert.deepEqual(refunded.args, {
+          projectId,
+          addr: getAddress(user.account.address),
+          amount: PRICE,
+        });
+        assert.equal(
+          await client.getDeposit(projectId, user.account.address),
+          0n
+        );
+
+        const before = await publicClient.getBalance({
+          address: user.account.address,
+        });
+        const receipt = await client.connect(user).withdraw();
+        assert.equal(
+          await publicClient.getBalance({ address: user.account.address }),
+          before + PRICE - receipt.gasUsed * receipt.effectiveGasPrice
+        );
+      }
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).refund(projectId);
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "NothingToRefund");
+        }
+      );
+      await assert.rejects(
+        async () => {
+          await client.connect(user3).refund(projectId);
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "NothingToRefund");
+        }
+      );
+    });
+  });
+});
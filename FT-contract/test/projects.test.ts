@@ -0,0 +1,200 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress } from "viem";
+import { isFairTicketError } from "../utils/errors.js";
+import { deployFairTicket } from "./helpers.js";
+
+describe("按fingerprint查询和分页读取项目", async function () {
+  const { viem } = await network.connect();
+  const [, projectOwner] = await viem.getWalletClients();
+  const fingerprintOf = (name: string) =>
+    keccak256(encodePacked(["string"], [name]));
+
+  // 部署初始globalId为10的合约并创建 count 个项目
+  async function deployWithProjects(count: number) {
+    const deployed = await deployFairTicket(viem, 10n);
+    if (count > 0) {
+      await deployed.client.createProjects(
+        Array.from({ length: count }, (_, i) => ({
+          fingerprint: fingerprintOf(`project-${i}`),
+          owner: projectOwner.account.address,
+          totalSupply: BigInt(i + 1),
+        }))
+      );
+    }
+    return deployed;
+  }
+
+  describe("getProjectByFingerprint", async function () {
+    it("应该返回fingerprint对应的项目", async function () {
+      const { fairTicket, client } = await deployWithProjects(3);
+      assert.equal(
+        await fairTicket.read.getProjectByFingerprint([
+          fingerprintOf("project-1"),
+        ]),
+        11n
+      );
+      const project = await client.getProjectByFingerprint(
+        fingerprintOf("project-2")
+      );
+      assert.equal(project?.id, 12n);
+      assert.equal(project?.fingerprint, fingerprintOf("project-2"));
+      assert.equal(project?.owner, getAddress(projectOwner.account.address));
+    });
+
+    it("没有对应的项目时应该返回0", async function () {
+      const { fairTicket, client } = await deployWithProjects(1);
+      assert.equal(
+        await fairTicket.read.getProjectByFingerprint([
+          fingerprintOf("unknown"),
+        ]),
+        0n
+      );
+      assert.equal(
+        await client.getProjectByFingerprint(fingerprintOf("unknown")),
+        undefined
+      );
+    });
+
+    it("应该拒绝重复的fingerprint", async function () {
+      const { client } = await deployWithProjects(2);
+      await assert.rejects(
+        async () => {
+          await client.createProject({
+            fingerprint: fingerprintOf("project-1"),
+            owner: projectOwner.account.address,
+            totalSupply: 1n,
+          });
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "FingerprintAlreadyUsed") &&
+            error.args[0] === 11n
+          );
+        }
+      );
+      assert.equal(await client.getProjectCount(), 2n);
+    });
+
+    it("批量创建时同一批中重复的fingerprint应该使整批revert", async function () {
+      const { fairTicket, client } = await deployWithProjects(0);
+      await assert.rejects(
+        async () => {
+          await client.createProjects(
+            ["a", "b", "a"].map((name) => ({
+              fingerprint: fingerprintOf(name),
+              owner: projectOwner.account.address,
+              totalSupply: 1n,
+            }))
+          );
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "FingerprintAlreadyUsed") &&
+            error.args[0] === 10n
+          );
+        }
+      );
+      assert.equal(await fairTicket.read.s_globalId(), 10n);
+      assert.equal(
+        await fairTicket.read.getProjectByFingerprint([fingerprintOf("a")]),
+        0n
+      );
+    });
+
+    it("取消的项目的fingerprint不能再使用", async function () {
+      const { client } = await deployWithProjects(1);
+      await client.cancelProject(10n, "cancelled");
+      await assert.rejects(
+        async () => {
+          await client.createProject({
+            fingerprint: fingerprintOf("project-0"),
+            owner: projectOwner.account.address,
+            totalSupply: 1n,
+          });
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "FingerprintAlreadyUsed");
+        }
+      );
+      assert.equal(
+        (await client.getProjectByFingerprint(fingerprintOf("project-0")))
+          ?.status,
+        "Cancelled"
+      );
+    });
+  });
+
+  describe("getProjects", async function () {
+    it("应该从初始globalId开始按创建顺序分页", async function () {
+      const { fairTicket } = await deployWithProjects(5);
+      assert.equal(await fairTicket.read.getProjectCount(), 5n);
+
+      const idsOf = async (offset: bigint, limit: bigint) =>
+        (await fairTicket.read.getProjects([offset, limit])).map((p) => p.id);
+      assert.deepEqual(await idsOf(0n, 2n), [10n, 11n]);
+      assert.deepEqual(await idsOf(2n, 2n), [12n, 13n]);
+      // 最后一页不足 limit 时只返回剩余的项目
+      assert.deepEqual(await idsOf(4n, 2n), [14n]);
+      assert.deepEqual(await idsOf(0n, 5n), [10n, 11n, 12n, 13n, 14n]);
+      assert.deepEqual(await idsOf(1n, 100n), [11n, 12n, 13n, 14n]);
+      assert.deepEqual(await idsOf(3n, 0n), []);
+
+      const [project] = await fairTicket.read.getProjects([3n, 1n]);
+      assert.deepEqual(project, await fairTicket.read.getProjectInfo([13n]));
+    });
+
+    it("offset超出范围时应该revert", async function () {
+      for (const [count, offset] of [
+        [0, 0n],
+        [3, 3n],
+        [3, 100n],
+      ] as const) {
+        const { fairTicket } = await deployWithProjects(count);
+        await assert.rejects(
+          async () => {
+            await fairTicket.read.getProjects([offset, 1n]);
+          },
+          (error: Error) => {
+            return error.message.includes("OffsetOutOfBounds");
+          }
+        );
+      }
+    });
+
+    it("client应该逐页读取全部项目", async function () {
+      const { client } = await deployWithProjects(5);
+      await client.startProject(11n);
+
+      const projects = await client.getProjects();
+      assert.deepEqual(
+        projects.map((p) => p.id),
+        [10n, 11n, 12n, 13n, 14n]
+      );
+      assert.deepEqual(
+        projects.map((p) => p.status),
+        ["NotStart", "InProgress", "NotStart", "NotStart", "NotStart"]
+      );
+      assert.deepEqual(projects[2], await client.getProject(12n));
+      for (const pageSize of [1n, 2n, 5n, 6n]) {
+        assert.deepEqual(await client.getProjects(pageSize), projects);
+      }
+
+      const pages: bigint[][] = [];
+      for await (const page of client.iterateProjects(2n)) {
+        pages.push(page.map((p) => p.id));
+      }
+      assert.deepEqual(pages, [[10n, 11n], [12n, 13n], [14n]]);
+      await assert.rejects(async () => {
+        await client.getProjects(0n);
+      }, /Page size must be greater than zero/);
+    });
+
+    it("没有项目时client应该返回空数组", async function () {
+      const { client } = await deployWithProjects(0);
+      assert.equal(await client.getProjectCount(), 0n);
+      assert.deepEqual(await client.getProjects(), []);
+    });
+  });
+});
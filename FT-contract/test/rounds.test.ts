@@ -0,0 +1,271 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress, zeroAddress } from "viem";
+import type { Address } from "viem";
+import type { FairTicketClient } from "../utils/client.js";
+import { computeCommitment } from "../utils/commitment.js";
+import { isFairTicketError } from "../utils/errors.js";
+import { exportWinnerProofs, type WinnerProofs } from "../utils/merkle.js";
+import { drawProjectWinners } from "../utils/selection.js";
+import { verifyProjectDraw } from "../utils/verify.js";
+import {
+  deployFairTicket,
+  drawLottery,
+  endRevealWindow,
+  type VRFCoordinatorMockContract,
+} from "./helpers.js";
+
+describe("多轮抽奖", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [, projectOwner, ...wallets] = await viem.getWalletClients();
+  const entrants = wallets.slice(0, 8);
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const luckyNumOf = (i: number) => BigInt(i * 17 + 1);
+  const CLAIM_DURATION = 3600n;
+  const walletOf = (addr: Address) =>
+    entrants.find((w) => getAddress(w.account.address) === addr)!;
+
+  // 创建 totalSupply 为3的项目，8个地址参与并公布幸运数字后完成第一轮抽奖
+  // price 不为0时每个地址参与时支付该金额的ETH押金
+  async function deployDrawnProject(price: bigint = 0n) {
+    const deployed = await deployFairTicket(viem);
+    const { client, vrfCoordinator } = deployed;
+    await client.setClaimDuration(CLAIM_DURATION);
+    await client.createProject({
+      fingerprint: keccak256(encodePacked(["string"], ["rounds"])),
+      owner: projectOwner.account.address,
+      totalSupply: 3n,
+    });
+    if (price !== 0n) {
+      await client.setEntryFee(1n, zeroAddress, price);
+    }
+    await client.startProject(1n);
+    for (const [i, wallet] of entrants.entries()) {
+      await client
+        .connect(wallet)
+        .participate(1n, computeCommitment(luckyNumOf(i), SALT), {
+          value: price,
+        });
+    }
+    await client.finishProject(1n);
+    for (const [i, wallet] of entrants.entries()) {
+      await client.connect(wallet).reveal(1n, luckyNumOf(i), SALT);
+    }
+    await endRevealWindow(networkHelpers, client.contract, 1n);
+    await drawLottery(client.contract, vrfCoordinator, 1n, 111n);
+    return deployed;
+  }
+
+  // 按链上数据计算最新一轮的中奖名单并发布
+  async function publishWinners(client: FairTicketClient) {
+    const winners = (await drawProjectWinners(client.contract, 1n)).map(
+      (winner) => winner.addr
+    );
+    const winnerProofs = exportWinnerProofs(1n, winners);
+    const receipt = await client.setMerkleRoot(1n, winnerProofs.root);
+    const { timestamp: publishedAt } = await publicClient.getBlock({
+      blockNumber: receipt.blockNumber,
+    });
+    return { winners, winnerProofs, publishedAt };
+  }
+
+  async function claim(
+    client: FairTicketClient,
+    winnerProofs: WinnerProofs,
+    addr: Address
+  ) {
+    await client
+      .connect(walletOf(addr))
+      .claimTicket(1n, winnerProofs.proofs[addr]);
+  }
+
+  // 领取截止时间之后开始下一轮抽奖并由Mock Coordinator回调
+  async function drawNextRound(
+    client: FairTicketClient,
+    vrfCoordinator: VRFCoordinatorMockContract,
+    magicNumber: bigint
+  ) {
+    const round = await client.getLotteryRound(
+      1n,
+      await client.getRoundCount(1n)
+    );
+    if (BigInt(await networkHelpers.time.latest()) <= round!.claimDeadline) {
+      await networkHelpers.time.increaseTo(round!.claimDeadline + 1n);
+    }
+    const requestId = await client.drawNextRound(1n);
+    await vrfCoordinator.write.fulfillRandomWordsWithOverride([
+      requestId,
+      [magicNumber],
+    ]);
+  }
+
+  it("第一轮有中奖者未领取时第二轮应该恰好补足剩余的门票", async function () {
+    const { client, vrfCoordinator } = await deployDrawnProject();
+
+    // 第一轮 3名中奖者中只有1人领取
+    const first = await publishWinners(client);
+    assert.equal(first.winners.length, 3);
+    await claim(client, first.winnerProofs, first.winners[0]);
+    const firstRound = await client.getLotteryRound(1n, 1n);
+    assert.deepEqual(firstRound, {
+      round: 1n,
+      magicNumber: 111n,
+      supply: 3n,
+      merkleRoot: first.winnerProofs.root,
+      claimDeadline: first.publishedAt + CLAIM_DURATION,
+    });
+
+    // 第二轮 为剩余的2张门票从第一轮没有中奖的参与者中补抽
+    await drawNextRound(client, vrfCoordinator, 222n);
+    assert.equal(await client.getProjectStatus(1n), "LotteryDrawn");
+    assert.equal(await client.getRoundCount(1n), 2n);
+    assert.equal(await client.getMagicNumber(1n), 222n);
+    const secondRound = await client.getLotteryRound(1n, 2n);
+    assert.equal(secondRound?.supply, 2n);
+    assert.equal(secondRound?.merkleRoot, null);
+
+    const second = await publishWinners(client);
+    assert.equal(second.winners.length, 2);
+    assert.ok(second.winners.every((addr) => !first.winners.includes(addr)));
+    assert.equal(
+      (await client.getLotteryRound(1n, 2n))?.merkleRoot,
+      second.winnerProofs.root
+    );
+    // 第一轮的结果保持不变
+    assert.deepEqual(await client.getLotteryRound(1n, 1n), firstRound);
+
+    // 第一轮没有领取的中奖者不能再使用第一轮的proof领取
+    await assert.rejects(
+      async () => {
+        await claim(client, first.winnerProofs, first.winners[1]);
+      },
+      (error: unknown) => {
+        return isFairTicketError(error, "MerkleProofInvalid");
+      }
+    );
+    for (const addr of second.winners) {
+      await claim(client, second.winnerProofs, addr);
+    }
+    assert.equal(await client.getClaimedAmount(1n), 3n);
+
+    const report = await verifyProjectDraw(client.contract, 1n);
+    assert.equal(report.passed, true);
+    assert.equal(report.round, 2);
+    assert.deepEqual(report.winners, second.winners);
+
+    // 门票全部领取后不能再开始新一轮
+    await networkHelpers.time.increase(CLAIM_DURATION + 1n);
+    await assert.rejects(
+      async () => {
+        await client.drawNextRound(1n);
+      },
+      (error: unknown) => {
+        return isFairTicketError(error, "TicketSoldOut");
+      }
+    );
+  });
+
+  it("领取截止时间之前不能开始下一轮", async function () {
+    const { client } = await deployDrawnProject();
+    await assert.rejects(
+      async () => {
+        await client.drawNextRound(1n);
+      },
+      (error: unknown) => {
+        return isFairTicketError(error, "MerkleRootNotSet");
+      }
+    );
+
+    await publishWinners(client);
+    const { claimDeadline } = (await client.getLotteryRound(1n, 1n))!;
+    await assert.rejects(
+      async () => {
+        await client.drawNextRound(1n);
+      },
+      (error: unknown) => {
+        return (
+          isFairTicketError(error, "ClaimWindowOpen") &&
+          error.args[0] === claimDeadline
+        );
+      }
+    );
+    await assert.rejects(
+      async () => {
+        await client.connect(projectOwner).setClaimDuration(0n);
+      },
+      (error: unknown) => {
+        return isFairTicketError(error, "AccessControlUnauthorizedAccount");
+      }
+    );
+  });
+
+  it("截止时间之后下一轮开始之前中奖者仍然可以领取", async function () {
+    const { client, vrfCoordinator } = await deployDrawnProject();
+    const first = await publishWinners(client);
+    const { claimDeadline } = (await client.getLotteryRound(1n, 1n))!;
+    await networkHelpers.time.increaseTo(claimDeadline + 1n);
+
+    await claim(client, first.winnerProofs, first.winners[0]);
+    await claim(client, first.winnerProofs, first.winners[1]);
+    await drawNextRound(client, vrfCoordinator, 333n);
+    assert.equal((await client.getLotteryRound(1n, 2n))?.supply, 1n);
+    const second = await publishWinners(client);
+    assert.equal(second.winners.length, 1);
+  });
+
+  it("之前轮次取回押金的参与者不会在之后的轮次中奖", async function () {
+    const { client, vrfCoordinator } = await deployDrawnProject(10n);
+
+    // 第一轮 3名中奖者都没有领取，5名没有中奖的参与者中4人取回押金
+    const first = await publishWinners(client);
+    const losers = entrants
+      .map((w) => getAddress(w.account.address))
+      .filter((addr) => !first.winners.includes(addr));
+    const [remaining, ...refunded] = losers;
+    for (const addr of refunded) {
+      await client.connect(walletOf(addr)).refund(1n);
+    }
+    assert.equal(
+      (await client.getParticipant(1n, refunded[0]))?.refundRound,
+      1n
+    );
+    assert.equal((await client.getParticipant(1n, remaining))?.refundRound, 0n);
+
+    // 第二轮有3张剩余门票 但只有1名没有取回押金的参与者可以中奖
+    await drawNextRound(client, vrfCoordinator, 222n);
+    assert.equal((await client.getLotteryRound(1n, 2n))?.supply, 3n);
+    const second = await publishWinners(client);
+    assert.deepEqual(second.winners, [remaining]);
+    await claim(client, second.winnerProofs, remaining);
+
+    // 第二轮公布之后取回押金不影响第二轮的验证，但之后的轮次同样会排除
+    await client.connect(walletOf(first.winners[0])).refund(1n);
+    assert.equal(
+      (await client.getParticipant(1n, first.winners[0]))?.refundRound,
+      2n
+    );
+    const report = await verifyProjectDraw(client.contract, 1n);
+    assert.equal(report.passed, true);
+    assert.deepEqual(report.winners, [remaining]);
+  });
+
+  it("不存在的轮次应该返回undefined", async function () {
+    const { client } = await deployDrawnProject();
+    assert.equal(await client.getLotteryRound(1n, 0n), undefined);
+    assert.equal(await client.getLotteryRound(1n, 2n), undefined);
+    assert.deepEqual(
+      (await client.getLotteryRounds(1n)).map((round) => round.magicNumber),
+      [111n]
+    );
+    await assert.rejects(
+      async () => {
+        await client.contract.read.getLotteryRound([1n, 2n]);
+      },
+      (error: Error) => {
+        return error.message.includes("RoundNotFound");
+      }
+    );
+  });
+});
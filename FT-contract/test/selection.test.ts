@@ -0,0 +1,261 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress, toHex } from "viem";
+import {
+  computeScore,
+  drawProjectWinners,
+  fetchProjectParticipants,
+  rankParticipants,
+  selectRoundWinners,
+  selectTierRoundWinners,
+  selectWinners,
+} from "../utils/selection.js";
+import { computeCommitment } from "../utils/commitment.js";
+import {
+  deployFairTicket,
+  drawLottery,
+  endRevealWindow,
+} from "./helpers.js";
+
+// 根据序号生成确定性的测试地址
+function addressOf(i: number) {
+  return getAddress(keccak256(toHex(`participant-${i}`)).slice(0, 42));
+}
+
+describe("selection 链下抽票算法", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const [, projectOwner, ...wallets] = await viem.getWalletClients();
+  const SALT = keccak256(toHex("salt"));
+  const luckyNumOf = (i: number) => BigInt(i * 7 + 3);
+
+  // 部署合约并创建一个已完成抽奖的项目，所有参与者都公布了幸运数字
+  async function deployDrawnProject(participantCount: number, supply: bigint) {
+    const { fairTicket, vrfCoordinator } = await deployFairTicket(viem);
+    const fingerprint = keccak256(encodePacked(["string"], ["selection"]));
+    await fairTicket.write.createProject([
+      fingerprint,
+      projectOwner.account.address,
+      supply,
+    ]);
+    await fairTicket.write.startProject([1n]);
+    const entrants = wallets.slice(0, participantCount);
+    for (const [i, wallet] of entrants.entries()) {
+      await fairTicket.write.participate(
+        [1n, computeCommitment(luckyNumOf(i), SALT)],
+        { account: wallet.account }
+      );
+    }
+    await fairTicket.write.finishProject([1n]);
+    for (const [i, wallet] of entrants.entries()) {
+      await fairTicket.write.reveal([1n, luckyNumOf(i), SALT], {
+        account: wallet.account,
+      });
+    }
+    await endRevealWindow(networkHelpers, fairTicket, 1n);
+    await drawLottery(fairTicket, vrfCoordinator, 1n);
+    return fairTicket;
+  }
+
+  describe("纯函数", async function () {
+    const participants = Array.from({ length: 12 }, (_, i) => ({
+      addr: addressOf(i),
+      luckyNum: BigInt(i * 11),
+      revealed: true,
+    }));
+
+    it("score应该等于keccak256(magicNumber‖luckyNum‖addr)", async function () {
+      const score = computeScore(99n, participants[0]);
+      assert.equal(
+        score,
+        keccak256(
+          encodePacked(
+            ["uint256", "uint256", "address"],
+            [99n, participants[0].luckyNum, participants[0].addr]
+          )
+        )
+      );
+    });
+
+    it("多次计算应该得到相同的中奖名单", async function () {
+      const first = selectWinners(1234567890n, participants, 5n);
+      const second = selectWinners(1234567890n, participants, 5n);
+      assert.deepEqual(first, second);
+      assert.equal(first.length, 5);
+    });
+
+    it("中奖名单不应该依赖参与者的输入顺序", async function () {
+      const reversed = [...participants].reverse();
+      assert.deepEqual(
+        selectWinners(42n, participants, 4n),
+        selectWinners(42n, reversed, 4n)
+      );
+    });
+
+    it("不同的magicNumber应该得到不同的排名", async function () {
+      const a = rankParticipants(1n, participants).map((p) => p.addr);
+      const b = rankParticipants(2n, participants).map((p) => p.addr);
+      assert.notDeepEqual(a, b);
+    });
+
+    it("参与人数不足totalSupply时应该全部中奖", async function () {
+      const winners = selectWinners(42n, participants, 100n);
+      assert.equal(winners.length, participants.length);
+    });
+
+    it("应该拒绝重复的参与者地址", async function () {
+      const duplicated = [
+        ...participants,
+        { addr: participants[0].addr, luckyNum: 999n, revealed: true },
+      ];
+      assert.throws(
+        () => rankParticipants(42n, duplicated),
+        /Duplicate participant address/
+      );
+    });
+
+    it("应该忽略未公布幸运数字的参与者", async function () {
+      const partlyRevealed = participants.map((p, i) => ({
+        ...p,
+        revealed: i % 2 === 0,
+      }));
+      const ranked = rankParticipants(42n, partlyRevealed);
+      assert.equal(ranked.length, participants.length / 2);
+      assert.ok(ranked.every((p) => p.revealed));
+      assert.deepEqual(
+        selectWinners(42n, partlyRevealed, 100n).map((p) => p.addr),
+        ranked.map((p) => p.addr)
+      );
+    });
+
+    it("之后的轮次应该从之前没有中奖的参与者中补抽", async function () {
+      const [first, second, third] = selectRoundWinners(
+        [
+          { magicNumber: 42n, supply: 5n },
+          { magicNumber: 43n, supply: 3n },
+          { magicNumber: 44n, supply: 10n },
+        ],
+        participants
+      );
+      assert.deepEqual(first, selectWinners(42n, participants, 5n));
+      const firstAddresses = new Set(first.map((p) => p.addr));
+      assert.deepEqual(
+        second,
+        selectWinners(
+          43n,
+          participants.filter((p) => !firstAddresses.has(p.addr)),
+          3n
+        )
+      );
+      // 参与者不足时只返回剩余的参与者
+      assert.equal(third.length, participants.length - 8);
+      const all = [...first, ...second, ...third].map((p) => p.addr);
+      assert.equal(new Set(all).size, participants.length);
+    });
+
+    it("每个档位应该只在该档位的参与者中单独排名", async function () {
+      // 前9名参与者在档位0，后3名在档位1
+      const tiered = participants.map((p, i) => ({
+        ...p,
+        tier: i < 9 ? 0n : 1n,
+      }));
+      const tiers = [{ supply: 4n }, { supply: 5n }];
+      const [[vip, general]] = selectTierRoundWinners(
+        [{ magicNumber: 42n, supply: 9n }],
+        tiered,
+        tiers
+      );
+      assert.deepEqual(vip, selectWinners(42n, participants.slice(0, 9), 4n));
+      assert.deepEqual(general, selectWinners(42n, participants.slice(9), 5n));
+      assert.equal(general.length, 3);
+
+      // 第二轮每个档位只补抽之前中奖者没有领取的门票
+      const claimed = new Set([vip[0].addr, vip[1].addr, general[0].addr]);
+      const [, [vip2, general2]] = selectTierRoundWinners(
+        [
+          { magicNumber: 42n, supply: 9n },
+          { magicNumber: 43n, supply: 6n },
+        ],
+        tiered,
+        tiers,
+        claimed
+      );
+      const vipAddresses = new Set(vip.map((p) => p.addr));
+      assert.deepEqual(
+        vip2,
+        selectWinners(
+          43n,
+          participants.slice(0, 9).filter((p) => !vipAddresses.has(p.addr)),
+          2n
+        )
+      );
+      assert.deepEqual(general2, []);
+
+      assert.throws(
+        () =>
+          selectTierRoundWinners(
+            [{ magicNumber: 42n, supply: 9n }],
+            tiered,
+            tiers.slice(0, 1)
+          ),
+        /Participant tier does not exist/
+      );
+    });
+
+    it("应该拒绝magicNumber未发布的项目", async function () {
+      assert.throws(
+        () => selectWinners(0n, participants, 1n),
+        /Magic number is not published yet/
+      );
+    });
+  });
+
+  describe("链上数据", async function () {
+    it("不同分页大小应该读取到相同的参与者", async function () {
+      const fairTicket = await deployDrawnProject(7, 3n);
+
+      const all = await fetchProjectParticipants(fairTicket, 1n, 100n);
+      assert.equal(all.length, 7);
+      for (const pageSize of [1n, 2n, 3n, 6n, 7n]) {
+        assert.deepEqual(
+          await fetchProjectParticipants(fairTicket, 1n, pageSize),
+          all
+        );
+      }
+    });
+
+    it("不同分页大小和多次运行应该得到相同的中奖名单", async function () {
+      const fairTicket = await deployDrawnProject(9, 4n);
+
+      const expected = await drawProjectWinners(fairTicket, 1n);
+      assert.equal(expected.length, 4);
+      for (const pageSize of [1n, 2n, 4n, 5n, 9n, 50n]) {
+        assert.deepEqual(
+          await drawProjectWinners(fairTicket, 1n, pageSize),
+          expected
+        );
+      }
+      assert.deepEqual(await drawProjectWinners(fairTicket, 1n), expected);
+    });
+
+    it("链上结果应该与纯函数计算结果一致", async function () {
+      const fairTicket = await deployDrawnProject(5, 2n);
+      const magicNumber = await fairTicket.read.getMagicNumber([1n]);
+      const participants = wallets.slice(0, 5).map((wallet, i) => ({
+        addr: getAddress(wallet.account.address),
+        luckyNum: luckyNumOf(i),
+        revealed: true,
+      }));
+
+      assert.deepEqual(
+        await drawProjectWinners(fairTicket, 1n),
+        selectWinners(magicNumber, participants, 2n)
+      );
+    });
+
+    it("没有参与者时应该返回空名单", async function () {
+      const fairTicket = await deployDrawnProject(0, 2n);
+      assert.deepEqual(await drawProjectWinners(fairTicket, 1n), []);
+    });
+  });
+});
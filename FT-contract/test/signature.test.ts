@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { getAddress, keccak256, toHex, verifyTypedData } from "viem";
+import { createCommitment } from "../utils/commitment.js";
+import {
+  PARTICIPATE_TYPES,
+  parseParticipations,
+  participationDomain,
+  serializeParticipations,
+  signParticipation,
+} from "../utils/signature.js";
+
+describe("signature 签名参与", async function () {
+  const { viem } = await network.connect();
+  const [, user1, user2] = await viem.getWalletClients();
+  const domain = {
+    chainId: 31337,
+    verifyingContract: getAddress("0x5fbdb2315678afecb367f032d93f642f64180aa3"),
+  };
+
+  async function signFor(signer: typeof user1, nonce: bigint) {
+    return signParticipation(signer, domain, {
+      account: signer.account,
+      projectId: 1n,
+      commitment: createCommitment().commitment,
+      nonce,
+      deadline: 1_900_000_000n,
+    });
+  }
+
+  it("签名应该能用参与者的地址验证", async function () {
+    const entry = await signFor(user1, 0n);
+    assert.equal(entry.participant, getAddress(user1.account.address));
+
+    const { signature, ...message } = entry;
+    const valid = await verifyTypedData({
+      address: user1.account.address,
+      domain: participationDomain(domain),
+      types: PARTICIPATE_TYPES,
+      primaryType: "Participate",
+      message,
+      signature,
+    });
+    assert.equal(valid, true);
+  });
+
+  it("序列化后应该能完整读回", async function () {
+    const entries = [await signFor(user1, 0n), await signFor(user2, 3n)];
+    assert.deepEqual(
+      parseParticipations(serializeParticipations(entries)),
+      entries
+    );
+  });
+
+  it("白名单proof应该随签名一起保存并且不影响签名", async function () {
+    const proof = [keccak256(toHex("a")), keccak256(toHex("b"))];
+    const entry = await signParticipation(user1, domain, {
+      account: user1.account,
+      projectId: 1n,
+      commitment: createCommitment().commitment,
+      nonce: 0n,
+      deadline: 1_900_000_000n,
+      proof,
+    });
+    assert.deepEqual(entry.proof, proof);
+
+    const { signature, proof: _proof, ...message } = entry;
+    const valid = await verifyTypedData({
+      address: user1.account.address,
+      domain: participationDomain(domain),
+      types: PARTICIPATE_TYPES,
+      primaryType: "Participate",
+      message,
+      signature,
+    });
+    assert.equal(valid, true);
+
+    const [parsed] = parseParticipations(serializeParticipations([entry]));
+    assert.deepEqual(parsed, entry);
+  });
+
+  it("没有tier字段的旧文件应该读取为第0个档位", async function () {
+    const entry = await signFor(user1, 0n);
+    const [serialized] = JSON.parse(serializeParticipations([entry])) as {
+      tier?: string;
+    }[];
+    delete serialized.tier;
+
+    assert.deepEqual(parseParticipations(JSON.stringify([serialized])), [
+      entry,
+    ]);
+  });
+
+  it("应该拒绝不是数组的JSON", async function () {
+    assert.throws(
+      () => parseParticipations("{}"),
+      /Signed participations must be a JSON array/
+    );
+  });
+});
@@ -0,0 +1,323 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress } from "viem";
+import { computeCommitment } from "../utils/commitment.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import { signParticipation } from "../utils/signature.js";
+import {
+  deployFairTicket,
+  drawLottery,
+  endRevealWindow,
+  type FairTicketContract,
+  type VRFCoordinatorMockContract,
+} from "./helpers.js";
+
+/**
+ * 项目状态机矩阵测试
+ *
+ * 将项目分别推进到每一个状态，然后在每个状态下调用每一个会改变项目的函数，
+ * 检查调用成功或者以对应的错误revert，并且revert的调用不会改变项目状态。
+ */
+describe("项目状态机", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const [, projectOwner, user1, user2, user3] = await viem.getWalletClients();
+
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  // user1 和 user2 参与项目，只有 user1 公布了幸运数字，中奖名单只有 user1
+  const winnerProofs = exportWinnerProofs(1n, [user1.account.address]);
+  const user1Proof = winnerProofs.proofs[getAddress(user1.account.address)];
+
+  interface Deployed {
+    fairTicket: FairTicketContract;
+    vrfCoordinator: VRFCoordinatorMockContract;
+  }
+
+  // 项目状态 以及将新部署的项目推进到该状态的步骤
+  const states: [string, number, (deployed: Deployed) => Promise<void>][] = [
+    ["NotStart", 0, async () => {}],
+    [
+      "InProgress",
+      1,
+      async ({ fairTicket }) => {
+        await fairTicket.write.startProject([1n]);
+        await fairTicket.write.participate([1n, computeCommitment(1n, SALT)], {
+          account: user1.account,
+        });
+        await fairTicket.write.participate([1n, computeCommitment(2n, SALT)], {
+          account: user2.account,
+        });
+      },
+    ],
+    [
+      "Finished(公布幸运数字中)",
+      2,
+      async ({ fairTicket }) => {
+        await fairTicket.write.finishProject([1n]);
+        await fairTicket.write.reveal([1n, 1n, SALT], {
+          account: user1.account,
+        });
+      },
+    ],
+    [
+      "Finished(公布幸运数字结束)",
+      2,
+      async ({ fairTicket }) => {
+        await endRevealWindow(networkHelpers, fairTicket, 1n);
+      },
+    ],
+    [
+      "LotteryDrawn",
+      3,
+      async ({ fairTicket, vrfCoordinator }) => {
+        await drawLottery(fairTicket, vrfCoordinator, 1n);
+      },
+    ],
+    [
+      "WinnersPublished",
+      4,
+      async ({ fairTicket }) => {
+        await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+      },
+    ],
+  ];
+
+  // 每个函数在每个状态下的预期结果 "ok" 表示调用成功，否则为revert的错误名
+  // 成功调用后项目的状态 undefined 表示状态不变
+  const actions: [
+    string,
+    (deployed: Deployed) => Promise<unknown>,
+    string[],
+    number | undefined,
+  ][] = [
+    [
+      "startProject",
+      ({ fairTicket }) => fairTicket.write.startProject([1n]),
+      [
+        "ok",
+        "ProjectAlreadyStarted",
+        "ProjectAlreadyStarted",
+        "ProjectAlreadyStarted",
+        "ProjectAlreadyStarted",
+        "ProjectAlreadyStarted",
+      ],
+      1,
+    ],
+    [
+      "participate",
+      ({ fairTicket }) =>
+        fairTicket.write.participate([1n, computeCommitment(3n, SALT)], {
+          account: user3.account,
+        }),
+      [
+        "ProjectNotInProgress",
+        "ok",
+        "ProjectNotInProgress",
+        "ProjectNotInProgress",
+        "ProjectNotInProgress",
+        "ProjectNotInProgress",
+      ],
+      undefined,
+    ],
+    [
+      "participateWithSig",
+      async ({ fairTicket }) => {
+        const deadline = BigInt(await networkHelpers.time.latest()) + 3600n;
+        const entry = await signParticipation(
+          user3,
+          { chainId, verifyingContract: fairTicket.address },
+          {
+            account: user3.account,
+            projectId: 1n,
+            commitment: computeCommitment(3n, SALT),
+            nonce: 0n,
+            deadline,
+          }
+        );
+        return fairTicket.write.participateWithSig([
+          entry.projectId,
+          entry.participant,
+          entry.commitment,
+          entry.deadline,
+          entry.signature,
+        ]);
+      },
+      [
+        "ProjectNotInProgress",
+        "ok",
+        "ProjectNotInProgress",
+        "ProjectNotInProgress",
+        "ProjectNotInProgress",
+        "ProjectNotInProgress",
+      ],
+      undefined,
+    ],
+    [
+      "finishProject",
+      ({ fairTicket }) => fairTicket.write.finishProject([1n]),
+      [
+        "ProjectNotInProgress",
+        "ok",
+        "ProjectNotInProgress",
+        "ProjectNotInProgress",
+        "ProjectNotInProgress",
+        "ProjectNotInProgress",
+      ],
+      2,
+    ],
+    [
+      // 项目没有设置结束时间 在任何状态下都不能由其他人结束
+      "finalize",
+      ({ fairTicket }) =>
+        fairTicket.write.finalize([1n], { account: user3.account }),
+      [
+        "ProjectEndTimeNotReached",
+        "ProjectEndTimeNotReached",
+        "ProjectEndTimeNotReached",
+        "ProjectEndTimeNotReached",
+        "ProjectEndTimeNotReached",
+        "ProjectEndTimeNotReached",
+      ],
+      undefined,
+    ],
+    [
+      "cancelProject",
+      ({ fairTicket }) => fairTicket.write.cancelProject([1n, "cancelled"]),
+      [
+        "ok",
+        "ok",
+        "ProjectNotCancellable",
+        "ProjectNotCancellable",
+        "ProjectNotCancellable",
+        "ProjectNotCancellable",
+      ],
+      5,
+    ],
+    [
+      "reveal",
+      ({ fairTicket }) =>
+        fairTicket.write.reveal([1n, 2n, SALT], { account: user2.account }),
+      [
+        "ProjectNotFinished",
+        "ProjectNotFinished",
+        "ok",
+        "RevealWindowClosed",
+        "ProjectNotFinished",
+        "ProjectNotFinished",
+      ],
+      undefined,
+    ],
+    [
+      "lottery",
+      ({ fairTicket }) => fairTicket.write.lottery([1n]),
+      [
+        "ProjectNotFinished",
+        "ProjectNotFinished",
+        "RevealWindowOpen",
+        "ok",
+        "LotteryAlreadyDrawn",
+        "LotteryAlreadyDrawn",
+      ],
+      undefined,
+    ],
+    [
+      "drawNextRound",
+      ({ fairTicket }) => fairTicket.write.drawNextRound([1n]),
+      [
+        "MerkleRootNotSet",
+        "MerkleRootNotSet",
+        "MerkleRootNotSet",
+        "MerkleRootNotSet",
+        "MerkleRootNotSet",
+        "ClaimWindowOpen",
+      ],
+      undefined,
+    ],
+    [
+      "SetMerkleRoot",
+      ({ fairTicket }) =>
+        fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]),
+      [
+        "LotteryNotDrawn",
+        "LotteryNotDrawn",
+        "LotteryNotDrawn",
+        "LotteryNotDrawn",
+        "ok",
+        "MerkleRootAlreadySet",
+      ],
+      4,
+    ],
+    [
+      "claimTicket",
+      ({ fairTicket }) =>
+        fairTicket.write.claimTicket([1n, user1Proof], {
+          account: user1.account,
+        }),
+      [
+        "MerkleRootNotSet",
+        "MerkleRootNotSet",
+        "MerkleRootNotSet",
+        "MerkleRootNotSet",
+        "MerkleRootNotSet",
+        "ok",
+      ],
+      undefined,
+    ],
+  ];
+
+  // 部署合约并将项目推进到第index个状态
+  async function deployInState(index: number): Promise<Deployed> {
+    const deployed = await deployFairTicket(viem);
+    await deployed.fairTicket.write.createProject([
+      keccak256(encodePacked(["string"], ["state-machine"])),
+      projectOwner.account.address,
+      10n,
+    ]);
+    for (const [, , enter] of states.slice(0, index + 1)) {
+      await enter(deployed);
+    }
+    return deployed;
+  }
+
+  for (const [stateIndex, [stateName, status]] of states.entries()) {
+    describe(stateName, async function () {
+      it("应该处于对应的状态", async function () {
+        const { fairTicket } = await deployInState(stateIndex);
+        assert.equal(await fairTicket.read.getProjectStatus([1n]), status);
+      });
+
+      for (const [name, call, expected, nextStatus] of actions) {
+        const outcome = expected[stateIndex];
+        it(
+          outcome === "ok" ? `${name}应该成功` : `${name}应该revert ${outcome}`,
+          async function () {
+            const deployed = await deployInState(stateIndex);
+            const { fairTicket } = deployed;
+            if (outcome === "ok") {
+              await call(deployed);
+              assert.equal(
+                await fairTicket.read.getProjectStatus([1n]),
+                nextStatus ?? status
+              );
+            } else {
+              await assert.rejects(
+                async () => {
+                  await call(deployed);
+                },
+                (error: Error) => {
+                  return error.message.includes(outcome);
+                }
+              );
+              assert.equal(
+                await fairTicket.read.getProjectStatus([1n]),
+                status
+              );
+            }
+          }
+        );
+      }
+    });
+  }
+});
@@ -0,0 +1,413 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import hre, { network } from "hardhat";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { keccak256, encodePacked, getAddress, toHex, zeroHash } from "viem";
+import createTask from "../tasks/create.js";
+import drawTask from "../tasks/draw.js";
+import finishTask from "../tasks/finish.js";
+import listParticipantsTask from "../tasks/list-participants.js";
+import publishRootTask from "../tasks/publish-root.js";
+import startTask from "../tasks/start.js";
+import statusTask from "../tasks/status.js";
+import verifyTask from "../tasks/verify.js";
+import { computeCommitment } from "../utils/commitment.js";
+import {
+  deployedAddressesPath,
+  readDeployedFairTicket,
+} from "../utils/deployments.js";
+import { decodeContractError } from "../utils/errors.js";
+import {
+  readWinnerProofs,
+  tierMerkleRootsHash,
+  tierProofsPath,
+} from "../utils/merkle.js";
+import { deployFairTicket, endRevealWindow } from "./helpers.js";
+
+describe("fairticket 生命周期任务", async function () {
+  const connection = await network.connect();
+  const { viem, networkHelpers } = connection;
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const [owner, projectOwner, user1, user2] = await viem.getWalletClients();
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+
+  // 部署合约并把地址写入临时目录中的 Ignition 部署记录
+  // 任务通过 hre.network.connect() 获取网络连接，测试中替换为当前测试使用的连接
+  async function setup() {
+    const deployed = await deployFairTicket(viem);
+    const ignition = await mkdtemp(path.join(tmpdir(), "fairticket-tasks-"));
+    const file = deployedAddressesPath(
+      path.join(ignition, "deployments"),
+      chainId
+    );
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(
+      file,
+      JSON.stringify({
+        "FairTicketLocalModule#VRFCoordinatorMock":
+          deployed.vrfCoordinator.address,
+        "FairTicketLocalModule#FairTicket": deployed.fairTicket.address,
+      })
+    );
+    const taskHre = {
+      network: { connect: async () => connection },
+      config: { paths: { ignition: path.join(ignition, "deployments") } },
+    } as unknown as HardhatRuntimeEnvironment;
+    return { ...deployed, taskHre, ignition };
+  }
+
+  it("应该在配置中注册全部任务", async function () {
+    for (const name of [
+      "create",
+      "start",
+      "finish",
+      "draw",
+      "publish-root",
+      "status",
+      "list-participants",
+      "verify",
+    ]) {
+      const task = hre.tasks.getTask(`fairticket:${name}`);
+      assert.ok(task.options.has("address"));
+      assert.equal(
+        task.options.has("dryRun"),
+        !["status", "list-participants", "verify"].includes(name)
+      );
+      assert.equal(task.options.has("nextRound"), name === "draw");
+    }
+  });
+
+  it("应该通过任务完成项目的整个生命周期", async function () {
+    const { fairTicket, vrfCoordinator, taskHre, ignition } = await setup();
+    const base = { address: "", dryRun: false };
+
+    const created = await createTask(
+      {
+        ...base,
+        fingerprint: "tasks-demo",
+        owner: projectOwner.account.address,
+        supply: 1n,
+      },
+      taskHre
+    );
+    assert.equal(created.projectId, 1n);
+    assert.equal(created.fingerprint, keccak256(toHex("tasks-demo")));
+    const project = created.projectId;
+
+    const notStarted = await statusTask({ project, address: "" }, taskHre);
+    assert.equal(notStarted.status, "NotStart");
+    assert.equal(notStarted.owner, getAddress(projectOwner.account.address));
+    assert.equal(notStarted.merkleRoot, null);
+
+    await startTask({ ...base, project }, taskHre);
+    for (const [i, user] of [user1, user2].entries()) {
+      await fairTicket.write.participate(
+        [project, computeCommitment(BigInt(i + 1), SALT)],
+        { account: user.account }
+      );
+    }
+    await finishTask({ ...base, project }, taskHre);
+    await fairTicket.write.reveal([project, 1n, SALT], {
+      account: user1.account,
+    });
+    await endRevealWindow(networkHelpers, fairTicket, project);
+
+    const requestId = await drawTask(
+      { ...base, project, nextRound: false },
+      taskHre
+    );
+    assert.equal(
+      requestId,
+      await fairTicket.read.getPendingRequestId([project])
+    );
+    await vrfCoordinator.write.fulfillRandomWords([requestId!]);
+
+    const output = path.join(ignition, "proofs.json");
+    const root = await publishRootTask(
+      { ...base, project, root: "", output },
+      taskHre
+    );
+    const winnerProofs = await readWinnerProofs(output);
+    assert.equal(winnerProofs.root, root);
+    assert.deepEqual(Object.keys(winnerProofs.proofs), [
+      getAddress(user1.account.address),
+    ]);
+
+    const published = await statusTask({ project, address: "" }, taskHre);
+    assert.equal(published.status, "WinnersPublished");
+    assert.equal(published.merkleRoot, root);
+    assert.equal(published.participants, 2n);
+
+    const participants = await listParticipantsTask(
+      { project, pageSize: 1n, address: "" },
+      taskHre
+    );
+    assert.deepEqual(
+      participants.map((p) => [p.addr, p.revealed]),
+      [
+        [getAddress(user1.account.address), true],
+        [getAddress(user2.account.address), false],
+      ]
+    );
+
+    const verified = await verifyTask({ project, address: "" }, taskHre);
+    assert.equal(verified.success, true);
+
+    // 中奖者在领取截止前没有领取 可以通过 --next-round 开始新一轮抽奖
+    await networkHelpers.time.increase(
+      (await fairTicket.read.s_claimDuration()) + 1n
+    );
+    const nextRequestId = await drawTask(
+      { ...base, project, nextRound: true },
+      taskHre
+    );
+    assert.notEqual(nextRequestId, requestId);
+    assert.equal(
+      nextRequestId,
+      await fairTicket.read.getPendingRequestId([project])
+    );
+  });
+
+  it("设置了档位的项目应该按档位发布merkleRoot", async function () {
+    const { fairTicket, client, vrfCoordinator, taskHre, ignition } =
+      await setup();
+    const base = { address: "", dryRun: false };
+    await client.createProject({
+      fingerprint: keccak256(toHex("tasks-tiers")),
+      owner: projectOwner.account.address,
+      totalSupply: 1n,
+    });
+    for (const name of ["VIP", "General"]) {
+      await client.addTier(1n, {
+        nameHash: keccak256(toHex(name)),
+        supply: 1n,
+      });
+    }
+    await startTask({ ...base, project: 1n }, taskHre);
+    await fairTicket.write.participate(
+      [1n, 1n, computeCommitment(1n, SALT), []],
+      {
+        account: user1.account,
+      }
+    );
+    await finishTask({ ...base, project: 1n }, taskHre);
+    await fairTicket.write.reveal([1n, 1n, SALT], { account: user1.account });
+    await endRevealWindow(networkHelpers, fairTicket, 1n);
+    const requestId = await drawTask(
+      { ...base, project: 1n, nextRound: false },
+      taskHre
+    );
+    await vrfCoordinator.write.fulfillRandomWords([requestId!]);
+
+    const output = path.join(ignition, "proofs.json");
+    const root = await publishRootTask(
+      { ...base, project: 1n, root: "", output },
+      taskHre
+    );
+    // 没有中奖者的档位不写入proof文件 root为0
+    const winnerProofs = await readWinnerProofs(tierProofsPath(output, 1n));
+    assert.deepEqual(Object.keys(winnerProofs.proofs), [
+      getAddress(user1.account.address),
+    ]);
+    assert.equal(root, tierMerkleRootsHash([null, winnerProofs.root]));
+    assert.equal((await client.getProject(1n))?.merkleRoot, root);
+    assert.equal((await client.getTier(1n, 1n))?.merkleRoot, winnerProofs.root);
+    assert.equal((await client.getTier(1n, 0n))?.merkleRoot, null);
+  });
+
+  it("dry-run只模拟调用不发送交易", async function () {
+    const { fairTicket, taskHre } = await setup();
+    const blockNumber = await publicClient.getBlockNumber();
+
+    const created = await createTask(
+      {
+        fingerprint: zeroHash.replace(/0$/, "1"),
+        owner: "",
+        supply: 1n,
+        address: "",
+        dryRun: true,
+      },
+      taskHre
+    );
+    assert.equal(created.projectId, 1n);
+    assert.equal(created.fingerprint, zeroHash.replace(/0$/, "1"));
+    assert.equal(await publicClient.getBlockNumber(), blockNumber);
+    assert.equal(await fairTicket.read.s_globalId(), 1n);
+
+    await fairTicket.write.createProject([
+      created.fingerprint,
+      owner.account.address,
+      1n,
+    ]);
+    assert.equal(
+      await startTask({ project: 1n, address: "", dryRun: true }, taskHre),
+      undefined
+    );
+    assert.equal(await fairTicket.read.getProjectStatus([1n]), 0);
+  });
+
+  it("合约的自定义错误应该解码为可读信息", async function () {
+    const { fairTicket, taskHre } = await setup();
+    await fairTicket.write.createProject([
+      keccak256(toHex("errors")),
+      owner.account.address,
+      1n,
+    ]);
+
+    for (const dryRun of [true, false]) {
+      await assert.rejects(
+        async () => {
+          await finishTask({ project: 1n, address: "", dryRun }, taskHre);
+        },
+        (error: Error) => {
+          return (
+            error.message ===
+              "finishProject(1) failed: ProjectNotInProgress: project is not in progress" &&
+            decodeContractError(error.cause)?.errorName ===
+              "ProjectNotInProgress"
+          );
+        }
+      );
+    }
+    await assert.rejects(
+      async () => {
+        await createTask(
+          {
+            fingerprint: "errors",
+            owner: "",
+            supply: 0n,
+            address: "",
+            dryRun: false,
+          },
+          taskHre
+        );
+      },
+      (error: Error) => {
+        return error.message.includes(
+          "TotalSupplyZero: total supply must be greater than zero"
+        );
+      }
+    );
+    await assert.rejects(
+      async () => {
+        await startTask({ project: 2n, address: "", dryRun: false }, taskHre);
+      },
+      (error: Error) => {
+        return error.message.includes("ProjectNotFound");
+      }
+    );
+    await assert.rejects(
+      async () => {
+        await statusTask({ project: 2n, address: "" }, taskHre);
+      },
+      (error: Error) => {
+        return error.message.includes("Project 2 does not exist");
+      }
+    );
+    assert.equal(decodeContractError(new Error("plain")), undefined);
+  });
+
+  it("应该拒绝不是32字节十六进制的--root", async function () {
+    const { fairTicket, taskHre } = await setup();
+    await fairTicket.write.createProject([
+      keccak256(toHex("invalid-root")),
+      owner.account.address,
+      1n,
+    ]);
+
+    for (const root of ["0x1234", "root", keccak256(toHex("a")) + "00"]) {
+      await assert.rejects(
+        async () => {
+          await publishRootTask(
+            { project: 1n, root, output: "", address: "", dryRun: true },
+            taskHre
+          );
+        },
+        (error: Error) => {
+          return error.message.startsWith(`Invalid Merkle root ${root},`);
+        }
+      );
+    }
+  });
+
+  it("地址上的合约没有当前的ABI时应该报错", async function () {
+    const { vrfCoordinator, taskHre } = await setup();
+
+    for (const address of [vrfCoordinator.address, user1.account.address]) {
+      await assert.rejects(
+        async () => {
+          await statusTask({ project: 1n, address }, taskHre);
+        },
+        (error: Error) => {
+          return error.message.includes(
+            `Contract at ${getAddress(address)} does not implement the current FairTicket ABI`
+          );
+        }
+      );
+    }
+  });
+
+  describe("Ignition 部署记录", async function () {
+    it("应该读取以#FairTicket结尾的部署地址", async function () {
+      const { fairTicket, ignition } = await setup();
+      assert.equal(
+        await readDeployedFairTicket(
+          path.join(ignition, "deployments"),
+          chainId
+        ),
+        getAddress(fairTicket.address)
+      );
+    });
+
+    it("没有部署记录时应该报错", async function () {
+      const { taskHre } = await setup();
+      await assert.rejects(
+        async () => {
+          await readDeployedFairTicket(path.join(tmpdir(), "missing"), 1);
+        },
+        (error: Error) => {
+          return error.message.includes(
+            "No Ignition deployments found for chain 1"
+          );
+        }
+      );
+      // 显式指定的地址优先于部署记录
+      const other = await deployFairTicket(viem);
+      await other.fairTicket.write.createProject([
+        keccak256(toHex("other")),
+        owner.account.address,
+        1n,
+      ]);
+      const summary = await statusTask(
+        { project: 1n, address: other.fairTicket.address },
+        taskHre
+      );
+      assert.equal(summary.id, 1n);
+    });
+
+    it("存在多个FairTicket部署时应该报错", async function () {
+      const dir = await mkdtemp(path.join(tmpdir(), "fairticket-tasks-"));
+      const file = deployedAddressesPath(dir, chainId);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(
+        file,
+        JSON.stringify({
+          "FairTicketModule#FairTicket": user1.account.address,
+          "FairTicketLocalModule#FairTicket": user2.account.address,
+        })
+      );
+      await assert.rejects(
+        async () => {
+          await readDeployedFairTicket(dir, chainId);
+        },
+        (error: Error) => {
+          return error.message.includes("Multiple FairTicket deployments");
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,604 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import {
+  encodePacked,
+  getAddress,
+  keccak256,
+  parseEther,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import type { Address, Hex } from "viem";
+import type { FairTicketClient } from "../utils/client.js";
+import { computeCommitment } from "../utils/commitment.js";
+import { isFairTicketError } from "../utils/errors.js";
+import {
+  exportTierWinnerProofs,
+  exportWinnerProofs,
+  type WinnerProofs,
+} from "../utils/merkle.js";
+import { drawProjectTierWinners } from "../utils/selection.js";
+import { signParticipation } from "../utils/signature.js";
+import { verifyProjectDraw } from "../utils/verify.js";
+import {
+  deployFairTicket,
+  drawLottery,
+  endRevealWindow,
+  type VRFCoordinatorMockContract,
+} from "./helpers.js";
+
+describe("门票档位", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const [, projectOwner, ...wallets] = await viem.getWalletClients();
+  // 5个地址参与只有2张门票的VIP档位，1个地址参与有3张门票的普通档位
+  const vipEntrants = wallets.slice(0, 5);
+  const generalEntrants = wallets.slice(5, 6);
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const VIP = keccak256(encodePacked(["string"], ["VIP"]));
+  const GENERAL = keccak256(encodePacked(["string"], ["General"]));
+  const CLAIM_DURATION = 3600n;
+  const luckyNumOf = (i: number) => BigInt(i * 7 + 3);
+  const walletOf = (addr: Address) =>
+    wallets.find((w) => getAddress(w.account.address) === addr)!;
+
+  // 创建项目并添加VIP和普通两个档位
+  async function deployTieredProject() {
+    const deployed = await deployFairTicket(viem);
+    const { client } = deployed;
+    await client.setClaimDuration(CLAIM_DURATION);
+    await client.createProject({
+      fingerprint: keccak256(encodePacked(["string"], ["tiers"])),
+      owner: projectOwner.account.address,
+      totalSupply: 1n,
+    });
+    await client.addTier(1n, { nameHash: VIP, supply: 2n });
+    await client.addTier(1n, { nameHash: GENERAL, supply: 3n });
+    return deployed;
+  }
+
+  // 所有地址参与各自的档位并公布幸运数字后完成第一轮抽奖
+  async function deployDrawnProject() {
+    const deployed = await deployTieredProject();
+    const { client, vrfCoordinator } = deployed;
+    await client.startProject(1n);
+    for (const [tier, entrants] of [vipEntrants, generalEntrants].entries()) {
+      for (const [i, wallet] of entrants.entries()) {
+        await client
+          .connect(wallet)
+          .participate(1n, computeCommitment(luckyNumOf(i), SALT), {
+            tier: BigInt(tier),
+          });
+      }
+    }
+    await client.finishProject(1n);
+    for (const [i, wallet] of [...vipEntrants, ...generalEntrants].entries()) {
+      await client
+        .connect(wallet)
+        .reveal(1n, luckyNumOf(i < vipEntrants.length ? i : 0), SALT);
+    }
+    await endRevealWindow(networkHelpers, client.contract, 1n);
+    await drawLottery(client.contract, vrfCoordinator, 1n, 111n);
+    return deployed;
+  }
+
+  // 按链上数据计算每个档位的中奖名单并发布各自的merkleRoot
+  async function publishTierWinners(client: FairTicketClient) {
+    const tierWinners = (await drawProjectTierWinners(client.contract, 1n)).map(
+      (winners) => winners.map((winner) => winner.addr)
+    );
+    const tierProofs = exportTierWinnerProofs(1n, tierWinners);
+    await client.setTierMerkleRoots(
+      1n,
+      tierProofs.map((proofs) => proofs?.root ?? null)
+    );
+    return { tierWinners, tierProofs };
+  }
+
+  async function claim(
+    client: FairTicketClient,
+    winnerProofs: WinnerProofs,
+    addr: Address
+  ) {
+    await client
+      .connect(walletOf(addr))
+      .claimTicket(1n, winnerProofs.proofs[addr]);
+  }
+
+  // 领取截止时间之后开始下一轮抽奖并由Mock Coordinator回调
+  async function drawNextRound(
+    client: FairTicketClient,
+    vrfCoordinator: VRFCoordinatorMockContract,
+    magicNumber: bigint
+  ) {
+    const round = await client.getLotteryRound(
+      1n,
+      await client.getRoundCount(1n)
+    );
+    await networkHelpers.time.increaseTo(round!.claimDeadline + 1n);
+    const requestId = await client.drawNextRound(1n);
+    await vrfCoordinator.write.fulfillRandomWordsWithOverride([
+      requestId,
+      [magicNumber],
+    ]);
+  }
+
+  describe("添加档位", async function () {
+    it("第一个档位替换totalSupply 之后的档位累加到totalSupply", async function () {
+      const { client } = await deployFairTicket(viem);
+      await client.createProject({
+        fingerprint: keccak256(encodePacked(["string"], ["tiers"])),
+        owner: projectOwner.account.address,
+        totalSupply: 100n,
+      });
+      assert.equal(await client.addTier(1n, { nameHash: VIP, supply: 2n }), 0n);
+      assert.equal((await client.getProject(1n))?.totalSupply, 2n);
+      assert.equal(
+        await client
+          .connect(projectOwner)
+          .addTier(1n, { nameHash: GENERAL, supply: 3n, price: 5n }),
+        1n
+      );
+
+      const project = await client.getProject(1n);
+      assert.equal(project?.totalSupply, 5n);
+      assert.equal(project?.tierCount, 2n);
+      assert.deepEqual(await client.getTiers(1n), [
+        {
+          tier: 0n,
+          nameHash: VIP,
+          supply: 2n,
+          price: 0n,
+          claimed: 0n,
+          merkleRoot: null,
+        },
+        {
+          tier: 1n,
+          nameHash: GENERAL,
+          supply: 3n,
+          price: 5n,
+          claimed: 0n,
+          merkleRoot: null,
+        },
+      ]);
+      assert.equal(await client.getTier(1n, 2n), undefined);
+
+      const [tierAdded] = await client.getEvents("TierAdded", {
+        projectId: 1n,
+      });
+      assert.deepEqual(tierAdded.args, {
+        projectId: 1n,
+        tier: 0n,
+        nameHash: VIP,
+        supply: 2n,
+        price: 0n,
+      });
+    });
+
+    it("应该拒绝供应为0的档位以及项目开始后添加档位", async function () {
+      const { client } = await deployTieredProject();
+      await assert.rejects(
+        async () => {
+          await client.addTier(1n, { nameHash: VIP, supply: 0n });
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "TotalSupplyZero");
+        }
+      );
+      await assert.rejects(
+        async () => {
+          await client
+            .connect(wallets[0])
+            .addTier(1n, { nameHash: VIP, supply: 1n });
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "OnlyProjectManager");
+        }
+      );
+
+      await client.startProject(1n);
+      await assert.rejects(
+        async () => {
+          await client.addTier(1n, { nameHash: VIP, supply: 1n });
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "ProjectAlreadyStarted");
+        }
+      );
+    });
+  });
+
+  describe("参与档位", async function () {
+    it("参与者应该记录选择的档位 重复参与不能更换档位", async function () {
+      const { client } = await deployTieredProject();
+      await client.setMaxEntries(1n, 2n);
+      await client.startProject(1n);
+      const [user1, user2] = wallets;
+      const commitment = computeCommitment(1n, SALT);
+
+      await client.connect(user1).participate(1n, commitment, { tier: 1n });
+      await client.connect(user2).participate(1n, commitment);
+      assert.equal(
+        await client.getParticipantTier(1n, user1.account.address),
+        1n
+      );
+      assert.equal(
+        await client.getParticipantTier(1n, user2.account.address),
+        0n
+      );
+      assert.equal(
+        (await client.getParticipant(1n, user1.account.address))?.tier,
+        1n
+      );
+      assert.deepEqual(
+        (await client.getParticipants(1n)).map((p) => p.tier),
+        [1n, 0n]
+      );
+
+      await assert.rejects(
+        async () => {
+          await client.connect(user1).participate(1n, commitment, { tier: 0n });
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "TierMismatch") && error.args[0] === 0n
+          );
+        }
+      );
+      await client.connect(user1).participate(1n, commitment, { tier: 1n });
+      assert.equal(
+        (await client.getParticipant(1n, user1.account.address))?.entries,
+        2n
+      );
+    });
+
+    it("应该拒绝不存在的档位", async function () {
+      const { client } = await deployTieredProject();
+      await client.startProject(1n);
+      await assert.rejects(
+        async () => {
+          await client
+            .connect(wallets[0])
+            .participate(1n, computeCommitment(1n, SALT), { tier: 2n });
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "TierNotFound") && error.args[0] === 2n
+          );
+        }
+      );
+
+      // 没有设置档位的项目只能参与第0个档位
+      await client.createProject({
+        fingerprint: keccak256(encodePacked(["string"], ["no-tiers"])),
+        owner: projectOwner.account.address,
+        totalSupply: 1n,
+      });
+      await client.startProject(2n);
+      await assert.rejects(
+        async () => {
+          await client
+            .connect(wallets[0])
+            .participate(2n, computeCommitment(1n, SALT), { tier: 1n });
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "TierNotFound");
+        }
+      );
+      await client
+        .connect(wallets[0])
+        .participate(2n, computeCommitment(1n, SALT), { tier: 0n });
+    });
+
+    it("押金应该使用档位的价格 档位没有设置价格时使用项目的价格", async function () {
+      const { client } = await deployFairTicket(viem);
+      const [user1, user2] = wallets;
+      await client.createProject({
+        fingerprint: keccak256(encodePacked(["string"], ["tier-price"])),
+        owner: projectOwner.account.address,
+        totalSupply: 1n,
+      });
+      await client.setEntryFee(1n, zeroAddress, parseEther("1"));
+      await client.addTier(1n, {
+        nameHash: VIP,
+        supply: 1n,
+        price: parseEther("3"),
+      });
+      await client.addTier(1n, { nameHash: GENERAL, supply: 1n });
+      await client.startProject(1n);
+
+      await assert.rejects(
+        async () => {
+          await client
+            .connect(user1)
+            .participate(1n, computeCommitment(1n, SALT), {
+              tier: 0n,
+              value: parseEther("1"),
+            });
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "IncorrectPayment") &&
+            error.args[0] === parseEther("3")
+          );
+        }
+      );
+      await client.connect(user1).participate(1n, computeCommitment(1n, SALT), {
+        tier: 0n,
+        value: parseEther("3"),
+      });
+      await client.connect(user2).participate(1n, computeCommitment(2n, SALT), {
+        tier: 1n,
+        value: parseEther("1"),
+      });
+      assert.equal(
+        await client.getDeposit(1n, user1.account.address),
+        parseEther("3")
+      );
+      assert.equal(
+        await client.getDeposit(1n, user2.account.address),
+        parseEther("1")
+      );
+    });
+
+    it("签名参与应该使用签名中选择的档位", async function () {
+      const { client } = await deployTieredProject();
+      await client.startProject(1n);
+      const [user1, user2] = wallets;
+      const sign = async (wallet: typeof user1, tier: bigint) =>
+        signParticipation(
+          wallet,
+          {
+            chainId: await wallet.getChainId(),
+            verifyingContract: client.address,
+          },
+          {
+            account: wallet.account,
+            projectId: 1n,
+            tier,
+            commitment: computeCommitment(1n, SALT),
+            nonce: await client.nonces(wallet.account.address),
+            deadline: BigInt(await networkHelpers.time.latest()) + 3600n,
+          }
+        );
+
+      await client.participateWithSig(await sign(user1, 1n));
+      assert.equal(
+        await client.getParticipantTier(1n, user1.account.address),
+        1n
+      );
+
+      // 中继者不能修改签名中的档位
+      const entry = await sign(user2, 1n);
+      await assert.rejects(
+        async () => {
+          await client.participateWithSig({ ...entry, tier: 0n });
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "InvalidSigner");
+        }
+      );
+      await assert.rejects(
+        async () => {
+          await client.participateWithSig(await sign(user2, 2n));
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "TierNotFound") && error.args[0] === 2n
+          );
+        }
+      );
+    });
+
+    it("导入参与者时应该记录每一行的档位", async function () {
+      const { client } = await deployTieredProject();
+      await client.startProject(1n);
+      const [user1, user2, user3] = wallets;
+      const commitment = computeCommitment(1n, SALT);
+      await client.connect(user3).participate(1n, commitment, { tier: 0n });
+
+      assert.equal(
+        await client.importParticipants(1n, [
+          { addr: user1.account.address, commitment, tier: 1n },
+          { addr: user2.account.address, commitment },
+          // 已经参与的地址被跳过 保持原有的档位
+          { addr: user3.account.address, commitment, tier: 1n },
+        ]),
+        2n
+      );
+      assert.deepEqual(
+        await Promise.all(
+          [user1, user2, user3].map((wallet) =>
+            client.getParticipantTier(1n, wallet.account.address)
+          )
+        ),
+        [1n, 0n, 0n]
+      );
+
+      await assert.rejects(
+        async () => {
+          await client.importParticipants(1n, [
+            { addr: wallets[3].account.address, commitment, tier: 2n },
+          ]);
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "TierNotFound") && error.args[0] === 2n
+          );
+        }
+      );
+      await assert.rejects(
+        async () => {
+          await client.contract.write.importParticipants([
+            1n,
+            [wallets[3].account.address],
+            [],
+            [commitment],
+          ]);
+        },
+        (error: Error) => {
+          return error.message.includes("ArrayLengthMismatch");
+        }
+      );
+    });
+  });
+
+  describe("按档位抽票", async function () {
+    it("超额参与的档位抽出supply名 参与不足的档位全部中奖", async function () {
+      const { client } = await deployDrawnProject();
+      const { tierWinners, tierProofs } = await publishTierWinners(client);
+
+      // VIP档位5人参与只有2人中奖，普通档位1人参与全部中奖
+      const vipAddresses = vipEntrants.map((w) =>
+        getAddress(w.account.address)
+      );
+      assert.equal(tierWinners[0].length, 2);
+      assert.ok(tierWinners[0].every((addr) => vipAddresses.includes(addr)));
+      assert.deepEqual(tierWinners[1], [
+        getAddress(generalEntrants[0].account.address),
+      ]);
+      assert.equal(await client.getProjectStatus(1n), "WinnersPublished");
+      assert.deepEqual(
+        (await client.getTiers(1n)).map((tier) => tier.merkleRoot),
+        tierProofs.map((proofs) => proofs!.root)
+      );
+
+      for (const [tier, winners] of tierWinners.entries()) {
+        for (const addr of winners) {
+          await claim(client, tierProofs[tier]!, addr);
+        }
+      }
+      assert.deepEqual(
+        (await client.getTiers(1n)).map((tier) => tier.claimed),
+        [2n, 1n]
+      );
+      assert.equal(await client.getClaimedAmount(1n), 3n);
+
+      const report = await verifyProjectDraw(client.contract, 1n);
+      assert.equal(report.passed, true);
+      assert.deepEqual(report.tierWinners, tierWinners);
+      assert.deepEqual(report.winners, tierWinners.flat());
+    });
+
+    it("只能使用自己档位的merkleRoot领取", async function () {
+      const { client } = await deployDrawnProject();
+      const tierWinners = (
+        await drawProjectTierWinners(client.contract, 1n)
+      ).map((winners) => winners.map((winner) => winner.addr));
+      const vipLoser = vipEntrants
+        .map((w) => getAddress(w.account.address))
+        .find((addr) => !tierWinners[0].includes(addr))!;
+
+      // 普通档位的merkle树中混入了VIP档位没有中奖的地址
+      const vipProofs = exportWinnerProofs(1n, tierWinners[0]);
+      const generalProofs = exportWinnerProofs(1n, [
+        ...tierWinners[1],
+        vipLoser,
+      ]);
+      await client.setTierMerkleRoots(1n, [vipProofs.root, generalProofs.root]);
+
+      await assert.rejects(
+        async () => {
+          await claim(client, generalProofs, vipLoser);
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "MerkleProofInvalid");
+        }
+      );
+      await claim(client, generalProofs, tierWinners[1][0]);
+    });
+
+    it("设置了档位的项目只能按档位发布merkleRoot", async function () {
+      const { client } = await deployDrawnProject();
+      const root = exportWinnerProofs(1n, [
+        getAddress(vipEntrants[0].account.address),
+      ]).root;
+
+      await assert.rejects(
+        async () => {
+          await client.setMerkleRoot(1n, root);
+        },
+        (error: unknown) => {
+          return (
+            isFairTicketError(error, "ProjectHasTiers") && error.args[0] === 2n
+          );
+        }
+      );
+      await assert.rejects(
+        async () => {
+          await client.setTierMerkleRoots(1n, [root]);
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "ArrayLengthMismatch");
+        }
+      );
+
+      // 没有中奖者的档位可以发布为0，链上记录的merkleRoot为所有档位root的哈希
+      await client.setTierMerkleRoots(1n, [root, null]);
+      const expected = keccak256(
+        encodePacked(["bytes32[]"], [[root, zeroHash as Hex]])
+      );
+      assert.equal((await client.getProject(1n))?.merkleRoot, expected);
+      assert.equal(
+        (await client.getLotteryRound(1n, 1n))?.merkleRoot,
+        expected
+      );
+      assert.equal((await client.getTier(1n, 1n))?.merkleRoot, null);
+    });
+
+    it("没有设置档位的项目不能按档位发布merkleRoot", async function () {
+      const { client, vrfCoordinator } = await deployFairTicket(viem);
+      await client.createProject({
+        fingerprint: keccak256(encodePacked(["string"], ["no-tiers"])),
+        owner: projectOwner.account.address,
+        totalSupply: 1n,
+      });
+      await client.startProject(1n);
+      await client.finishProject(1n);
+      await endRevealWindow(networkHelpers, client.contract, 1n);
+      await drawLottery(client.contract, vrfCoordinator, 1n);
+      await assert.rejects(
+        async () => {
+          await client.setTierMerkleRoots(1n, []);
+        },
+        (error: unknown) => {
+          return isFairTicketError(error, "ArrayLengthMismatch");
+        }
+      );
+    });
+
+    it("下一轮只为每个档位补抽没有被领取的门票", async function () {
+      const { client, vrfCoordinator } = await deployDrawnProject();
+      const first = await publishTierWinners(client);
+
+      // VIP档位的中奖者都没有领取，普通档位的中奖者领取了门票
+      await claim(client, first.tierProofs[1]!, first.tierWinners[1][0]);
+      await drawNextRound(client, vrfCoordinator, 222n);
+      assert.equal((await client.getLotteryRound(1n, 2n))?.supply, 4n);
+
+      const second = await publishTierWinners(client);
+      assert.equal(second.tierWinners[0].length, 2);
+      assert.ok(
+        second.tierWinners[0].every(
+          (addr) => !first.tierWinners[0].includes(addr)
+        )
+      );
+      // 普通档位唯一的参与者已经中奖，没有可以补抽的参与者
+      assert.deepEqual(second.tierWinners[1], []);
+      assert.equal((await client.getTier(1n, 1n))?.merkleRoot, null);
+
+      for (const addr of second.tierWinners[0]) {
+        await claim(client, second.tierProofs[0]!, addr);
+      }
+      assert.deepEqual(
+        (await client.getTiers(1n)).map((tier) => tier.claimed),
+        [2n, 1n]
+      );
+
+      const report = await verifyProjectDraw(client.contract, 1n);
+      assert.equal(report.passed, true);
+      assert.equal(report.round, 2);
+      assert.deepEqual(report.tierWinners, second.tierWinners);
+    });
+  });
+});
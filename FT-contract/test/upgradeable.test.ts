@@ -0,0 +1,346 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import {
+  encodeFunctionData,
+  encodePacked,
+  getAddress,
+  keccak256,
+  parseAbi,
+  slice,
+} from "viem";
+import { buildFairTicketUpgradeModule } from "../ignition/modules/FairTicketUpgrade.js";
+import FairTicketUpgradeableModule from "../ignition/modules/FairTicketUpgradeable.js";
+import { FairTicketClient } from "../utils/client.js";
+import { computeCommitment } from "../utils/commitment.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import { signParticipation } from "../utils/signature.js";
+import {
+  deployFairTicketLib,
+  endRevealWindow,
+  VRF_KEY_HASH,
+  VRF_SUBSCRIPTION_ID,
+} from "./helpers.js";
+
+describe("FairTicketUpgradeable", async function () {
+  const { viem, ignition, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const [owner, projectOwner, user1, user2, user3] =
+    await viem.getWalletClients();
+
+  const MAGIC_NUMBER = 1234567890n;
+  const MAX_CONTRACT_SIZE = 24576;
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+  // ERC1967 中保存实现合约地址的存储槽
+  const IMPLEMENTATION_SLOT =
+    "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+  const V2UpgradeModule = buildFairTicketUpgradeModule(
+    "FairTicketV2MockUpgradeModule",
+    "FairTicketUpgradeableV2Mock"
+  );
+
+  // 使用Ignition模块部署代理合约 client 通过代理访问FairTicket
+  async function deploy(initialGlobalId: bigint = 1n) {
+    const vrfCoordinator = await viem.deployContract("VRFCoordinatorMock");
+    const { fairTicket, proxy, implementation } = await ignition.deploy(
+      FairTicketUpgradeableModule,
+      {
+        parameters: {
+          FairTicketUpgradeableModule: {
+            initialGlobalId,
+            vrfCoordinator: vrfCoordinator.address,
+            vrfKeyHash: VRF_KEY_HASH,
+            vrfSubscriptionId: VRF_SUBSCRIPTION_ID,
+          },
+        },
+      }
+    );
+    const client = new FairTicketClient({
+      contract: await viem.getContractAt("FairTicket", proxy.address),
+      publicClient,
+    });
+    return { fairTicket, proxy, implementation, vrfCoordinator, client };
+  }
+
+  // 读取代理合约当前的实现合约地址
+  async function implementationOf(proxy: `0x${string}`) {
+    const value = await publicClient.getStorageAt({
+      address: proxy,
+      slot: IMPLEMENTATION_SLOT,
+    });
+    return getAddress(slice(value!, 12));
+  }
+
+  // 使用升级模块升级到V2 并在升级时调用 initializeV2
+  async function upgradeToV2(proxy: `0x${string}`, value: bigint) {
+    const { fairTicket, implementation } = await ignition.deploy(
+      V2UpgradeModule,
+      {
+        parameters: {
+          FairTicketV2MockUpgradeModule: {
+            proxy,
+            upgradeData: encodeFunctionData({
+              abi: parseAbi(["function initializeV2(uint256 _value)"]),
+              functionName: "initializeV2",
+              args: [value],
+            }),
+          },
+        },
+      }
+    );
+    return {
+      implementation,
+      v2: await viem.getContractAt(
+        "FairTicketUpgradeableV2Mock",
+        fairTicket.address
+      ),
+    };
+  }
+
+  describe("部署和初始化", async function () {
+    it("代理合约应该完成初始化", async function () {
+      const { fairTicket, proxy, implementation } = await deploy(100n);
+
+      assert.equal(fairTicket.address, proxy.address);
+      assert.equal(
+        await implementationOf(proxy.address),
+        getAddress(implementation.address)
+      );
+      assert.equal(await fairTicket.read.s_globalId(), 100n);
+      assert.equal(
+        await fairTicket.read.s_revealDuration(),
+        await fairTicket.read.DEFAULT_REVEAL_DURATION()
+      );
+      assert.equal(await fairTicket.read.s_vrfKeyHash(), VRF_KEY_HASH);
+      assert.equal(
+        await fairTicket.read.hasRole([
+          await fairTicket.read.DEFAULT_ADMIN_ROLE(),
+          owner.account.address,
+        ]),
+        true
+      );
+    });
+
+    it("实现合约不能超过合约大小限制", async function () {
+      const { implementation } = await deploy();
+      const code = await publicClient.getCode({
+        address: implementation.address,
+      });
+      assert.ok((code!.length - 2) / 2 <= MAX_CONTRACT_SIZE);
+    });
+
+    it("应该拒绝重复初始化代理合约", async function () {
+      const { fairTicket, vrfCoordinator } = await deploy();
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.initialize(
+            [1n, vrfCoordinator.address, VRF_KEY_HASH, VRF_SUBSCRIPTION_ID],
+            { account: user1.account }
+          );
+        },
+        (error: Error) => {
+          return error.message.includes("InvalidInitialization");
+        }
+      );
+    });
+
+    it("实现合约本身不能被初始化", async function () {
+      const { implementation, vrfCoordinator } = await deploy();
+
+      await assert.rejects(
+        async () => {
+          await implementation.write.initialize([
+            1n,
+            vrfCoordinator.address,
+            VRF_KEY_HASH,
+            VRF_SUBSCRIPTION_ID,
+          ]);
+        },
+        (error: Error) => {
+          return error.message.includes("InvalidInitialization");
+        }
+      );
+    });
+
+    it("签名参与应该使用代理合约的地址作为EIP712域", async function () {
+      const { proxy, client } = await deploy();
+      await client.createProject({
+        fingerprint: keccak256(encodePacked(["string"], ["signed"])),
+        owner: projectOwner.account.address,
+        totalSupply: 1n,
+      });
+      await client.startProject(1n);
+
+      const entry = await signParticipation(
+        user1,
+        { chainId, verifyingContract: proxy.address },
+        {
+          account: user1.account,
+          projectId: 1n,
+          commitment: commitmentOf(1n),
+          nonce: 0n,
+          deadline: BigInt(await networkHelpers.time.latest()) + 3600n,
+        }
+      );
+      await client.participateWithSig(entry);
+      assert.equal(await client.nonces(user1.account.address), 1n);
+    });
+  });
+
+  describe("升级", async function () {
+    it("只有平台管理员可以升级", async function () {
+      const { fairTicket } = await deploy();
+      const newImplementation = await viem.deployContract(
+        "FairTicketUpgradeable",
+        [],
+        { libraries: await deployFairTicketLib(viem) }
+      );
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.upgradeToAndCall(
+            [newImplementation.address, "0x"],
+            { account: user1.account }
+          );
+        },
+        (error: Error) => {
+          return error.message.includes("AccessControlUnauthorizedAccount");
+        }
+      );
+    });
+
+    it("应该拒绝升级到不支持UUPS的合约", async function () {
+      const { fairTicket, vrfCoordinator } = await deploy();
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.upgradeToAndCall([
+            vrfCoordinator.address,
+            "0x",
+          ]);
+        },
+        (error: Error) => {
+          return error.message.includes("ERC1967InvalidImplementation");
+        }
+      );
+    });
+
+    it("升级到V2后项目、参与者和抽奖结果应该保持不变", async function () {
+      const { fairTicket, proxy, implementation, vrfCoordinator, client } =
+        await deploy();
+      await client.setRevealDuration(3600n);
+
+      // 项目1 完成抽奖并发布中奖者 user1已经领取门票
+      const projectIds = await client.createProjects(
+        ["project-1", "project-2"].map((name) => ({
+          fingerprint: keccak256(encodePacked(["string"], [name])),
+          owner: projectOwner.account.address,
+          totalSupply: 2n,
+        }))
+      );
+      assert.deepEqual(projectIds, [1n, 2n]);
+      await client.startProject(1n);
+      for (const [i, user] of [user1, user2, user3].entries()) {
+        await client.connect(user).participate(1n, commitmentOf(BigInt(i)));
+      }
+      await client.finishProject(1n);
+      await client.connect(user1).reveal(1n, 0n, SALT);
+      await client.connect(user2).reveal(1n, 1n, SALT);
+      await endRevealWindow(networkHelpers, client.contract, 1n);
+      const requestId = await client.lottery(1n);
+      await vrfCoordinator.write.fulfillRandomWordsWithOverride([
+        requestId,
+        [MAGIC_NUMBER],
+      ]);
+      const winnerProofs = exportWinnerProofs(1n, [
+        user1.account.address,
+        user2.account.address,
+      ]);
+      await client.setMerkleRoot(1n, winnerProofs.root);
+      const proofOf = (user: typeof user1) =>
+        winnerProofs.proofs[getAddress(user.account.address)];
+      await client.connect(user1).claimTicket(1n, proofOf(user1));
+
+      // 项目2 进行中
+      await client.startProject(2n);
+      await client.connect(user1).participate(2n, commitmentOf(7n));
+
+      const before = {
+        projects: [await client.getProject(1n), await client.getProject(2n)],
+        participants: [
+          await client.getParticipants(1n),
+          await client.getParticipants(2n),
+        ],
+        lotteryResult: await client.contract.read.getLotteryResult([1n]),
+        claimedAmount: await client.getClaimedAmount(1n),
+      };
+
+      const { implementation: v2Implementation, v2 } = await upgradeToV2(
+        proxy.address,
+        42n
+      );
+      assert.notEqual(
+        getAddress(v2Implementation.address),
+        getAddress(implementation.address)
+      );
+      assert.equal(
+        await implementationOf(proxy.address),
+        getAddress(v2Implementation.address)
+      );
+      assert.equal(v2.address, proxy.address);
+      assert.equal(await v2.read.version(), "2");
+      assert.equal(await v2.read.s_v2Value(), 42n);
+
+      // 升级前的数据保持不变
+      assert.deepEqual(
+        [await client.getProject(1n), await client.getProject(2n)],
+        before.projects
+      );
+      assert.deepEqual(
+        [await client.getParticipants(1n), await client.getParticipants(2n)],
+        before.participants
+      );
+      assert.deepEqual(
+        await client.contract.read.getLotteryResult([1n]),
+        before.lotteryResult
+      );
+      assert.equal(await client.getMagicNumber(1n), MAGIC_NUMBER);
+      assert.equal(await client.getClaimedAmount(1n), before.claimedAmount);
+      assert.equal(await client.hasClaimed(1n, user1.account.address), true);
+      assert.equal(await fairTicket.read.s_globalId(), 3n);
+      assert.equal(await fairTicket.read.s_revealDuration(), 3600n);
+      assert.equal(
+        await client.isProjectManager(1n, projectOwner.account.address),
+        true
+      );
+
+      // 升级后可以继续原有的流程
+      await client.connect(user2).claimTicket(1n, proofOf(user2));
+      assert.equal(await client.getClaimedAmount(1n), 2n);
+      await client.finishProject(2n);
+      assert.equal(await client.getProjectStatus(2n), "Finished");
+      assert.equal(
+        await client.createProject({
+          fingerprint: keccak256(encodePacked(["string"], ["project-3"])),
+          owner: projectOwner.account.address,
+          totalSupply: 1n,
+        }),
+        3n
+      );
+
+      // V2的初始化只能执行一次
+      await assert.rejects(
+        async () => {
+          await v2.write.initializeV2([1n]);
+        },
+        (error: Error) => {
+          return error.message.includes("InvalidInitialization");
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import hre, { network } from "hardhat";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { keccak256, encodePacked, getAddress } from "viem";
+import verifyTask from "../tasks/verify.js";
+import { computeCommitment } from "../utils/commitment.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import { drawProjectWinners } from "../utils/selection.js";
+import { formatVerifyReport, verifyProjectDraw } from "../utils/verify.js";
+import { deployFairTicket, drawLottery, endRevealWindow } from "./helpers.js";
+
+describe("verify 公开验证抽票结果", async function () {
+  const connection = await network.connect();
+  const { viem, networkHelpers } = connection;
+  const [, projectOwner, ...wallets] = await viem.getWalletClients();
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const luckyNumOf = (i: number) => BigInt(i * 13 + 5);
+
+  // 任务通过 hre.network.connect() 获取网络连接，测试中替换为当前测试使用的连接
+  const testHre = {
+    network: { connect: async () => connection },
+  } as unknown as HardhatRuntimeEnvironment;
+
+  // 创建 totalSupply 为2的项目，4个地址参与，其中前3个公布幸运数字
+  async function deployFinishedProject() {
+    const { fairTicket, vrfCoordinator } = await deployFairTicket(viem);
+    await fairTicket.write.createProject([
+      keccak256(encodePacked(["string"], ["verify"])),
+      projectOwner.account.address,
+      2n,
+    ]);
+    await fairTicket.write.startProject([1n]);
+    const entrants = wallets.slice(0, 4);
+    for (const [i, wallet] of entrants.entries()) {
+      await fairTicket.write.participate(
+        [1n, computeCommitment(luckyNumOf(i), SALT)],
+        { account: wallet.account }
+      );
+    }
+    await fairTicket.write.finishProject([1n]);
+    for (const [i, wallet] of entrants.slice(0, 3).entries()) {
+      await fairTicket.write.reveal([1n, luckyNumOf(i), SALT], {
+        account: wallet.account,
+      });
+    }
+    await endRevealWindow(networkHelpers, fairTicket, 1n);
+    return { fairTicket, vrfCoordinator };
+  }
+
+  // 抽奖并发布正确的中奖名单
+  async function deployPublishedProject() {
+    const { fairTicket, vrfCoordinator } = await deployFinishedProject();
+    await drawLottery(fairTicket, vrfCoordinator, 1n);
+    const winners = await drawProjectWinners(fairTicket, 1n);
+    const { root } = exportWinnerProofs(
+      1n,
+      winners.map((winner) => winner.addr)
+    );
+    await fairTicket.write.SetMerkleRoot([1n, root]);
+    return fairTicket;
+  }
+
+  it("链上root与重新计算的中奖名单一致时验证通过", async function () {
+    const fairTicket = await deployPublishedProject();
+    const report = await verifyProjectDraw(fairTicket, 1n);
+
+    assert.equal(report.passed, true);
+    assert.equal(report.status, "WinnersPublished");
+    assert.equal(report.participants, 4);
+    assert.equal(report.revealed, 3);
+    assert.deepEqual(
+      report.winners,
+      (await drawProjectWinners(fairTicket, 1n)).map((winner) => winner.addr)
+    );
+    assert.equal(
+      report.onchainRoot,
+      (await fairTicket.read.getProjectInfo([1n])).merkleRoot
+    );
+    assert.equal(report.expectedRoot, report.onchainRoot);
+    assert.ok(report.checks.every((check) => check.passed));
+
+    // 分页大小不影响结果
+    assert.deepEqual(await verifyProjectDraw(fairTicket, 1n, 1n), report);
+  });
+
+  it("链上root与中奖名单不一致时验证失败", async function () {
+    const { fairTicket, vrfCoordinator } = await deployFinishedProject();
+    await drawLottery(fairTicket, vrfCoordinator, 1n);
+    // 发布未公布幸运数字的地址作为中奖者
+    const { root } = exportWinnerProofs(1n, [wallets[3].account.address]);
+    await fairTicket.write.SetMerkleRoot([1n, root]);
+
+    const report = await verifyProjectDraw(fairTicket, 1n);
+    assert.equal(report.passed, false);
+    assert.equal(report.onchainRoot, root);
+    assert.notEqual(report.expectedRoot, root);
+    assert.deepEqual(
+      report.checks.filter((check) => !check.passed).map((check) => check.name),
+      ["Merkle root matches"]
+    );
+    assert.ok(!report.winners.includes(getAddress(wallets[3].account.address)));
+  });
+
+  it("未抽奖或未发布root时验证失败", async function () {
+    const { fairTicket, vrfCoordinator } = await deployFinishedProject();
+    const beforeDraw = await verifyProjectDraw(fairTicket, 1n);
+    assert.equal(beforeDraw.passed, false);
+    assert.deepEqual(beforeDraw.winners, []);
+    assert.equal(beforeDraw.expectedRoot, null);
+    assert.equal(beforeDraw.onchainRoot, null);
+    assert.deepEqual(
+      beforeDraw.checks.map((check) => check.passed),
+      [false, false, false, false]
+    );
+
+    await drawLottery(fairTicket, vrfCoordinator, 1n);
+    const beforePublish = await verifyProjectDraw(fairTicket, 1n);
+    assert.equal(beforePublish.passed, false);
+    assert.equal(beforePublish.winners.length, 2);
+    assert.deepEqual(
+      beforePublish.checks.map((check) => check.passed),
+      [true, true, false, false]
+    );
+  });
+
+  it("报告应该列出中奖者和每项检查的结果", async function () {
+    const fairTicket = await deployPublishedProject();
+    const report = await verifyProjectDraw(fairTicket, 1n);
+    const lines = formatVerifyReport(report);
+
+    assert.equal(lines[0], "Project 1 (WinnersPublished)");
+    assert.ok(lines.includes(`  winner #1: ${report.winners[0]}`));
+    assert.ok(lines.includes(`  winner #2: ${report.winners[1]}`));
+    assert.equal(lines.filter((line) => line.includes("[PASS]")).length, 4);
+    assert.equal(lines.at(-1), "Verification passed");
+  });
+
+  describe("fairticket:verify 任务", async function () {
+    it("应该在配置中注册", async function () {
+      const task = hre.tasks.getTask("fairticket:verify");
+      assert.deepEqual([...task.options.keys()].sort(), ["address", "project"]);
+    });
+
+    it("验证通过时返回成功的结果", async function () {
+      const fairTicket = await deployPublishedProject();
+      const result = await verifyTask(
+        { project: 1n, address: fairTicket.address },
+        testHre
+      );
+      assert.equal(result.success, true);
+    });
+
+    it("验证失败时返回失败的结果", async function () {
+      const { fairTicket } = await deployFinishedProject();
+      const result = await verifyTask(
+        { project: 1n, address: fairTicket.address },
+        testHre
+      );
+      assert.equal(result.success, false);
+    });
+
+    it("缺少参数时应该报错", async function () {
+      await assert.rejects(
+        async () => {
+          await verifyTask(
+            { project: 0n, address: wallets[0].account.address },
+            testHre
+          );
+        },
+        (error: Error) => {
+          return error.message.includes("--project must be set");
+        }
+      );
+    });
+  });
+});
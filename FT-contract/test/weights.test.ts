@@ -0,0 +1,592 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, encodePacked, getAddress, parseEther, toHex } from "viem";
+import { computeCommitment } from "../utils/commitment.js";
+import { exportWinnerProofs } from "../utils/merkle.js";
+import {
+  computeKey,
+  computeScore,
+  drawProjectWinners,
+  KEY_PRECISION,
+  selectWinners,
+  ticketCount,
+} from "../utils/selection.js";
+import { exportWeightProofs, getWeightProof } from "../utils/weights.js";
+import { deployFairTicket, runToLotteryDrawn } from "./helpers.js";
+
+// 根据序号生成确定性的测试地址
+function addressOf(i: number) {
+  return getAddress(keccak256(toHex(`weighted-${i}`)).slice(0, 42));
+}
+
+describe("参与次数与权重", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const [, projectOwner, user1, user2, user3] = await viem.getWalletClients();
+
+  const ETH = "0x0000000000000000000000000000000000000000";
+  const PRICE = parseEther("0.1");
+  const SALT = keccak256(encodePacked(["string"], ["salt"]));
+  const commitmentOf = (luckyNum: bigint) => computeCommitment(luckyNum, SALT);
+
+  // user1 权重为3，user2 权重为1，user3 不在权重名单中
+  const weightProofs = exportWeightProofs(1n, [
+    { addr: user1.account.address, weight: 3n },
+    { addr: user2.account.address, weight: 1n },
+  ]);
+
+  // 部署合约并创建项目，在项目开始前执行 configure 进行配置
+  async function setup(
+    configure?: (
+      fairTicket: Awaited<ReturnType<typeof deployFairTicket>>["fairTicket"]
+    ) => Promise<unknown>
+  ) {
+    const deployed = await deployFairTicket(viem);
+    await deployed.fairTicket.write.createProject([
+      keccak256(encodePacked(["string"], ["weighted"])),
+      projectOwner.account.address,
+      10n,
+    ]);
+    if (configure !== undefined) {
+      await configure(deployed.fairTicket);
+    }
+    await deployed.fairTicket.write.startProject([1n]);
+    return deployed;
+  }
+
+  describe("setMaxEntries", async function () {
+    it("未设置时每个地址只能参与一次", async function () {
+      const { fairTicket } = await setup();
+      assert.equal(await fairTicket.read.getMaxEntries([1n]), 1n);
+      await fairTicket.write.participate([1n, commitmentOf(1n)], {
+        account: user1.account,
+      });
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.participate([1n, commitmentOf(1n)], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("EntryLimitReached");
+        }
+      );
+    });
+
+    it("项目管理者应该可以在项目开始前设置参与次数", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await fairTicket.write.createProject([
+        keccak256(encodePacked(["string"], ["weighted"])),
+        projectOwner.account.address,
+        10n,
+      ]);
+
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.setMaxEntries([1n, 3n], {
+          account: projectOwner.account,
+        }),
+        fairTicket,
+        "MaxEntriesSet",
+        [1n, 3n]
+      );
+      assert.equal(await fairTicket.read.getMaxEntries([1n]), 3n);
+    });
+
+    it("应该拒绝为0的参与次数", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await fairTicket.write.createProject([
+        keccak256(encodePacked(["string"], ["weighted"])),
+        projectOwner.account.address,
+        10n,
+      ]);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.setMaxEntries([1n, 0n]);
+        },
+        (error: Error) => {
+          return error.message.includes("MaxEntriesZero");
+        }
+      );
+    });
+
+    it("应该拒绝在项目开始后修改参与次数", async function () {
+      const { fairTicket } = await setup();
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.setMaxEntries([1n, 3n]);
+        },
+        (error: Error) => {
+          return error.message.includes("ProjectAlreadyStarted");
+        }
+      );
+    });
+
+    it("应该拒绝非项目管理者设置参与次数", async function () {
+      const { fairTicket } = await deployFairTicket(viem);
+      await fairTicket.write.createProject([
+        keccak256(encodePacked(["string"], ["weighted"])),
+        projectOwner.account.address,
+        10n,
+      ]);
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.setMaxEntries([1n, 3n], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("OnlyProjectManager");
+        }
+      );
+    });
+  });
+
+  describe("重复参与", async function () {
+    it("应该累计参与次数并且不超过上限", async function () {
+      const { fairTicket } = await setup((fairTicket) =>
+        fairTicket.write.setMaxEntries([1n, 3n])
+      );
+      for (let i = 0; i < 3; i++) {
+        await fairTicket.write.participate([1n, commitmentOf(7n)], {
+          account: user1.account,
+        });
+      }
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.participate([1n, commitmentOf(7n)], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("EntryLimitReached");
+        }
+      );
+
+      assert.equal(
+        await fairTicket.read.getProjectParticipantsAmount([1n]),
+        1n
+      );
+      const participant = await fairTicket.read.getParticipantInfo([
+        1n,
+        user1.account.address,
+      ]);
+      assert.equal(participant.entries, 3n);
+      assert.equal(participant.weight, 1n);
+      const [stored] = await fairTicket.read.getProjectParticipants([
+        1n,
+        0n,
+        1n,
+      ]);
+      assert.equal(stored.entries, 3n);
+    });
+
+    it("重复参与时应该拒绝不同的承诺", async function () {
+      const { fairTicket } = await setup((fairTicket) =>
+        fairTicket.write.setMaxEntries([1n, 3n])
+      );
+      await fairTicket.write.participate([1n, commitmentOf(7n)], {
+        account: user1.account,
+      });
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.participate([1n, commitmentOf(8n)], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("CommitmentMismatch");
+        }
+      );
+    });
+
+    it("每次参与都应该收取押金，领取门票时多余的押金退还给中奖者", async function () {
+      const { fairTicket, vrfCoordinator } = await setup(async (fairTicket) => {
+        await fairTicket.write.setMaxEntries([1n, 3n]);
+        await fairTicket.write.setEntryFee([1n, ETH, PRICE]);
+      });
+      for (let i = 0; i < 3; i++) {
+        await fairTicket.write.participate([1n, commitmentOf(7n)], {
+          account: user1.account,
+          value: PRICE,
+        });
+      }
+      assert.equal(
+        await fairTicket.read.getDeposit([1n, user1.account.address]),
+        PRICE * 3n
+      );
+
+      await runToLotteryDrawn(networkHelpers, fairTicket, vrfCoordinator, 1n);
+      const winnerProofs = exportWinnerProofs(1n, [user1.account.address]);
+      await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+      await fairTicket.write.claimTicket(
+        [1n, winnerProofs.proofs[getAddress(user1.account.address)]],
+        { account: user1.account }
+      );
+
+      assert.equal(
+        await fairTicket.read.getBalance([projectOwner.account.address, ETH]),
+        PRICE
+      );
+      assert.equal(
+        await fairTicket.read.getBalance([user1.account.address, ETH]),
+        PRICE * 2n
+      );
+    });
+
+    it("未中奖者取回押金时应该退还全部参与次数的押金", async function () {
+      const { fairTicket, vrfCoordinator } = await setup(async (fairTicket) => {
+        await fairTicket.write.setMaxEntries([1n, 2n]);
+        await fairTicket.write.setEntryFee([1n, ETH, PRICE]);
+      });
+      for (const user of [user1, user2, user2]) {
+        await fairTicket.write.participate([1n, commitmentOf(7n)], {
+          account: user.account,
+          value: PRICE,
+        });
+      }
+      await runToLotteryDrawn(networkHelpers, fairTicket, vrfCoordinator, 1n);
+      const winnerProofs = exportWinnerProofs(1n, [user1.account.address]);
+      await fairTicket.write.SetMerkleRoot([1n, winnerProofs.root]);
+
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.refund([1n], { account: user2.account }),
+        fairTicket,
+        "DepositRefunded",
+        [1n, getAddress(user2.account.address), PRICE * 2n]
+      );
+    });
+  });
+
+  describe("claimWeight", async function () {
+    it("参与者应该可以使用证明领取权重", async function () {
+      const { fairTicket } = await setup((fairTicket) =>
+        fairTicket.write.setWeightRoot([1n, weightProofs.root])
+      );
+      assert.equal(
+        await fairTicket.read.getWeightRoot([1n]),
+        weightProofs.root
+      );
+      await fairTicket.write.participate([1n, commitmentOf(1n)], {
+        account: user1.account,
+      });
+      const { weight, proof } = getWeightProof(
+        weightProofs,
+        user1.account.address
+      )!;
+
+      await viem.assertions.emitWithArgs(
+        fairTicket.write.claimWeight([1n, weight, proof], {
+          account: user1.account,
+        }),
+        fairTicket,
+        "WeightClaimed",
+        [1n, getAddress(user1.account.address), 3n]
+      );
+
+      const participant = await fairTicket.read.getParticipantInfo([
+        1n,
+        user1.account.address,
+      ]);
+      assert.equal(participant.weight, 3n);
+      const [stored] = await fairTicket.read.getProjectParticipants([
+        1n,
+        0n,
+        1n,
+      ]);
+      assert.equal(stored.weight, 3n);
+    });
+
+    it("应该拒绝错误的权重或证明", async function () {
+      const { fairTicket } = await setup((fairTicket) =>
+        fairTicket.write.setWeightRoot([1n, weightProofs.root])
+      );
+      for (const user of [user1, user3]) {
+        await fairTicket.write.participate([1n, commitmentOf(1n)], {
+          account: user.account,
+        });
+      }
+      const { proof } = getWeightProof(weightProofs, user1.account.address)!;
+
+      // 修改权重
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.claimWeight([1n, 5n, proof], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("WeightProofInvalid");
+        }
+      );
+      // 使用其他地址的证明
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.claimWeight([1n, 3n, proof], {
+            account: user3.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("WeightProofInvalid");
+        }
+      );
+    });
+
+    it("应该拒绝没有参与项目的地址领取权重", async function () {
+      const { fairTicket } = await setup((fairTicket) =>
+        fairTicket.write.setWeightRoot([1n, weightProofs.root])
+      );
+      const { weight, proof } = getWeightProof(
+        weightProofs,
+        user1.account.address
+      )!;
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.claimWeight([1n, weight, proof], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("NotParticipant");
+        }
+      );
+    });
+
+    it("项目没有设置权重时应该拒绝领取权重", async function () {
+      const { fairTicket } = await setup();
+      await fairTicket.write.participate([1n, commitmentOf(1n)], {
+        account: user1.account,
+      });
+      const { weight, proof } = getWeightProof(
+        weightProofs,
+        user1.account.address
+      )!;
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.claimWeight([1n, weight, proof], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("WeightRootNotSet");
+        }
+      );
+    });
+
+    it("项目结束后应该拒绝领取权重", async function () {
+      const { fairTicket } = await setup((fairTicket) =>
+        fairTicket.write.setWeightRoot([1n, weightProofs.root])
+      );
+      await fairTicket.write.participate([1n, commitmentOf(1n)], {
+        account: user1.account,
+      });
+      await fairTicket.write.finishProject([1n]);
+      const { weight, proof } = getWeightProof(
+        weightProofs,
+        user1.account.address
+      )!;
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.claimWeight([1n, weight, proof], {
+            account: user1.account,
+          });
+        },
+        (error: Error) => {
+          return error.message.includes("ProjectNotInProgress");
+        }
+      );
+    });
+
+    it("应该拒绝在项目开始后修改权重root", async function () {
+      const { fairTicket } = await setup();
+
+      await assert.rejects(
+        async () => {
+          await fairTicket.write.setWeightRoot([1n, weightProofs.root]);
+        },
+        (error: Error) => {
+          return error.message.includes("ProjectAlreadyStarted");
+        }
+      );
+    });
+  });
+
+  describe("加权抽票", async function () {
+    it("排序键应该等于-ln(1-score/2^256)/tickets", async function () {
+      const ONE = 1n << KEY_PRECISION;
+      const toNumber = (key: bigint) => Number((key * 10n ** 15n) / ONE) / 1e15;
+      assert.equal(computeKey(toHex(0n, { size: 32 }), 1n), 0n);
+      // score 为 2^255 时 key 为 ln(2)
+      const half = toHex(1n << 255n, { size: 32 });
+      assert.ok(Math.abs(toNumber(computeKey(half, 1n)) - Math.LN2) < 1e-12);
+      assert.ok(
+        Math.abs(toNumber(computeKey(half, 4n)) - Math.LN2 / 4) < 1e-12
+      );
+      const max = toHex((1n << 256n) - 1n, { size: 32 });
+      assert.ok(
+        Math.abs(toNumber(computeKey(max, 1n)) - 256 * Math.LN2) < 1e-9
+      );
+      assert.throws(
+        () => computeKey(half, 0n),
+        /Participant must hold at least one ticket/
+      );
+
+      // 只有一张抽票券时按 score 升序排名
+      const participants = Array.from({ length: 20 }, (_, i) => ({
+        addr: addressOf(i),
+        luckyNum: BigInt(i),
+        revealed: true,
+      }));
+      assert.deepEqual(
+        selectWinners(99n, participants, 20n).map((p) => p.addr),
+        participants
+          .map((p) => ({ addr: p.addr, score: computeScore(99n, p) }))
+          .sort((a, b) => (BigInt(a.score) < BigInt(b.score) ? -1 : 1))
+          .map((p) => p.addr)
+      );
+      // 抽票券数量很大时也只计算一次哈希
+      const [winner] = selectWinners(
+        99n,
+        [participants[0], { ...participants[1], weight: 1n << 64n }],
+        1n
+      );
+      assert.equal(winner.addr, participants[1].addr);
+      assert.equal(winner.tickets, 1n << 64n);
+    });
+
+    it("抽票券数量应该等于参与次数乘以权重", async function () {
+      assert.equal(
+        ticketCount({ addr: addressOf(0), luckyNum: 1n, revealed: true }),
+        1n
+      );
+      assert.equal(
+        ticketCount({
+          addr: addressOf(0),
+          luckyNum: 1n,
+          revealed: true,
+          entries: 2n,
+          weight: 3n,
+        }),
+        6n
+      );
+      assert.throws(
+        () =>
+          ticketCount({
+            addr: addressOf(0),
+            luckyNum: 1n,
+            revealed: true,
+            weight: 0n,
+          }),
+        /Participant must hold at least one ticket/
+      );
+    });
+
+    it("多次模拟抽票的中奖频率应该与抽票券数量成正比", async function () {
+      // 抽票券数量分别为 1 2 3 4，总计10张
+      const participants = [
+        { addr: addressOf(0), luckyNum: 11n, revealed: true },
+        { addr: addressOf(1), luckyNum: 22n, revealed: true, weight: 2n },
+        { addr: addressOf(2), luckyNum: 33n, revealed: true, entries: 3n },
+        {
+          addr: addressOf(3),
+          luckyNum: 44n,
+          revealed: true,
+          entries: 2n,
+          weight: 2n,
+        },
+      ];
+      const draws = 2000;
+      const wins = new Map(participants.map((p) => [p.addr, 0]));
+      for (let i = 1; i <= draws; i++) {
+        const magicNumber = BigInt(keccak256(toHex(`draw-${i}`)));
+        const [winner] = selectWinners(magicNumber, participants, 1n);
+        wins.set(winner.addr, wins.get(winner.addr)! + 1);
+      }
+
+      for (const participant of participants) {
+        const expected = Number(ticketCount(participant)) / 10;
+        const actual = wins.get(participant.addr)! / draws;
+        assert.ok(
+          Math.abs(actual - expected) < 0.04,
+          `${participant.addr} won ${actual}, expected ${expected}`
+        );
+      }
+    });
+
+    it("链上的参与次数和权重应该用于链下抽票", async function () {
+      const { fairTicket, vrfCoordinator } = await setup(async (fairTicket) => {
+        await fairTicket.write.setMaxEntries([1n, 2n]);
+        await fairTicket.write.setWeightRoot([1n, weightProofs.root]);
+      });
+      const entrants: [typeof user1, bigint][] = [
+        [user1, 1n],
+        [user2, 2n],
+        [user2, 2n],
+        [user3, 3n],
+      ];
+      for (const [user, luckyNum] of entrants) {
+        await fairTicket.write.participate([1n, commitmentOf(luckyNum)], {
+          account: user.account,
+        });
+      }
+      const { weight, proof } = getWeightProof(
+        weightProofs,
+        user1.account.address
+      )!;
+      await fairTicket.write.claimWeight([1n, weight, proof], {
+        account: user1.account,
+      });
+      await fairTicket.write.finishProject([1n]);
+      for (const [user, luckyNum] of [
+        [user1, 1n],
+        [user2, 2n],
+        [user3, 3n],
+      ] as const) {
+        await fairTicket.write.reveal([1n, luckyNum, SALT], {
+          account: user.account,
+        });
+      }
+      await runToLotteryDrawn(networkHelpers, fairTicket, vrfCoordinator, 1n);
+
+      const magicNumber = await fairTicket.read.getMagicNumber([1n]);
+      const expected = selectWinners(
+        magicNumber,
+        [
+          {
+            addr: getAddress(user1.account.address),
+            luckyNum: 1n,
+            revealed: true,
+            weight: 3n,
+          },
+          {
+            addr: getAddress(user2.account.address),
+            luckyNum: 2n,
+            revealed: true,
+            entries: 2n,
+          },
+          {
+            addr: getAddress(user3.account.address),
+            luckyNum: 3n,
+            revealed: true,
+          },
+        ],
+        10n
+      );
+      const winners = await drawProjectWinners(fairTicket, 1n);
+      assert.deepEqual(winners, expected);
+      assert.equal(
+        winners.find((p) => p.addr === getAddress(user1.account.address))!
+          .tickets,
+        3n
+      );
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SimpleMerkleTree } from "@openzeppelin/merkle-tree";
+import { getAddress, isAddress } from "viem";
+import type { Address, Hex } from "viem";
+import { winnerLeaf } from "./merkle.js";
+
+/**
+ * 白名单 Merkle 树
+ *
+ * 合约中白名单的叶子节点与中奖者相同，都是 keccak256(abi.encodePacked(addr))，
+ * 因此同样使用 SimpleMerkleTree 构建，通过 setAllowlistRoot 在项目开始前发布 root，
+ * 白名单中的地址参与时提交自己的 proof。
+ *
+ * 白名单CSV每行一个地址，地址必须在第一列，其余列会被忽略，
+ * 第一行不是地址时视为表头，空行和以 # 开头的行会被跳过。
+ */
+
+// AllowlistProofs 导出到JSON文件中的白名单证明
+export interface AllowlistProofs {
+  projectId: string;
+  root: Hex;
+  proofs: Record<Address, Hex[]>;
+}
+
+// 解析白名单CSV，返回校验过的地址列表
+export function parseAllowlistCsv(csv: string): Address[] {
+  const addresses: Address[] = [];
+  const seen = new Set<Address>();
+  let firstRow = true;
+  for (const [index, line] of csv.split(/\r?\n/).entries()) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) continue;
+    const column = trimmed.split(",")[0].trim();
+    const isHeader = firstRow;
+    firstRow = false;
+    if (!isAddress(column, { strict: false })) {
+      // 只有第一行可以是表头
+      if (isHeader) continue;
+      throw new Error(`Invalid address on line ${index + 1}: ${column}`);
+    }
+    const addr = getAddress(column);
+    if (seen.has(addr)) {
+      throw new Error(`Duplicate allowlist address on line ${index + 1}`);
+    }
+    seen.add(addr);
+    addresses.push(addr);
+  }
+  if (addresses.length === 0) {
+    throw new Error("Allowlist is empty");
+  }
+  return addresses;
+}
+
+// 根据白名单地址构建 Merkle 树
+export function buildAllowlistTree(
+  addresses: readonly Address[]
+): SimpleMerkleTree {
+  if (addresses.length === 0) {
+    throw new Error("Cannot build a Merkle tree without addresses");
+  }
+  const leaves = addresses.map((addr) => winnerLeaf(getAddress(addr)));
+  if (new Set(leaves).size !== leaves.length) {
+    throw new Error("Duplicate allowlist address");
+  }
+  return SimpleMerkleTree.of(leaves);
+}
+
+// 为白名单中的每个地址生成 proof
+export function exportAllowlistProofs(
+  projectId: bigint,
+  addresses: readonly Address[]
+): AllowlistProofs {
+  const tree = buildAllowlistTree(addresses);
+  const proofs: Record<Address, Hex[]> = {};
+  for (const address of addresses) {
+    const addr = getAddress(address);
+    proofs[addr] = tree.getProof(winnerLeaf(addr)) as Hex[];
+  }
+  return { projectId: projectId.toString(), root: tree.root as Hex, proofs };
+}
+
+// 查询某个地址的 proof，不在白名单中时返回 undefined
+export function getAllowlistProof(
+  allowlistProofs: AllowlistProofs,
+  addr: Address
+): Hex[] | undefined {
+  return allowlistProofs.proofs[getAddress(addr)];
+}
+
+export async function readAllowlistCsv(filePath: string): Promise<Address[]> {
+  return parseAllowlistCsv(await readFile(filePath, "utf8"));
+}
+
+export async function writeAllowlistProofs(
+  filePath: string,
+  allowlistProofs: AllowlistProofs
+): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(allowlistProofs, null, 2) + "\n");
+}
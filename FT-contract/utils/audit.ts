@@ -0,0 +1,259 @@
+import {
+  formatLog,
+  numberToHex,
+  parseAbi,
+  parseEventLogs,
+  toEventSelector,
+  zeroHash,
+} from "viem";
+import type { Address, Hex, RpcLog } from "viem";
+import {
+  blockRanges,
+  INDEXED_EVENTS_ABI,
+  materializeProjects,
+  PROJECT_STATUS_NAMES,
+  type IndexedEvent,
+  type IndexedParticipant,
+  type SyncOptions,
+} from "./indexer.js";
+import { DEFAULT_PAGE_SIZE } from "./selection.js";
+
+/**
+ * 项目审计
+ *
+ * 从合约日志中读取某个项目的全部事件，按时间顺序整理成时间线，
+ * 再用索引器相同的规则重放事件得到项目状态，与 getter 读取到的链上状态逐项比较。
+ * 日志与索引器一样按区块范围分批读取，并在节点端按 indexed 的 projectId 过滤。
+ * 项目状态比较的是合约中保存的状态，而不是 getProjectStatus 根据当前时间推导出的状态，
+ * 到达 startTime 但还没有人参与的项目在日志和存储中都仍然是 NotStart。
+ * 设置了档位的项目还会比较每个档位的配置以及参与者选择的档位。
+ * 两者不一致说明某个写函数修改了状态却没有触发对应的事件，或者事件参数有误。
+ */
+
+// 审计时读取的事件 除了索引器使用的事件外还包括与项目相关的配置和资金事件
+// 所有事件的第一个 indexed 参数都是 projectId
+export const AUDIT_EVENTS_ABI = [
+  ...INDEXED_EVENTS_ABI,
+  ...parseAbi([
+    "event ParticipantsImported(uint256 indexed projectId, uint256 imported)",
+    "event RandomnessRequested(uint256 indexed projectId, uint256 indexed requestId)",
+    "event RandomnessRequestCancelled(uint256 indexed projectId, uint256 indexed requestId)",
+    "event TicketClaimed(uint256 indexed projectId, address indexed addr)",
+    "event DepositRefunded(uint256 indexed projectId, address indexed addr, uint256 amount)",
+    "event EntryFeeSet(uint256 indexed projectId, address indexed token, uint256 price)",
+    "event MaxEntriesSet(uint256 indexed projectId, uint256 maxEntries)",
+    "event AllowlistRootSet(uint256 indexed projectId, bytes32 allowlistRoot)",
+    "event WeightRootSet(uint256 indexed projectId, bytes32 weightRoot)",
+    "event ProjectOwnershipTransferred(uint256 indexed projectId, address indexed previousOwner, address indexed newOwner)",
+  ]),
+] as const;
+
+// AuditDiff 日志与 getter 不一致的字段
+export interface AuditDiff {
+  field: string;
+  fromLogs: unknown;
+  fromGetters: unknown;
+}
+
+// 审计只依赖以下 viem PublicClient 的方法
+// getContractEvents 不能同时按多种事件和参数过滤，因此直接调用 eth_getLogs 并指定 topics
+export interface AuditClient {
+  getBlockNumber(): Promise<bigint>;
+  request(args: {
+    method: "eth_getLogs";
+    params: [
+      {
+        address: Address;
+        topics: (Hex | Hex[] | null)[];
+        fromBlock: Hex;
+        toBlock: Hex;
+      },
+    ];
+  }): Promise<RpcLog[]>;
+}
+
+// 审计需要读取的 getter
+export interface AuditReader {
+  read: {
+    getProjectInfo(args: readonly [bigint]): Promise<{
+      fingerprint: Hex;
+      projectStatus: number;
+      merkleRoot: Hex;
+      tierCount: bigint;
+    }>;
+    getMagicNumber(args: readonly [bigint]): Promise<bigint>;
+    getClaimedAmount(args: readonly [bigint]): Promise<bigint>;
+    getProjectParticipantsAmount(args: readonly [bigint]): Promise<bigint>;
+    getProjectParticipants(
+      args: readonly [bigint, bigint, bigint]
+    ): Promise<readonly IndexedParticipant[]>;
+    s_projectid_tiers(
+      args: readonly [bigint, bigint]
+    ): Promise<readonly [Hex, bigint, bigint, bigint, Hex]>;
+  };
+}
+
+// 读取项目的全部事件，按 (blockNumber, logIndex) 排序
+// options.toBlock 默认为最新区块，options.batchSize 为每次 eth_getLogs 查询的区块数量
+export async function fetchProjectTimeline(
+  client: AuditClient,
+  address: Address,
+  projectId: bigint,
+  fromBlock: bigint = 0n,
+  options: SyncOptions = {}
+): Promise<IndexedEvent[]> {
+  const toBlock = options.toBlock ?? (await client.getBlockNumber());
+  const topics = [
+    AUDIT_EVENTS_ABI.map((event) => toEventSelector(event)),
+    numberToHex(projectId, { size: 32 }),
+  ];
+  const timeline: IndexedEvent[] = [];
+  for (const range of blockRanges(fromBlock, toBlock, options.batchSize)) {
+    const logs = await client.request({
+      method: "eth_getLogs",
+      params: [
+        {
+          address,
+          topics,
+          fromBlock: numberToHex(range.fromBlock),
+          toBlock: numberToHex(range.toBlock),
+        },
+      ],
+    });
+    const events = parseEventLogs({
+      abi: AUDIT_EVENTS_ABI,
+      logs: logs.map((log) => formatLog(log)),
+    });
+    for (const log of events) {
+      if (
+        log.blockNumber === null ||
+        log.blockHash === null ||
+        log.logIndex === null ||
+        log.transactionHash === null
+      ) {
+        continue;
+      }
+      timeline.push({
+        eventName: log.eventName,
+        args: log.args as Record<string, unknown>,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+      });
+    }
+  }
+  return timeline.sort((a, b) =>
+    a.blockNumber !== b.blockNumber
+      ? a.blockNumber < b.blockNumber
+        ? -1
+        : 1
+      : a.logIndex - b.logIndex
+  );
+}
+
+// 将时间线格式化为便于阅读的文本，每个事件一行
+export function formatTimeline(timeline: readonly IndexedEvent[]): string[] {
+  return timeline.map((event) => {
+    const args = Object.entries(event.args)
+      .filter(([name]) => name !== "projectId")
+      .map(([name, value]) => `${name}=${String(value)}`)
+      .join(" ");
+    return `block ${event.blockNumber} #${event.logIndex} ${event.eventName} ${args}`.trimEnd();
+  });
+}
+
+// 分页读取项目的全部参与者
+async function readParticipants(
+  fairTicket: AuditReader,
+  projectId: bigint
+): Promise<IndexedParticipant[]> {
+  const total = await fairTicket.read.getProjectParticipantsAmount([projectId]);
+  const participants: IndexedParticipant[] = [];
+  for (let offset = 0n; offset < total; offset += DEFAULT_PAGE_SIZE) {
+    participants.push(
+      ...(await fairTicket.read.getProjectParticipants([
+        projectId,
+        offset,
+        DEFAULT_PAGE_SIZE,
+      ]))
+    );
+  }
+  return participants;
+}
+
+// 比较日志重放得到的项目状态与 getter 读取的状态，返回全部不一致的字段
+export async function auditProject(
+  fairTicket: AuditReader,
+  projectId: bigint,
+  timeline: readonly IndexedEvent[]
+): Promise<AuditDiff[]> {
+  const [info, magicNumber, claimedAmount, participants] = await Promise.all([
+    fairTicket.read.getProjectInfo([projectId]),
+    fairTicket.read.getMagicNumber([projectId]),
+    fairTicket.read.getClaimedAmount([projectId]),
+    readParticipants(fairTicket, projectId),
+  ]);
+
+  const project = materializeProjects(timeline).get(projectId);
+  if (project === undefined) {
+    return [{ field: "project", fromLogs: null, fromGetters: info }];
+  }
+
+  const diffs: AuditDiff[] = [];
+  const compare = (field: string, fromLogs: unknown, fromGetters: unknown) => {
+    if (fromLogs !== fromGetters) {
+      diffs.push({ field, fromLogs, fromGetters });
+    }
+  };
+  compare("fingerprint", project.fingerprint, info.fingerprint);
+  compare("status", project.status, PROJECT_STATUS_NAMES[info.projectStatus]);
+  compare("magicNumber", project.magicNumber, magicNumber);
+  compare(
+    "merkleRoot",
+    project.merkleRoot,
+    info.merkleRoot === zeroHash ? null : info.merkleRoot
+  );
+  compare(
+    "claimedAmount",
+    BigInt(timeline.filter((e) => e.eventName === "TicketClaimed").length),
+    claimedAmount
+  );
+  compare(
+    "participants.length",
+    project.participants.length,
+    participants.length
+  );
+  compare("tiers.length", BigInt(project.tiers.length), info.tierCount);
+  for (const [i, fromLogs] of project.tiers.entries()) {
+    if (BigInt(i) >= info.tierCount) break;
+    const [nameHash, supply, price] = await fairTicket.read.s_projectid_tiers([
+      projectId,
+      BigInt(i),
+    ]);
+    compare(`tiers[${i}].nameHash`, fromLogs.nameHash, nameHash);
+    compare(`tiers[${i}].supply`, fromLogs.supply, supply);
+    compare(`tiers[${i}].price`, fromLogs.price, price);
+  }
+  const fields = [
+    "addr",
+    "commitment",
+    "entries",
+    "weight",
+    "luckyNum",
+    "revealed",
+    "tier",
+  ] as const;
+  for (const [i, fromLogs] of project.participants.entries()) {
+    const fromGetters = participants[i];
+    if (fromGetters === undefined) break;
+    for (const field of fields) {
+      compare(
+        `participants[${i}].${field}`,
+        fromLogs[field],
+        fromGetters[field]
+      );
+    }
+  }
+  return diffs;
+}
@@ -0,0 +1,949 @@
+import type { ArtifactMap } from "hardhat/types/artifacts";
+import { parseEventLogs, zeroAddress, zeroHash } from "viem";
+import type {
+  Account,
+  Address,
+  Chain,
+  ContractEventName,
+  GetContractEventsReturnType,
+  GetContractReturnType,
+  Hex,
+  PublicClient,
+  TransactionReceipt,
+  Transport,
+  WalletClient,
+} from "viem";
+import { toFairTicketError } from "./errors.js";
+import {
+  blockRanges,
+  PROJECT_STATUS_NAMES,
+  type ProjectStatusName,
+} from "./indexer.js";
+import { DEFAULT_PAGE_SIZE } from "./selection.js";
+import type { SignedParticipation } from "./signature.js";
+
+/**
+ * FairTicket 合约的 TypeScript 客户端
+ *
+ * 在 viem 合约实例之上提供带类型的生命周期调用和 getter：
+ * 项目状态使用 PROJECT_STATUS_NAMES 中的名称，参与者自动分页读取，
+ * 合约的自定义错误转换为 FairTicketError，写函数等待交易确认后返回。
+ * hardhat-viem 的 viem.getContractAt / deployContract 返回的合约实例以及 viem 的 getContract 都可以直接传入。
+ */
+
+export type FairTicketAbi = ArtifactMap["FairTicket"]["abi"];
+
+export type FairTicketPublicClient = PublicClient<Transport, Chain>;
+
+export type FairTicketContract = GetContractReturnType<
+  FairTicketAbi,
+  {
+    public: FairTicketPublicClient;
+    wallet: WalletClient<Transport, Chain, Account>;
+  }
+>;
+
+export type FairTicketEventName = ContractEventName<FairTicketAbi>;
+
+// FairTicketEvent 解码后的合约事件日志
+export type FairTicketEvent<NameT extends FairTicketEventName> =
+  GetContractEventsReturnType<FairTicketAbi, NameT, true>[number];
+
+// ProjectInfo 项目信息 状态使用名称表示，未设置的 merkleRoot 为 null
+export interface ProjectInfo {
+  id: bigint;
+  fingerprint: Hex;
+  owner: Address;
+  totalSupply: bigint;
+  status: ProjectStatusName;
+  merkleRoot: Hex | null;
+  revealDeadline: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  // tierCount 门票档位数量 为0时项目没有设置档位
+  tierCount: bigint;
+}
+
+// TierInfo 门票档位 未发布的 merkleRoot 为 null
+export interface TierInfo {
+  tier: bigint;
+  nameHash: Hex;
+  supply: bigint;
+  price: bigint;
+  claimed: bigint;
+  merkleRoot: Hex | null;
+}
+
+// NewTier 添加档位的参数 price 未指定时使用项目 EntryFee 的 price
+export interface NewTier {
+  nameHash: Hex;
+  supply: bigint;
+  price?: bigint;
+}
+
+// LotteryRoundInfo 一轮抽奖的结果 未发布的 merkleRoot 为 null
+export interface LotteryRoundInfo {
+  round: bigint;
+  magicNumber: bigint;
+  supply: bigint;
+  merkleRoot: Hex | null;
+  claimDeadline: bigint;
+}
+
+export type ParticipantInfo = Awaited<
+  ReturnType<FairTicketContract["read"]["getParticipantInfo"]>
+>;
+
+// ProjectStruct 合约返回的 Project 结构体
+type ProjectStruct = Awaited<
+  ReturnType<FairTicketContract["read"]["getProjectInfo"]>
+>;
+
+// NewProject 创建项目的参数 startTime 和 endTime 未指定时需要手动开始和结束
+export interface NewProject {
+  fingerprint: Hex;
+  owner: Address;
+  totalSupply: bigint;
+  startTime?: bigint;
+  endTime?: bigint;
+}
+
+export interface EventFilter {
+  // 只返回该项目的事件
+  projectId?: bigint;
+  fromBlock?: bigint;
+  // 默认为最新区块
+  toBlock?: bigint;
+  // 每次查询日志的区块数量 默认为 DEFAULT_SYNC_BATCH_SIZE
+  batchSize?: bigint;
+}
+
+export interface WatchOptions {
+  projectId?: bigint;
+  pollingInterval?: number;
+}
+
+export interface WaitOptions extends WatchOptions {
+  // 等待的毫秒数 超时后取消订阅并 reject
+  timeout?: number;
+  // 中止后取消订阅并以 signal.reason reject
+  signal?: AbortSignal;
+}
+
+export interface FairTicketClientOptions {
+  contract: FairTicketContract;
+  publicClient: FairTicketPublicClient;
+  // 发送交易的账户 未指定时使用合约实例的 wallet client 的默认账户
+  account?: Account;
+}
+
+export class FairTicketClient {
+  readonly contract: FairTicketContract;
+  readonly publicClient: FairTicketPublicClient;
+  readonly account: Account | undefined;
+
+  constructor({ contract, publicClient, account }: FairTicketClientOptions) {
+    this.contract = contract;
+    this.publicClient = publicClient;
+    this.account = account;
+  }
+
+  get address(): Address {
+    return this.contract.address;
+  }
+
+  // 返回使用另一个账户发送交易的客户端
+  connect(account: Account | { account: Account }): FairTicketClient {
+    return new FairTicketClient({
+      contract: this.contract,
+      publicClient: this.publicClient,
+      account: "account" in account ? account.account : account,
+    });
+  }
+
+  //// 项目生命周期 ////
+
+  // 创建项目并返回项目id
+  async createProject(project: NewProject): Promise<bigint> {
+    const { fingerprint, owner, totalSupply, startTime, endTime } = project;
+    const receipt = await this.send(() =>
+      startTime === undefined && endTime === undefined
+        ? this.contract.write.createProject(
+            [fingerprint, owner, totalSupply],
+            this.options()
+          )
+        : this.contract.write.createProject(
+            [fingerprint, owner, totalSupply, startTime ?? 0n, endTime ?? 0n],
+            this.options()
+          )
+    );
+    return this.projectIdsCreated(receipt)[0];
+  }
+
+  // 批量创建项目 返回的项目id与传入的顺序一致
+  async createProjects(projects: readonly NewProject[]): Promise<bigint[]> {
+    const receipt = await this.send(() =>
+      this.contract.write.createProjects(
+        [
+          projects.map((p) => p.fingerprint),
+          projects.map((p) => p.owner),
+          projects.map((p) => p.totalSupply),
+        ],
+        this.options()
+      )
+    );
+    return this.projectIdsCreated(receipt);
+  }
+
+  startProject(projectId: bigint): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.startProject([projectId], this.options())
+    );
+  }
+
+  finishProject(projectId: bigint): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.finishProject([projectId], this.options())
+    );
+  }
+
+  finalize(projectId: bigint): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.finalize([projectId], this.options())
+    );
+  }
+
+  // 取消未开始或进行中的项目 reason 记录在 ProjectCancelled 事件中
+  cancelProject(
+    projectId: bigint,
+    reason: string
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.cancelProject([projectId, reason], this.options())
+    );
+  }
+
+  // 参与项目 项目设置了白名单时需要传入 proof，设置了 ETH 参与费用时需要传入 value
+  // 项目设置了档位时通过 tier 选择参与的档位，未指定时参与第0个档位
+  participate(
+    projectId: bigint,
+    commitment: Hex,
+    {
+      proof,
+      value,
+      tier,
+    }: { proof?: readonly Hex[]; value?: bigint; tier?: bigint } = {}
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      tier !== undefined
+        ? this.contract.write.participate(
+            [projectId, tier, commitment, proof ?? []],
+            this.payableOptions(value)
+          )
+        : proof === undefined
+          ? this.contract.write.participate(
+              [projectId, commitment],
+              this.payableOptions(value)
+            )
+          : this.contract.write.participate(
+              [projectId, commitment, proof],
+              this.payableOptions(value)
+            )
+    );
+  }
+
+  // 使用参与者的签名代为参与 签名选择了档位时使用带档位的重载
+  participateWithSig(
+    entry: SignedParticipation,
+    { proof, value }: { proof?: readonly Hex[]; value?: bigint } = {}
+  ): Promise<TransactionReceipt> {
+    if (entry.tier !== 0n) {
+      return this.send(() =>
+        this.contract.write.participateWithSig(
+          [
+            entry.projectId,
+            entry.participant,
+            entry.tier,
+            entry.commitment,
+            entry.deadline,
+            entry.signature,
+            proof ?? [],
+          ],
+          this.payableOptions(value)
+        )
+      );
+    }
+    const args = [
+      entry.projectId,
+      entry.participant,
+      entry.commitment,
+      entry.deadline,
+      entry.signature,
+    ] as const;
+    return this.send(() =>
+      proof === undefined
+        ? this.contract.write.participateWithSig(
+            args,
+            this.payableOptions(value)
+          )
+        : this.contract.write.participateWithSig(
+            [...args, proof],
+            this.payableOptions(value)
+          )
+    );
+  }
+
+  // 批量导入参与者 返回实际导入的数量，已经参与过的地址会被跳过
+  // 有任何一行指定了 tier 时按档位导入，未指定 tier 的行导入到第0个档位
+  async importParticipants(
+    projectId: bigint,
+    rows: readonly { addr: Address; commitment: Hex; tier?: bigint }[]
+  ): Promise<bigint> {
+    const addrs = rows.map((r) => r.addr);
+    const commitments = rows.map((r) => r.commitment);
+    const receipt = await this.send(() =>
+      rows.some((r) => r.tier !== undefined)
+        ? this.contract.write.importParticipants(
+            [projectId, addrs, rows.map((r) => r.tier ?? 0n), commitments],
+            this.options()
+          )
+        : this.contract.write.importParticipants(
+            [projectId, addrs, commitments],
+            this.options()
+          )
+    );
+    const [imported] = this.eventsIn(receipt, "ParticipantsImported");
+    return imported.args.imported;
+  }
+
+  claimWeight(
+    projectId: bigint,
+    weight: bigint,
+    proof: readonly Hex[]
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.claimWeight(
+        [projectId, weight, proof],
+        this.options()
+      )
+    );
+  }
+
+  reveal(
+    projectId: bigint,
+    luckyNum: bigint,
+    salt: Hex
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.reveal([projectId, luckyNum, salt], this.options())
+    );
+  }
+
+  // 请求随机数进行抽奖 返回 VRF 请求id
+  async lottery(projectId: bigint): Promise<bigint> {
+    const receipt = await this.send(() =>
+      this.contract.write.lottery([projectId], this.options())
+    );
+    const [requested] = this.eventsIn(receipt, "RandomnessRequested");
+    return requested.args.requestId;
+  }
+
+  // 领取截止时间之后为没有被领取的门票开始新一轮抽奖 返回 VRF 请求id
+  async drawNextRound(projectId: bigint): Promise<bigint> {
+    const receipt = await this.send(() =>
+      this.contract.write.drawNextRound([projectId], this.options())
+    );
+    const [requested] = this.eventsIn(receipt, "RandomnessRequested");
+    return requested.args.requestId;
+  }
+
+  // 管理员取消超过 VRF_REQUEST_TIMEOUT 仍没有回调的随机数请求 之后可以重新调用 lottery 或 drawNextRound
+  cancelRandomnessRequest(projectId: bigint): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.cancelRandomnessRequest([projectId], this.options())
+    );
+  }
+
+  setMerkleRoot(
+    projectId: bigint,
+    merkleRoot: Hex
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.SetMerkleRoot([projectId, merkleRoot], this.options())
+    );
+  }
+
+  // 发布每个档位中奖者的 merkleRoot 没有中奖者的档位传入 null
+  setTierMerkleRoots(
+    projectId: bigint,
+    merkleRoots: readonly (Hex | null)[]
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.setTierMerkleRoots(
+        [projectId, merkleRoots.map((root) => root ?? zeroHash)],
+        this.options()
+      )
+    );
+  }
+
+  claimTicket(
+    projectId: bigint,
+    proof: readonly Hex[]
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.claimTicket([projectId, proof], this.options())
+    );
+  }
+
+  refund(projectId: bigint): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.refund([projectId], this.options())
+    );
+  }
+
+  // 提取余额 token 为零地址时提取 ETH
+  withdraw(token: Address = zeroAddress): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.withdraw([token], this.options())
+    );
+  }
+
+  //// 项目配置 ////
+
+  setEntryFee(
+    projectId: bigint,
+    token: Address,
+    price: bigint
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.setEntryFee([projectId, token, price], this.options())
+    );
+  }
+
+  setMaxEntries(
+    projectId: bigint,
+    maxEntries: bigint
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.setMaxEntries([projectId, maxEntries], this.options())
+    );
+  }
+
+  // 添加门票档位并返回档位编号 第一个档位的 supply 会替换项目的 totalSupply，之后的档位累加到 totalSupply
+  async addTier(projectId: bigint, tier: NewTier): Promise<bigint> {
+    const receipt = await this.send(() =>
+      this.contract.write.addTier(
+        [projectId, tier.nameHash, tier.supply, tier.price ?? 0n],
+        this.options()
+      )
+    );
+    const [added] = this.eventsIn(receipt, "TierAdded");
+    return added.args.tier;
+  }
+
+  setAllowlistRoot(projectId: bigint, root: Hex): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.setAllowlistRoot([projectId, root], this.options())
+    );
+  }
+
+  setWeightRoot(projectId: bigint, root: Hex): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.setWeightRoot([projectId, root], this.options())
+    );
+  }
+
+  transferProjectOwnership(
+    projectId: bigint,
+    newOwner: Address
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.transferProjectOwnership(
+        [projectId, newOwner],
+        this.options()
+      )
+    );
+  }
+
+  grantProjectOperator(
+    projectId: bigint,
+    operator: Address
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.grantProjectOperator(
+        [projectId, operator],
+        this.options()
+      )
+    );
+  }
+
+  revokeProjectOperator(
+    projectId: bigint,
+    operator: Address
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.revokeProjectOperator(
+        [projectId, operator],
+        this.options()
+      )
+    );
+  }
+
+  //// 平台配置 ////
+
+  setRevealDuration(duration: bigint): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.setRevealDuration([duration], this.options())
+    );
+  }
+
+  setClaimDuration(duration: bigint): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.setClaimDuration([duration], this.options())
+    );
+  }
+
+  setVRFConfig(
+    coordinator: Address,
+    keyHash: Hex,
+    subscriptionId: bigint
+  ): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.setVRFConfig(
+        [coordinator, keyHash, subscriptionId],
+        this.options()
+      )
+    );
+  }
+
+  setTicketNFT(ticketNFT: Address): Promise<TransactionReceipt> {
+    return this.send(() =>
+      this.contract.write.setTicketNFT([ticketNFT], this.options())
+    );
+  }
+
+  pause(): Promise<TransactionReceipt> {
+    return this.send(() => this.contract.write.pause(this.options()));
+  }
+
+  unpause(): Promise<TransactionReceipt> {
+    return this.send(() => this.contract.write.unpause(this.options()));
+  }
+
+  //// Getters ////
+
+  // 读取项目信息 项目不存在时返回 undefined
+  async getProject(projectId: bigint): Promise<ProjectInfo | undefined> {
+    const [info, status] = await Promise.all([
+      this.read(() => this.contract.read.getProjectInfo([projectId])),
+      this.getProjectStatus(projectId),
+    ]);
+    if (info.id === 0n) return undefined;
+    return this.toProjectInfo(info, status);
+  }
+
+  // 根据 fingerprint 读取项目信息 没有对应的项目时返回 undefined
+  async getProjectByFingerprint(
+    fingerprint: Hex
+  ): Promise<ProjectInfo | undefined> {
+    const projectId = await this.read(() =>
+      this.contract.read.getProjectByFingerprint([fingerprint])
+    );
+    return projectId === 0n ? undefined : this.getProject(projectId);
+  }
+
+  getProjectCount(): Promise<bigint> {
+    return this.read(() => this.contract.read.getProjectCount());
+  }
+
+  // 按创建顺序逐页读取项目
+  async *iterateProjects(
+    pageSize: bigint = DEFAULT_PAGE_SIZE
+  ): AsyncGenerator<ProjectInfo[]> {
+    if (pageSize <= 0n) {
+      throw new Error("Page size must be greater than zero");
+    }
+    const total = await this.getProjectCount();
+    for (let offset = 0n; offset < total; offset += pageSize) {
+      const page = await this.read(() =>
+        this.contract.read.getProjects([offset, pageSize])
+      );
+      yield await Promise.all(
+        page.map(async (info) =>
+          this.toProjectInfo(info, await this.getProjectStatus(info.id))
+        )
+      );
+    }
+  }
+
+  // 读取全部项目
+  async getProjects(
+    pageSize: bigint = DEFAULT_PAGE_SIZE
+  ): Promise<ProjectInfo[]> {
+    const projects: ProjectInfo[] = [];
+    for await (const page of this.iterateProjects(pageSize)) {
+      projects.push(...page);
+    }
+    return projects;
+  }
+
+  async getProjectStatus(projectId: bigint): Promise<ProjectStatusName> {
+    const status = await this.read(() =>
+      this.contract.read.getProjectStatus([projectId])
+    );
+    return PROJECT_STATUS_NAMES[status];
+  }
+
+  // 读取参与者信息 地址没有参与项目时返回 undefined
+  async getParticipant(
+    projectId: bigint,
+    addr: Address
+  ): Promise<ParticipantInfo | undefined> {
+    const participant = await this.read(() =>
+      this.contract.read.getParticipantInfo([projectId, addr])
+    );
+    return participant.addr === zeroAddress ? undefined : participant;
+  }
+
+  getParticipantCount(projectId: bigint): Promise<bigint> {
+    return this.read(() =>
+      this.contract.read.getProjectParticipantsAmount([projectId])
+    );
+  }
+
+  // 按参与顺序逐页读取参与者
+  async *iterateParticipants(
+    projectId: bigint,
+    pageSize: bigint = DEFAULT_PAGE_SIZE
+  ): AsyncGenerator<readonly ParticipantInfo[]> {
+    if (pageSize <= 0n) {
+      throw new Error("Page size must be greater than zero");
+    }
+    const total = await this.getParticipantCount(projectId);
+    for (let offset = 0n; offset < total; offset += pageSize) {
+      yield await this.read(() =>
+        this.contract.read.getProjectParticipants([projectId, offset, pageSize])
+      );
+    }
+  }
+
+  // 读取项目的全部参与者
+  async getParticipants(
+    projectId: bigint,
+    pageSize: bigint = DEFAULT_PAGE_SIZE
+  ): Promise<ParticipantInfo[]> {
+    const participants: ParticipantInfo[] = [];
+    for await (const page of this.iterateParticipants(projectId, pageSize)) {
+      participants.push(...page);
+    }
+    return participants;
+  }
+
+  // 读取门票档位 档位不存在时返回 undefined
+  async getTier(
+    projectId: bigint,
+    tier: bigint
+  ): Promise<TierInfo | undefined> {
+    const { tierCount } = await this.read(() =>
+      this.contract.read.getProjectInfo([projectId])
+    );
+    if (tier >= tierCount) return undefined;
+    return this.readTier(projectId, tier);
+  }
+
+  // 读取项目的全部门票档位 没有设置档位时返回空数组
+  async getTiers(projectId: bigint): Promise<TierInfo[]> {
+    const { tierCount } = await this.read(() =>
+      this.contract.read.getProjectInfo([projectId])
+    );
+    const tiers: TierInfo[] = [];
+    for (let tier = 0n; tier < tierCount; tier++) {
+      tiers.push(await this.readTier(projectId, tier));
+    }
+    return tiers;
+  }
+
+  // 读取参与者选择的档位 项目没有设置档位或地址没有参与时返回0
+  getParticipantTier(projectId: bigint, addr: Address): Promise<bigint> {
+    return this.read(() =>
+      this.contract.read.getParticipantTier([projectId, addr])
+    );
+  }
+
+  // 读取抽奖得到的 magicNumber 未抽奖时返回 null
+  async getMagicNumber(projectId: bigint): Promise<bigint | null> {
+    const magicNumber = await this.read(() =>
+      this.contract.read.getMagicNumber([projectId])
+    );
+    return magicNumber === 0n ? null : magicNumber;
+  }
+
+  getRoundCount(projectId: bigint): Promise<bigint> {
+    return this.read(() => this.contract.read.getRoundCount([projectId]));
+  }
+
+  // 读取第 round 轮的抽奖结果 轮次从1开始，该轮还没有抽奖时返回 undefined
+  async getLotteryRound(
+    projectId: bigint,
+    round: bigint
+  ): Promise<LotteryRoundInfo | undefined> {
+    if (round === 0n || round > (await this.getRoundCount(projectId))) {
+      return undefined;
+    }
+    return this.readLotteryRound(projectId, round);
+  }
+
+  // 读取项目全部轮次的抽奖结果
+  async getLotteryRounds(projectId: bigint): Promise<LotteryRoundInfo[]> {
+    const count = await this.getRoundCount(projectId);
+    const rounds: LotteryRoundInfo[] = [];
+    for (let round = 1n; round <= count; round++) {
+      rounds.push(await this.readLotteryRound(projectId, round));
+    }
+    return rounds;
+  }
+
+  // 读取等待回调的 VRF 请求id 没有等待中的请求时返回 null
+  async getPendingRequestId(projectId: bigint): Promise<bigint | null> {
+    const requestId = await this.read(() =>
+      this.contract.read.getPendingRequestId([projectId])
+    );
+    return requestId === 0n ? null : requestId;
+  }
+
+  getMaxEntries(projectId: bigint): Promise<bigint> {
+    return this.read(() => this.contract.read.getMaxEntries([projectId]));
+  }
+
+  getEntryFee(projectId: bigint): Promise<{ token: Address; price: bigint }> {
+    return this.read(() => this.contract.read.getEntryFee([projectId]));
+  }
+
+  getDeposit(projectId: bigint, addr: Address): Promise<bigint> {
+    return this.read(() => this.contract.read.getDeposit([projectId, addr]));
+  }
+
+  getBalance(addr: Address, token: Address = zeroAddress): Promise<bigint> {
+    return this.read(() => this.contract.read.getBalance([addr, token]));
+  }
+
+  getClaimedAmount(projectId: bigint): Promise<bigint> {
+    return this.read(() => this.contract.read.getClaimedAmount([projectId]));
+  }
+
+  hasClaimed(projectId: bigint, addr: Address): Promise<boolean> {
+    return this.read(() => this.contract.read.hasClaimed([projectId, addr]));
+  }
+
+  isProjectManager(projectId: bigint, addr: Address): Promise<boolean> {
+    return this.read(() =>
+      this.contract.read.isProjectManager([projectId, addr])
+    );
+  }
+
+  isProjectOperator(projectId: bigint, addr: Address): Promise<boolean> {
+    return this.read(() =>
+      this.contract.read.isProjectOperator([projectId, addr])
+    );
+  }
+
+  nonces(addr: Address): Promise<bigint> {
+    return this.read(() => this.contract.read.nonces([addr]));
+  }
+
+  paused(): Promise<boolean> {
+    return this.read(() => this.contract.read.paused());
+  }
+
+  //// 事件 ////
+
+  // 解码交易回执中的事件
+  eventsIn<NameT extends FairTicketEventName>(
+    receipt: TransactionReceipt,
+    eventName: NameT
+  ): FairTicketEvent<NameT>[] {
+    return parseEventLogs({
+      abi: this.contract.abi,
+      logs: receipt.logs,
+      eventName,
+    }) as unknown as FairTicketEvent<NameT>[];
+  }
+
+  // 读取历史事件 按区块范围分批查询，按区块和日志顺序排列
+  async getEvents<NameT extends FairTicketEventName>(
+    eventName: NameT,
+    { projectId, fromBlock = 0n, toBlock, batchSize }: EventFilter = {}
+  ): Promise<FairTicketEvent<NameT>[]> {
+    const latest = toBlock ?? (await this.publicClient.getBlockNumber());
+    const events: FairTicketEvent<NameT>[] = [];
+    for (const range of blockRanges(fromBlock, latest, batchSize)) {
+      const logs = await this.publicClient.getContractEvents({
+        address: this.address,
+        abi: this.contract.abi,
+        eventName,
+        ...range,
+        strict: true,
+      });
+      events.push(...logs.filter((log) => matchesProject(log, projectId)));
+    }
+    return events;
+  }
+
+  // 订阅新的事件 返回取消订阅的函数
+  watchEvents<NameT extends FairTicketEventName>(
+    eventName: NameT,
+    onEvents: (events: FairTicketEvent<NameT>[]) => void,
+    { projectId, pollingInterval }: WatchOptions = {}
+  ): () => void {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi: this.contract.abi,
+      eventName,
+      pollingInterval,
+      strict: true,
+      onLogs: (logs) => {
+        const events = (logs as unknown as FairTicketEvent<NameT>[]).filter(
+          (log) => matchesProject(log, projectId)
+        );
+        if (events.length > 0) onEvents(events);
+      },
+    });
+  }
+
+  // 等待下一个满足条件的事件 例如等待 VRF 回调写入 magicNumber 的 MagicNumberPublished
+  // 指定 timeout 或 signal 时，超时或中止后取消订阅并 reject
+  waitForEvent<NameT extends FairTicketEventName>(
+    eventName: NameT,
+    { timeout, signal, ...options }: WaitOptions = {}
+  ): Promise<FairTicketEvent<NameT>> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const stop = () => {
+        unwatch();
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        stop();
+        reject(signal!.reason);
+      };
+      const unwatch = this.watchEvents(
+        eventName,
+        (events) => {
+          stop();
+          resolve(events[0]);
+        },
+        options
+      );
+      const timer =
+        timeout === undefined
+          ? undefined
+          : setTimeout(() => {
+              stop();
+              reject(
+                new Error(
+                  `Timed out after ${timeout}ms waiting for ${eventName}`
+                )
+              );
+            }, timeout);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  //// 内部函数 ////
+
+  private options() {
+    return { account: this.account };
+  }
+
+  private payableOptions(value: bigint | undefined) {
+    return { account: this.account, value };
+  }
+
+  // 发送交易并等待确认 合约的自定义错误转换为 FairTicketError
+  private async send(write: () => Promise<Hex>): Promise<TransactionReceipt> {
+    const hash = await this.read(write);
+    const receipt = await this.publicClient.waitForTransactionReceipt({
+      hash,
+    });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return receipt;
+  }
+
+  private async read<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw toFairTicketError(error) ?? error;
+    }
+  }
+
+  private toProjectInfo(
+    info: ProjectStruct,
+    status: ProjectStatusName
+  ): ProjectInfo {
+    return {
+      id: info.id,
+      fingerprint: info.fingerprint,
+      owner: info.owner,
+      totalSupply: info.totalSupply,
+      status,
+      merkleRoot: info.merkleRoot === zeroHash ? null : info.merkleRoot,
+      revealDeadline: info.revealDeadline,
+      startTime: info.startTime,
+      endTime: info.endTime,
+      tierCount: info.tierCount,
+    };
+  }
+
+  private async readLotteryRound(
+    projectId: bigint,
+    round: bigint
+  ): Promise<LotteryRoundInfo> {
+    const result = await this.read(() =>
+      this.contract.read.getLotteryRound([projectId, round])
+    );
+    return {
+      round,
+      magicNumber: result.magicNumber,
+      supply: result.supply,
+      merkleRoot: result.merkleRoot === zeroHash ? null : result.merkleRoot,
+      claimDeadline: result.claimDeadline,
+    };
+  }
+
+  private async readTier(projectId: bigint, tier: bigint): Promise<TierInfo> {
+    const [nameHash, supply, price, claimed, merkleRoot] = await this.read(() =>
+      this.contract.read.s_projectid_tiers([projectId, tier])
+    );
+    return {
+      tier,
+      nameHash,
+      supply,
+      price,
+      claimed,
+      merkleRoot: merkleRoot === zeroHash ? null : merkleRoot,
+    };
+  }
+
+  private projectIdsCreated(receipt: TransactionReceipt): bigint[] {
+    return this.eventsIn(receipt, "ProjectCreated").map(
+      (log) => log.args.projectId
+    );
+  }
+}
+
+function matchesProject(
+  log: { args: unknown },
+  projectId: bigint | undefined
+): boolean {
+  return (
+    projectId === undefined ||
+    (log.args as { projectId?: bigint }).projectId === projectId
+  );
+}
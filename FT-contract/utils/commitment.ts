@@ -0,0 +1,102 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { bytesToBigInt, encodePacked, getAddress, keccak256, toHex } from "viem";
+import type { Address, Hex } from "viem";
+
+/**
+ * 幸运数字的承诺与公布
+ *
+ * 参与时只向合约提交 commitment = keccak256(abi.encodePacked(uint256 luckyNum, bytes32 salt))，
+ * 项目结束后再调用 reveal(projectId, luckyNum, salt) 公布。salt 必须保密并妥善保存，丢失后将无法公布，
+ * 也就无法参与抽票，因此这里同时提供了将承诺保存到本地JSON文件的函数。
+ */
+
+// Commitment 一次参与对应的承诺以及公布时需要的数据
+export interface Commitment {
+  luckyNum: bigint;
+  salt: Hex;
+  commitment: Hex;
+}
+
+// CommitmentRecord 保存在文件中的承诺记录
+export interface CommitmentRecord extends Commitment {
+  projectId: bigint;
+  addr: Address;
+}
+
+// 计算承诺，与合约中的 keccak256(abi.encodePacked(_luckyNum, _salt)) 一致
+export function computeCommitment(luckyNum: bigint, salt: Hex): Hex {
+  return keccak256(encodePacked(["uint256", "bytes32"], [luckyNum, salt]));
+}
+
+// 生成一个新的承诺 不传入幸运数字时随机生成
+export function createCommitment(luckyNum?: bigint): Commitment {
+  const num = luckyNum ?? bytesToBigInt(randomBytes(32));
+  const salt = toHex(randomBytes(32));
+  return { luckyNum: num, salt, commitment: computeCommitment(num, salt) };
+}
+
+interface SerializedRecord {
+  projectId: string;
+  addr: Address;
+  luckyNum: string;
+  salt: Hex;
+  commitment: Hex;
+}
+
+async function readRecords(filePath: string): Promise<SerializedRecord[]> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as SerializedRecord[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+// 保存承诺 同一项目同一地址的记录会被覆盖
+export async function saveCommitment(
+  filePath: string,
+  record: CommitmentRecord
+): Promise<void> {
+  const addr = getAddress(record.addr);
+  if (computeCommitment(record.luckyNum, record.salt) !== record.commitment) {
+    throw new Error("Commitment does not match luckyNum and salt");
+  }
+
+  const records = (await readRecords(filePath)).filter(
+    (r) =>
+      !(r.projectId === record.projectId.toString() && getAddress(r.addr) === addr)
+  );
+  records.push({
+    projectId: record.projectId.toString(),
+    addr,
+    luckyNum: record.luckyNum.toString(),
+    salt: record.salt,
+    commitment: record.commitment,
+  });
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(records, null, 2) + "\n");
+}
+
+// 读取某个地址在项目中的承诺 不存在时返回 undefined
+export async function loadCommitment(
+  filePath: string,
+  projectId: bigint,
+  addr: Address
+): Promise<CommitmentRecord | undefined> {
+  const record = (await readRecords(filePath)).find(
+    (r) =>
+      r.projectId === projectId.toString() &&
+      getAddress(r.addr) === getAddress(addr)
+  );
+  if (record === undefined) return undefined;
+  return {
+    projectId: BigInt(record.projectId),
+    addr: record.addr,
+    luckyNum: BigInt(record.luckyNum),
+    salt: record.salt,
+    commitment: record.commitment,
+  };
+}
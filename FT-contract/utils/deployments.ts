@@ -0,0 +1,56 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { getAddress } from "viem";
+import type { Address } from "viem";
+
+/**
+ * 读取 Ignition 部署记录中的 FairTicket 地址
+ *
+ * ignition deploy 会把每个链上部署的合约地址写入 <deployments>/chain-<chainId>/deployed_addresses.json，
+ * key 为 "<模块名>#<合约名>"。FairTicketModule、FairTicketLocalModule 等模块部署的 FairTicket 都以 #FairTicket 结尾。
+ */
+
+// 部署记录文件的路径
+export function deployedAddressesPath(
+  deploymentsDir: string,
+  chainId: number
+): string {
+  return path.join(
+    deploymentsDir,
+    `chain-${chainId}`,
+    "deployed_addresses.json"
+  );
+}
+
+// 读取链上部署的 FairTicket 地址，没有部署记录或存在多个不同的部署时报错
+export async function readDeployedFairTicket(
+  deploymentsDir: string,
+  chainId: number
+): Promise<Address> {
+  const file = deployedAddressesPath(deploymentsDir, chainId);
+  let content: string;
+  try {
+    content = await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`No Ignition deployments found for chain ${chainId}`);
+    }
+    throw error;
+  }
+
+  const deployed = JSON.parse(content) as Record<string, string>;
+  const addresses = new Set(
+    Object.entries(deployed)
+      .filter(([key]) => key.endsWith("#FairTicket"))
+      .map(([, address]) => getAddress(address))
+  );
+  if (addresses.size === 0) {
+    throw new Error(`No FairTicket deployment in ${file}`);
+  }
+  if (addresses.size > 1) {
+    throw new Error(
+      `Multiple FairTicket deployments in ${file}: ${[...addresses].join(", ")}`
+    );
+  }
+  return [...addresses][0];
+}
@@ -0,0 +1,173 @@
+import type { ArtifactMap } from "hardhat/types/artifacts";
+import { BaseError, ContractFunctionRevertedError } from "viem";
+
+/**
+ * 将合约的自定义错误解码为便于阅读的信息
+ *
+ * viem 调用合约失败时抛出的错误链中包含 ContractFunctionRevertedError，
+ * 其中 data 为根据合约 ABI 解码得到的错误名称和参数。
+ */
+
+// DecodedContractError 解码后的合约错误
+export interface DecodedContractError {
+  errorName: string;
+  args: readonly unknown[];
+  message: string;
+}
+
+// FairTicket ABI 中全部自定义错误的名称 包括继承自 openzeppelin 合约的错误
+export type FairTicketErrorName = Extract<
+  ArtifactMap["FairTicket"]["abi"][number],
+  { type: "error" }
+>["name"];
+
+// FairTicketError 合约自定义错误对应的异常 cause 为 viem 抛出的原始错误
+export class FairTicketError<
+  NameT extends FairTicketErrorName = FairTicketErrorName,
+> extends Error {
+  override name = "FairTicketError";
+
+  constructor(
+    readonly errorName: NameT,
+    readonly args: readonly unknown[],
+    description: string,
+    options?: ErrorOptions
+  ) {
+    super(`${errorName}: ${description}`, options);
+  }
+}
+
+type ErrorArgs = readonly unknown[];
+
+// 每个自定义错误对应的说明 未列出的错误直接显示错误名和参数
+const ERROR_MESSAGES: Record<string, (args: ErrorArgs) => string> = {
+  ProjectNotFound: () => "project does not exist",
+  ProjectAlreadyStarted: () => "project has already started",
+  ProjectNotInProgress: () => "project is not in progress",
+  ProjectNotFinished: () => "project is not finished",
+  ProjectAlreadyCancelled: () => "project has been cancelled",
+  ProjectNotCancellable: () =>
+    "only projects that have not finished can be cancelled",
+  TotalSupplyZero: () => "total supply must be greater than zero",
+  FingerprintAlreadyUsed: ([projectId]) =>
+    `fingerprint is already used by project ${projectId}`,
+  ArrayLengthMismatch: () => "array arguments must have the same length",
+  ImportBatchTooLarge: ([maxBatch]) =>
+    `at most ${maxBatch} participants can be imported at once`,
+  ParticipantZero: () => "participant address is zero",
+  OnlyProjectOwner: () => "caller is not the project owner",
+  OnlyProjectManager: ([projectId, account]) =>
+    `${account} is not a manager of project ${projectId}`,
+  ProjectOwnerZero: () => "project owner is the zero address",
+  MerkleRootAlreadySet: () => "merkle root has already been published",
+  OffsetOutOfBounds: () => "offset is out of bounds",
+  LotteryRequestPending: ([requestId]) =>
+    `randomness request ${requestId} is still pending`,
+  OnlyVRFCoordinator: ([have, want]) =>
+    `only the VRF coordinator ${want} can fulfill, got ${have}`,
+  VRFRequestNotFound: ([requestId]) =>
+    `randomness request ${requestId} not found`,
+  VRFRequestNotExpired: ([expiresAt]) =>
+    `randomness request can only be cancelled after ${expiresAt}`,
+  VRFCoordinatorZero: () => "VRF coordinator is the zero address",
+  RevealWindowClosed: ([revealDeadline]) =>
+    `reveal window closed at ${revealDeadline}`,
+  RevealWindowOpen: ([revealDeadline]) =>
+    `reveal window is open until ${revealDeadline}`,
+  NotParticipant: () => "caller is not a participant",
+  AlreadyRevealed: () => "lucky number has already been revealed",
+  CommitmentMismatch: () => "commitment does not match",
+  EntryLimitReached: ([maxEntries]) => `entry limit of ${maxEntries} reached`,
+  NotAllowlisted: ([projectId, addr]) =>
+    `${addr} is not on the allowlist of project ${projectId}`,
+  MaxEntriesZero: () => "max entries must be greater than zero",
+  WeightRootNotSet: () => "weight root is not set",
+  WeightZero: () => "weight must be greater than zero",
+  WeightProofInvalid: ([projectId, addr, weight]) =>
+    `invalid weight proof for ${addr} with weight ${weight} in project ${projectId}`,
+  SignatureExpired: ([deadline]) => `signature expired at ${deadline}`,
+  InvalidSigner: ([signer, participant]) =>
+    `signature signed by ${signer}, expected ${participant}`,
+  MerkleRootNotSet: () => "merkle root is not published yet",
+  MerkleRootZero: () => "merkle root must not be zero",
+  LotteryAlreadyDrawn: () => "lottery has already been drawn",
+  LotteryNotDrawn: () => "lottery is not drawn yet",
+  ClaimWindowOpen: ([claimDeadline]) =>
+    `claim window is open until ${claimDeadline}`,
+  RoundNotFound: ([round]) => `lottery round ${round} not found`,
+  IncorrectPayment: ([expected, actual]) =>
+    `incorrect payment, expected ${expected} but got ${actual}`,
+  AlreadyRefunded: () => "deposit has already been refunded",
+  NothingToRefund: () => "nothing to refund",
+  NothingToWithdraw: () => "nothing to withdraw",
+  EthTransferFailed: () => "ETH transfer failed",
+  TierNotFound: ([tier]) => `ticket tier ${tier} does not exist`,
+  ProjectHasTiers: ([tierCount]) =>
+    `project has ${tierCount} ticket tiers, publish a merkle root per tier`,
+  TierMismatch: ([tier]) =>
+    `tier ${tier} differs from the tier chosen on the first entry`,
+  AlreadyClaimed: () => "ticket has already been claimed",
+  TicketSoldOut: ([totalSupply]) =>
+    `all ${totalSupply} tickets have been claimed`,
+  InvalidTimeWindow: ([startTime, endTime]) =>
+    `invalid time window ${startTime} - ${endTime}`,
+  ProjectNotOpen: ([startTime]) => `project opens at ${startTime}`,
+  ProjectEnded: ([endTime]) => `project ended at ${endTime}`,
+  ProjectEndTimeNotReached: ([endTime]) =>
+    `project end time ${endTime} not reached`,
+  MerkleProofInvalid: ([projectId, sender]) =>
+    `invalid merkle proof for ${sender} in project ${projectId}`,
+  AccessControlUnauthorizedAccount: ([account, role]) =>
+    `${account} is missing role ${role}`,
+  EnforcedPause: () => "contract is paused",
+  ExpectedPause: () => "contract is not paused",
+};
+
+// 从 viem 的错误中解码合约的自定义错误，不是合约 revert 导致的错误时返回 undefined
+export function decodeContractError(
+  error: unknown
+): DecodedContractError | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const reverted = error.walk(
+    (e) => e instanceof ContractFunctionRevertedError
+  );
+  if (!(reverted instanceof ContractFunctionRevertedError)) return undefined;
+  if (reverted.data === undefined) return undefined;
+
+  const errorName = reverted.data.errorName;
+  const args = reverted.data.args ?? [];
+  const describe = ERROR_MESSAGES[errorName];
+  const message =
+    describe !== undefined
+      ? describe(args)
+      : `${errorName}(${args.map((arg) => String(arg)).join(", ")})`;
+  return { errorName, args, message };
+}
+
+// 返回错误的可读信息 合约自定义错误会被解码，其他错误返回 viem 的简短说明
+export function describeContractError(error: unknown): string {
+  const decoded = decodeContractError(error);
+  if (decoded !== undefined) return `${decoded.errorName}: ${decoded.message}`;
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
+
+// 将 viem 的错误转换为 FairTicketError，不是合约 revert 导致的错误时返回 undefined
+export function toFairTicketError(error: unknown): FairTicketError | undefined {
+  const decoded = decodeContractError(error);
+  if (decoded === undefined) return undefined;
+  return new FairTicketError(
+    decoded.errorName as FairTicketErrorName,
+    decoded.args,
+    decoded.message,
+    { cause: error }
+  );
+}
+
+// 判断错误是否为指定的合约自定义错误
+export function isFairTicketError<NameT extends FairTicketErrorName>(
+  error: unknown,
+  errorName: NameT
+): error is FairTicketError<NameT> {
+  return error instanceof FairTicketError && error.errorName === errorName;
+}
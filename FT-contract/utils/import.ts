@@ -0,0 +1,202 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  encodeAbiParameters,
+  getAddress,
+  isAddress,
+  isHex,
+  keccak256,
+} from "viem";
+import type { Address, Hex } from "viem";
+
+/**
+ * 批量导入预先登记的参与者
+ *
+ * CSV每行为 address,commitment[,tier]，commitment 由参与者在登记时通过 utils/commitment.ts 生成，
+ * tier 为参与者所在的门票档位，省略时为第0个档位，
+ * 第一行不是地址时视为表头，空行和以 # 开头的行会被跳过。
+ *
+ * 名单按 chunkSize 分批调用 importParticipants，每批上链后将进度写入本地的进度文件，
+ * 中断后使用同一个进度文件重新运行会从第一个未完成的批次继续。
+ * 进度文件记录了名单的哈希，名单被修改或重新排序后不能继续使用原来的进度文件。
+ * 合约会跳过已经参与的地址，因此进度文件落后于链上状态时重复提交也是安全的。
+ */
+
+// ImportRow CSV中的一行
+export interface ImportRow {
+  addr: Address;
+  commitment: Hex;
+  tier?: bigint;
+}
+
+// ImportProgress 导入进度 imported 为已经上链的行数 rowsHash 为名单的哈希
+export interface ImportProgress {
+  projectId: string;
+  total: number;
+  rowsHash: Hex;
+  imported: number;
+  transactions: Hex[];
+}
+
+// 导入只依赖按档位导入的 importParticipants，hardhat-viem 的合约实例满足该接口
+export interface ParticipantImporter {
+  write: {
+    importParticipants(
+      args: readonly [
+        bigint,
+        readonly Address[],
+        readonly bigint[],
+        readonly Hex[],
+      ]
+    ): Promise<Hex>;
+  };
+}
+
+export interface ReceiptWaiter {
+  waitForTransactionReceipt(args: {
+    hash: Hex;
+  }): Promise<{ status: "success" | "reverted" }>;
+}
+
+export interface ImportOptions {
+  projectId: bigint;
+  rows: readonly ImportRow[];
+  progressFile: string;
+  chunkSize?: number;
+  // 每批上链后的回调 用于输出日志
+  onChunk?: (progress: ImportProgress) => void;
+}
+
+// 与合约中的 MAX_IMPORT_BATCH 保持一致
+export const MAX_IMPORT_CHUNK_SIZE = 200;
+export const DEFAULT_IMPORT_CHUNK_SIZE = 100;
+
+// 解析参与者CSV
+export function parseParticipantCsv(csv: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  const seen = new Set<Address>();
+  let firstRow = true;
+  for (const [index, line] of csv.split(/\r?\n/).entries()) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) continue;
+    const [addrColumn, commitmentColumn = "", tierColumn = ""] = trimmed
+      .split(",")
+      .map((column) => column.trim());
+    const isHeader = firstRow;
+    firstRow = false;
+    if (!isAddress(addrColumn, { strict: false })) {
+      // 只有第一行可以是表头
+      if (isHeader) continue;
+      throw new Error(`Invalid address on line ${index + 1}: ${addrColumn}`);
+    }
+    if (!isHex(commitmentColumn) || commitmentColumn.length !== 66) {
+      throw new Error(`Invalid commitment on line ${index + 1}`);
+    }
+    if (tierColumn !== "" && !/^\d+$/.test(tierColumn)) {
+      throw new Error(`Invalid tier on line ${index + 1}: ${tierColumn}`);
+    }
+    const addr = getAddress(addrColumn);
+    if (seen.has(addr)) {
+      throw new Error(`Duplicate participant address on line ${index + 1}`);
+    }
+    seen.add(addr);
+    rows.push(
+      tierColumn === ""
+        ? { addr, commitment: commitmentColumn }
+        : { addr, commitment: commitmentColumn, tier: BigInt(tierColumn) }
+    );
+  }
+  return rows;
+}
+
+// 计算名单的哈希 地址、档位和承诺按行的顺序参与计算
+export function hashImportRows(rows: readonly ImportRow[]): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address[]" }, { type: "uint256[]" }, { type: "bytes32[]" }],
+      [
+        rows.map((row) => row.addr),
+        rows.map((row) => row.tier ?? 0n),
+        rows.map((row) => row.commitment),
+      ]
+    )
+  );
+}
+
+export async function readImportProgress(
+  filePath: string
+): Promise<ImportProgress | undefined> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as ImportProgress;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+export async function writeImportProgress(
+  filePath: string,
+  progress: ImportProgress
+): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(progress, null, 2) + "\n");
+}
+
+// 分批导入参与者 从进度文件记录的位置继续，返回最终的进度
+// 某一批失败时抛出错误，之前完成的批次已经记录在进度文件中
+export async function importParticipantsInChunks(
+  fairTicket: ParticipantImporter,
+  publicClient: ReceiptWaiter,
+  options: ImportOptions
+): Promise<ImportProgress> {
+  const { projectId, rows, progressFile } = options;
+  const chunkSize = options.chunkSize ?? DEFAULT_IMPORT_CHUNK_SIZE;
+  if (
+    !Number.isInteger(chunkSize) ||
+    chunkSize <= 0 ||
+    chunkSize > MAX_IMPORT_CHUNK_SIZE
+  ) {
+    throw new Error(
+      `Chunk size must be an integer between 1 and ${MAX_IMPORT_CHUNK_SIZE}`
+    );
+  }
+
+  const rowsHash = hashImportRows(rows);
+  const progress = (await readImportProgress(progressFile)) ?? {
+    projectId: projectId.toString(),
+    total: rows.length,
+    rowsHash,
+    imported: 0,
+    transactions: [],
+  };
+  if (
+    progress.projectId !== projectId.toString() ||
+    progress.total !== rows.length ||
+    progress.rowsHash !== rowsHash
+  ) {
+    throw new Error(
+      `Progress file ${progressFile} belongs to a different import`
+    );
+  }
+
+  while (progress.imported < rows.length) {
+    const chunk = rows.slice(progress.imported, progress.imported + chunkSize);
+    const hash = await fairTicket.write.importParticipants([
+      projectId,
+      chunk.map((row) => row.addr),
+      chunk.map((row) => row.tier ?? 0n),
+      chunk.map((row) => row.commitment),
+    ]);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(
+        `Import of rows ${progress.imported}-${progress.imported + chunk.length - 1} reverted in ${hash}`
+      );
+    }
+    progress.imported += chunk.length;
+    progress.transactions.push(hash);
+    await writeImportProgress(progressFile, progress);
+    options.onChunk?.(progress);
+  }
+  return progress;
+}
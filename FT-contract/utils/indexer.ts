@@ -0,0 +1,416 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getAddress, parseAbi } from "viem";
+import type { Address, Hex } from "viem";
+
+/**
+ * FairTicket 事件索引器
+ *
+ * 从合约日志中重建项目和参与者的状态，不再依赖逐页调用 getProjectParticipants：
+ *
+ * 1. 按区块范围分批读取索引器关心的事件，原样追加到事件列表中
+ * 2. 项目和参与者的状态完全由事件列表按 (blockNumber, logIndex) 顺序重放得到
+ * 3. 每次同步前检查已记录区块的哈希，发生重组时回退到最后一个哈希仍然一致的区块，
+ *    丢弃之后的事件并从该区块重新读取日志
+ *
+ * 状态保存在一个JSON文件中，bigint 序列化为 {"$bigint": "<十进制>"}，
+ * 读取时只还原这种带标记的对象，事件参数中的普通字符串（例如取消原因）保持原样。
+ */
+
+// 索引器关心的事件
+export const INDEXED_EVENTS_ABI = parseAbi([
+  "event ProjectCreated(uint256 indexed projectId, bytes32 indexed fingerprint)",
+  "event ProjectStarted(uint256 indexed projectId)",
+  "event ProjectFinished(uint256 indexed projectId)",
+  "event ProjectCancelled(uint256 indexed projectId, string reason)",
+  "event Participated(uint256 indexed projectId, address indexed addr, bytes32 commitment, uint256 entries)",
+  "event WeightClaimed(uint256 indexed projectId, address indexed addr, uint256 weight)",
+  "event LuckyNumRevealed(uint256 indexed projectId, address indexed addr, uint256 luckyNum)",
+  "event MagicNumberPublished(uint256 indexed projectId, uint256 magicNumber)",
+  "event MerkleRootSet(uint256 indexed projectId, bytes32 merkleRoot)",
+  "event TierAdded(uint256 indexed projectId, uint256 indexed tier, bytes32 nameHash, uint256 supply, uint256 price)",
+  "event TierSelected(uint256 indexed projectId, address indexed addr, uint256 tier)",
+]);
+
+// 与合约中 ProjectStatus 枚举的顺序一致
+export const PROJECT_STATUS_NAMES = [
+  "NotStart",
+  "InProgress",
+  "Finished",
+  "LotteryDrawn",
+  "WinnersPublished",
+  "Cancelled",
+] as const;
+
+export type ProjectStatusName = (typeof PROJECT_STATUS_NAMES)[number];
+
+// IndexedEvent 记录在状态文件中的原始事件
+export interface IndexedEvent {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  blockHash: Hex;
+  logIndex: number;
+  transactionHash: Hex;
+}
+
+export interface IndexedParticipant {
+  addr: Address;
+  commitment: Hex;
+  entries: bigint;
+  weight: bigint;
+  luckyNum: bigint;
+  revealed: boolean;
+  // 参与者选择的档位 没有设置档位的项目为0
+  tier: bigint;
+}
+
+// IndexedTier 门票档位 下标即档位编号
+export interface IndexedTier {
+  nameHash: Hex;
+  supply: bigint;
+  price: bigint;
+}
+
+export interface IndexedProject {
+  id: bigint;
+  fingerprint: Hex;
+  status: ProjectStatusName;
+  magicNumber: bigint;
+  merkleRoot: Hex | null;
+  createdAtBlock: bigint;
+  tiers: IndexedTier[];
+  // 参与者按首次参与的顺序排列，与合约中 s_projectid_participants 的顺序一致
+  participants: IndexedParticipant[];
+}
+
+// IndexerState 索引器的持久化状态
+export interface IndexerState {
+  address: Address;
+  fromBlock: bigint;
+  // 已经同步到的区块 以及它的哈希，用于检测没有事件的区块上发生的重组
+  syncedBlock: { number: bigint; hash: Hex } | null;
+  events: IndexedEvent[];
+}
+
+// 索引器只依赖以下几个 viem PublicClient 的方法
+export interface IndexerClient {
+  getBlockNumber(): Promise<bigint>;
+  getBlock(args: { blockNumber: bigint }): Promise<{ hash: Hex | null }>;
+  getContractEvents(args: {
+    address: Address;
+    abi: typeof INDEXED_EVENTS_ABI;
+    fromBlock: bigint;
+    toBlock: bigint;
+  }): Promise<
+    readonly {
+      eventName: string;
+      args: unknown;
+      blockNumber: bigint | null;
+      blockHash: Hex | null;
+      logIndex: number | null;
+      transactionHash: Hex | null;
+    }[]
+  >;
+}
+
+export interface SyncOptions {
+  // 每次 getContractEvents 查询的区块数量
+  batchSize?: bigint;
+  // 同步到的区块，默认为最新区块
+  toBlock?: bigint;
+}
+
+export interface SyncResult {
+  // 发生重组时回退到的区块，没有重组时为 null
+  reorgedTo: bigint | null;
+  newEvents: number;
+  syncedBlock: bigint;
+}
+
+export const DEFAULT_SYNC_BATCH_SIZE = 1000n;
+
+export function createIndexerState(
+  address: Address,
+  fromBlock: bigint = 0n
+): IndexerState {
+  return {
+    address: getAddress(address),
+    fromBlock,
+    syncedBlock: null,
+    events: [],
+  };
+}
+
+// 将 [fromBlock, toBlock] 按 batchSize 切分为连续的区块范围，用于分批读取日志
+export function* blockRanges(
+  fromBlock: bigint,
+  toBlock: bigint,
+  batchSize: bigint = DEFAULT_SYNC_BATCH_SIZE
+): Generator<{ fromBlock: bigint; toBlock: bigint }> {
+  if (batchSize <= 0n) {
+    throw new Error("Batch size must be greater than zero");
+  }
+  for (let from = fromBlock; from <= toBlock; from += batchSize) {
+    const to =
+      from + batchSize - 1n < toBlock ? from + batchSize - 1n : toBlock;
+    yield { fromBlock: from, toBlock: to };
+  }
+}
+
+// 查询区块哈希，区块因为重组已经不存在时返回 null
+async function blockHashAt(
+  client: IndexerClient,
+  blockNumber: bigint
+): Promise<Hex | null> {
+  try {
+    return (await client.getBlock({ blockNumber })).hash;
+  } catch {
+    return null;
+  }
+}
+
+// 找到最后一个哈希与链上一致的已记录区块，返回应该重新开始读取的区块
+async function findResumeBlock(
+  client: IndexerClient,
+  state: IndexerState
+): Promise<{ resumeFrom: bigint; reorged: boolean }> {
+  if (state.syncedBlock === null) {
+    return { resumeFrom: state.fromBlock, reorged: false };
+  }
+  if (
+    (await blockHashAt(client, state.syncedBlock.number)) ===
+    state.syncedBlock.hash
+  ) {
+    return { resumeFrom: state.syncedBlock.number + 1n, reorged: false };
+  }
+  // 从后往前检查有事件的区块，区块哈希一致说明它以及之前的区块都没有被重组
+  const checked = new Set<bigint>();
+  for (let i = state.events.length - 1; i >= 0; i--) {
+    const { blockNumber, blockHash } = state.events[i];
+    if (checked.has(blockNumber)) continue;
+    checked.add(blockNumber);
+    if ((await blockHashAt(client, blockNumber)) === blockHash) {
+      return { resumeFrom: blockNumber + 1n, reorged: true };
+    }
+  }
+  return { resumeFrom: state.fromBlock, reorged: true };
+}
+
+// 同步到最新区块，直接修改传入的 state
+export async function syncIndexer(
+  client: IndexerClient,
+  state: IndexerState,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const batchSize = options.batchSize ?? DEFAULT_SYNC_BATCH_SIZE;
+  if (batchSize <= 0n) {
+    throw new Error("Batch size must be greater than zero");
+  }
+
+  const { resumeFrom, reorged } = await findResumeBlock(client, state);
+  if (reorged) {
+    state.events = state.events.filter((e) => e.blockNumber < resumeFrom);
+    state.syncedBlock = null;
+  }
+
+  const toBlock = options.toBlock ?? (await client.getBlockNumber());
+  let newEvents = 0;
+  for (const range of blockRanges(resumeFrom, toBlock, batchSize)) {
+    const logs = await client.getContractEvents({
+      address: state.address,
+      abi: INDEXED_EVENTS_ABI,
+      ...range,
+    });
+    for (const log of logs) {
+      if (
+        log.blockNumber === null ||
+        log.blockHash === null ||
+        log.logIndex === null ||
+        log.transactionHash === null
+      ) {
+        // 未上链的日志不会出现在区块范围查询中
+        continue;
+      }
+      state.events.push({
+        eventName: log.eventName,
+        args: log.args as Record<string, unknown>,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+      });
+      newEvents += 1;
+    }
+  }
+
+  if (toBlock >= resumeFrom) {
+    const hash = await blockHashAt(client, toBlock);
+    if (hash === null) {
+      throw new Error(`Block ${toBlock} is not available`);
+    }
+    state.syncedBlock = { number: toBlock, hash };
+  }
+  return {
+    reorgedTo: reorged ? resumeFrom - 1n : null,
+    newEvents,
+    syncedBlock: toBlock,
+  };
+}
+
+// 按顺序重放事件，得到全部项目的状态
+export function materializeProjects(
+  events: readonly IndexedEvent[]
+): Map<bigint, IndexedProject> {
+  const ordered = [...events].sort((a, b) =>
+    a.blockNumber !== b.blockNumber
+      ? a.blockNumber < b.blockNumber
+        ? -1
+        : 1
+      : a.logIndex - b.logIndex
+  );
+  const projects = new Map<bigint, IndexedProject>();
+  const projectOf = (event: IndexedEvent) => {
+    const project = projects.get(event.args.projectId as bigint);
+    if (project === undefined) {
+      throw new Error(
+        `${event.eventName} for unknown project ${event.args.projectId}`
+      );
+    }
+    return project;
+  };
+  const participantOf = (event: IndexedEvent) => {
+    const addr = getAddress(event.args.addr as Address);
+    const participant = projectOf(event).participants.find(
+      (p) => p.addr === addr
+    );
+    if (participant === undefined) {
+      throw new Error(`${event.eventName} for unknown participant ${addr}`);
+    }
+    return participant;
+  };
+  // TierSelected 在对应的 Participated 之前触发，先记录下来，创建参与者时使用
+  const selectedTiers = new Map<string, bigint>();
+  const tierKey = (event: IndexedEvent) =>
+    `${event.args.projectId}:${getAddress(event.args.addr as Address)}`;
+
+  for (const event of ordered) {
+    const args = event.args;
+    switch (event.eventName) {
+      case "ProjectCreated":
+        projects.set(args.projectId as bigint, {
+          id: args.projectId as bigint,
+          fingerprint: args.fingerprint as Hex,
+          status: "NotStart",
+          magicNumber: 0n,
+          merkleRoot: null,
+          createdAtBlock: event.blockNumber,
+          tiers: [],
+          participants: [],
+        });
+        break;
+      case "ProjectStarted":
+        projectOf(event).status = "InProgress";
+        break;
+      case "ProjectFinished":
+        projectOf(event).status = "Finished";
+        break;
+      case "ProjectCancelled":
+        projectOf(event).status = "Cancelled";
+        break;
+      case "Participated": {
+        const project = projectOf(event);
+        const addr = getAddress(args.addr as Address);
+        const existing = project.participants.find((p) => p.addr === addr);
+        if (existing === undefined) {
+          project.participants.push({
+            addr,
+            commitment: args.commitment as Hex,
+            entries: args.entries as bigint,
+            weight: 1n,
+            luckyNum: 0n,
+            revealed: false,
+            tier: selectedTiers.get(tierKey(event)) ?? 0n,
+          });
+        } else {
+          existing.entries = args.entries as bigint;
+        }
+        break;
+      }
+      case "TierAdded":
+        projectOf(event).tiers.push({
+          nameHash: args.nameHash as Hex,
+          supply: args.supply as bigint,
+          price: args.price as bigint,
+        });
+        break;
+      case "TierSelected":
+        selectedTiers.set(tierKey(event), args.tier as bigint);
+        break;
+      case "WeightClaimed":
+        participantOf(event).weight = args.weight as bigint;
+        break;
+      case "LuckyNumRevealed": {
+        const participant = participantOf(event);
+        participant.luckyNum = args.luckyNum as bigint;
+        participant.revealed = true;
+        break;
+      }
+      case "MagicNumberPublished": {
+        const project = projectOf(event);
+        project.magicNumber = args.magicNumber as bigint;
+        project.status = "LotteryDrawn";
+        break;
+      }
+      case "MerkleRootSet": {
+        const project = projectOf(event);
+        project.merkleRoot = args.merkleRoot as Hex;
+        project.status = "WinnersPublished";
+        break;
+      }
+    }
+  }
+  return projects;
+}
+
+// bigint 序列化为 {"$bigint": "<十进制>"}
+function replacer(_key: string, value: unknown) {
+  return typeof value === "bigint" ? { $bigint: value.toString() } : value;
+}
+
+function reviver(_key: string, value: unknown) {
+  if (typeof value !== "object" || value === null) return value;
+  const keys = Object.keys(value);
+  const tagged = (value as { $bigint?: unknown }).$bigint;
+  return keys.length === 1 && typeof tagged === "string"
+    ? BigInt(tagged)
+    : value;
+}
+
+export function serializeIndexerState(state: IndexerState): string {
+  return JSON.stringify(state, replacer, 2) + "\n";
+}
+
+export function parseIndexerState(json: string): IndexerState {
+  return JSON.parse(json, reviver) as IndexerState;
+}
+
+// 读取状态文件，文件不存在时返回 undefined
+export async function readIndexerState(
+  filePath: string
+): Promise<IndexerState | undefined> {
+  try {
+    return parseIndexerState(await readFile(filePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+export async function writeIndexerState(
+  filePath: string,
+  state: IndexerState
+): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, serializeIndexerState(state));
+}
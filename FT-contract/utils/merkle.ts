@@ -0,0 +1,94 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SimpleMerkleTree } from "@openzeppelin/merkle-tree";
+import { encodePacked, getAddress, keccak256, zeroHash } from "viem";
+import type { Address, Hex } from "viem";
+
+/**
+ * 中奖者 Merkle 树
+ *
+ * 合约 verifyMerkleProof 中的叶子节点是 keccak256(abi.encodePacked(msg.sender))，只做一次哈希，
+ * 因此这里使用 SimpleMerkleTree 直接以该哈希作为叶子，而不是 StandardMerkleTree 的双重哈希。
+ * SimpleMerkleTree 的节点使用排序后的哈希对，与 openzeppelin 的 MerkleProof.verify 保持一致。
+ */
+
+// WinnerProofs 导出到JSON文件中的中奖证明
+export interface WinnerProofs {
+  projectId: string;
+  root: Hex;
+  proofs: Record<Address, Hex[]>;
+}
+
+// 计算地址对应的叶子节点，与合约中的 keccak256(abi.encodePacked(msg.sender)) 一致
+export function winnerLeaf(addr: Address): Hex {
+  return keccak256(encodePacked(["address"], [addr]));
+}
+
+// 根据中奖者地址构建 Merkle 树
+export function buildWinnerTree(winners: readonly Address[]): SimpleMerkleTree {
+  if (winners.length === 0) {
+    throw new Error("Cannot build a Merkle tree without winners");
+  }
+  const leaves = winners.map((addr) => winnerLeaf(getAddress(addr)));
+  if (new Set(leaves).size !== leaves.length) {
+    throw new Error("Duplicate winner address");
+  }
+  return SimpleMerkleTree.of(leaves);
+}
+
+// 为每个中奖者生成 proof
+export function exportWinnerProofs(
+  projectId: bigint,
+  winners: readonly Address[]
+): WinnerProofs {
+  const tree = buildWinnerTree(winners);
+  const proofs: Record<Address, Hex[]> = {};
+  for (const winner of winners) {
+    const addr = getAddress(winner);
+    proofs[addr] = tree.getProof(winnerLeaf(addr)) as Hex[];
+  }
+  return { projectId: projectId.toString(), root: tree.root as Hex, proofs };
+}
+
+// 为设置了档位的项目按档位生成 proof，没有中奖者的档位为 null
+export function exportTierWinnerProofs(
+  projectId: bigint,
+  tierWinners: readonly (readonly Address[])[]
+): (WinnerProofs | null)[] {
+  return tierWinners.map((winners) =>
+    winners.length === 0 ? null : exportWinnerProofs(projectId, winners)
+  );
+}
+
+// 计算合约 setTierMerkleRoots 记录的项目 merkleRoot，与 keccak256(abi.encodePacked(_merkleRoots)) 一致
+export function tierMerkleRootsHash(merkleRoots: readonly (Hex | null)[]): Hex {
+  return keccak256(
+    encodePacked(["bytes32[]"], [merkleRoots.map((root) => root ?? zeroHash)])
+  );
+}
+
+// 档位 proof 文件的路径，在扩展名之前加上 -tier-<档位>
+export function tierProofsPath(filePath: string, tier: bigint): string {
+  const { dir, name, ext } = path.parse(filePath);
+  return path.join(dir, `${name}-tier-${tier}${ext}`);
+}
+
+// 查询某个地址的 proof，不在中奖名单中时返回 undefined
+export function getWinnerProof(
+  winnerProofs: WinnerProofs,
+  addr: Address
+): Hex[] | undefined {
+  return winnerProofs.proofs[getAddress(addr)];
+}
+
+export async function writeWinnerProofs(
+  filePath: string,
+  winnerProofs: WinnerProofs
+): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(winnerProofs, null, 2) + "\n");
+}
+
+export async function readWinnerProofs(filePath: string): Promise<WinnerProofs> {
+  return JSON.parse(await readFile(filePath, "utf8")) as WinnerProofs;
+}
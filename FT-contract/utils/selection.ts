@@ -0,0 +1,387 @@
+import { encodePacked, getAddress, hexToBigInt, keccak256 } from "viem";
+import type { Address, Hex } from "viem";
+
+/**
+ * FairTicket 链下抽票算法
+ *
+ * 合约只负责记录参与者的 luckyNum 以及抽奖得到的 magicNumber，中奖名单由链下根据以下规则计算，
+ * 任何人拿到链上数据后都可以重新推导出同样的结果：
+ *
+ * 1. 通过 getProjectParticipants 分页读取项目的全部参与者，合约保证每个地址只会出现一次
+ * 2. 忽略在 revealDeadline 之前没有公布幸运数字的参与者
+ * 3. 每个参与者拥有 tickets = entries * weight 张抽票券，
+ *    score = keccak256(abi.encodePacked(uint256 magicNumber, uint256 luckyNum, address addr))，
+ *    排序键 key = -ln(1 - score / 2^256) / tickets，即 Efraimidis–Spirakis 加权抽样的指数形式，
+ *    与为每张抽票券分别计算均匀分数后取最小值的分布相同，中奖概率与抽票券数量成正比，
+ *    但只需要计算一次哈希。ln 使用 KEY_PRECISION 位小数的定点数按 computeKey 中的步骤计算，结果向下取整
+ * 4. 按 key 升序排序，key 相同时按 score 升序排序，score 也相同时按地址升序排序
+ *    key 随 score 单调递增，因此都只有一张抽票券时在定点数精度内与按 score 升序排序相同
+ * 5. 取前 totalSupply 名作为中奖者，参与人数不足 totalSupply 时全部中奖
+ *
+ * 第一轮的领取截止时间之后仍有门票没有被领取时，项目可以进行下一轮抽奖：
+ * 每一轮使用该轮的 magicNumber 对之前轮次都没有中奖的参与者重新排名，取前 supply 名，
+ * supply 为合约在该轮 VRF 回调时记录的剩余门票数量。第一轮的 supply 等于 totalSupply，因此与上面的规则一致。
+ * 在之前的轮次中取回押金的参与者无法再领取门票，因此第r轮同时排除 refundRound 不为0且小于r的参与者。
+ *
+ * 设置了门票档位的项目，每个参与者只参与 getProjectParticipants 返回的 tier 对应的档位，每个档位按上面的规则单独排名，
+ * 取前 tier.supply 名。之后的轮次中，档位的剩余门票为 tier.supply 减去之前轮次该档位已经领取的门票数量，
+ * 同一轮的所有档位使用同一个 magicNumber。
+ */
+
+// Participant 与合约中的 Participant 结构体对应
+// entries 和 weight 未提供时视为1
+export interface Participant {
+  addr: Address;
+  luckyNum: bigint;
+  revealed: boolean;
+  entries?: bigint;
+  weight?: bigint;
+  // 取回押金时项目已经进行的抽奖轮数 未提供或为0时视为没有取回押金
+  refundRound?: bigint;
+}
+
+// RankedParticipant 带有排名依据的参与者
+export interface RankedParticipant {
+  addr: Address;
+  luckyNum: bigint;
+  revealed: boolean;
+  tickets: bigint;
+  score: Hex;
+  key: bigint;
+}
+
+// LotteryRound 与合约中的 LotteryRound 结构体对应 抽票只需要 magicNumber 和 supply
+export interface LotteryRound {
+  magicNumber: bigint;
+  supply: bigint;
+}
+
+// TieredParticipant 带有档位的参与者
+export interface TieredParticipant extends Participant {
+  tier: bigint;
+}
+
+// TierSupply 与合约中 TicketTier 结构体对应 抽票只需要 supply
+export interface TierSupply {
+  supply: bigint;
+}
+
+// 分页读取参与者只依赖以下两个只读函数
+export interface ParticipantPageReader<P extends Participant = Participant> {
+  read: {
+    getProjectParticipantsAmount(args: readonly [bigint]): Promise<bigint>;
+    getProjectParticipants(
+      args: readonly [bigint, bigint, bigint]
+    ): Promise<readonly P[]>;
+  };
+}
+
+// 抽票只依赖以下几个只读函数，hardhat-viem 的合约实例和自行构造的 viem 合约实例都满足该接口
+export interface FairTicketReader extends ParticipantPageReader {
+  read: ParticipantPageReader["read"] & {
+    getProjectInfo(args: readonly [bigint]): Promise<{ totalSupply: bigint }>;
+    getMagicNumber(args: readonly [bigint]): Promise<bigint>;
+    getRoundCount(args: readonly [bigint]): Promise<bigint>;
+    getLotteryRound(args: readonly [bigint, bigint]): Promise<LotteryRound>;
+  };
+}
+
+// 设置了档位的项目还需要读取档位以及参与者选择的档位，之后的轮次需要读取领取状态
+export interface TieredFairTicketReader extends FairTicketReader {
+  read: Omit<
+    FairTicketReader["read"],
+    "getProjectInfo" | "getProjectParticipants"
+  > & {
+    getProjectInfo(
+      args: readonly [bigint]
+    ): Promise<{ totalSupply: bigint; tierCount: bigint }>;
+    getProjectParticipants(
+      args: readonly [bigint, bigint, bigint]
+    ): Promise<readonly TieredParticipant[]>;
+    s_projectid_tiers(
+      args: readonly [bigint, bigint]
+    ): Promise<readonly [Hex, bigint, bigint, bigint, Hex]>;
+    hasClaimed(args: readonly [bigint, Address]): Promise<boolean>;
+  };
+}
+
+export const DEFAULT_PAGE_SIZE = 100n;
+
+// 排序键定点数的小数位数
+export const KEY_PRECISION = 128n;
+
+const ONE = 1n << KEY_PRECISION;
+
+// 定点数 atanh(z) = z + z^3/3 + z^5/5 + ...，|z| <= 1/3 时每一项至少缩小为上一项的1/9
+function atanh(z: bigint): bigint {
+  const z2 = (z * z) >> KEY_PRECISION;
+  let sum = 0n;
+  let term = z;
+  for (let i = 1n; term !== 0n; i += 2n) {
+    sum += term / i;
+    term = (term * z2) >> KEY_PRECISION;
+  }
+  return sum;
+}
+
+// ln(2) = 2 * atanh(1/3)
+const LN2 = 2n * atanh(ONE / 3n);
+
+// 计算参与者第0张抽票券的分数
+export function computeScore(
+  magicNumber: bigint,
+  participant: Participant
+): Hex {
+  return keccak256(
+    encodePacked(
+      ["uint256", "uint256", "address"],
+      [magicNumber, participant.luckyNum, participant.addr]
+    )
+  );
+}
+
+// 计算参与者的抽票券数量
+export function ticketCount(participant: Participant): bigint {
+  const tickets = (participant.entries ?? 1n) * (participant.weight ?? 1n);
+  if (tickets <= 0n) {
+    throw new Error("Participant must hold at least one ticket");
+  }
+  return tickets;
+}
+
+// 根据分数和抽票券数量计算排序键 key = -ln(1 - score / 2^256) / tickets
+// 令 v = 2^256 - score = 2^k * m，其中 k 为 v 的最高位，1 <= m < 2，
+// 则 -ln(v / 2^256) = (256 - k) * ln(2) - ln(m)，ln(m) = 2 * atanh((m - 1) / (m + 1))
+export function computeKey(score: Hex, tickets: bigint): bigint {
+  if (tickets <= 0n) {
+    throw new Error("Participant must hold at least one ticket");
+  }
+  const v = (1n << 256n) - hexToBigInt(score);
+  const k = BigInt(v.toString(2).length - 1);
+  const m = (v << KEY_PRECISION) >> k;
+  const lnM = 2n * atanh(((m - ONE) << KEY_PRECISION) / (m + ONE));
+  return ((256n - k) * LN2 - lnM) / tickets;
+}
+
+// 过滤未公布幸运数字的记录并按分数排名，返回完整的排名列表
+export function rankParticipants(
+  magicNumber: bigint,
+  participants: readonly Participant[]
+): RankedParticipant[] {
+  const addresses = new Set(participants.map((p) => getAddress(p.addr)));
+  if (addresses.size !== participants.length) {
+    throw new Error("Duplicate participant address");
+  }
+
+  const revealed = participants.filter((p) => p.revealed);
+  const ranked = revealed.map((participant) => {
+    const tickets = ticketCount(participant);
+    const score = computeScore(magicNumber, participant);
+    return {
+      addr: getAddress(participant.addr),
+      luckyNum: participant.luckyNum,
+      revealed: participant.revealed,
+      tickets,
+      score,
+      key: computeKey(score, tickets),
+    };
+  });
+
+  return ranked.sort((a, b) => {
+    if (a.key !== b.key) return a.key < b.key ? -1 : 1;
+    const diff = hexToBigInt(a.score) - hexToBigInt(b.score);
+    if (diff !== 0n) return diff < 0n ? -1 : 1;
+    return hexToBigInt(a.addr) < hexToBigInt(b.addr) ? -1 : 1;
+  });
+}
+
+// 根据 magicNumber 从参与者中选出 totalSupply 个中奖者，返回值按排名先后排列
+export function selectWinners(
+  magicNumber: bigint,
+  participants: readonly Participant[],
+  totalSupply: bigint
+): RankedParticipant[] {
+  if (magicNumber === 0n) {
+    throw new Error("Magic number is not published yet");
+  }
+  return rankParticipants(magicNumber, participants).slice(
+    0,
+    Number(totalSupply)
+  );
+}
+
+// 参与者在第 round 轮抽奖之前是否已经取回押金 轮次从1开始
+function refundedBefore(participant: Participant, round: number): boolean {
+  const refundRound = participant.refundRound ?? 0n;
+  return refundRound !== 0n && refundRound < BigInt(round);
+}
+
+// 依次计算每一轮的中奖名单 每一轮排除之前轮次的中奖者以及已经取回押金的参与者，返回值第i项为第i+1轮的中奖者
+export function selectRoundWinners(
+  rounds: readonly LotteryRound[],
+  participants: readonly Participant[]
+): RankedParticipant[][] {
+  const previousWinners = new Set<Address>();
+  return rounds.map((round, i) => {
+    const winners = selectWinners(
+      round.magicNumber,
+      participants.filter(
+        (p) =>
+          !previousWinners.has(getAddress(p.addr)) && !refundedBefore(p, i + 1)
+      ),
+      round.supply
+    );
+    for (const winner of winners) previousWinners.add(winner.addr);
+    return winners;
+  });
+}
+
+// 依次计算每一轮每个档位的中奖名单，返回值第i项为第i+1轮的结果，其中第t项为档位t的中奖者
+// claimed 为已经领取门票的地址，用于计算之后轮次每个档位的剩余门票
+export function selectTierRoundWinners(
+  rounds: readonly LotteryRound[],
+  participants: readonly TieredParticipant[],
+  tiers: readonly TierSupply[],
+  claimed: ReadonlySet<Address> = new Set()
+): RankedParticipant[][][] {
+  if (participants.some((p) => p.tier >= BigInt(tiers.length))) {
+    throw new Error("Participant tier does not exist");
+  }
+  const claimedAmounts = tiers.map(() => 0n);
+  const previousWinners = new Set<Address>();
+  return rounds.map((round, i) => {
+    const winners = tiers.map((tier, t) =>
+      selectWinners(
+        round.magicNumber,
+        participants.filter(
+          (p) =>
+            p.tier === BigInt(t) &&
+            !previousWinners.has(getAddress(p.addr)) &&
+            !refundedBefore(p, i + 1)
+        ),
+        tier.supply - claimedAmounts[t]
+      )
+    );
+    winners.forEach((tierWinners, t) => {
+      for (const winner of tierWinners) {
+        previousWinners.add(winner.addr);
+        if (claimed.has(winner.addr)) claimedAmounts[t] += 1n;
+      }
+    });
+    return winners;
+  });
+}
+
+// 分页读取项目的全部参与者 合约返回的参与者包含选择的档位
+export async function fetchProjectParticipants<P extends Participant>(
+  fairTicket: ParticipantPageReader<P>,
+  projectId: bigint,
+  pageSize: bigint = DEFAULT_PAGE_SIZE
+): Promise<P[]> {
+  if (pageSize <= 0n) {
+    throw new Error("Page size must be greater than zero");
+  }
+
+  const total = await fairTicket.read.getProjectParticipantsAmount([projectId]);
+  const participants: P[] = [];
+  for (let offset = 0n; offset < total; offset += pageSize) {
+    const page = await fairTicket.read.getProjectParticipants([
+      projectId,
+      offset,
+      pageSize,
+    ]);
+    participants.push(...page);
+  }
+  return participants;
+}
+
+// 读取项目全部轮次的抽奖结果
+export async function fetchLotteryRounds(
+  fairTicket: FairTicketReader,
+  projectId: bigint
+): Promise<LotteryRound[]> {
+  const count = await fairTicket.read.getRoundCount([projectId]);
+  const rounds: LotteryRound[] = [];
+  for (let round = 1n; round <= count; round++) {
+    const { magicNumber, supply } = await fairTicket.read.getLotteryRound([
+      projectId,
+      round,
+    ]);
+    rounds.push({ magicNumber, supply });
+  }
+  return rounds;
+}
+
+// 从链上读取数据并计算项目最新一轮的中奖名单
+export async function drawProjectWinners(
+  fairTicket: FairTicketReader,
+  projectId: bigint,
+  pageSize: bigint = DEFAULT_PAGE_SIZE
+): Promise<RankedParticipant[]> {
+  const [project, magicNumber, rounds, participants] = await Promise.all([
+    fairTicket.read.getProjectInfo([projectId]),
+    fairTicket.read.getMagicNumber([projectId]),
+    fetchLotteryRounds(fairTicket, projectId),
+    fetchProjectParticipants(fairTicket, projectId, pageSize),
+  ]);
+  if (rounds.length === 0) {
+    return selectWinners(magicNumber, participants, project.totalSupply);
+  }
+  return selectRoundWinners(rounds, participants).at(-1)!;
+}
+
+// 读取项目的全部门票档位 没有设置档位时返回空数组
+export async function fetchTiers(
+  fairTicket: TieredFairTicketReader,
+  projectId: bigint
+): Promise<TierSupply[]> {
+  const { tierCount } = await fairTicket.read.getProjectInfo([projectId]);
+  const tiers: TierSupply[] = [];
+  for (let tier = 0n; tier < tierCount; tier++) {
+    const [, supply] = await fairTicket.read.s_projectid_tiers([
+      projectId,
+      tier,
+    ]);
+    tiers.push({ supply });
+  }
+  return tiers;
+}
+
+// 读取参与者中已经领取门票的地址
+export async function fetchClaimedAddresses(
+  fairTicket: TieredFairTicketReader,
+  projectId: bigint,
+  participants: readonly Participant[]
+): Promise<Set<Address>> {
+  const claimed = await Promise.all(
+    participants.map((p) => fairTicket.read.hasClaimed([projectId, p.addr]))
+  );
+  return new Set(
+    participants.filter((_, i) => claimed[i]).map((p) => getAddress(p.addr))
+  );
+}
+
+// 从链上读取数据并计算设置了档位的项目最新一轮每个档位的中奖名单，返回值第t项为档位t的中奖者
+export async function drawProjectTierWinners(
+  fairTicket: TieredFairTicketReader,
+  projectId: bigint,
+  pageSize: bigint = DEFAULT_PAGE_SIZE
+): Promise<RankedParticipant[][]> {
+  const [tiers, rounds, participants] = await Promise.all([
+    fetchTiers(fairTicket, projectId),
+    fetchLotteryRounds(fairTicket, projectId),
+    fetchProjectParticipants(fairTicket, projectId, pageSize),
+  ]);
+  if (tiers.length === 0) {
+    throw new Error("Project has no ticket tiers");
+  }
+  if (rounds.length === 0) {
+    throw new Error("Magic number is not published yet");
+  }
+  // 只有之前轮次的领取情况会影响剩余门票，第一轮不需要读取领取状态
+  const claimed =
+    rounds.length > 1
+      ? await fetchClaimedAddresses(fairTicket, projectId, participants)
+      : new Set<Address>();
+  return selectTierRoundWinners(rounds, participants, tiers, claimed).at(-1)!;
+}
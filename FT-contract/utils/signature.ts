@@ -0,0 +1,144 @@
+import { readFile } from "node:fs/promises";
+import { getAddress } from "viem";
+import type { Account, Address, Hex, WalletClient } from "viem";
+
+/**
+ * EIP-712 签名参与
+ *
+ * 参与者在链下对 Participate(projectId, participant, tier, commitment, nonce, deadline) 签名，
+ * 由中继者调用 participateWithSig 提交，参与者自己不需要持有ETH。
+ * 签名的是幸运数字的承诺，幸运数字本身仍然在项目结束后由参与者自己 reveal。
+ * tier 为参与者选择的门票档位，没有设置档位的项目为0。
+ * 设置了白名单的项目还需要参与者的白名单 proof，proof 是公开数据，不包含在签名中，
+ * 与签名一起保存，由中继者提交。
+ */
+
+export const PARTICIPATE_TYPES = {
+  Participate: [
+    { name: "projectId", type: "uint256" },
+    { name: "participant", type: "address" },
+    { name: "tier", type: "uint256" },
+    { name: "commitment", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+// SignedParticipation 一次签名参与，中继者提交时需要的全部数据
+export interface SignedParticipation {
+  projectId: bigint;
+  participant: Address;
+  tier: bigint;
+  commitment: Hex;
+  nonce: bigint;
+  deadline: bigint;
+  signature: Hex;
+  // 白名单证明 项目没有设置白名单时省略
+  proof?: Hex[];
+}
+
+export interface ParticipationDomain {
+  chainId: number;
+  verifyingContract: Address;
+}
+
+// 与合约中 EIP712("FairTicket", "1") 一致的签名域
+export function participationDomain({
+  chainId,
+  verifyingContract,
+}: ParticipationDomain) {
+  return {
+    name: "FairTicket",
+    version: "1",
+    chainId,
+    verifyingContract: getAddress(verifyingContract),
+  } as const;
+}
+
+// 对参与信息进行签名 nonce需要与合约中 nonces(participant) 的当前值一致
+// tier 未指定时签名第0个档位 proof 原样附加在返回的签名参与中
+export async function signParticipation(
+  walletClient: WalletClient,
+  domain: ParticipationDomain,
+  entry: Omit<SignedParticipation, "participant" | "tier" | "signature"> & {
+    account: Account;
+    tier?: bigint;
+  }
+): Promise<SignedParticipation> {
+  const participant = getAddress(entry.account.address);
+  const message = {
+    projectId: entry.projectId,
+    participant,
+    tier: entry.tier ?? 0n,
+    commitment: entry.commitment,
+    nonce: entry.nonce,
+    deadline: entry.deadline,
+  };
+  const signature = await walletClient.signTypedData({
+    account: entry.account,
+    domain: participationDomain(domain),
+    types: PARTICIPATE_TYPES,
+    primaryType: "Participate",
+    message,
+  });
+  const signed: SignedParticipation = { ...message, signature };
+  if (entry.proof !== undefined) signed.proof = entry.proof;
+  return signed;
+}
+
+// 加入档位之前保存的文件没有 tier 字段 读取时视为第0个档位
+interface SerializedParticipation {
+  projectId: string;
+  participant: Address;
+  tier?: string;
+  commitment: Hex;
+  nonce: string;
+  deadline: string;
+  signature: Hex;
+  proof?: Hex[];
+}
+
+export function serializeParticipations(
+  entries: readonly SignedParticipation[]
+): string {
+  const serialized = entries.map((entry) => {
+    const serializedEntry: SerializedParticipation = {
+      projectId: entry.projectId.toString(),
+      participant: entry.participant,
+      tier: entry.tier.toString(),
+      commitment: entry.commitment,
+      nonce: entry.nonce.toString(),
+      deadline: entry.deadline.toString(),
+      signature: entry.signature,
+    };
+    if (entry.proof !== undefined) serializedEntry.proof = entry.proof;
+    return serializedEntry;
+  });
+  return JSON.stringify(serialized, null, 2) + "\n";
+}
+
+export function parseParticipations(json: string): SignedParticipation[] {
+  const serialized = JSON.parse(json) as SerializedParticipation[];
+  if (!Array.isArray(serialized)) {
+    throw new Error("Signed participations must be a JSON array");
+  }
+  return serialized.map((entry) => {
+    const parsed: SignedParticipation = {
+      projectId: BigInt(entry.projectId),
+      participant: getAddress(entry.participant),
+      tier: BigInt(entry.tier ?? 0),
+      commitment: entry.commitment,
+      nonce: BigInt(entry.nonce),
+      deadline: BigInt(entry.deadline),
+      signature: entry.signature,
+    };
+    if (entry.proof !== undefined) parsed.proof = entry.proof;
+    return parsed;
+  });
+}
+
+export async function readParticipations(
+  filePath: string
+): Promise<SignedParticipation[]> {
+  return parseParticipations(await readFile(filePath, "utf8"));
+}
@@ -0,0 +1,172 @@
+import { encodePacked, keccak256, zeroHash } from "viem";
+import type { Address, Hex } from "viem";
+import { PROJECT_STATUS_NAMES, type ProjectStatusName } from "./indexer.js";
+import { buildWinnerTree } from "./merkle.js";
+import {
+  DEFAULT_PAGE_SIZE,
+  fetchClaimedAddresses,
+  fetchLotteryRounds,
+  fetchProjectParticipants,
+  fetchTiers,
+  selectRoundWinners,
+  selectTierRoundWinners,
+  type RankedParticipant,
+  type TieredFairTicketReader,
+} from "./selection.js";
+
+/**
+ * 公开验证抽票结果
+ *
+ * 只使用链上数据：分页读取参与者和 magicNumber，按 selection.ts 中记录的算法重新计算中奖名单，
+ * 再用 merkle.ts 中相同的叶子格式构建 Merkle 树，与 getProjectInfo().merkleRoot 比较。
+ * 项目进行了多轮抽奖时，依次重新计算每一轮的中奖名单，只验证最新一轮的 Merkle root。
+ * 设置了门票档位的项目，每个档位单独构建 Merkle 树，链上记录的 merkleRoot 为
+ * keccak256(abi.encodePacked(bytes32[] tierRoots))，没有中奖者的档位的 root 为0。
+ * 任何人都可以在任意网络上运行该验证，不需要项目方的后端或导出的 proof 文件。
+ */
+
+// VerifyCheck 单项检查的结果
+export interface VerifyCheck {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+// VerifyReport 验证报告
+export interface VerifyReport {
+  projectId: bigint;
+  status: ProjectStatusName;
+  totalSupply: bigint;
+  // round 最新的抽奖轮次 未抽奖时为0
+  round: number;
+  // supply 最新一轮的中奖人数
+  supply: bigint;
+  magicNumber: bigint;
+  participants: number;
+  revealed: number;
+  winners: Address[];
+  // tierWinners 设置了档位的项目每个档位的中奖者 没有设置档位时为空数组
+  tierWinners: Address[][];
+  expectedRoot: Hex | null;
+  onchainRoot: Hex | null;
+  checks: VerifyCheck[];
+  passed: boolean;
+}
+
+// 验证只依赖以下几个只读函数
+export interface VerifyReader extends TieredFairTicketReader {
+  read: Omit<TieredFairTicketReader["read"], "getProjectInfo"> & {
+    getProjectInfo(
+      args: readonly [bigint]
+    ): Promise<{ totalSupply: bigint; tierCount: bigint; merkleRoot: Hex }>;
+    getProjectStatus(args: readonly [bigint]): Promise<number>;
+  };
+}
+
+// 从链上读取数据重新计算中奖名单，并与链上发布的 Merkle root 比较
+export async function verifyProjectDraw(
+  fairTicket: VerifyReader,
+  projectId: bigint,
+  pageSize: bigint = DEFAULT_PAGE_SIZE
+): Promise<VerifyReport> {
+  const [info, status, magicNumber, rounds, tiers, participants] =
+    await Promise.all([
+      fairTicket.read.getProjectInfo([projectId]),
+      fairTicket.read.getProjectStatus([projectId]),
+      fairTicket.read.getMagicNumber([projectId]),
+      fetchLotteryRounds(fairTicket, projectId),
+      fetchTiers(fairTicket, projectId),
+      fetchProjectParticipants(fairTicket, projectId, pageSize),
+    ]);
+  const onchainRoot = info.merkleRoot === zeroHash ? null : info.merkleRoot;
+  const supply = rounds.at(-1)?.supply ?? info.totalSupply;
+  const toAddresses = (ranked: readonly RankedParticipant[]) =>
+    ranked.map((winner) => winner.addr);
+
+  let winners: Address[] = [];
+  let tierWinners: Address[][] = [];
+  let expectedRoot: Hex | null = null;
+  if (rounds.length > 0 && tiers.length > 0) {
+    const claimed =
+      rounds.length > 1
+        ? await fetchClaimedAddresses(fairTicket, projectId, participants)
+        : new Set<Address>();
+    tierWinners = selectTierRoundWinners(rounds, participants, tiers, claimed)
+      .at(-1)!
+      .map(toAddresses);
+    winners = tierWinners.flat();
+    const tierRoots = tierWinners.map((addrs) =>
+      addrs.length === 0 ? zeroHash : (buildWinnerTree(addrs).root as Hex)
+    );
+    expectedRoot =
+      winners.length === 0
+        ? null
+        : keccak256(encodePacked(["bytes32[]"], [tierRoots]));
+  } else if (rounds.length > 0) {
+    winners = toAddresses(selectRoundWinners(rounds, participants).at(-1)!);
+    expectedRoot =
+      winners.length === 0 ? null : (buildWinnerTree(winners).root as Hex);
+  }
+
+  const checks: VerifyCheck[] = [
+    {
+      name: "Magic number published",
+      passed: magicNumber !== 0n,
+      detail: magicNumber === 0n ? "lottery not drawn yet" : `${magicNumber}`,
+    },
+    {
+      name: "Winners recomputed",
+      passed: winners.length > 0,
+      detail: `${winners.length} winners for ${supply} tickets`,
+    },
+    {
+      name: "Merkle root published",
+      passed: onchainRoot !== null,
+      detail: onchainRoot ?? "SetMerkleRoot not called yet",
+    },
+    {
+      name: "Merkle root matches",
+      passed: expectedRoot !== null && expectedRoot === onchainRoot,
+      detail: `expected ${expectedRoot ?? "none"}`,
+    },
+  ];
+
+  return {
+    projectId,
+    status: PROJECT_STATUS_NAMES[status],
+    totalSupply: info.totalSupply,
+    round: rounds.length,
+    supply,
+    magicNumber,
+    participants: participants.length,
+    revealed: participants.filter((p) => p.revealed).length,
+    winners,
+    tierWinners,
+    expectedRoot,
+    onchainRoot,
+    checks,
+    passed: checks.every((check) => check.passed),
+  };
+}
+
+// 将验证报告格式化为便于阅读的文本
+export function formatVerifyReport(report: VerifyReport): string[] {
+  return [
+    `Project ${report.projectId} (${report.status})`,
+    `  participants: ${report.participants} (${report.revealed} revealed)`,
+    `  total supply: ${report.totalSupply}`,
+    ...(report.round > 1
+      ? [`  round: ${report.round} (${report.supply} remaining tickets)`]
+      : []),
+    ...(report.tierWinners.length > 0
+      ? report.tierWinners.flatMap((addrs, t) =>
+          addrs.map((addr, i) => `  tier ${t} winner #${i + 1}: ${addr}`)
+        )
+      : report.winners.map((addr, i) => `  winner #${i + 1}: ${addr}`)),
+    ...report.checks.map(
+      (check) =>
+        `  [${check.passed ? "PASS" : "FAIL"}] ${check.name}: ${check.detail}`
+    ),
+    report.passed ? "Verification passed" : "Verification failed",
+  ];
+}
@@ -0,0 +1,72 @@
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { getAddress } from "viem";
+import type { Address, Hex } from "viem";
+
+/**
+ * 参与者权重 Merkle 树
+ *
+ * 项目方在链下根据会员等级等规则为地址分配权重，构建 (地址, 权重) 的 Merkle 树，
+ * 在项目开始前通过 setWeightRoot 发布 root，参与者使用 claimWeight 提交自己的权重和证明。
+ * 合约中的叶子节点是 keccak256(bytes.concat(keccak256(abi.encode(addr, weight))))，
+ * 与 StandardMerkleTree 的 ["address", "uint256"] 编码一致。
+ */
+
+// WeightEntry 单个地址的权重
+export interface WeightEntry {
+  addr: Address;
+  weight: bigint;
+}
+
+// WeightProofs 导出到JSON文件中的权重证明
+export interface WeightProofs {
+  projectId: string;
+  root: Hex;
+  weights: Record<Address, { weight: string; proof: Hex[] }>;
+}
+
+export const WEIGHT_LEAF_ENCODING = ["address", "uint256"];
+
+// 根据地址和权重构建 Merkle 树
+export function buildWeightTree(
+  entries: readonly WeightEntry[]
+): StandardMerkleTree<[Address, bigint]> {
+  if (entries.length === 0) {
+    throw new Error("Cannot build a Merkle tree without weights");
+  }
+  const values = entries.map(({ addr, weight }): [Address, bigint] => {
+    if (weight <= 0n) {
+      throw new Error(`Weight of ${addr} must be greater than zero`);
+    }
+    return [getAddress(addr), weight];
+  });
+  if (new Set(values.map(([addr]) => addr)).size !== values.length) {
+    throw new Error("Duplicate weight address");
+  }
+  return StandardMerkleTree.of(values, WEIGHT_LEAF_ENCODING);
+}
+
+// 为每个地址生成权重证明
+export function exportWeightProofs(
+  projectId: bigint,
+  entries: readonly WeightEntry[]
+): WeightProofs {
+  const tree = buildWeightTree(entries);
+  const weights: WeightProofs["weights"] = {};
+  for (const [index, [addr, weight]] of tree.entries()) {
+    weights[addr] = {
+      weight: weight.toString(),
+      proof: tree.getProof(index) as Hex[],
+    };
+  }
+  return { projectId: projectId.toString(), root: tree.root as Hex, weights };
+}
+
+// 查询某个地址的权重和证明，不在权重名单中时返回 undefined
+export function getWeightProof(
+  weightProofs: WeightProofs,
+  addr: Address
+): { weight: bigint; proof: Hex[] } | undefined {
+  const entry = weightProofs.weights[getAddress(addr)];
+  if (entry === undefined) return undefined;
+  return { weight: BigInt(entry.weight), proof: entry.proof };
+}